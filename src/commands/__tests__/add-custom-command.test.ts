@@ -59,6 +59,28 @@ suite('Add Custom Command Tests', () => {
       )
       assert.strictEqual(customCommandsWebviewCreateOrShowStub.firstCall.args.length, 2)
     })
+
+    test('should ask for the workspace folder in multi-root workspaces', async () => {
+      const mockContext: vscode.ExtensionContext = {
+        extensionUri: vscode.Uri.file('/test/extension'),
+        extensionMode: vscode.ExtensionMode.Development,
+        subscriptions: []
+      } as unknown as vscode.ExtensionContext
+      const secondFolder = { uri: vscode.Uri.file('/test/second'), name: 'second', index: 1 }
+
+      sandbox
+        .stub(vscode.workspace, 'workspaceFolders')
+        .value([{ uri: vscode.Uri.file('/test/first'), name: 'first', index: 0 }, secondFolder])
+      sandbox.stub(vscode.window, 'showWorkspaceFolderPick').resolves(secondFolder)
+
+      await addCustomCommand(mockContext)
+
+      assert.strictEqual(customCommandsWebviewCreateOrShowStub.calledOnce, true)
+      assert.strictEqual(
+        customCommandsWebviewCreateOrShowStub.firstCall.args[3],
+        secondFolder.uri.toString()
+      )
+    })
   })
 
   suite('editCustomCommand', () => {
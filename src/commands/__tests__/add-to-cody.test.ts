@@ -3,13 +3,26 @@ import * as sinon from 'sinon'
 import * as vscode from 'vscode'
 import { TELEMETRY_EVENTS } from '../../constants/telemetry'
 import * as codyCommands from '../../core/cody/commands'
+import * as fileImports from '../../core/filesystem/imports'
 import * as fileOperations from '../../core/filesystem/operations'
 import * as fileProcessor from '../../core/filesystem/processor'
+import * as gitChanges from '../../core/git/changes'
 import * as llmModule from '../../core/llm'
+import * as hierarchicalSelection from '../../core/llm/hierarchical'
 import * as llmUtils from '../../core/llm/utils'
+import { ProviderProfileService } from '../../services/providerProfile.service'
+import { SmartAddHistoryService } from '../../services/smartAddHistory.service'
 import { TelemetryService } from '../../services/telemetry.service'
 import * as workspaceConfigUtils from '../../utils/workspace-config'
-import { addFile, addFilesSmart, addFolder, addSelection } from '../add-to-cody'
+import {
+  addFile,
+  addFileWithRelated,
+  addFilesSmart,
+  addFolder,
+  addGitChanges,
+  addSelection,
+  refineSmartAdd
+} from '../add-to-cody'
 import * as providerCommands from '../provider-commands'
 
 suite('Add to Cody Commands Tests', () => {
@@ -63,6 +76,16 @@ suite('Add to Cody Commands Tests', () => {
       })
     })
 
+    test('should add the test counterparts of a file when requested', async () => {
+      const testUri = vscode.Uri.file('/test/file.js')
+      getSelectedFileUrisStub.resolves([testUri])
+      executeMentionFileCommandStub.resolves(true)
+
+      await addFile(testUri, true)
+
+      assert.strictEqual(getSelectedFileUrisStub.firstCall.args[1].includeTestPairs, true)
+    })
+
     test('should handle errors when adding a file', async () => {
       const testUri = vscode.Uri.file('/test/file.js')
       const testError = new Error('Test error')
@@ -118,6 +141,16 @@ suite('Add to Cody Commands Tests', () => {
       })
     })
 
+    test('should pass the preview option when adding a selection with preview', async () => {
+      const folderUris = [vscode.Uri.file('/test/folder'), vscode.Uri.file('/test/file.js')]
+      getSelectedFolderCountStub.resolves({ folderCount: 1, fileUris: [] })
+
+      await addSelection(folderUris, true, false, true)
+
+      assert.strictEqual(getSelectedFolderCountStub.firstCall.args[1].preview, true)
+      assert.strictEqual(getSelectedFolderCountStub.firstCall.args[1].recursive, true)
+    })
+
     test('should add selected files to Cody recursively', async () => {
       const testUri1 = vscode.Uri.file('/test/file1.js')
       const testUri2 = vscode.Uri.file('/test/file2.js')
@@ -160,6 +193,17 @@ suite('Add to Cody Commands Tests', () => {
       )
       assert.strictEqual(telemetryTrackStub.called, false)
     })
+
+    test('should add the test counterparts of the selection when requested', async () => {
+      const testUri = vscode.Uri.file('/test/file1.js')
+      getSelectedFolderCountStub.resolves({ folderCount: 0, fileUris: [testUri] })
+      executeMentionFileCommandStub.resolves(true)
+
+      await addSelection([testUri], false, true)
+
+      assert.strictEqual(getSelectedFolderCountStub.firstCall.args[1].includeTestPairs, true)
+      assert.strictEqual(getSelectedFolderCountStub.firstCall.args[1].recursive, false)
+    })
   })
 
   suite('addFolder', () => {
@@ -226,6 +270,16 @@ suite('Add to Cody Commands Tests', () => {
       })
     })
 
+    test('should pass the preview option when adding a folder with preview', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+      getSelectedFolderCountStub.resolves({ folderCount: 0, fileUris: [] })
+
+      await addFolder(folderUri, true, true)
+
+      assert.strictEqual(getSelectedFolderCountStub.firstCall.args[1].preview, true)
+      assert.strictEqual(getSelectedFolderCountStub.firstCall.args[1].recursive, true)
+    })
+
     test('should handle errors when adding a folder', async () => {
       const folderUri = vscode.Uri.file('/test/folder')
       const testError = new Error('Test error')
@@ -243,6 +297,151 @@ suite('Add to Cody Commands Tests', () => {
     })
   })
 
+  suite('addGitChanges', () => {
+    let getChangedFileUrisStub: sinon.SinonStub
+    let getSelectedFileUrisStub: sinon.SinonStub
+    let executeMentionFileCommandStub: sinon.SinonStub
+    let showErrorMessageStub: sinon.SinonStub
+    let showInformationMessageStub: sinon.SinonStub
+
+    setup(() => {
+      getChangedFileUrisStub = sandbox.stub(gitChanges, 'getChangedFileUris')
+      getSelectedFileUrisStub = sandbox.stub(fileProcessor, 'getSelectedFileUris')
+      executeMentionFileCommandStub = sandbox.stub(codyCommands, 'executeMentionFileCommand')
+      showErrorMessageStub = sandbox.stub(vscode.window, 'showErrorMessage')
+      showInformationMessageStub = sandbox.stub(vscode.window, 'showInformationMessage')
+    })
+
+    test('should add changed files through the file processing pipeline', async () => {
+      const changedUris = [
+        vscode.Uri.file('/test/repo/src/app.ts'),
+        vscode.Uri.file('/test/repo/dist/app.js')
+      ]
+      getChangedFileUrisStub.resolves(changedUris)
+      getSelectedFileUrisStub.resolves([changedUris[0]])
+      executeMentionFileCommandStub.resolves(true)
+
+      await addGitChanges('staged')
+
+      assert.strictEqual(getChangedFileUrisStub.calledOnceWith('staged', undefined), true)
+      assert.deepStrictEqual(getSelectedFileUrisStub.firstCall.args[0], changedUris)
+      assert.strictEqual(executeMentionFileCommandStub.callCount, 1)
+      assert.strictEqual(
+        telemetryTrackStub.firstCall.args[0],
+        TELEMETRY_EVENTS.FILES.ADD_GIT_CHANGES
+      )
+      assert.deepStrictEqual(telemetryTrackStub.firstCall.args[1], {
+        fileCount: 1,
+        scope: 'staged'
+      })
+    })
+
+    test('should tell the user when there are no changed files', async () => {
+      getChangedFileUrisStub.resolves([])
+
+      await addGitChanges('uncommitted')
+
+      assert.strictEqual(showInformationMessageStub.calledOnceWith('No changed files found.'), true)
+      assert.strictEqual(getSelectedFileUrisStub.called, false)
+    })
+
+    test('should do nothing when the user cancels', async () => {
+      getChangedFileUrisStub.resolves(undefined)
+
+      await addGitChanges('branch')
+
+      assert.strictEqual(getSelectedFileUrisStub.called, false)
+      assert.strictEqual(showInformationMessageStub.called, false)
+      assert.strictEqual(telemetryTrackStub.called, false)
+    })
+
+    test('should show an error when git changes cannot be read', async () => {
+      getChangedFileUrisStub.rejects(new Error('No git repository found in the workspace.'))
+
+      await addGitChanges('uncommitted')
+
+      assert.strictEqual(
+        showErrorMessageStub.firstCall.args[0],
+        'Failed to add changed files to Cody: No git repository found in the workspace.'
+      )
+    })
+  })
+
+  suite('addFileWithRelated', () => {
+    let collectRelatedFilesStub: sinon.SinonStub
+    let getSelectedFileUrisStub: sinon.SinonStub
+    let executeMentionFileCommandStub: sinon.SinonStub
+    let showErrorMessageStub: sinon.SinonStub
+    let showWarningMessageStub: sinon.SinonStub
+
+    const fileUri = vscode.Uri.file('/test/src/service.ts')
+    const dependencyUri = vscode.Uri.file('/test/src/repository.ts')
+    const dependentUri = vscode.Uri.file('/test/src/controller.ts')
+
+    setup(() => {
+      collectRelatedFilesStub = sandbox.stub(fileImports, 'collectRelatedFiles')
+      sandbox.stub(fileImports, 'getRelatedFilesOptions').returns({
+        depth: 2,
+        useLanguageServer: false
+      })
+      getSelectedFileUrisStub = sandbox.stub(fileProcessor, 'getSelectedFileUris')
+      executeMentionFileCommandStub = sandbox.stub(codyCommands, 'executeMentionFileCommand')
+      showErrorMessageStub = sandbox.stub(vscode.window, 'showErrorMessage')
+      showWarningMessageStub = sandbox.stub(vscode.window, 'showWarningMessage')
+    })
+
+    test('should preview the file with its dependencies and dependents', async () => {
+      collectRelatedFilesStub.resolves({
+        dependencies: [dependencyUri],
+        dependents: [dependentUri]
+      })
+      getSelectedFileUrisStub.resolves([fileUri, dependencyUri])
+      executeMentionFileCommandStub.resolves(true)
+
+      await addFileWithRelated(fileUri)
+
+      assert.deepStrictEqual(collectRelatedFilesStub.firstCall.args, [
+        fileUri,
+        { depth: 2, useLanguageServer: false }
+      ])
+      assert.deepStrictEqual(getSelectedFileUrisStub.firstCall.args[0], [
+        fileUri,
+        dependencyUri,
+        dependentUri
+      ])
+      assert.strictEqual(getSelectedFileUrisStub.firstCall.args[1].preview, true)
+      assert.strictEqual(executeMentionFileCommandStub.callCount, 2)
+      assert.strictEqual(
+        telemetryTrackStub.firstCall.args[0],
+        TELEMETRY_EVENTS.FILES.ADD_RELATED_FILES
+      )
+      assert.deepStrictEqual(telemetryTrackStub.firstCall.args[1], {
+        fileCount: 2,
+        dependencyCount: 1,
+        dependentCount: 1
+      })
+    })
+
+    test('should warn when no file is open or selected', async () => {
+      await addFileWithRelated(undefined)
+
+      assert.strictEqual(showWarningMessageStub.calledOnce, true)
+      assert.strictEqual(collectRelatedFilesStub.called, false)
+    })
+
+    test('should show an error when related files cannot be collected', async () => {
+      collectRelatedFilesStub.rejects(new Error('Test error'))
+
+      await addFileWithRelated(fileUri)
+
+      assert.strictEqual(
+        showErrorMessageStub.firstCall.args[0],
+        'Failed to add related files to Cody: Test error'
+      )
+      assert.strictEqual(telemetryTrackStub.called, false)
+    })
+  })
+
   suite('addFilesSmart', () => {
     let showInputBoxStub: sinon.SinonStub
     let createProviderStub: sinon.SinonStub
@@ -261,6 +460,11 @@ suite('Add to Cody Commands Tests', () => {
     let selectProviderStub: sinon.SinonStub
     let executeCommandStub: sinon.SinonStub
     let selectProviderDirectStub: sinon.SinonStub
+    let showQuickPickStub: sinon.SinonStub
+    let addHistoryEntryStub: sinon.SinonStub
+    let updateHistoryFilesStub: sinon.SinonStub
+    let getActiveProfileStub: sinon.SinonStub
+    let getProfileProviderOptionsStub: sinon.SinonStub
 
     // Declare fsStatStub here but initialize it in setup
     let fsStatStub: sinon.SinonStub
@@ -326,6 +530,10 @@ suite('Add to Cody Commands Tests', () => {
       showErrorMessageStub = sandbox.stub(vscode.window, 'showErrorMessage')
       showWarningMessageStub = sandbox.stub(vscode.window, 'showWarningMessage')
       asRelativePathStub = sandbox.stub(vscode.workspace, 'asRelativePath')
+      // Accept every file shown for review
+      showQuickPickStub = sandbox
+        .stub(vscode.window, 'showQuickPick')
+        .callsFake(async (items: any) => items)
 
       // Stub executeCommand for selectProvider
       selectProviderStub = sandbox.stub().resolves(true)
@@ -339,6 +547,22 @@ suite('Add to Cody Commands Tests', () => {
 
       // Stub the directly imported selectProvider function
       selectProviderDirectStub = sandbox.stub(providerCommands, 'selectProvider').resolves(true)
+
+      // Mock the Smart Add history
+      addHistoryEntryStub = sandbox.stub().resolves({ id: 'run-1' })
+      updateHistoryFilesStub = sandbox.stub().resolves()
+      sandbox.stub(SmartAddHistoryService, 'getInstance').returns({
+        addEntry: addHistoryEntryStub,
+        updateFiles: updateHistoryFilesStub
+      } as any)
+
+      // No provider profile is active unless a test switches to one
+      getActiveProfileStub = sandbox.stub().returns(undefined)
+      getProfileProviderOptionsStub = sandbox.stub().resolves({})
+      sandbox.stub(ProviderProfileService, 'getInstance').returns({
+        getActiveProfile: getActiveProfileStub,
+        getProviderOptions: getProfileProviderOptionsStub
+      } as any)
     })
 
     test('should add files using AI when prompt and provider are provided', async () => {
@@ -410,6 +634,101 @@ suite('Add to Cody Commands Tests', () => {
       })
     })
 
+    test('should run a preset prompt without asking for one and record the run', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+
+      getProviderConfigStub.resolves('openai')
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves([
+        { name: 'file1.js', path: '/test/folder/file1.js', type: 'file' }
+      ])
+      createCompletionRequestMessagesStub.resolves([{ role: 'user', content: 'test prompt' }])
+      parseLLMResponseStub.returns(['file1.js'])
+      executeMentionFileCommandStub.resolves(true)
+      formatFileTreeStub.returns('formatted tree')
+      asRelativePathStub.returns('folder')
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext, 'previous prompt')
+
+      assert.strictEqual(showInputBoxStub.called, false)
+      assert.strictEqual(
+        createCompletionRequestMessagesStub.calledOnceWith('previous prompt', folderUri),
+        true
+      )
+      assert.strictEqual(executeMentionFileCommandStub.callCount, 1)
+      assert.deepStrictEqual(addHistoryEntryStub.firstCall.args[0], {
+        prompt: 'previous prompt',
+        rootUri: folderUri.toString(),
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        files: ['file1.js']
+      })
+    })
+
+    test('should use the provider and model of the active profile', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+      const profileOptions = { apiKey: 'profile-key', model: 'claude-3-5-haiku-latest' }
+
+      getActiveProfileStub.returns({
+        name: 'fast',
+        provider: 'anthropic',
+        model: 'claude-3-5-haiku-latest'
+      })
+      getProfileProviderOptionsStub.resolves(profileOptions)
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves([
+        { name: 'file1.js', path: '/test/folder/file1.js', type: 'file' }
+      ])
+      createCompletionRequestMessagesStub.resolves([{ role: 'user', content: 'test prompt' }])
+      parseLLMResponseStub.returns(['file1.js'])
+      executeMentionFileCommandStub.resolves(true)
+      formatFileTreeStub.returns('formatted tree')
+      asRelativePathStub.returns('folder')
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext, 'test files')
+
+      assert.strictEqual(getProviderConfigStub.called, false)
+      assert.deepStrictEqual(createProviderStub.firstCall.args, ['anthropic', profileOptions])
+      assert.strictEqual(addHistoryEntryStub.firstCall.args[0].provider, 'anthropic')
+      assert.strictEqual(addHistoryEntryStub.firstCall.args[0].model, 'claude-3-5-haiku-latest')
+    })
+
+    test('should give the tree to providers selecting files themselves', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+      const fileTree = [
+        { name: 'file1.js', path: '/test/folder/file1.js', type: 'file' },
+        { name: 'file2.js', path: '/test/folder/file2.js', type: 'file' }
+      ]
+      const selectFilesStub = sandbox
+        .stub()
+        .resolves([
+          { path: '/test/folder/file2.js', reason: 'Path matches "file2"', confidence: 1 }
+        ])
+      createProviderStub.returns({ complete: mockLlmComplete, selectFiles: selectFilesStub })
+
+      getProviderConfigStub.resolves('local')
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves(fileTree)
+      executeMentionFileCommandStub.resolves(true)
+      formatFileTreeStub.returns('formatted tree')
+      asRelativePathStub.returns('folder')
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext, 'file2')
+
+      assert.strictEqual(mockLlmComplete.called, false)
+      assert.strictEqual(createCompletionRequestMessagesStub.called, false)
+      assert.deepStrictEqual(selectFilesStub.firstCall.args[0], {
+        query: 'file2',
+        rootPath: folderUri.fsPath,
+        fileTree
+      })
+      assert.strictEqual(executeMentionFileCommandStub.callCount, 1)
+      assert.strictEqual(
+        executeMentionFileCommandStub.firstCall.args[0].fsPath,
+        '/test/folder/file2.js'
+      )
+    })
+
     test('should prompt for provider setup if none exists, then proceed', async () => {
       const folderUri = vscode.Uri.file('/test/folder')
       const prompt = 'test files'
@@ -544,6 +863,51 @@ suite('Add to Cody Commands Tests', () => {
       })
     })
 
+    test('should scan the workspace folder owning the selection in multi-root workspaces', async () => {
+      const firstFolder = { uri: vscode.Uri.file('/test/first'), name: 'first', index: 0 }
+      const secondFolder = { uri: vscode.Uri.file('/test/second'), name: 'second', index: 1 }
+      const fileUri = vscode.Uri.file('/test/second/src/app.ts')
+
+      sandbox.stub(vscode.workspace, 'workspaceFolders').value([firstFolder, secondFolder])
+      sandbox.stub(vscode.workspace, 'getWorkspaceFolder').withArgs(fileUri).returns(secondFolder)
+      showInputBoxStub.resolves('test files')
+      getProviderConfigStub.resolves({ provider: 'openai', apiKey: 'key', model: 'gpt-4' })
+      fsStatStub.resolves({ type: vscode.FileType.File } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves([])
+      createCompletionRequestMessagesStub.resolves([{ role: 'user', content: 'test prompt' }])
+      parseLLMResponseStub.returns([])
+      formatFileTreeStub.returns('formatted tree')
+
+      await addFilesSmart([fileUri], {} as vscode.ExtensionContext)
+
+      assert.strictEqual(getWorkspaceFileTreeStub.firstCall.args[0], secondFolder.uri)
+      assert.strictEqual(
+        createCompletionRequestMessagesStub.calledOnceWith('test files', secondFolder.uri),
+        true
+      )
+    })
+
+    test('should ask for the workspace folder when run without a selection in multi-root workspaces', async () => {
+      const firstFolder = { uri: vscode.Uri.file('/test/first'), name: 'first', index: 0 }
+      const secondFolder = { uri: vscode.Uri.file('/test/second'), name: 'second', index: 1 }
+
+      sandbox.stub(vscode.workspace, 'workspaceFolders').value([firstFolder, secondFolder])
+      const showWorkspaceFolderPickStub = sandbox
+        .stub(vscode.window, 'showWorkspaceFolderPick')
+        .resolves(undefined)
+      showInputBoxStub.resolves('test files')
+      getProviderConfigStub.resolves({ provider: 'openai', apiKey: 'key', model: 'gpt-4' })
+
+      await addFilesSmart([undefined as unknown as vscode.Uri], {} as vscode.ExtensionContext)
+
+      assert.strictEqual(showWorkspaceFolderPickStub.calledOnce, true)
+      assert.strictEqual(
+        showErrorMessageStub.calledOnceWith('No workspace or folder selected.'),
+        true
+      )
+      assert.strictEqual(getWorkspaceFileTreeStub.called, false)
+    })
+
     test('should cancel operation when user cancels prompt', async () => {
       const folderUri = vscode.Uri.file('/test/folder')
       const context = {} as vscode.ExtensionContext
@@ -683,5 +1047,213 @@ suite('Add to Cody Commands Tests', () => {
         showInformationMessageStub.firstCall.args[0].includes('0/2 files successfully added')
       )
     })
+
+    test('should only add files of the scanned tree and report rejected paths', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+
+      showInputBoxStub.resolves('test files')
+      getProviderConfigStub.resolves({ provider: 'openai', apiKey: 'key', model: 'gpt-4' })
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves([
+        { name: 'lib', path: '/test/folder/lib', type: 'directory' },
+        { name: 'file1.js', path: '/test/folder/lib/file1.js', type: 'file' }
+      ])
+      createCompletionRequestMessagesStub.resolves([{ role: 'user', content: 'test prompt' }])
+      parseLLMResponseStub.returns([
+        '/test/folder/lib/file1.js',
+        '/test/folder/lib',
+        '/test/folder/hallucinated.js',
+        '/etc/passwd'
+      ])
+      executeMentionFileCommandStub.resolves(true)
+      formatFileTreeStub.returns('formatted tree')
+      asRelativePathStub.returns('folder')
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext)
+
+      assert.strictEqual(executeMentionFileCommandStub.callCount, 1)
+      assert.strictEqual(
+        executeMentionFileCommandStub.firstCall.args[0].fsPath,
+        vscode.Uri.file('/test/folder/lib/file1.js').fsPath
+      )
+      const { detail } = showInformationMessageStub.firstCall.args[1]
+      assert.ok(detail.includes('Rejected 3 paths:'))
+      assert.ok(detail.includes('/test/folder/lib (a folder, not a file)'))
+      assert.ok(detail.includes('/test/folder/hallucinated.js (not found)'))
+      assert.ok(detail.includes('/etc/passwd (outside the selected folder)'))
+    })
+
+    test('should add confident files and let the user review the others', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+
+      showInputBoxStub.resolves('auth files')
+      getProviderConfigStub.resolves({ provider: 'openai', apiKey: 'key', model: 'gpt-4' })
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves([
+        { name: 'auth.js', path: '/test/folder/auth.js', type: 'file' },
+        { name: 'session.js', path: '/test/folder/session.js', type: 'file' },
+        { name: 'utils.js', path: '/test/folder/utils.js', type: 'file' }
+      ])
+      createCompletionRequestMessagesStub.resolves([{ role: 'user', content: 'test prompt' }])
+      parseLLMResponseStub.returns([
+        { path: 'auth.js', reason: 'Login logic', confidence: 0.95 },
+        { path: 'session.js', reason: 'Session tokens', confidence: 0.6 },
+        { path: 'utils.js', reason: 'Shared helpers', confidence: 0.3 }
+      ])
+      // Reject the least confident file
+      showQuickPickStub.callsFake(async (items: any[]) =>
+        items.filter(item => item.label !== 'utils.js')
+      )
+      executeMentionFileCommandStub.resolves(true)
+      formatFileTreeStub.returns('formatted tree')
+      asRelativePathStub.returns('folder')
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext)
+
+      const [items, options] = showQuickPickStub.firstCall.args
+      assert.deepStrictEqual(
+        items.map((item: any) => [item.label, item.description, item.detail]),
+        [
+          ['session.js', '60% confidence', 'Session tokens'],
+          ['utils.js', '30% confidence', 'Shared helpers']
+        ]
+      )
+      assert.strictEqual(options.canPickMany, true)
+      assert.deepStrictEqual(
+        executeMentionFileCommandStub.getCalls().map(call => call.args[0].fsPath),
+        [
+          vscode.Uri.file('/test/folder/auth.js').fsPath,
+          vscode.Uri.file('/test/folder/session.js').fsPath
+        ]
+      )
+    })
+
+    test('should not add files when the review is cancelled', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+
+      showInputBoxStub.resolves('auth files')
+      getProviderConfigStub.resolves({ provider: 'openai', apiKey: 'key', model: 'gpt-4' })
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves([
+        { name: 'auth.js', path: '/test/folder/auth.js', type: 'file' }
+      ])
+      createCompletionRequestMessagesStub.resolves([{ role: 'user', content: 'test prompt' }])
+      parseLLMResponseStub.returns([{ path: 'auth.js', reason: 'Login logic', confidence: 0.4 }])
+      showQuickPickStub.resolves(undefined)
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext)
+
+      assert.strictEqual(showQuickPickStub.calledOnce, true)
+      assert.strictEqual(executeMentionFileCommandStub.called, false)
+      assert.strictEqual(telemetryTrackStub.called, false)
+      assert.strictEqual(showInformationMessageStub.called, false)
+    })
+
+    test('should refine the last selection with a follow-up and show the diff', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+      const file = (name: string) => ({ name, path: `/test/folder/${name}`, type: 'file' })
+
+      showInputBoxStub.onFirstCall().resolves('auth files')
+      showInputBoxStub.onSecondCall().resolves('drop the tests, add the session')
+      getProviderConfigStub.resolves({ provider: 'openai', apiKey: 'key', model: 'gpt-4' })
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves([file('auth.js'), file('auth.test.js'), file('session.js')])
+      createCompletionRequestMessagesStub.resolves([{ role: 'user', content: 'auth files' }])
+      mockLlmComplete.onFirstCall().resolves({
+        text: JSON.stringify({
+          files: [
+            { path: 'auth.js', reason: 'Login', confidence: 1 },
+            { path: 'auth.test.js', reason: 'Login tests', confidence: 0.9 }
+          ]
+        })
+      })
+      mockLlmComplete.onSecondCall().resolves({
+        text: JSON.stringify({
+          files: [
+            { path: 'auth.js', reason: 'Login', confidence: 1 },
+            { path: 'session.js', reason: 'Sessions', confidence: 0.9 }
+          ]
+        })
+      })
+      parseLLMResponseStub.callsFake((text: string) => JSON.parse(text).files)
+      executeMentionFileCommandStub.resolves(true)
+      formatFileTreeStub.returns('formatted tree')
+      asRelativePathStub.returns('folder')
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext)
+      executeMentionFileCommandStub.resetHistory()
+      await refineSmartAdd()
+
+      // The previous selection and the follow-up are appended to the conversation
+      const { messages } = mockLlmComplete.secondCall.args[0]
+      assert.deepStrictEqual(messages[0], { role: 'user', content: 'auth files' })
+      assert.deepStrictEqual(JSON.parse(messages[1].content).files, [
+        { path: 'auth.js', reason: 'Login', confidence: 1 },
+        { path: 'auth.test.js', reason: 'Login tests', confidence: 0.9 }
+      ])
+      assert.ok(messages[2].content.includes('drop the tests, add the session'))
+
+      // Only the new file is added, and the diff is shown
+      assert.deepStrictEqual(
+        executeMentionFileCommandStub.getCalls().map(call => call.args[0].fsPath),
+        [vscode.Uri.file('/test/folder/session.js').fsPath]
+      )
+      const { detail } = showInformationMessageStub.secondCall.args[1]
+      assert.ok(detail.includes('Added 1 file:\n+ session.js'))
+      assert.ok(detail.includes('Removed 1 file:\n- auth.test.js'))
+      assert.strictEqual(
+        telemetryTrackStub.secondCall.args[0],
+        TELEMETRY_EVENTS.FILES.REFINE_SMART_SELECTION
+      )
+      assert.deepStrictEqual(telemetryTrackStub.secondCall.args[1], {
+        fileCount: 1,
+        removedCount: 1
+      })
+      assert.deepStrictEqual(updateHistoryFilesStub.firstCall.args, [
+        'run-1',
+        ['auth.js', 'session.js']
+      ])
+    })
+
+    test('should select directories first when the file tree is too large for one request', async () => {
+      const folderUri = vscode.Uri.file('/test/folder')
+      const smartAddOptions = {
+        mode: 'auto',
+        chunkTokens: 8000,
+        maxConcurrentRequests: 4,
+        pathObfuscation: 'none',
+        autoAcceptConfidence: 0.8
+      }
+      const mockFileTree = [
+        { name: 'file1.js', path: '/test/folder/file1.js', type: 'file' },
+        { name: 'file2.js', path: '/test/folder/file2.js', type: 'file' }
+      ]
+
+      showInputBoxStub.resolves('test files')
+      getProviderConfigStub.resolves({ provider: 'openai', apiKey: 'key', model: 'gpt-4' })
+      fsStatStub.resolves({ type: vscode.FileType.Directory } as vscode.FileStat)
+      getWorkspaceFileTreeStub.resolves(mockFileTree)
+      sandbox.stub(hierarchicalSelection, 'getSmartAddOptions').returns(smartAddOptions as any)
+      sandbox.stub(hierarchicalSelection, 'shouldUseHierarchicalSelection').returns(true)
+      const selectFilesHierarchicallyStub = sandbox
+        .stub(hierarchicalSelection, 'selectFilesHierarchically')
+        .resolves(['/test/folder/file2.js'])
+      executeMentionFileCommandStub.resolves(true)
+      formatFileTreeStub.returns('formatted tree')
+      asRelativePathStub.returns('folder')
+
+      await addFilesSmart([folderUri], {} as vscode.ExtensionContext)
+
+      const [, prompt, rootPath, fileTree, options] = selectFilesHierarchicallyStub.firstCall.args
+      assert.strictEqual(prompt, 'test files')
+      assert.strictEqual(rootPath, folderUri.fsPath)
+      assert.deepStrictEqual(fileTree, mockFileTree)
+      assert.strictEqual(options, smartAddOptions)
+      // The whole tree is never sent in a single request
+      assert.strictEqual(createCompletionRequestMessagesStub.called, false)
+      assert.strictEqual(mockLlmComplete.called, false)
+      assert.strictEqual(executeMentionFileCommandStub.callCount, 1)
+      assert.deepStrictEqual(telemetryTrackStub.firstCall.args[1], { fileCount: 1, folderCount: 1 })
+    })
   })
 })
@@ -0,0 +1,234 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { TELEMETRY_EVENTS } from '../../constants/telemetry'
+import * as codyCommands from '../../core/cody/commands'
+import * as fileProcessor from '../../core/filesystem/processor'
+import { ContextSetService } from '../../services/contextSet.service'
+import { TelemetryService } from '../../services/telemetry.service'
+import {
+  addContextSet,
+  deleteContextSet,
+  renameContextSet,
+  rememberAddedFiles,
+  saveContextSet
+} from '../context-sets'
+
+suite('Context Set Commands Tests', () => {
+  const workspaceFolder = { uri: vscode.Uri.file('/test/workspace'), name: 'workspace', index: 0 }
+  const otherFolder = { uri: vscode.Uri.file('/test/other'), name: 'other', index: 1 }
+  const folderUri = workspaceFolder.uri.toString()
+
+  let sandbox: sinon.SinonSandbox
+  let telemetryTrackStub: sinon.SinonStub
+  let contextSetService: Record<string, sinon.SinonStub>
+  let showInputBoxStub: sinon.SinonStub
+  let showWarningMessageStub: sinon.SinonStub
+  let showErrorMessageStub: sinon.SinonStub
+  let showInformationMessageStub: sinon.SinonStub
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+
+    telemetryTrackStub = sandbox.stub()
+    sandbox.stub(TelemetryService, 'getInstance').returns({ trackEvent: telemetryTrackStub } as any)
+
+    contextSetService = {
+      getContextSet: sandbox.stub(),
+      getContextSetsByFolder: sandbox.stub().returns([]),
+      saveContextSet: sandbox.stub().resolves(),
+      renameContextSet: sandbox.stub().resolves(),
+      removeContextSet: sandbox.stub().resolves(),
+      resolveContextSet: sandbox.stub().resolves([])
+    }
+    sandbox.stub(ContextSetService, 'getInstance').returns(contextSetService as any)
+
+    sandbox
+      .stub(vscode.workspace, 'getWorkspaceFolder')
+      .callsFake((uri: vscode.Uri) =>
+        [workspaceFolder, otherFolder].find(folder => uri.fsPath.startsWith(folder.uri.fsPath))
+      )
+    showInputBoxStub = sandbox.stub(vscode.window, 'showInputBox')
+    showWarningMessageStub = sandbox.stub(vscode.window, 'showWarningMessage')
+    showErrorMessageStub = sandbox.stub(vscode.window, 'showErrorMessage')
+    showInformationMessageStub = sandbox.stub(vscode.window, 'showInformationMessage')
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  suite('saveContextSet', () => {
+    test('should save the last added files relative to their workspace folder', async () => {
+      rememberAddedFiles([
+        vscode.Uri.file('/test/workspace/src/auth.ts'),
+        vscode.Uri.file('/test/workspace/src/session.ts'),
+        vscode.Uri.file('/elsewhere/outside.ts')
+      ])
+      showInputBoxStub.onFirstCall().resolves(' auth stack ')
+      showInputBoxStub.onSecondCall().resolves('src/auth/**, , src/middleware/*.ts')
+
+      await saveContextSet()
+
+      assert.deepStrictEqual(contextSetService.saveContextSet.firstCall.args, [
+        'auth stack',
+        { files: ['src/auth.ts', 'src/session.ts'], globs: ['src/auth/**', 'src/middleware/*.ts'] },
+        folderUri
+      ])
+      assert.strictEqual(
+        showInformationMessageStub.firstCall.args[0],
+        'Context set "auth stack" saved. 1 added files outside the workspace folders were not saved.'
+      )
+    })
+
+    test('should save a set in each workspace folder owning added files', async () => {
+      rememberAddedFiles([
+        vscode.Uri.file('/test/workspace/src/auth.ts'),
+        vscode.Uri.file('/test/other/lib/session.ts')
+      ])
+      showInputBoxStub.onFirstCall().resolves('auth stack')
+      showInputBoxStub.onSecondCall().resolves('')
+
+      await saveContextSet()
+
+      assert.deepStrictEqual(
+        contextSetService.saveContextSet.getCalls().map(call => call.args),
+        [
+          ['auth stack', { files: ['src/auth.ts'], globs: [] }, folderUri],
+          ['auth stack', { files: ['lib/session.ts'], globs: [] }, otherFolder.uri.toString()]
+        ]
+      )
+      assert.strictEqual(
+        showInformationMessageStub.firstCall.args[0],
+        'Context set "auth stack" saved in 2 workspace folders.'
+      )
+    })
+
+    test('should ask before replacing an existing context set', async () => {
+      rememberAddedFiles([vscode.Uri.file('/test/workspace/src/auth.ts')])
+      showInputBoxStub.resolves('auth stack')
+      contextSetService.getContextSet.returns({ files: [], globs: [] })
+      showWarningMessageStub.resolves(undefined)
+
+      await saveContextSet()
+
+      assert.strictEqual(showWarningMessageStub.calledOnce, true)
+      assert.strictEqual(contextSetService.saveContextSet.called, false)
+    })
+
+    test('should not save when the name prompt is cancelled', async () => {
+      rememberAddedFiles([vscode.Uri.file('/test/workspace/src/auth.ts')])
+      showInputBoxStub.resolves(undefined)
+
+      await saveContextSet()
+
+      assert.strictEqual(contextSetService.saveContextSet.called, false)
+    })
+  })
+
+  suite('addContextSet', () => {
+    let getSelectedFileUrisStub: sinon.SinonStub
+    let executeMentionFileCommandStub: sinon.SinonStub
+
+    setup(() => {
+      getSelectedFileUrisStub = sandbox.stub(fileProcessor, 'getSelectedFileUris')
+      executeMentionFileCommandStub = sandbox.stub(codyCommands, 'executeMentionFileCommand')
+    })
+
+    test('should add the resolved files through the file processing pipeline', async () => {
+      const resolvedUris = [
+        vscode.Uri.file('/test/workspace/src/auth.ts'),
+        vscode.Uri.file('/test/workspace/src/auth/session.ts')
+      ]
+      contextSetService.resolveContextSet.resolves(resolvedUris)
+      getSelectedFileUrisStub.resolves(resolvedUris)
+      executeMentionFileCommandStub.resolves(true)
+
+      await addContextSet({ name: 'auth stack', folderUri })
+
+      assert.deepStrictEqual(contextSetService.resolveContextSet.firstCall.args, [
+        'auth stack',
+        folderUri
+      ])
+      assert.deepStrictEqual(getSelectedFileUrisStub.firstCall.args[0], resolvedUris)
+      assert.strictEqual(executeMentionFileCommandStub.callCount, 2)
+      assert.strictEqual(telemetryTrackStub.firstCall.args[0], TELEMETRY_EVENTS.CONTEXT_SETS.ADDED)
+      assert.deepStrictEqual(telemetryTrackStub.firstCall.args[1], { fileCount: 2 })
+    })
+
+    test('should let the user pick a context set when none is given', async () => {
+      contextSetService.getContextSetsByFolder.returns([
+        {
+          folderUri,
+          folderName: 'workspace',
+          contextSets: { billing: { files: ['src/billing.ts'], globs: [] } }
+        }
+      ])
+      const showQuickPickStub = sandbox
+        .stub(vscode.window, 'showQuickPick')
+        .callsFake(async (items: any) => (await items)[0])
+
+      await addContextSet()
+
+      assert.strictEqual(showQuickPickStub.calledOnce, true)
+      assert.deepStrictEqual(contextSetService.resolveContextSet.firstCall.args, [
+        'billing',
+        folderUri
+      ])
+      assert.strictEqual(getSelectedFileUrisStub.called, false)
+    })
+
+    test('should show an error when the context set cannot be resolved', async () => {
+      contextSetService.resolveContextSet.rejects(new Error('Context set "x" does not exist.'))
+
+      await addContextSet({ name: 'x', folderUri })
+
+      assert.strictEqual(
+        showErrorMessageStub.firstCall.args[0],
+        'Failed to add context set to Cody: Context set "x" does not exist.'
+      )
+      assert.strictEqual(telemetryTrackStub.called, false)
+    })
+  })
+
+  suite('renameContextSet and deleteContextSet', () => {
+    test('should rename a context set with the entered name', async () => {
+      showInputBoxStub.resolves('billing API')
+
+      await renameContextSet({ name: 'billing', folderUri })
+
+      assert.deepStrictEqual(contextSetService.renameContextSet.firstCall.args, [
+        'billing',
+        'billing API',
+        folderUri
+      ])
+    })
+
+    test('should report rename failures', async () => {
+      showInputBoxStub.resolves('auth stack')
+      contextSetService.renameContextSet.rejects(
+        new Error('Context set "auth stack" already exists.')
+      )
+
+      await renameContextSet({ name: 'billing', folderUri })
+
+      assert.strictEqual(
+        showErrorMessageStub.firstCall.args[0],
+        'Failed to rename context set: Context set "auth stack" already exists.'
+      )
+    })
+
+    test('should only delete a context set after confirmation', async () => {
+      showWarningMessageStub.resolves('No')
+      await deleteContextSet({ name: 'billing', folderUri })
+      assert.strictEqual(contextSetService.removeContextSet.called, false)
+
+      showWarningMessageStub.resolves('Yes')
+      await deleteContextSet({ name: 'billing', folderUri })
+      assert.deepStrictEqual(contextSetService.removeContextSet.firstCall.args, [
+        'billing',
+        folderUri
+      ])
+    })
+  })
+})
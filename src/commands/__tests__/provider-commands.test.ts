@@ -18,6 +18,8 @@ suite('Provider Commands Tests', () => {
   let updateApiKeyConfigStub: sinon.SinonStub
   let updateBaseUrlConfigStub: sinon.SinonStub
   let updateModelConfigStub: sinon.SinonStub
+  let updateAzureOpenAIConfigStub: sinon.SinonStub
+  let getApiKeyConfigStub: sinon.SinonStub
   let createProviderStub: sinon.SinonStub
   let fetchModelsStub: sinon.SinonStub
   let configGet: sinon.SinonStub
@@ -48,6 +50,10 @@ suite('Provider Commands Tests', () => {
     updateApiKeyConfigStub = sandbox.stub(workspaceConfigUtils, 'updateApiKeyConfig').resolves()
     updateBaseUrlConfigStub = sandbox.stub(workspaceConfigUtils, 'updateBaseUrlConfig').resolves()
     updateModelConfigStub = sandbox.stub(workspaceConfigUtils, 'updateModelConfig').resolves()
+    getApiKeyConfigStub = sandbox.stub(workspaceConfigUtils, 'getApiKeyConfig').resolves(undefined)
+    updateAzureOpenAIConfigStub = sandbox
+      .stub(workspaceConfigUtils, 'updateAzureOpenAIConfig')
+      .resolves()
 
     // LLM provider stubs
     fetchModelsStub = sandbox.stub().resolves(['model-1', 'model-2'])
@@ -204,19 +210,154 @@ suite('Provider Commands Tests', () => {
       assert.strictEqual(result, true)
       assert.strictEqual(showQuickPickStub.callCount, 2)
       assert.strictEqual(updateProviderConfigStub.calledOnceWith(mockProvider.code), true)
-      assert.strictEqual(updateApiKeyConfigStub.calledOnceWith('test-api-key'), true)
+      assert.strictEqual(updateApiKeyConfigStub.calledOnceWith('test-api-key', 'openai'), true)
       assert.strictEqual(updateBaseUrlConfigStub.calledOnceWith(mockProvider.code, undefined), true)
       assert.strictEqual(updateModelConfigStub.calledOnceWith('gpt-4'), true)
       assert.strictEqual(showInformationMessageStub.calledOnce, true)
       assert.ok(showInformationMessageStub.firstCall.args[0].includes('Successfully configured'))
     })
+
+    test('should keep the stored API key of a provider when the input is left empty', async () => {
+      const mockProvider = SUPPORTED_PROVIDERS.find(p => p.code === 'gemini')!
+      showQuickPickStub.onFirstCall().resolves({
+        label: mockProvider.name,
+        description: mockProvider.code,
+        provider: mockProvider
+      })
+      getApiKeyConfigStub.withArgs('gemini').resolves('stored-key')
+      showInputBoxStub.onFirstCall().resolves('')
+      showQuickPickStub.onSecondCall().resolves('model-1')
+
+      const result = await selectProvider()
+
+      assert.strictEqual(result, true)
+      assert.ok(showInputBoxStub.firstCall.args[0].prompt.includes('keep the stored key'))
+      assert.strictEqual(createProviderStub.firstCall.args[1].apiKey, 'stored-key')
+      assert.strictEqual(updateApiKeyConfigStub.called, false)
+    })
+
+    test('should not ask for an API key for a provider running without one', async () => {
+      const localProvider = SUPPORTED_PROVIDERS.find(p => p.code === 'local')!
+      showQuickPickStub.onFirstCall().resolves({
+        label: localProvider.name,
+        description: localProvider.code,
+        provider: localProvider
+      })
+      fetchModelsStub.resolves(['bm25'])
+      showQuickPickStub.onSecondCall().resolves('bm25')
+
+      const result = await selectProvider()
+
+      assert.strictEqual(result, true)
+      assert.strictEqual(showInputBoxStub.called, false)
+      assert.strictEqual(updateProviderConfigStub.calledOnceWith('local'), true)
+      assert.strictEqual(updateApiKeyConfigStub.called, false)
+      assert.strictEqual(updateModelConfigStub.calledOnceWith('bm25'), true)
+    })
+
+    test('should ask for the server URL of an Ollama provider without an API key', async () => {
+      const ollamaProvider = SUPPORTED_PROVIDERS.find(p => p.code === 'ollama')!
+      showQuickPickStub.onFirstCall().resolves({
+        label: ollamaProvider.name,
+        description: ollamaProvider.code,
+        provider: ollamaProvider
+      })
+      showInputBoxStub.onFirstCall().resolves('http://gpu-box:11434')
+      showQuickPickStub.onSecondCall().resolves('model-1')
+
+      const result = await selectProvider()
+
+      assert.strictEqual(result, true)
+      assert.strictEqual(showInputBoxStub.calledOnce, true)
+      assert.deepStrictEqual(createProviderStub.firstCall.args, [
+        'ollama',
+        { apiKey: undefined, baseUrl: 'http://gpu-box:11434' }
+      ])
+      assert.strictEqual(updateApiKeyConfigStub.called, false)
+      assert.strictEqual(
+        updateBaseUrlConfigStub.calledOnceWith('ollama', 'http://gpu-box:11434'),
+        true
+      )
+      assert.strictEqual(updateModelConfigStub.calledOnceWith('model-1'), true)
+    })
+
+    test('should ask for the base URL of the Anthropic provider', async () => {
+      const anthropicProvider = SUPPORTED_PROVIDERS.find(p => p.code === 'anthropic')!
+      showQuickPickStub.onFirstCall().resolves({
+        label: anthropicProvider.name,
+        description: anthropicProvider.code,
+        provider: anthropicProvider
+      })
+      showInputBoxStub.onFirstCall().resolves('sk-ant-key')
+      showInputBoxStub.onSecondCall().resolves('https://proxy.example.com/v1')
+      showQuickPickStub.onSecondCall().resolves('model-1')
+
+      const result = await selectProvider()
+
+      assert.strictEqual(result, true)
+      assert.deepStrictEqual(createProviderStub.firstCall.args, [
+        'anthropic',
+        { apiKey: 'sk-ant-key', baseUrl: 'https://proxy.example.com/v1' }
+      ])
+      assert.strictEqual(
+        updateBaseUrlConfigStub.calledOnceWith('anthropic', 'https://proxy.example.com/v1'),
+        true
+      )
+    })
+
+    test('should ask for the Azure OpenAI resource, deployment and API version', async () => {
+      const azureProvider = SUPPORTED_PROVIDERS.find(p => p.code === 'azure-openai')!
+      showQuickPickStub.onFirstCall().resolves({
+        label: azureProvider.name,
+        description: azureProvider.code,
+        provider: azureProvider
+      })
+      showInputBoxStub.onCall(0).resolves('test-api-key')
+      showInputBoxStub.onCall(1).resolves(' contoso ')
+      showInputBoxStub.onCall(2).resolves('smart-add')
+      showInputBoxStub.onCall(3).resolves('')
+
+      const result = await selectProvider()
+
+      assert.strictEqual(result, true)
+      assert.strictEqual(showInputBoxStub.callCount, 4)
+      // The deployment stands for the model, no model is fetched or asked for
+      assert.strictEqual(createProviderStub.called, false)
+      assert.strictEqual(showQuickPickStub.calledOnce, true)
+      assert.strictEqual(updateApiKeyConfigStub.calledOnceWith('test-api-key'), true)
+      assert.deepStrictEqual(updateAzureOpenAIConfigStub.firstCall.args, [
+        { resource: 'contoso', deployment: 'smart-add', apiVersion: '2024-10-21' }
+      ])
+      assert.strictEqual(updateModelConfigStub.calledOnceWith('smart-add'), true)
+    })
+
+    test('should return false when the Azure OpenAI deployment entry is cancelled', async () => {
+      const azureProvider = SUPPORTED_PROVIDERS.find(p => p.code === 'azure-openai')!
+      showQuickPickStub.onFirstCall().resolves({
+        label: azureProvider.name,
+        description: azureProvider.code,
+        provider: azureProvider
+      })
+      showInputBoxStub.onCall(0).resolves('test-api-key')
+      showInputBoxStub.onCall(1).resolves('contoso')
+      showInputBoxStub.onCall(2).resolves(undefined)
+
+      const result = await selectProvider()
+
+      assert.strictEqual(result, false)
+      assert.strictEqual(
+        showInformationMessageStub.firstCall.args[0],
+        'Azure OpenAI deployment entry cancelled.'
+      )
+      assert.strictEqual(updateProviderConfigStub.called, false)
+    })
   })
 
   suite('selectLLM', () => {
     test('should return false when provider or API key is not configured', async () => {
       // Simulate missing provider and API key
       configGet.withArgs(CONFIG_KEYS.PROVIDER).returns(undefined)
-      configGet.withArgs(CONFIG_KEYS.API_KEY).returns(undefined)
+      getApiKeyConfigStub.resolves(undefined)
 
       const result = await selectLLM()
 
@@ -232,7 +373,7 @@ suite('Provider Commands Tests', () => {
     test('should return false when provider code is invalid', async () => {
       // Simulate configured but invalid provider
       configGet.withArgs(CONFIG_KEYS.PROVIDER).returns('invalid-provider')
-      configGet.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyConfigStub.resolves('test-api-key')
 
       const result = await selectLLM()
 
@@ -249,7 +390,7 @@ suite('Provider Commands Tests', () => {
       // Mock valid configuration
       const mockProvider = SUPPORTED_PROVIDERS[0]
       configGet.withArgs(CONFIG_KEYS.PROVIDER).returns(mockProvider.code)
-      configGet.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyConfigStub.resolves('test-api-key')
       configGet.withArgs(CONFIG_KEYS.MODEL).returns('current-model')
 
       // Simulate user cancelling model selection
@@ -267,7 +408,7 @@ suite('Provider Commands Tests', () => {
       // Mock valid configuration
       const mockProvider = SUPPORTED_PROVIDERS[0]
       configGet.withArgs(CONFIG_KEYS.PROVIDER).returns(mockProvider.code)
-      configGet.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyConfigStub.resolves('test-api-key')
       configGet.withArgs(CONFIG_KEYS.MODEL).returns('current-model')
 
       // Simulate models fetch error
@@ -289,7 +430,7 @@ suite('Provider Commands Tests', () => {
       // Mock valid configuration
       const mockProvider = SUPPORTED_PROVIDERS[0]
       configGet.withArgs(CONFIG_KEYS.PROVIDER).returns(mockProvider.code)
-      configGet.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyConfigStub.resolves('test-api-key')
       configGet.withArgs(CONFIG_KEYS.MODEL).returns('current-model')
 
       // Simulate user selecting the same model
@@ -315,7 +456,7 @@ suite('Provider Commands Tests', () => {
 
       // Mock valid configuration
       configGet.withArgs(CONFIG_KEYS.PROVIDER).returns(openAICompatibleProvider.code)
-      configGet.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyConfigStub.resolves('test-api-key')
       configGet.withArgs(CONFIG_KEYS.OPENAI_BASE_URL).returns('https://custom-api.com')
       configGet.withArgs(CONFIG_KEYS.MODEL).returns('current-model')
 
@@ -346,7 +487,7 @@ suite('Provider Commands Tests', () => {
       // Mock valid configuration
       const mockProvider = SUPPORTED_PROVIDERS[0]
       configGet.withArgs(CONFIG_KEYS.PROVIDER).returns(mockProvider.code)
-      configGet.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyConfigStub.resolves('test-api-key')
       configGet.withArgs(CONFIG_KEYS.MODEL).returns('current-model')
 
       // Simulate user selecting a new model
@@ -0,0 +1,145 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { CONFIG_KEYS } from '../../core/llm/constants'
+import { ProviderProfileService } from '../../services/providerProfile.service'
+import * as workspaceConfig from '../../utils/workspace-config'
+import {
+  deleteProviderProfile,
+  saveProviderProfile,
+  setDefaultProviderProfile,
+  switchProviderProfile
+} from '../provider-profiles'
+
+suite('Provider Profile Commands Tests', () => {
+  const fast = { name: 'fast', provider: 'openai', model: 'gpt-4o-mini' }
+  const local = { name: 'local', provider: 'ollama', model: 'llama3.1' }
+
+  let sandbox: sinon.SinonSandbox
+  let profileService: Record<string, sinon.SinonStub>
+  let getApiKeyConfigStub: sinon.SinonStub
+  let configGet: sinon.SinonStub
+  let showQuickPickStub: sinon.SinonStub
+  let showInputBoxStub: sinon.SinonStub
+  let showWarningMessageStub: sinon.SinonStub
+  let showErrorMessageStub: sinon.SinonStub
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+
+    profileService = {
+      getProfiles: sandbox.stub().returns([fast, local]),
+      getProfile: sandbox.stub(),
+      getActiveProfile: sandbox.stub().returns(undefined),
+      getDefaultProfileName: sandbox.stub().returns(undefined),
+      setActiveProfile: sandbox.stub().resolves(),
+      setWorkspaceDefaultProfile: sandbox.stub().resolves(),
+      saveProfile: sandbox.stub().resolves(),
+      deleteProfile: sandbox.stub().resolves()
+    }
+    sandbox.stub(ProviderProfileService, 'getInstance').returns(profileService as any)
+
+    sandbox.stub(workspaceConfig, 'getProviderConfig').resolves('ollama')
+    sandbox.stub(workspaceConfig, 'getModelConfig').resolves('qwen2.5-coder')
+    getApiKeyConfigStub = sandbox.stub(workspaceConfig, 'getApiKeyConfig').resolves(undefined)
+    configGet = sandbox.stub()
+    configGet.withArgs(CONFIG_KEYS.OLLAMA_BASE_URL).returns('http://gpu-box:11434')
+    sandbox.stub(vscode.workspace, 'getConfiguration').returns({ get: configGet } as any)
+
+    showQuickPickStub = sandbox.stub(vscode.window, 'showQuickPick')
+    showInputBoxStub = sandbox.stub(vscode.window, 'showInputBox')
+    showWarningMessageStub = sandbox.stub(vscode.window, 'showWarningMessage')
+    showErrorMessageStub = sandbox.stub(vscode.window, 'showErrorMessage')
+    sandbox.stub(vscode.window, 'showInformationMessage')
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  suite('switchProviderProfile', () => {
+    test('should switch to the picked profile', async () => {
+      showQuickPickStub.callsFake(async (items: any[]) => items[1])
+
+      await switchProviderProfile()
+
+      const items = showQuickPickStub.firstCall.args[0]
+      assert.deepStrictEqual(
+        items.map((item: any) => item.label),
+        ['fast', 'local', 'Provider settings', '$(add) Save current provider as profile...']
+      )
+      assert.strictEqual(profileService.setActiveProfile.calledOnceWith('local'), true)
+    })
+
+    test('should go back to the provider settings', async () => {
+      showQuickPickStub.callsFake(async (items: any[]) => items[2])
+
+      await switchProviderProfile()
+
+      assert.strictEqual(profileService.setActiveProfile.calledOnceWith(undefined), true)
+    })
+  })
+
+  suite('saveProviderProfile', () => {
+    test('should save the provider settings as a profile and switch to it', async () => {
+      showInputBoxStub.resolves(' gpu ')
+      getApiKeyConfigStub.resolves('provider-key')
+
+      await saveProviderProfile()
+
+      assert.deepStrictEqual(profileService.saveProfile.firstCall.args, [
+        {
+          name: 'gpu',
+          provider: 'ollama',
+          model: 'qwen2.5-coder',
+          baseUrl: 'http://gpu-box:11434'
+        },
+        'provider-key'
+      ])
+      assert.strictEqual(profileService.setActiveProfile.calledOnceWith('gpu'), true)
+    })
+
+    test('should not replace an existing profile without confirmation', async () => {
+      showInputBoxStub.resolves('fast')
+      profileService.getProfile.withArgs('fast').returns(fast)
+      showWarningMessageStub.resolves(undefined)
+
+      await saveProviderProfile()
+
+      assert.strictEqual(profileService.saveProfile.called, false)
+    })
+  })
+
+  suite('deleteProviderProfile', () => {
+    test('should delete the picked profile after confirmation', async () => {
+      showQuickPickStub.callsFake(async (items: any[]) => items[0])
+      showWarningMessageStub.resolves('Yes')
+
+      await deleteProviderProfile()
+
+      assert.strictEqual(profileService.deleteProfile.calledOnceWith('fast'), true)
+    })
+  })
+
+  suite('setDefaultProviderProfile', () => {
+    test('should require an open workspace', async () => {
+      sandbox.stub(vscode.workspace, 'workspaceFolders').value(undefined)
+
+      await setDefaultProviderProfile()
+
+      assert.strictEqual(showErrorMessageStub.calledOnce, true)
+      assert.strictEqual(showQuickPickStub.called, false)
+    })
+
+    test('should set the picked profile as the workspace default', async () => {
+      sandbox
+        .stub(vscode.workspace, 'workspaceFolders')
+        .value([{ uri: vscode.Uri.file('/test/workspace'), name: 'workspace', index: 0 }])
+      showQuickPickStub.callsFake(async (items: any[]) => items[0])
+
+      await setDefaultProviderProfile()
+
+      assert.strictEqual(profileService.setWorkspaceDefaultProfile.calledOnceWith('fast'), true)
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { TELEMETRY_EVENTS } from '../../constants/telemetry'
+import * as codyCommands from '../../core/cody/commands'
+import { SmartAddHistoryService } from '../../services/smartAddHistory.service'
+import { TelemetryService } from '../../services/telemetry.service'
+import * as addToCody from '../add-to-cody'
+import {
+  deleteSmartAddRun,
+  readdSmartAddRun,
+  rerunSmartAddRun,
+  showSmartAddHistory
+} from '../smart-add-history'
+
+suite('Smart Add History Commands Tests', () => {
+  const rootUri = vscode.Uri.file('/test/workspace')
+  const entry = {
+    id: 'run-1',
+    prompt: 'auth files',
+    rootUri: rootUri.toString(),
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    files: ['src/auth.ts', 'src/deleted.ts'],
+    timestamp: 1000
+  }
+  const context = {} as vscode.ExtensionContext
+
+  let sandbox: sinon.SinonSandbox
+  let telemetryTrackStub: sinon.SinonStub
+  let historyService: Record<string, sinon.SinonStub>
+  let executeMentionFileCommandStub: sinon.SinonStub
+  let showQuickPickStub: sinon.SinonStub
+  let showInformationMessageStub: sinon.SinonStub
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+
+    telemetryTrackStub = sandbox.stub()
+    sandbox.stub(TelemetryService, 'getInstance').returns({ trackEvent: telemetryTrackStub } as any)
+
+    historyService = {
+      getEntries: sandbox.stub().returns([entry]),
+      getEntry: sandbox.stub().withArgs('run-1').returns(entry),
+      removeEntry: sandbox.stub().resolves()
+    }
+    sandbox.stub(SmartAddHistoryService, 'getInstance').returns(historyService as any)
+
+    const statStub = sandbox.stub().resolves({ type: vscode.FileType.File })
+    statStub
+      .withArgs(sinon.match({ fsPath: '/test/workspace/src/deleted.ts' }))
+      .rejects(new Error())
+    sandbox.stub(vscode.workspace, 'fs').value({ stat: statStub })
+    sandbox.stub(vscode.workspace, 'asRelativePath').returns('workspace')
+
+    executeMentionFileCommandStub = sandbox
+      .stub(codyCommands, 'executeMentionFileCommand')
+      .resolves(true)
+    showQuickPickStub = sandbox.stub(vscode.window, 'showQuickPick')
+    showInformationMessageStub = sandbox.stub(vscode.window, 'showInformationMessage')
+    sandbox.stub(vscode.window, 'showErrorMessage')
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  test('should add the files of a run again without calling the LLM', async () => {
+    const addFilesSmartStub = sandbox.stub(addToCody, 'addFilesSmart')
+
+    await readdSmartAddRun({ id: 'run-1' })
+
+    assert.deepStrictEqual(
+      executeMentionFileCommandStub.getCalls().map(call => call.args[0].fsPath),
+      [vscode.Uri.file('/test/workspace/src/auth.ts').fsPath]
+    )
+    assert.strictEqual(addFilesSmartStub.called, false)
+    assert.strictEqual(
+      telemetryTrackStub.calledOnceWith(TELEMETRY_EVENTS.FILES.READD_SMART_SELECTION, {
+        fileCount: 1
+      }),
+      true
+    )
+    assert.strictEqual(
+      showInformationMessageStub.firstCall.args[0],
+      'Cody++: 1 file of "auth files" added, 1 no longer found'
+    )
+  })
+
+  test('should run the prompt of a run again against its folder', async () => {
+    const addFilesSmartStub = sandbox.stub(addToCody, 'addFilesSmart').resolves()
+
+    await rerunSmartAddRun({ id: 'run-1' }, context)
+
+    const [folderUris, passedContext, prompt] = addFilesSmartStub.firstCall.args
+    assert.deepStrictEqual(
+      folderUris.map(uri => uri.fsPath),
+      [rootUri.fsPath]
+    )
+    assert.strictEqual(passedContext, context)
+    assert.strictEqual(prompt, 'auth files')
+  })
+
+  test('should let the user pick a run and an action from the history', async () => {
+    showQuickPickStub.onFirstCall().callsFake(async (items: any[]) => {
+      assert.strictEqual(items[0].label, 'auth files')
+      assert.strictEqual(items[0].description, '2 files')
+      assert.ok(items[0].detail.startsWith('workspace · openai/gpt-4o-mini · '))
+      return items[0]
+    })
+    showQuickPickStub
+      .onSecondCall()
+      .callsFake(async (items: any[]) =>
+        items.find(item => item.label.includes('Delete from History'))
+      )
+
+    await showSmartAddHistory(context)
+
+    assert.strictEqual(historyService.removeEntry.calledOnceWith('run-1'), true)
+  })
+
+  test('should not act when the history is empty', async () => {
+    historyService.getEntries.returns([])
+
+    await deleteSmartAddRun()
+
+    assert.strictEqual(showQuickPickStub.called, false)
+    assert.strictEqual(historyService.removeEntry.called, false)
+    assert.strictEqual(showInformationMessageStub.calledOnce, true)
+  })
+})
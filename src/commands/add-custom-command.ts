@@ -4,22 +4,49 @@ import { CustomCommandsWebview } from '../views/CustomCommandsWebview'
 
 const customCommandService = CustomCommandService.getInstance()
 
-export function addCustomCommand(context: vscode.ExtensionContext) {
-  CustomCommandsWebview.createOrShow(context.extensionUri, context.extensionMode)
+export async function addCustomCommand(context: vscode.ExtensionContext) {
+  if ((vscode.workspace.workspaceFolders?.length ?? 0) <= 1) {
+    CustomCommandsWebview.createOrShow(context.extensionUri, context.extensionMode)
+    return
+  }
+
+  // In multi-root workspaces, commands are saved to the cody.json of the chosen folder
+  const workspaceFolder = await vscode.window.showWorkspaceFolderPick({
+    placeHolder: 'Select the workspace folder to add the command to'
+  })
+  if (!workspaceFolder) {
+    return
+  }
+
+  CustomCommandsWebview.createOrShow(
+    context.extensionUri,
+    context.extensionMode,
+    undefined,
+    workspaceFolder.uri.toString()
+  )
 }
 
-export async function editCustomCommand(context: vscode.ExtensionContext, commandId: string) {
+export async function editCustomCommand(
+  context: vscode.ExtensionContext,
+  commandId: string,
+  folderUri?: string
+) {
   try {
-    const commandData = await customCommandService.getCommand(commandId)
+    const commandData = await customCommandService.getCommand(commandId, folderUri)
     if (!commandData) {
       vscode.window.showErrorMessage(`Command ${commandId} does not exist.`)
       return
     }
 
-    CustomCommandsWebview.createOrShow(context.extensionUri, context.extensionMode, {
-      id: commandId,
-      data: commandData
-    })
+    CustomCommandsWebview.createOrShow(
+      context.extensionUri,
+      context.extensionMode,
+      {
+        id: commandId,
+        data: commandData
+      },
+      folderUri
+    )
   } catch (error) {
     vscode.window.showErrorMessage(
       `Failed to get command ${commandId}: ${error instanceof Error ? error.message : 'Unknown error'}`
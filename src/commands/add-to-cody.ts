@@ -2,25 +2,78 @@ import * as path from 'path'
 import * as vscode from 'vscode'
 import { TELEMETRY_EVENTS } from '../constants/telemetry'
 import { executeMentionFileCommand } from '../core/cody/commands'
-import { formatFileTree, getWorkspaceFileTree } from '../core/filesystem/operations'
+import { collectRelatedFiles, getRelatedFilesOptions } from '../core/filesystem/imports'
+import { FileMetadata, formatFileTree } from '../core/filesystem/operations'
+import { isTestPairingEnabled } from '../core/filesystem/pairing'
 import { getSelectedFileUris, getSelectedFolderCount } from '../core/filesystem/processor'
+import { toGlobPath } from '../core/filesystem/validation'
+import { GitChangeScope, getChangedFileUris } from '../core/git/changes'
 import { createProvider } from '../core/llm'
-import { createCompletionRequestMessages, parseLLMResponse } from '../core/llm/utils'
+import { completeSelection } from '../core/llm/completion'
+import { FILE_SELECTION_FORMAT, SUPPORTED_PROVIDERS } from '../core/llm/constants'
+import {
+  SmartAddOptions,
+  getSmartAddOptions,
+  selectFilesHierarchically,
+  shouldUseHierarchicalSelection
+} from '../core/llm/hierarchical'
+import { PromptFileTree, createPromptFileTree } from '../core/llm/paths'
+import {
+  FileSelection,
+  SelectionValidationResult,
+  formatSelectionDiff,
+  formatSelectionIssues,
+  toFileSelection,
+  validateSelectedPaths
+} from '../core/llm/selection'
+import { CompletionRequestMessage, FileSelectingProvider, LLMProvider } from '../core/llm/types'
+import {
+  createCompletionRequestMessages,
+  createRefinementMessages,
+  getSmartAddFileTree
+} from '../core/llm/utils'
+import { ProviderProfileService } from '../services/providerProfile.service'
+import { SmartAddHistoryService } from '../services/smartAddHistory.service'
 import { TelemetryService } from '../services/telemetry.service'
 import { getSuccessCount } from '../utils'
-import { getProviderConfig } from '../utils/workspace-config'
+import { getModelConfig, getProviderConfig } from '../utils/workspace-config'
+import { rememberAddedFiles } from './context-sets'
 import { selectProvider } from './provider-commands'
 
 let telemetryServiceInstance: TelemetryService | null = null
 
-export async function addFile(folderUri: vscode.Uri) {
+/** Action of the Smart Add result dialogs refining the selection */
+const REFINE_ACTION = 'Refine'
+
+/**
+ * The last Smart Add run, kept so its selection can be refined with follow-up instructions
+ */
+interface SmartAddSession {
+  /** Id of the run in the Smart Add history */
+  historyId: string
+  llm: LLMProvider
+  prompt: string
+  rootUri: vscode.Uri
+  fileTree: FileMetadata[]
+  promptTree: PromptFileTree
+  options: SmartAddOptions
+  /** The conversation up to the last request, undefined for hierarchical selections */
+  messages?: CompletionRequestMessage[]
+  /** The files added by the run */
+  selections: FileSelection[]
+}
+
+let lastSmartAddSession: SmartAddSession | undefined
+
+export async function addFile(folderUri: vscode.Uri, withTests = isTestPairingEnabled()) {
   const telemetry = TelemetryService.getInstance()
   try {
-    const files = await getSelectedFileUris([folderUri])
+    const files = await getSelectedFileUris([folderUri], { includeTestPairs: withTests })
     const fileCount = (await Promise.all(files.map(executeMentionFileCommand))).reduce(
       getSuccessCount,
       0
     )
+    rememberAddedFiles(files)
 
     telemetry.trackEvent(TELEMETRY_EVENTS.FILES.ADD_FILE, {
       fileCount,
@@ -31,11 +84,56 @@ export async function addFile(folderUri: vscode.Uri) {
   }
 }
 
-export async function addSelection(folderUris: vscode.Uri[], recursive = false) {
+export async function addFileWithRelated(fileUri: vscode.Uri | undefined) {
+  const telemetry = TelemetryService.getInstance()
+  if (!fileUri) {
+    vscode.window.showWarningMessage('Open or select a file to add it with its related files.')
+    return
+  }
+
+  try {
+    const { dependencies, dependents } = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Finding related files...'
+      },
+      () => collectRelatedFiles(fileUri, getRelatedFilesOptions())
+    )
+
+    // Let the user review the related files before they are mentioned
+    const fileUris = await getSelectedFileUris([fileUri, ...dependencies, ...dependents], {
+      preview: true,
+      progressTitle: 'Adding related files to Cody'
+    })
+
+    const fileCount = (await Promise.all(fileUris.map(executeMentionFileCommand))).reduce(
+      getSuccessCount,
+      0
+    )
+    rememberAddedFiles(fileUris)
+
+    telemetry.trackEvent(TELEMETRY_EVENTS.FILES.ADD_RELATED_FILES, {
+      fileCount,
+      dependencyCount: dependencies.length,
+      dependentCount: dependents.length
+    })
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to add related files to Cody: ${error.message}`)
+  }
+}
+
+export async function addSelection(
+  folderUris: vscode.Uri[],
+  recursive = false,
+  withTests = isTestPairingEnabled(),
+  preview = false
+) {
   const telemetry = TelemetryService.getInstance()
   try {
     const { folderCount, fileUris } = await getSelectedFolderCount(folderUris, {
       recursive,
+      includeTestPairs: withTests,
+      preview,
       progressTitle: 'Adding selection to Cody'
     })
 
@@ -43,6 +141,7 @@ export async function addSelection(folderUris: vscode.Uri[], recursive = false)
       getSuccessCount,
       0
     )
+    rememberAddedFiles(fileUris)
 
     telemetry.trackEvent(TELEMETRY_EVENTS.FILES.ADD_SELECTION, {
       fileCount,
@@ -54,11 +153,12 @@ export async function addSelection(folderUris: vscode.Uri[], recursive = false)
   }
 }
 
-export async function addFolder(folderUri: vscode.Uri, recursive = true) {
+export async function addFolder(folderUri: vscode.Uri, recursive = true, preview = false) {
   const telemetry = TelemetryService.getInstance()
   try {
     const { folderCount, fileUris } = await getSelectedFolderCount([folderUri], {
       recursive,
+      preview,
       progressTitle: 'Adding folder to Cody'
     })
 
@@ -66,6 +166,7 @@ export async function addFolder(folderUri: vscode.Uri, recursive = true) {
       getSuccessCount,
       0
     )
+    rememberAddedFiles(fileUris)
 
     telemetry.trackEvent(TELEMETRY_EVENTS.FILES.ADD_FOLDER, {
       fileCount,
@@ -77,9 +178,220 @@ export async function addFolder(folderUri: vscode.Uri, recursive = true) {
   }
 }
 
-export async function addFilesSmart(folderUris: vscode.Uri[], context: vscode.ExtensionContext) {
+/**
+ * Add the files changed in git to Cody, through the same exclusion and threshold checks
+ * as selected files
+ * @param scope Which changes to add
+ * @param uri Optional URI the command was invoked on, used to find the repository
+ */
+export async function addGitChanges(scope: GitChangeScope, uri?: vscode.Uri) {
+  const telemetry = TelemetryService.getInstance()
+  try {
+    const changedFileUris = await getChangedFileUris(scope, uri)
+    if (!changedFileUris) {
+      return // User cancelled
+    }
+    if (changedFileUris.length === 0) {
+      vscode.window.showInformationMessage('No changed files found.')
+      return
+    }
+
+    const fileUris = await getSelectedFileUris(changedFileUris, {
+      progressTitle: 'Adding changed files to Cody'
+    })
+
+    const fileCount = (await Promise.all(fileUris.map(executeMentionFileCommand))).reduce(
+      getSuccessCount,
+      0
+    )
+    rememberAddedFiles(fileUris)
+
+    telemetry.trackEvent(TELEMETRY_EVENTS.FILES.ADD_GIT_CHANGES, {
+      fileCount,
+      scope
+    })
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to add changed files to Cody: ${error.message}`)
+  }
+}
+
+/**
+ * Resolve the folder Smart Add scans: the selected folder, else the workspace folder
+ * owning the selection, else a workspace folder picked by the user in multi-root workspaces
+ * @param folderUris The selected files or folders, empty when run from the command palette
+ */
+async function getSmartAddRootUri(folderUris: vscode.Uri[]): Promise<vscode.Uri | undefined> {
+  const selection = folderUris.filter(Boolean)
+  if (
+    selection.length === 1 &&
+    (await vscode.workspace.fs.stat(selection[0])).type === vscode.FileType.Directory
+  ) {
+    return selection[0]
+  }
+
+  const owningFolder = selection.length > 0 && vscode.workspace.getWorkspaceFolder(selection[0])
+  if (owningFolder) {
+    return owningFolder.uri
+  }
+
+  const workspaceFolders = vscode.workspace.workspaceFolders ?? []
+  if (workspaceFolders.length <= 1) {
+    return workspaceFolders[0]?.uri
+  }
+
+  const pickedFolder = await vscode.window.showWorkspaceFolderPick({
+    placeHolder: 'Select the workspace folder to search for files'
+  })
+  return pickedFolder?.uri
+}
+
+/**
+ * Let the user review the files selected by Smart Add with their reasons. Files selected with
+ * at least the auto-accept confidence are accepted without review.
+ * @param selections The validated selections
+ * @param rootPath Absolute path of the tree root, files are shown relative to it
+ * @param autoAcceptConfidence Minimum confidence of the files accepted without review
+ * @returns The accepted files, or undefined if the user cancelled the review
+ */
+async function reviewSelectedFiles(
+  selections: FileSelection[],
+  rootPath: string,
+  autoAcceptConfidence: number
+): Promise<FileSelection[] | undefined> {
+  const isAutoAccepted = (selection: FileSelection) =>
+    selection.confidence !== undefined && selection.confidence >= autoAcceptConfidence
+  const toReview = selections.filter(selection => !isAutoAccepted(selection))
+  if (toReview.length === 0) {
+    return selections
+  }
+
+  const autoAcceptedCount = selections.length - toReview.length
+  const picked = await vscode.window.showQuickPick(
+    toReview.map(selection => ({
+      label: path.relative(rootPath, selection.path),
+      description:
+        selection.confidence !== undefined
+          ? `${Math.round(selection.confidence * 100)}% confidence`
+          : undefined,
+      detail: selection.reason,
+      picked: true,
+      selection
+    })),
+    {
+      title: 'Smart Add: Review Selected Files',
+      placeHolder:
+        'Uncheck the files not to add' +
+        (autoAcceptedCount > 0
+          ? ` (${autoAcceptedCount} more file${autoAcceptedCount !== 1 ? 's' : ''} added with high confidence)`
+          : ''),
+      canPickMany: true,
+      matchOnDetail: true,
+      ignoreFocusOut: true
+    }
+  )
+  if (!picked) {
+    return undefined
+  }
+
+  const accepted = new Set(picked.map(item => item.selection))
+  return selections.filter(selection => isAutoAccepted(selection) || accepted.has(selection))
+}
+
+/**
+ * Check the files returned by the model against the scanned tree, then let the user review them
+ * @param entries The entries returned by the model, with paths as shown to the model
+ * @param session The tree the files were selected in
+ * @param autoAcceptConfidence Minimum confidence of the files accepted without review
+ * @returns The validation and the accepted files, or undefined if the user cancelled the review
+ */
+async function validateAndReviewSelection(
+  entries: unknown[],
+  { rootUri, fileTree, promptTree }: Pick<SmartAddSession, 'rootUri' | 'fileTree' | 'promptTree'>,
+  autoAcceptConfidence: number
+): Promise<{ validation: SelectionValidationResult; accepted: FileSelection[] } | undefined> {
+  // Only add files of the scanned tree, correcting near misses of the model
+  const validation = validateSelectedPaths(
+    entries.map(entry => {
+      const selection = toFileSelection(entry)
+      return selection ? { ...selection, path: promptTree.toWorkspacePath(selection.path) } : entry
+    }),
+    rootUri.fsPath,
+    fileTree
+  )
+
+  // Let the user accept or reject the files the model is less confident about
+  const accepted = await reviewSelectedFiles(
+    validation.selections,
+    rootUri.fsPath,
+    autoAcceptConfidence
+  )
+  return accepted && { validation, accepted }
+}
+
+/**
+ * Check whether a provider selects files itself instead of completing the Smart Add prompt
+ */
+function isFileSelectingProvider(llm: LLMProvider): llm is FileSelectingProvider {
+  return typeof llm.selectFiles === 'function'
+}
+
+/**
+ * Select files with a provider ranking them in-process, from the tree and the request
+ * @returns The selected files, with paths shown as in prompts so they are validated alike
+ */
+async function selectFilesDirectly(
+  llm: FileSelectingProvider,
+  query: string,
+  rootUri: vscode.Uri,
+  fileTree: FileMetadata[],
+  promptTree: PromptFileTree
+): Promise<FileSelection[]> {
+  const selections = await llm.selectFiles({ query, rootPath: rootUri.fsPath, fileTree })
+  return selections.map(selection => ({
+    ...selection,
+    path: promptTree.toPromptPath(selection.path)
+  }))
+}
+
+/**
+ * Convert absolute file paths to paths relative to a root folder, with / as separator
+ */
+function toRelativeFiles(rootUri: vscode.Uri, filePaths: string[]): string[] {
+  return filePaths.map(filePath => toGlobPath(path.relative(rootUri.fsPath, filePath)))
+}
+
+/**
+ * Show the result of a Smart Add run, offering to refine its selection
+ * @param message The message of the dialog
+ * @param detail The detail of the dialog
+ */
+async function showSmartAddResult(message: string, detail: string) {
+  const action = await vscode.window.showInformationMessage(
+    message,
+    { detail, modal: true },
+    REFINE_ACTION
+  )
+  if (action === REFINE_ACTION) {
+    await refineSmartAdd()
+  }
+}
+
+/**
+ * Add the files matching a description to Cody, selected by the LLM in the file tree
+ * @param folderUris The selected files or folders, empty when run from the command palette
+ * @param context The extension context
+ * @param presetPrompt The description of the files, asked to the user when omitted
+ */
+export async function addFilesSmart(
+  folderUris: vscode.Uri[],
+  context: vscode.ExtensionContext,
+  presetPrompt?: string
+) {
   const telemetry = TelemetryService.getInstance()
-  let currentProvider = await getProviderConfig()
+  // The profile switched to in the status bar overrides the provider settings
+  const profileService = ProviderProfileService.getInstance()
+  const activeProfile = profileService.getActiveProfile()
+  let currentProvider = activeProfile?.provider ?? (await getProviderConfig())
 
   if (!currentProvider) {
     vscode.window.showInformationMessage(
@@ -106,22 +418,20 @@ export async function addFilesSmart(folderUris: vscode.Uri[], context: vscode.Ex
 
   try {
     // Prompt user for file selection criteria
-    const prompt = await vscode.window.showInputBox({
-      prompt: 'Describe the files you want to add to Cody',
-      placeHolder: 'e.g., all test files and services related to user authentication',
-      ignoreFocusOut: true
-    })
+    const prompt =
+      presetPrompt ??
+      (await vscode.window.showInputBox({
+        prompt: 'Describe the files you want to add to Cody',
+        placeHolder: 'e.g., all test files and services related to user authentication',
+        ignoreFocusOut: true
+      }))
 
     if (!prompt) {
       return // User cancelled
     }
 
-    // Determine the root URI (workspace or specific folder)
-    const rootUri =
-      folderUris.length === 1 &&
-      (await vscode.workspace.fs.stat(folderUris[0])).type === vscode.FileType.Directory
-        ? folderUris[0]
-        : vscode.workspace.workspaceFolders?.[0].uri
+    // Determine the root URI (specific folder or the workspace folder owning the selection)
+    const rootUri = await getSmartAddRootUri(folderUris)
 
     if (!rootUri) {
       vscode.window.showErrorMessage('No workspace or folder selected.')
@@ -129,7 +439,10 @@ export async function addFilesSmart(folderUris: vscode.Uri[], context: vscode.Ex
     }
 
     // Create LLM provider and ensure authenticated
-    const llm = createProvider(currentProvider)
+    const providerOptions = activeProfile
+      ? await profileService.getProviderOptions(activeProfile)
+      : undefined
+    const llm = createProvider(currentProvider, providerOptions)
 
     // Show progress notification
     return vscode.window.withProgress(
@@ -141,22 +454,89 @@ export async function addFilesSmart(folderUris: vscode.Uri[], context: vscode.Ex
       async (progress, token) => {
         try {
           progress.report({ increment: 20, message: 'Scanning workspace files...' })
-          const fileTree = await getWorkspaceFileTree(rootUri)
+          const fileTree = await getSmartAddFileTree(rootUri)
 
-          progress.report({
-            increment: 30,
-            message: `Creating file selection query for ${fileTree.length} files...`
-          })
-          const messages = await createCompletionRequestMessages(prompt, rootUri)
+          let selectedPaths: unknown[]
+          let messages: CompletionRequestMessage[] | undefined
+          const smartAddOptions = getSmartAddOptions()
+          // The model sees root-relative paths, with obfuscated directory names if enabled
+          const promptTree = createPromptFileTree(
+            rootUri.fsPath,
+            fileTree,
+            smartAddOptions.pathObfuscation
+          )
+          if (isFileSelectingProvider(llm)) {
+            // Providers ranking files in-process get the tree and the request, not a prompt
+            progress.report({ increment: 50, message: `Ranking ${fileTree.length} files...` })
+            selectedPaths = await selectFilesDirectly(llm, prompt, rootUri, fileTree, promptTree)
+            progress.report({ increment: 15, message: 'Processing selected files...' })
+          } else if (shouldUseHierarchicalSelection(fileTree, smartAddOptions)) {
+            // Too many files for one prompt: pick directories first, then files in chunks
+            selectedPaths = await selectFilesHierarchically(
+              llm,
+              prompt,
+              promptTree.rootPath,
+              promptTree.fileTree,
+              smartAddOptions,
+              message => progress.report({ increment: 30, message }),
+              token
+            )
+            if (token.isCancellationRequested) {
+              return
+            }
+            progress.report({ increment: 5, message: 'Processing selected files...' })
+          } else {
+            progress.report({
+              increment: 30,
+              message: `Creating file selection query for ${fileTree.length} files...`
+            })
+            messages = await createCompletionRequestMessages(prompt, rootUri, promptTree)
 
-          progress.report({ increment: 20, message: 'Getting AI recommendations...' })
-          // Call LLM
-          const response = await llm.complete({
-            messages
-          })
+            progress.report({ increment: 20, message: 'Getting AI recommendations...' })
+            // Call LLM, asking it once to repair a response that can't be parsed
+            selectedPaths = await completeSelection(
+              llm,
+              { messages, config: { responseFormat: FILE_SELECTION_FORMAT } },
+              'files'
+            )
+
+            progress.report({ increment: 15, message: 'Processing selected files...' })
+          }
 
-          progress.report({ increment: 15, message: 'Processing selected files...' })
-          const selectedFiles: string[] = parseLLMResponse(response.text)
+          const reviewed = await validateAndReviewSelection(
+            selectedPaths,
+            { rootUri, fileTree, promptTree },
+            smartAddOptions.autoAcceptConfidence
+          )
+          if (!reviewed) {
+            return // User cancelled the review
+          }
+          const { validation, accepted } = reviewed
+          const selectedFiles = accepted.map(selection => selection.path)
+          const historyEntry = await SmartAddHistoryService.getInstance().addEntry({
+            prompt,
+            rootUri: rootUri.toString(),
+            provider: currentProvider,
+            // The model setting only applies without a profile
+            model: providerOptions
+              ? providerOptions.model ?? ''
+              : (await getModelConfig()) ??
+                SUPPORTED_PROVIDERS.find(details => details.code === currentProvider)
+                  ?.defaultModel ??
+                '',
+            files: toRelativeFiles(rootUri, selectedFiles)
+          })
+          lastSmartAddSession = {
+            historyId: historyEntry.id,
+            llm,
+            prompt,
+            rootUri,
+            fileTree,
+            promptTree,
+            options: smartAddOptions,
+            messages,
+            selections: accepted
+          }
 
           // Convert paths to URIs and add to Cody
           const selectedFileUris = selectedFiles.map(filePath => vscode.Uri.file(filePath))
@@ -173,6 +553,7 @@ export async function addFilesSmart(folderUris: vscode.Uri[], context: vscode.Ex
           const fileCount = (
             await Promise.all(selectedFileUris.map(executeMentionFileCommand))
           ).reduce(getSuccessCount, 0)
+          rememberAddedFiles(selectedFileUris)
 
           telemetry.trackEvent(TELEMETRY_EVENTS.FILES.ADD_SMART_SELECTION, {
             fileCount,
@@ -187,12 +568,11 @@ export async function addFilesSmart(folderUris: vscode.Uri[], context: vscode.Ex
           const treeStructure = formatFileTree(rootUri.fsPath, fileTree, selectedFiles, 50)
 
           const totalFiles = fileTree.length
-          vscode.window.showInformationMessage(
+          void showSmartAddResult(
             `Cody++: ${fileCount}/${totalFiles} files successfully added`,
-            {
-              detail: `${successMessage}\n\n${treeStructure}`,
-              modal: true
-            }
+            [successMessage, treeStructure, formatSelectionIssues(validation, rootUri.fsPath)]
+              .filter(Boolean)
+              .join('\n\n')
           )
         } catch (error: any) {
           vscode.window.showErrorMessage(`Failed to add files smart to Cody: ${error.message}`)
@@ -204,3 +584,125 @@ export async function addFilesSmart(folderUris: vscode.Uri[], context: vscode.Ex
     vscode.window.showErrorMessage(`Failed to add files smart to Cody: ${error.message}`)
   }
 }
+
+/**
+ * Refine the selection of the last Smart Add run with a follow-up instruction, such as
+ * "also include the migrations" or "drop the tests". The previous selection and the instruction
+ * are appended to the conversation, the files new to the selection are added to Cody and the
+ * added and removed files are shown.
+ */
+export async function refineSmartAdd() {
+  const telemetry = TelemetryService.getInstance()
+  const session = lastSmartAddSession
+  if (!session) {
+    vscode.window.showInformationMessage('Run Smart Add first to refine its selection.')
+    return
+  }
+
+  const instruction = await vscode.window.showInputBox({
+    prompt: 'How should the Smart Add selection change?',
+    placeHolder: 'e.g., also include the migrations, drop the tests',
+    ignoreFocusOut: true
+  })
+  if (!instruction) {
+    return // User cancelled
+  }
+
+  try {
+    let messages = session.messages
+    let prompt = session.prompt
+    const selectedPaths = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Refining the Smart Add selection...',
+        cancellable: true
+      },
+      async (progress, token) => {
+        const { llm, promptTree, options } = session
+        if (isFileSelectingProvider(llm)) {
+          prompt = `${session.prompt}\n${instruction}`
+          return selectFilesDirectly(llm, prompt, session.rootUri, session.fileTree, promptTree)
+        }
+        if (!messages) {
+          // Hierarchical selections span many requests, so the refined request is selected anew
+          prompt = `${session.prompt}\nFollow-up request: ${instruction}`
+          return selectFilesHierarchically(
+            llm,
+            prompt,
+            promptTree.rootPath,
+            promptTree.fileTree,
+            options,
+            message => progress.report({ message }),
+            token
+          )
+        }
+
+        messages = createRefinementMessages(
+          messages,
+          session.selections.map(selection => ({
+            ...selection,
+            path: promptTree.toPromptPath(selection.path)
+          })),
+          instruction
+        )
+        return completeSelection(
+          llm,
+          { messages, config: { responseFormat: FILE_SELECTION_FORMAT } },
+          'files'
+        )
+      }
+    )
+    if (lastSmartAddSession !== session) {
+      return // Another Smart Add run started meanwhile
+    }
+
+    const reviewed = await validateAndReviewSelection(
+      selectedPaths,
+      session,
+      session.options.autoAcceptConfidence
+    )
+    if (!reviewed) {
+      return // User cancelled the review
+    }
+    const { validation, accepted } = reviewed
+    lastSmartAddSession = { ...session, prompt, messages, selections: accepted }
+
+    const previousFiles = new Set(session.selections.map(selection => selection.path))
+    const refinedFiles = accepted.map(selection => selection.path)
+    const addedFiles = refinedFiles.filter(filePath => !previousFiles.has(filePath))
+    const removedFiles = [...previousFiles].filter(filePath => !refinedFiles.includes(filePath))
+    await SmartAddHistoryService.getInstance().updateFiles(
+      session.historyId,
+      toRelativeFiles(session.rootUri, refinedFiles)
+    )
+
+    const addedFileUris = addedFiles.map(filePath => vscode.Uri.file(filePath))
+    const fileCount = (await Promise.all(addedFileUris.map(executeMentionFileCommand))).reduce(
+      getSuccessCount,
+      0
+    )
+    rememberAddedFiles(refinedFiles.map(filePath => vscode.Uri.file(filePath)))
+
+    telemetry.trackEvent(TELEMETRY_EVENTS.FILES.REFINE_SMART_SELECTION, {
+      fileCount,
+      removedCount: removedFiles.length
+    })
+
+    const rootPath = session.rootUri.fsPath
+    void showSmartAddResult(
+      `Cody++: Smart Add selection refined, ${fileCount} file${fileCount !== 1 ? 's' : ''} added`,
+      [
+        `Follow-up: "${instruction}"`,
+        formatSelectionDiff(addedFiles, removedFiles, rootPath),
+        removedFiles.length > 0
+          ? 'Cody keeps the files already mentioned, remove them from the chat context if needed.'
+          : '',
+        formatSelectionIssues(validation, rootPath)
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+    )
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to refine the Smart Add selection: ${error.message}`)
+  }
+}
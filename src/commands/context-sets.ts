@@ -0,0 +1,287 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { getContextSetsPath } from '../constants/cody'
+import { TELEMETRY_EVENTS } from '../constants/telemetry'
+import { executeMentionFileCommand } from '../core/cody/commands'
+import { getSelectedFileUris } from '../core/filesystem/processor'
+import { toGlobPath } from '../core/filesystem/validation'
+import { ContextSetService } from '../services/contextSet.service'
+import { TelemetryService } from '../services/telemetry.service'
+import { getSuccessCount } from '../utils'
+
+/**
+ * A context set as referenced from the sidebar
+ */
+export interface ContextSetItem {
+  name: string
+  /** URI of the workspace folder owning the set, as a string */
+  folderUri?: string
+}
+
+/** Files added to Cody by the last add command, offered when saving a context set */
+let lastAddedFileUris: vscode.Uri[] = []
+
+/**
+ * Remember the files added by an add command so they can be saved as a context set
+ * @param fileUris The files that were added
+ */
+export function rememberAddedFiles(fileUris: vscode.Uri[]) {
+  if (fileUris.length > 0) {
+    lastAddedFileUris = fileUris
+  }
+}
+
+/**
+ * Split a comma-separated list of glob patterns
+ */
+function parseGlobs(input: string): string[] {
+  return input
+    .split(',')
+    .map(glob => glob.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Let the user pick one of the context sets of the workspace
+ * @param placeHolder Placeholder of the picker
+ * @returns The picked set, or undefined if there are none or the user cancelled
+ */
+async function pickContextSet(placeHolder: string): Promise<ContextSetItem | undefined> {
+  const folders = ContextSetService.getInstance().getContextSetsByFolder()
+  const items = folders.flatMap(({ folderUri, folderName, contextSets }) =>
+    Object.entries(contextSets).map(([name, contextSet]) => ({
+      label: name,
+      description: folders.length > 1 ? folderName : undefined,
+      detail: contextSet.description,
+      item: { name, folderUri }
+    }))
+  )
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage(
+      'No context sets found. Add files to Cody, then save them as a context set.'
+    )
+    return undefined
+  }
+
+  return (await vscode.window.showQuickPick(items, { placeHolder }))?.item
+}
+
+/**
+ * Group files by the workspace folder owning them, with paths relative to the folder
+ * @param fileUris The files to group
+ * @returns The relative paths keyed by workspace folder URI, and the files outside the
+ * workspace folders
+ */
+function groupByWorkspaceFolder(fileUris: vscode.Uri[]): {
+  filesByFolder: Map<string, string[]>
+  outsideCount: number
+} {
+  const filesByFolder = new Map<string, string[]>()
+  let outsideCount = 0
+  for (const uri of fileUris) {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+    if (!workspaceFolder) {
+      outsideCount++
+      continue
+    }
+    const folderUri = workspaceFolder.uri.toString()
+    const files = filesByFolder.get(folderUri) ?? []
+    files.push(toGlobPath(path.relative(workspaceFolder.uri.fsPath, uri.fsPath)))
+    filesByFolder.set(folderUri, files)
+  }
+  return { filesByFolder, outsideCount }
+}
+
+/**
+ * Save the files added by the last add command as a named context set,
+ * with optional globs that are resolved again each time the set is added.
+ * Sets are stored per workspace folder, so files from several folders are saved
+ * as a set of the same name in each of them.
+ */
+export async function saveContextSet() {
+  const contextSetService = ContextSetService.getInstance()
+  if (lastAddedFileUris.length === 0) {
+    vscode.window.showInformationMessage(
+      'Add files to Cody first, then save them as a context set.'
+    )
+    return
+  }
+
+  const { filesByFolder, outsideCount } = groupByWorkspaceFolder(lastAddedFileUris)
+  if (filesByFolder.size === 0) {
+    vscode.window.showErrorMessage('The added files are not in a workspace folder.')
+    return
+  }
+
+  const fileCount = lastAddedFileUris.length - outsideCount
+  const name = (
+    await vscode.window.showInputBox({
+      prompt: `Name of the context set for the ${fileCount} added files`,
+      placeHolder: 'e.g. auth stack',
+      validateInput: value => (value.trim() ? undefined : 'Enter a name for the context set.')
+    })
+  )?.trim()
+  if (!name) {
+    return
+  }
+
+  const folderUris = [...filesByFolder.keys()]
+  if (folderUris.some(folderUri => contextSetService.getContextSet(name, folderUri))) {
+    const confirmation = await vscode.window.showWarningMessage(
+      `A context set named "${name}" already exists. Do you want to replace it?`,
+      { modal: true },
+      'Replace'
+    )
+    if (confirmation !== 'Replace') {
+      return
+    }
+  }
+
+  const globs = await vscode.window.showInputBox({
+    prompt: 'Optional glob patterns to resolve again each time the set is added, comma-separated',
+    placeHolder: 'e.g. src/auth/**/*.ts, src/middleware/session.*'
+  })
+  if (globs === undefined) {
+    return
+  }
+
+  try {
+    for (const [folderUri, files] of filesByFolder) {
+      await contextSetService.saveContextSet(name, { files, globs: parseGlobs(globs) }, folderUri)
+    }
+
+    const folderInfo = folderUris.length > 1 ? ` in ${folderUris.length} workspace folders` : ''
+    const skippedInfo =
+      outsideCount > 0
+        ? ` ${outsideCount} added files outside the workspace folders were not saved.`
+        : ''
+    vscode.window.showInformationMessage(`Context set "${name}" saved${folderInfo}.${skippedInfo}`)
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to save context set: ${error.message}`)
+  }
+}
+
+/**
+ * Add the files of a context set to Cody, resolving its globs against the current tree
+ * @param item The context set to add, picked by the user when omitted
+ */
+export async function addContextSet(item?: ContextSetItem) {
+  const telemetry = TelemetryService.getInstance()
+  const contextSet = item ?? (await pickContextSet('Select the context set to add to Cody'))
+  if (!contextSet) {
+    return
+  }
+
+  try {
+    const resolvedUris = await ContextSetService.getInstance().resolveContextSet(
+      contextSet.name,
+      contextSet.folderUri
+    )
+    if (resolvedUris.length === 0) {
+      vscode.window.showInformationMessage(
+        `No files of context set "${contextSet.name}" were found.`
+      )
+      return
+    }
+
+    const fileUris = await getSelectedFileUris(resolvedUris, {
+      progressTitle: 'Adding context set to Cody'
+    })
+    const fileCount = (await Promise.all(fileUris.map(executeMentionFileCommand))).reduce(
+      getSuccessCount,
+      0
+    )
+
+    telemetry.trackEvent(TELEMETRY_EVENTS.CONTEXT_SETS.ADDED, { fileCount })
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to add context set to Cody: ${error.message}`)
+  }
+}
+
+/**
+ * Open the cody-context.json file defining a context set at the set's entry
+ * @param item The context set to edit, picked by the user when omitted
+ */
+export async function editContextSet(item?: ContextSetItem) {
+  const contextSet = item ?? (await pickContextSet('Select the context set to edit'))
+  if (!contextSet) {
+    return
+  }
+
+  const workspaceFolder =
+    vscode.workspace.workspaceFolders?.find(
+      folder => folder.uri.toString() === contextSet.folderUri
+    ) ?? vscode.workspace.workspaceFolders?.[0]
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage('No workspace folder is open.')
+    return
+  }
+
+  try {
+    const document = await vscode.workspace.openTextDocument(getContextSetsPath(workspaceFolder))
+    const offset = document.getText().indexOf(JSON.stringify(contextSet.name))
+    const position = document.positionAt(Math.max(offset, 0))
+    await vscode.window.showTextDocument(document, {
+      selection: new vscode.Range(position, position)
+    })
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to open context set: ${error.message}`)
+  }
+}
+
+/**
+ * Rename a context set
+ * @param item The context set to rename, picked by the user when omitted
+ */
+export async function renameContextSet(item?: ContextSetItem) {
+  const contextSetService = ContextSetService.getInstance()
+  const contextSet = item ?? (await pickContextSet('Select the context set to rename'))
+  if (!contextSet) {
+    return
+  }
+
+  const newName = (
+    await vscode.window.showInputBox({
+      prompt: `New name of the context set "${contextSet.name}"`,
+      value: contextSet.name,
+      validateInput: value => (value.trim() ? undefined : 'Enter a name for the context set.')
+    })
+  )?.trim()
+  if (!newName || newName === contextSet.name) {
+    return
+  }
+
+  try {
+    await contextSetService.renameContextSet(contextSet.name, newName, contextSet.folderUri)
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to rename context set: ${error.message}`)
+  }
+}
+
+/**
+ * Delete a context set after confirmation
+ * @param item The context set to delete, picked by the user when omitted
+ */
+export async function deleteContextSet(item?: ContextSetItem) {
+  const contextSet = item ?? (await pickContextSet('Select the context set to delete'))
+  if (!contextSet) {
+    return
+  }
+
+  const confirmation = await vscode.window.showWarningMessage(
+    `Are you sure you want to delete the "${contextSet.name}" context set?`,
+    { modal: true },
+    'Yes',
+    'No'
+  )
+
+  if (confirmation === 'Yes') {
+    try {
+      await ContextSetService.getInstance().removeContextSet(contextSet.name, contextSet.folderUri)
+      vscode.window.showInformationMessage(`Context set "${contextSet.name}" deleted successfully.`)
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to delete context set: ${error.message}`)
+    }
+  }
+}
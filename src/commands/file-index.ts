@@ -0,0 +1,24 @@
+import * as vscode from 'vscode'
+import { FileIndexService } from '../services/fileIndex.service'
+
+/**
+ * Drop the file index and scan the workspace folders again, e.g. after changes the file
+ * system watcher missed (folders excluded by `files.watcherExclude`, network drives)
+ */
+export async function rebuildFileIndex() {
+  try {
+    const fileCount = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Cody++: Rebuilding the file index...'
+      },
+      () => FileIndexService.getInstance().rebuild()
+    )
+
+    vscode.window.showInformationMessage(
+      `Cody++: File index rebuilt with ${fileCount} file${fileCount !== 1 ? 's' : ''}`
+    )
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to rebuild the file index: ${error.message}`)
+  }
+}
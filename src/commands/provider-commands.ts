@@ -2,77 +2,52 @@ import * as vscode from 'vscode'
 import { createProvider } from '../core/llm'
 import {
   CONFIG_KEYS,
+  DEFAULT_AZURE_OPENAI_API_VERSION,
   LLMProviderDetails,
   SUPPORTED_PROVIDERS,
   SUPPORTED_PROVIDER_CODES
 } from '../core/llm/constants'
 import {
+  AzureOpenAIConfig,
+  getApiKeyConfig,
+  providerRequiresApiKey,
   updateApiKeyConfig,
+  updateAzureOpenAIConfig,
   updateBaseUrlConfig,
   updateModelConfig,
   updateProviderConfig
 } from '../utils/workspace-config'
 
-export const selectProvider = async (): Promise<boolean> => {
-  // --- Step 1: Select Provider ---
-  const providerChoices = SUPPORTED_PROVIDERS.map(p => ({
-    label: p.name,
-    description: p.code,
-    provider: p
-  }))
-
-  const selectedChoice = await vscode.window.showQuickPick(providerChoices, {
-    placeHolder: 'Select the LLM provider for Smart Add'
-  })
-
-  if (!selectedChoice) {
-    vscode.window.showInformationMessage('Provider selection cancelled.')
-    return false // Cancelled
-  }
-  const selectedProvider: LLMProviderDetails = selectedChoice.provider
-
-  // --- Step 2: Get API Key ---
-  const apiKey = await vscode.window.showInputBox({
-    prompt: `Enter your ${selectedProvider.name} API key`,
-    password: true,
-    placeHolder: 'Paste your API key here...',
-    ignoreFocusOut: true
-  })
-
-  if (apiKey === undefined) {
-    // Undefined means user cancelled the input box (Escape key)
-    vscode.window.showInformationMessage('API key entry cancelled.')
-    return false // Cancelled
-  }
-  if (!apiKey) {
-    // Empty string means user submitted without entering a key
-    vscode.window.showWarningMessage('API key cannot be empty. Provider setup cancelled.')
-    return false // Treat empty string as cancellation for atomicity
-  }
-
-  // --- Step 3: Get Base URL (if applicable) ---
-  let finalBaseUrl = selectedProvider.baseURL
-  if (selectedProvider.code === 'openai-compatible') {
-    const currentBaseUrl = vscode.workspace
-      .getConfiguration('codyPlusPlus')
-      .get<string>(CONFIG_KEYS.OPENAI_BASE_URL)
-
-    const baseUrlInput = await vscode.window.showInputBox({
-      prompt: 'Enter base URL (leave empty for default)',
-      placeHolder: selectedProvider.baseURL,
-      value: currentBaseUrl || '', // Use empty string if undefined for the input box
-      ignoreFocusOut: true
-    })
+/**
+ * Check whether the base URL of a provider is configurable, for OpenAI-compatible endpoints,
+ * Ollama servers and Anthropic proxies
+ */
+const hasCustomBaseUrl = (providerCode: string) =>
+  providerCode === 'openai-compatible' || providerCode === 'ollama' || providerCode === 'anthropic'
 
-    if (baseUrlInput === undefined) {
-      vscode.window.showInformationMessage('Base URL entry cancelled.')
-      return false // Cancelled
-    }
-    // Update finalBaseUrl only if user entered something or explicitly cleared it to empty
-    finalBaseUrl = baseUrlInput || selectedProvider.baseURL
+/**
+ * Get the setting holding the base URL of a provider
+ */
+const getBaseUrlKey = (providerCode: string) => {
+  switch (providerCode) {
+    case 'ollama':
+      return CONFIG_KEYS.OLLAMA_BASE_URL
+    case 'anthropic':
+      return CONFIG_KEYS.ANTHROPIC_BASE_URL
+    default:
+      return CONFIG_KEYS.OPENAI_BASE_URL
   }
+}
 
-  // --- Step 4: Get Model ---
+/**
+ * Ask for the model of a provider, picked from its models when they can be listed
+ * @returns The model, or undefined when cancelled
+ */
+const promptModel = async (
+  selectedProvider: LLMProviderDetails,
+  apiKey: string | undefined,
+  finalBaseUrl: string
+): Promise<string | undefined> => {
   const currentModel = vscode.workspace
     .getConfiguration('codyPlusPlus')
     .get<string>(CONFIG_KEYS.MODEL)
@@ -113,23 +88,170 @@ export const selectProvider = async (): Promise<boolean> => {
 
   if (modelInput === undefined) {
     vscode.window.showInformationMessage('Model selection cancelled.')
-    return false // Cancelled
+    return undefined // Cancelled
   }
 
   // Use provider default if model input is empty string, otherwise use the input
-  const finalModel = modelInput || selectedProvider.defaultModel
+  return modelInput || selectedProvider.defaultModel
+}
+
+/**
+ * Ask for the Azure OpenAI resource, deployment and API version, prefilled with the settings
+ * @returns The settings, or undefined when cancelled
+ */
+const promptAzureOpenAIConfig = async (): Promise<AzureOpenAIConfig | undefined> => {
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  const required = (value: string) => (value.trim() ? undefined : 'This value is required')
+
+  const resource = await vscode.window.showInputBox({
+    prompt: 'Enter your Azure OpenAI resource name, or its endpoint URL',
+    placeHolder: 'my-resource or https://my-resource.openai.azure.com',
+    value: config.get<string>(CONFIG_KEYS.AZURE_OPENAI_RESOURCE) || '',
+    validateInput: required,
+    ignoreFocusOut: true
+  })
+  if (resource === undefined) {
+    vscode.window.showInformationMessage('Azure OpenAI resource entry cancelled.')
+    return undefined
+  }
+
+  const deployment = await vscode.window.showInputBox({
+    prompt: 'Enter the name of the deployment to use for Smart Add',
+    placeHolder: 'gpt-4o-mini',
+    value: config.get<string>(CONFIG_KEYS.AZURE_OPENAI_DEPLOYMENT) || '',
+    validateInput: required,
+    ignoreFocusOut: true
+  })
+  if (deployment === undefined) {
+    vscode.window.showInformationMessage('Azure OpenAI deployment entry cancelled.')
+    return undefined
+  }
+
+  const apiVersion = await vscode.window.showInputBox({
+    prompt: `Enter the API version (leave empty for default: ${DEFAULT_AZURE_OPENAI_API_VERSION})`,
+    placeHolder: DEFAULT_AZURE_OPENAI_API_VERSION,
+    value: config.get<string>(CONFIG_KEYS.AZURE_OPENAI_API_VERSION) || '',
+    ignoreFocusOut: true
+  })
+  if (apiVersion === undefined) {
+    vscode.window.showInformationMessage('Azure OpenAI API version entry cancelled.')
+    return undefined
+  }
+
+  return {
+    resource: resource.trim(),
+    deployment: deployment.trim(),
+    apiVersion: apiVersion.trim() || DEFAULT_AZURE_OPENAI_API_VERSION
+  }
+}
+
+export const selectProvider = async (): Promise<boolean> => {
+  // --- Step 1: Select Provider ---
+  const providerChoices = SUPPORTED_PROVIDERS.map(p => ({
+    label: p.name,
+    description: p.code,
+    provider: p
+  }))
+
+  const selectedChoice = await vscode.window.showQuickPick(providerChoices, {
+    placeHolder: 'Select the LLM provider for Smart Add'
+  })
+
+  if (!selectedChoice) {
+    vscode.window.showInformationMessage('Provider selection cancelled.')
+    return false // Cancelled
+  }
+  const selectedProvider: LLMProviderDetails = selectedChoice.provider
+
+  // --- Step 2: Get API Key (if applicable) ---
+  let apiKey: string | undefined
+  // Keys are stored per provider, a stored key can be kept by leaving the input empty
+  const storedApiKey = selectedProvider.requiresApiKey
+    ? await getApiKeyConfig(selectedProvider.code)
+    : undefined
+  if (selectedProvider.requiresApiKey) {
+    apiKey = await vscode.window.showInputBox({
+      prompt: storedApiKey
+        ? `Enter your ${selectedProvider.name} API key (leave empty to keep the stored key)`
+        : `Enter your ${selectedProvider.name} API key`,
+      password: true,
+      placeHolder: 'Paste your API key here...',
+      ignoreFocusOut: true
+    })
+
+    if (apiKey === undefined) {
+      // Undefined means user cancelled the input box (Escape key)
+      vscode.window.showInformationMessage('API key entry cancelled.')
+      return false // Cancelled
+    }
+    apiKey = apiKey.trim() || storedApiKey
+    if (!apiKey) {
+      // Empty string means user submitted without entering a key
+      vscode.window.showWarningMessage('API key cannot be empty. Provider setup cancelled.')
+      return false // Treat empty string as cancellation for atomicity
+    }
+  }
+
+  // --- Step 3: Get Base URL (if applicable) ---
+  let finalBaseUrl = selectedProvider.baseURL
+  if (hasCustomBaseUrl(selectedProvider.code)) {
+    const currentBaseUrl = vscode.workspace
+      .getConfiguration('codyPlusPlus')
+      .get<string>(getBaseUrlKey(selectedProvider.code))
+
+    const baseUrlInput = await vscode.window.showInputBox({
+      prompt:
+        selectedProvider.code === 'ollama'
+          ? 'Enter the Ollama server URL (leave empty for default)'
+          : 'Enter base URL (leave empty for default)',
+      placeHolder: selectedProvider.baseURL,
+      value: currentBaseUrl || '', // Use empty string if undefined for the input box
+      ignoreFocusOut: true
+    })
+
+    if (baseUrlInput === undefined) {
+      vscode.window.showInformationMessage('Base URL entry cancelled.')
+      return false // Cancelled
+    }
+    // Update finalBaseUrl only if user entered something or explicitly cleared it to empty
+    finalBaseUrl = baseUrlInput || selectedProvider.baseURL
+  }
+
+  // --- Step 3b: Get Azure resource, deployment and API version (if applicable) ---
+  let azureConfig: AzureOpenAIConfig | undefined
+  if (selectedProvider.code === 'azure-openai') {
+    azureConfig = await promptAzureOpenAIConfig()
+    if (!azureConfig) {
+      return false // Cancelled
+    }
+  }
+
+  // --- Step 4: Get Model ---
+  // An Azure deployment serves a single model, its name stands for the model
+  const finalModel =
+    azureConfig?.deployment ?? (await promptModel(selectedProvider, apiKey, finalBaseUrl))
+  if (finalModel === undefined) {
+    return false // Cancelled
+  }
 
   // --- All steps completed successfully, now update configuration ---
   try {
     await updateProviderConfig(selectedProvider.code)
-    await updateApiKeyConfig(apiKey)
+    // The key is stored in the secret storage of the provider, never in the settings
+    if (apiKey && apiKey !== storedApiKey) {
+      await updateApiKeyConfig(apiKey, selectedProvider.code)
+    }
 
-    if (selectedProvider.code === 'openai-compatible') {
+    if (hasCustomBaseUrl(selectedProvider.code)) {
       await updateBaseUrlConfig(selectedProvider.code, finalBaseUrl)
     } else {
       await updateBaseUrlConfig(selectedProvider.code, undefined) // Clear specific OpenAI URL if not compatible
     }
 
+    if (azureConfig) {
+      await updateAzureOpenAIConfig(azureConfig)
+    }
+
     await updateModelConfig(finalModel)
 
     console.log(
@@ -153,12 +275,12 @@ export const selectLLM = async (): Promise<boolean> => {
   // Get current configuration
   const config = vscode.workspace.getConfiguration('codyPlusPlus')
   const currentProviderCode = config.get<string>(CONFIG_KEYS.PROVIDER) || 'openai'
-  const currentApiKey = config.get<string>(CONFIG_KEYS.API_KEY)
-  const currentBaseUrl = config.get<string>(CONFIG_KEYS.OPENAI_BASE_URL)
+  const currentApiKey = await getApiKeyConfig(currentProviderCode)
+  const currentBaseUrl = config.get<string>(getBaseUrlKey(currentProviderCode))
   const currentModel = config.get<string>(CONFIG_KEYS.MODEL)
 
   // Ensure provider and API key are set
-  if (!currentProviderCode || !currentApiKey) {
+  if (!currentProviderCode || (!currentApiKey && providerRequiresApiKey(currentProviderCode))) {
     vscode.window.showWarningMessage(
       'Provider and API key must be configured first. Use the "Select LLM Provider" command.'
     )
@@ -178,8 +300,7 @@ export const selectLLM = async (): Promise<boolean> => {
     // Use current config to create provider for fetching models
     const provider = createProvider(currentProviderCode as SUPPORTED_PROVIDER_CODES, {
       apiKey: currentApiKey,
-      baseUrl:
-        currentProviderCode === 'openai-compatible' ? currentBaseUrl : providerDetails.baseURL
+      baseUrl: hasCustomBaseUrl(currentProviderCode) ? currentBaseUrl : providerDetails.baseURL
     })
     models = await provider.fetchModels()
   } catch (error: any) {
@@ -225,6 +346,10 @@ export const selectLLM = async (): Promise<boolean> => {
   // Update only the model configuration
   try {
     await updateModelConfig(finalModel)
+    if (currentProviderCode === 'azure-openai') {
+      // The model of Azure OpenAI is the deployment
+      await updateAzureOpenAIConfig({ deployment: finalModel })
+    }
     console.log(
       `Successfully updated LLM model to ${finalModel} for provider ${providerDetails.name}`
     )
@@ -0,0 +1,236 @@
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, SUPPORTED_PROVIDERS } from '../core/llm/constants'
+import { ProviderProfile, ProviderProfileService } from '../services/providerProfile.service'
+import { getApiKeyConfig, getModelConfig, getProviderConfig } from '../utils/workspace-config'
+
+/**
+ * Get the name of a provider as shown to the user
+ */
+const getProviderName = (code: string) =>
+  SUPPORTED_PROVIDERS.find(details => details.code === code)?.name ?? code
+
+/**
+ * Describe the provider and model of a profile in the pickers
+ */
+const describeProfile = (profile: ProviderProfile) =>
+  `${getProviderName(profile.provider)}${profile.model ? ` · ${profile.model}` : ''}`
+
+/**
+ * Let the user pick one of the profiles
+ * @param placeHolder Placeholder of the picker
+ * @returns The picked profile, or undefined if there are none or the user cancelled
+ */
+async function pickProfile(placeHolder: string): Promise<ProviderProfile | undefined> {
+  const profiles = ProviderProfileService.getInstance().getProfiles()
+  if (profiles.length === 0) {
+    vscode.window.showInformationMessage(
+      'No provider profiles found. Configure a provider, then save it as a profile.'
+    )
+    return undefined
+  }
+
+  const items = profiles.map(profile => ({
+    label: profile.name,
+    description: describeProfile(profile),
+    profile
+  }))
+  return (await vscode.window.showQuickPick(items, { placeHolder }))?.profile
+}
+
+/**
+ * Take a snapshot of the provider settings as a profile
+ * @param name The name of the profile
+ * @returns The profile, or undefined when no provider is configured
+ */
+async function getProfileFromSettings(name: string): Promise<ProviderProfile | undefined> {
+  const provider = await getProviderConfig()
+  if (!provider) {
+    return undefined
+  }
+
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  const profile: ProviderProfile = {
+    name,
+    provider,
+    model:
+      (await getModelConfig()) ||
+      SUPPORTED_PROVIDERS.find(details => details.code === provider)?.defaultModel ||
+      ''
+  }
+  if (provider === 'openai-compatible') {
+    profile.baseUrl = config.get<string>(CONFIG_KEYS.OPENAI_BASE_URL) || undefined
+  } else if (provider === 'ollama') {
+    profile.baseUrl = config.get<string>(CONFIG_KEYS.OLLAMA_BASE_URL) || undefined
+  } else if (provider === 'anthropic') {
+    profile.baseUrl = config.get<string>(CONFIG_KEYS.ANTHROPIC_BASE_URL) || undefined
+  } else if (provider === 'azure-openai') {
+    profile.azure = {
+      resource: config.get<string>(CONFIG_KEYS.AZURE_OPENAI_RESOURCE),
+      deployment: config.get<string>(CONFIG_KEYS.AZURE_OPENAI_DEPLOYMENT),
+      apiVersion: config.get<string>(CONFIG_KEYS.AZURE_OPENAI_API_VERSION)
+    }
+  }
+  return profile
+}
+
+/**
+ * Switch the provider profile used by Smart Add in the workspace, or go back to the
+ * provider settings
+ */
+export async function switchProviderProfile() {
+  const profileService = ProviderProfileService.getInstance()
+  const activeProfile = profileService.getActiveProfile()
+  const provider = await getProviderConfig()
+
+  type ProfileItem = vscode.QuickPickItem & { action: 'profile' | 'settings' | 'save' }
+  const items: ProfileItem[] = [
+    ...profileService.getProfiles().map(profile => ({
+      label: profile.name,
+      description: describeProfile(profile),
+      picked: profile.name === activeProfile?.name,
+      action: 'profile' as const
+    })),
+    {
+      label: 'Provider settings',
+      description: provider ? getProviderName(provider) : 'Not configured',
+      detail: 'Use the provider and model of the Cody++ settings',
+      action: 'settings'
+    },
+    {
+      label: '$(add) Save current provider as profile...',
+      action: 'save'
+    }
+  ]
+
+  const selection = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select the provider profile of Smart Add (current: ${activeProfile?.name ?? 'provider settings'})`
+  })
+  if (!selection) {
+    return
+  }
+
+  switch (selection.action) {
+    case 'profile':
+      await profileService.setActiveProfile(selection.label)
+      break
+    case 'settings':
+      await profileService.setActiveProfile(undefined)
+      break
+    case 'save':
+      await saveProviderProfile()
+      break
+  }
+}
+
+/**
+ * Save the provider settings with their API key as a named profile, and switch to it
+ */
+export async function saveProviderProfile() {
+  const profileService = ProviderProfileService.getInstance()
+  const provider = await getProviderConfig()
+  if (!provider) {
+    vscode.window.showInformationMessage(
+      'Configure an LLM provider first, then save it as a profile.'
+    )
+    return
+  }
+
+  const name = (
+    await vscode.window.showInputBox({
+      prompt: `Name of the profile for ${getProviderName(provider)}`,
+      placeHolder: 'e.g. fast, accurate, offline',
+      validateInput: value => (value.trim() ? undefined : 'Enter a name for the profile.')
+    })
+  )?.trim()
+  if (!name) {
+    return
+  }
+
+  if (profileService.getProfile(name)) {
+    const confirmation = await vscode.window.showWarningMessage(
+      `A provider profile named "${name}" already exists. Do you want to replace it?`,
+      { modal: true },
+      'Replace'
+    )
+    if (confirmation !== 'Replace') {
+      return
+    }
+  }
+
+  try {
+    const profile = await getProfileFromSettings(name)
+    if (!profile) {
+      return
+    }
+    // The profile keeps a copy of the key, so the provider key can change afterwards
+    await profileService.saveProfile(profile, await getApiKeyConfig(provider))
+    await profileService.setActiveProfile(name)
+    vscode.window.showInformationMessage(`Provider profile "${name}" saved and activated.`)
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to save provider profile: ${error.message}`)
+  }
+}
+
+/**
+ * Delete a provider profile and its API key after confirmation
+ */
+export async function deleteProviderProfile() {
+  const profile = await pickProfile('Select the provider profile to delete')
+  if (!profile) {
+    return
+  }
+
+  const confirmation = await vscode.window.showWarningMessage(
+    `Are you sure you want to delete the "${profile.name}" provider profile?`,
+    { modal: true },
+    'Yes',
+    'No'
+  )
+
+  if (confirmation === 'Yes') {
+    try {
+      await ProviderProfileService.getInstance().deleteProfile(profile.name)
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to delete provider profile: ${error.message}`)
+    }
+  }
+}
+
+/**
+ * Set the provider profile used by default in the workspace, stored in the workspace
+ * settings so it can be shared with the repository
+ */
+export async function setDefaultProviderProfile() {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showErrorMessage('Open a workspace to set its default provider profile.')
+    return
+  }
+
+  const profileService = ProviderProfileService.getInstance()
+  const defaultName = profileService.getDefaultProfileName()
+  const items = [
+    ...profileService.getProfiles().map(profile => ({
+      label: profile.name,
+      description: describeProfile(profile),
+      name: profile.name as string | undefined
+    })),
+    {
+      label: 'No default profile',
+      description: 'Use the provider settings',
+      name: undefined
+    }
+  ]
+
+  const selection = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select the default provider profile of the workspace (current: ${defaultName ?? 'none'})`
+  })
+  if (!selection) {
+    return
+  }
+
+  try {
+    await profileService.setWorkspaceDefaultProfile(selection.name)
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to set the default provider profile: ${error.message}`)
+  }
+}
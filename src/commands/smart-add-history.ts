@@ -0,0 +1,190 @@
+import * as vscode from 'vscode'
+import { TELEMETRY_EVENTS } from '../constants/telemetry'
+import { executeMentionFileCommand } from '../core/cody/commands'
+import { SmartAddHistoryEntry, SmartAddHistoryService } from '../services/smartAddHistory.service'
+import { TelemetryService } from '../services/telemetry.service'
+import { getSuccessCount } from '../utils'
+import { addFilesSmart } from './add-to-cody'
+import { rememberAddedFiles } from './context-sets'
+
+/**
+ * A Smart Add run as referenced from the sidebar
+ */
+export interface SmartAddHistoryItem {
+  id: string
+}
+
+/**
+ * Describe when a run happened, in the locale of the user
+ */
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString()
+}
+
+/**
+ * Find the run referenced by an item, or let the user pick one of the history
+ * @param item The run referenced from the sidebar, if any
+ * @param placeHolder Placeholder of the picker
+ * @returns The run, or undefined if the history is empty or the user cancelled the picker
+ */
+async function getHistoryEntry(
+  item: SmartAddHistoryItem | undefined,
+  placeHolder: string
+): Promise<SmartAddHistoryEntry | undefined> {
+  const historyService = SmartAddHistoryService.getInstance()
+  if (item) {
+    const entry = historyService.getEntry(item.id)
+    if (!entry) {
+      vscode.window.showErrorMessage('This Smart Add run is no longer in the history.')
+    }
+    return entry
+  }
+
+  const entries = historyService.getEntries()
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage(
+      'No Smart Add runs yet. Run Smart Add to fill the history.'
+    )
+    return undefined
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    entries.map(entry => ({
+      label: entry.prompt,
+      description: `${entry.files.length} file${entry.files.length !== 1 ? 's' : ''}`,
+      detail: `${vscode.workspace.asRelativePath(vscode.Uri.parse(entry.rootUri))} · ${entry.provider}/${entry.model} · ${formatTimestamp(entry.timestamp)}`,
+      entry
+    })),
+    { placeHolder, matchOnDetail: true }
+  )
+  return picked?.entry
+}
+
+/**
+ * Show the Smart Add history, then re-add, re-run or delete the picked run
+ * @param context The extension context, passed on when the run is repeated
+ */
+export async function showSmartAddHistory(context: vscode.ExtensionContext) {
+  const entry = await getHistoryEntry(undefined, 'Smart Add: History')
+  if (!entry) {
+    return
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: '$(add) Add the Files Again',
+        description: `${entry.files.length} file${entry.files.length !== 1 ? 's' : ''}, without calling the LLM`,
+        action: readdSmartAddRun
+      },
+      {
+        label: '$(refresh) Run the Prompt Again',
+        description: 'Select files in the current file tree',
+        action: (item: SmartAddHistoryItem) => rerunSmartAddRun(item, context)
+      },
+      {
+        label: '$(trash) Delete from History',
+        action: deleteSmartAddRun
+      }
+    ],
+    { placeHolder: entry.prompt }
+  )
+  await picked?.action({ id: entry.id })
+}
+
+/**
+ * Add the files of a previous Smart Add run to Cody again, without calling the LLM.
+ * Files deleted since the run are skipped.
+ * @param item The run to add, picked by the user when omitted
+ */
+export async function readdSmartAddRun(item?: SmartAddHistoryItem) {
+  const telemetry = TelemetryService.getInstance()
+  const entry = await getHistoryEntry(item, 'Select the Smart Add run to add again')
+  if (!entry) {
+    return
+  }
+
+  try {
+    const rootUri = vscode.Uri.parse(entry.rootUri)
+    const fileUris = (
+      await Promise.all(
+        entry.files.map(async file => {
+          const fileUri = vscode.Uri.joinPath(rootUri, file)
+          try {
+            await vscode.workspace.fs.stat(fileUri)
+            return fileUri
+          } catch {
+            return undefined
+          }
+        })
+      )
+    ).filter((fileUri): fileUri is vscode.Uri => !!fileUri)
+
+    if (fileUris.length === 0) {
+      vscode.window.showInformationMessage('None of the files of this Smart Add run were found.')
+      return
+    }
+
+    const fileCount = (await Promise.all(fileUris.map(executeMentionFileCommand))).reduce(
+      getSuccessCount,
+      0
+    )
+    rememberAddedFiles(fileUris)
+
+    telemetry.trackEvent(TELEMETRY_EVENTS.FILES.READD_SMART_SELECTION, { fileCount })
+
+    const missingCount = entry.files.length - fileUris.length
+    vscode.window.showInformationMessage(
+      `Cody++: ${fileCount} file${fileCount !== 1 ? 's' : ''} of "${entry.prompt}" added` +
+        (missingCount > 0 ? `, ${missingCount} no longer found` : '')
+    )
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Failed to add the Smart Add files to Cody: ${error.message}`)
+  }
+}
+
+/**
+ * Run the prompt of a previous Smart Add run again against the current file tree
+ * @param item The run to repeat, picked by the user when omitted
+ * @param context The extension context
+ */
+export async function rerunSmartAddRun(
+  item: SmartAddHistoryItem | undefined,
+  context: vscode.ExtensionContext
+) {
+  const entry = await getHistoryEntry(item, 'Select the Smart Add run to run again')
+  if (!entry) {
+    return
+  }
+
+  await addFilesSmart([vscode.Uri.parse(entry.rootUri)], context, entry.prompt)
+}
+
+/**
+ * Delete a run from the Smart Add history
+ * @param item The run to delete, picked by the user when omitted
+ */
+export async function deleteSmartAddRun(item?: SmartAddHistoryItem) {
+  const entry = await getHistoryEntry(item, 'Select the Smart Add run to delete')
+  if (!entry) {
+    return
+  }
+
+  await SmartAddHistoryService.getInstance().removeEntry(entry.id)
+}
+
+/**
+ * Clear the Smart Add history of the workspace after confirmation
+ */
+export async function clearSmartAddHistory() {
+  const confirmation = await vscode.window.showWarningMessage(
+    'Are you sure you want to clear the Smart Add history of this workspace?',
+    { modal: true },
+    'Yes',
+    'No'
+  )
+
+  if (confirmation === 'Yes') {
+    await SmartAddHistoryService.getInstance().clear()
+  }
+}
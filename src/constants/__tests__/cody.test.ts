@@ -1,7 +1,13 @@
 import * as assert from 'assert'
 import * as sinon from 'sinon'
 import * as vscode from 'vscode'
-import { CODY_COMMAND, CODY_CUSTOM_COMMANDS_FILE, getCodyJsonPath } from '../cody'
+import {
+  CODY_COMMAND,
+  CODY_CONTEXT_SETS_FILE,
+  CODY_CUSTOM_COMMANDS_FILE,
+  getCodyJsonPath,
+  getContextSetsPath
+} from '../cody'
 
 suite('Cody Constants Tests', () => {
   let sandbox: sinon.SinonSandbox
@@ -23,18 +29,28 @@ suite('Cody Constants Tests', () => {
     assert.strictEqual(CODY_CUSTOM_COMMANDS_FILE, 'cody.json')
   })
 
-  test('should return correct cody.json path when workspace exists', () => {
-    const mockWorkspaceFolder = { uri: { fsPath: '/test/path' } }
-    sandbox.stub(vscode.workspace, 'workspaceFolders').value([mockWorkspaceFolder])
+  test('should return the cody.json path of the given workspace folder', () => {
+    const workspaceFolder = {
+      uri: vscode.Uri.file('/test/second'),
+      name: 'second',
+      index: 1
+    }
 
-    const result = getCodyJsonPath()
-    assert.strictEqual(result, '/test/path/.vscode/cody.json')
+    const result = getCodyJsonPath(workspaceFolder)
+    assert.strictEqual(result, '/test/second/.vscode/cody.json')
   })
 
-  test('should return undefined when no workspace exists', () => {
-    sandbox.stub(vscode.workspace, 'workspaceFolders').value(undefined)
-
-    const result = getCodyJsonPath()
-    assert.strictEqual(result, undefined)
+  test('should return the cody-context.json path of the given workspace folder', () => {
+    const workspaceFolder = {
+      uri: vscode.Uri.file('/test/second'),
+      name: 'second',
+      index: 1
+    }
+
+    assert.strictEqual(CODY_CONTEXT_SETS_FILE, 'cody-context.json')
+    assert.strictEqual(
+      getContextSetsPath(workspaceFolder),
+      '/test/second/.vscode/cody-context.json'
+    )
   })
 })
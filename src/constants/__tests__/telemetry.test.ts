@@ -6,7 +6,11 @@ suite('Telemetry Constants Tests', () => {
     assert.strictEqual(TELEMETRY_EVENTS.FILES.ADD_FILE, 'add_file')
     assert.strictEqual(TELEMETRY_EVENTS.FILES.ADD_SELECTION, 'add_selection')
     assert.strictEqual(TELEMETRY_EVENTS.FILES.ADD_FOLDER, 'add_folder')
+    assert.strictEqual(TELEMETRY_EVENTS.FILES.ADD_GIT_CHANGES, 'add_git_changes')
+    assert.strictEqual(TELEMETRY_EVENTS.FILES.ADD_RELATED_FILES, 'add_related_files')
     assert.strictEqual(TELEMETRY_EVENTS.FILES.ADD_SMART_SELECTION, 'add_smart_selection')
+    assert.strictEqual(TELEMETRY_EVENTS.FILES.REFINE_SMART_SELECTION, 'refine_smart_selection')
+    assert.strictEqual(TELEMETRY_EVENTS.FILES.READD_SMART_SELECTION, 'readd_smart_selection')
   })
 
   test('should have correct custom command event names', () => {
@@ -14,4 +18,10 @@ suite('Telemetry Constants Tests', () => {
     assert.strictEqual(TELEMETRY_EVENTS.CUSTOM_COMMANDS.DELETED, 'custom_command_deleted')
     assert.strictEqual(TELEMETRY_EVENTS.CUSTOM_COMMANDS.EXECUTED, 'custom_command_executed')
   })
+
+  test('should have correct context set event names', () => {
+    assert.strictEqual(TELEMETRY_EVENTS.CONTEXT_SETS.SAVED, 'context_set_saved')
+    assert.strictEqual(TELEMETRY_EVENTS.CONTEXT_SETS.ADDED, 'context_set_added')
+    assert.strictEqual(TELEMETRY_EVENTS.CONTEXT_SETS.DELETED, 'context_set_deleted')
+  })
 })
@@ -12,13 +12,21 @@ export const CODY_COMMAND = {
 
 export const CODY_CUSTOM_COMMANDS_FILE = 'cody.json'
 
-export function getCodyJsonPath(): string | undefined {
-  const workspaceFolders = vscode.workspace.workspaceFolders
-  if (!workspaceFolders) {
-    console.error('CODY++: No workspace folder is open.')
-    return undefined
-  }
-
-  const vscodeFolderPath = path.join(workspaceFolders[0].uri.fsPath, '.vscode')
+/**
+ * Get the path of the cody.json file of a workspace folder
+ * @param workspaceFolder The workspace folder owning the file
+ */
+export function getCodyJsonPath(workspaceFolder: vscode.WorkspaceFolder): string {
+  const vscodeFolderPath = path.join(workspaceFolder.uri.fsPath, '.vscode')
   return path.join(vscodeFolderPath, CODY_CUSTOM_COMMANDS_FILE)
 }
+
+export const CODY_CONTEXT_SETS_FILE = 'cody-context.json'
+
+/**
+ * Get the path of the cody-context.json file holding the context sets of a workspace folder
+ * @param workspaceFolder The workspace folder owning the file
+ */
+export function getContextSetsPath(workspaceFolder: vscode.WorkspaceFolder): string {
+  return path.join(workspaceFolder.uri.fsPath, '.vscode', CODY_CONTEXT_SETS_FILE)
+}
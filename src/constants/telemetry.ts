@@ -3,11 +3,20 @@ export const TELEMETRY_EVENTS = {
     ADD_FILE: 'add_file',
     ADD_SELECTION: 'add_selection',
     ADD_FOLDER: 'add_folder',
-    ADD_SMART_SELECTION: 'add_smart_selection'
+    ADD_GIT_CHANGES: 'add_git_changes',
+    ADD_RELATED_FILES: 'add_related_files',
+    ADD_SMART_SELECTION: 'add_smart_selection',
+    REFINE_SMART_SELECTION: 'refine_smart_selection',
+    READD_SMART_SELECTION: 'readd_smart_selection'
   },
   CUSTOM_COMMANDS: {
     CREATED: 'custom_command_created',
     DELETED: 'custom_command_deleted',
     EXECUTED: 'custom_command_executed'
+  },
+  CONTEXT_SETS: {
+    SAVED: 'context_set_saved',
+    ADDED: 'context_set_added',
+    DELETED: 'context_set_deleted'
   }
 } as const
@@ -8,6 +8,7 @@ suite('Filesystem Config Tests', () => {
   let showWarningMessageStub: sinon.SinonStub
   let configModule: any
   let configStub: sinon.SinonStub
+  let showFilePreviewStub: sinon.SinonStub
 
   setup(() => {
     sandbox = sinon.createSandbox()
@@ -28,15 +29,21 @@ suite('Filesystem Config Tests', () => {
       return defaultValue
     })
 
+    showFilePreviewStub = sandbox.stub()
+
     // Load the config module with stubs
     configModule = proxyquire.noCallThru().load('../config', {
       vscode: {
         workspace: {
-          getConfiguration: configStub
+          getConfiguration: configStub,
+          asRelativePath: (uri: { path: string }) => uri.path
         },
         window: {
           showWarningMessage: showWarningMessageStub
         }
+      },
+      './preview': {
+        showFilePreview: showFilePreviewStub
       }
     })
   })
@@ -53,10 +60,36 @@ suite('Filesystem Config Tests', () => {
 
       // Check for default values
       assert.strictEqual(config.fileThreshold, 15)
+      assert.strictEqual(config.tokenBudget, 30000)
       assert.deepStrictEqual(config.excludedFileTypes, [])
       assert.deepStrictEqual(config.excludedFolders, [])
+      assert.strictEqual(config.respectGitignore, true)
+      assert.deepStrictEqual(config.include, [])
+      assert.deepStrictEqual(config.exclude, [])
+      assert.strictEqual(config.skipBinaryFiles, true)
+      assert.strictEqual(config.maxFileSize, 1024)
+      assert.strictEqual(config.maxLineCount, 5000)
       assert.strictEqual(config.recursive, true)
       assert.strictEqual(config.progressTitle, 'Processing files')
+      assert.strictEqual(config.preview, false)
+    })
+
+    test('should read the respectGitignore setting', () => {
+      configGetStub.withArgs('respectGitignore', true).returns(false)
+
+      const config = configModule.getProcessingConfig()
+
+      assert.strictEqual(config.respectGitignore, false)
+    })
+
+    test('should read the include and exclude glob settings', () => {
+      configGetStub.withArgs('include', []).returns(['src/**'])
+      configGetStub.withArgs('exclude', []).returns(['**/*.snap'])
+
+      const config = configModule.getProcessingConfig()
+
+      assert.deepStrictEqual(config.include, ['src/**'])
+      assert.deepStrictEqual(config.exclude, ['**/*.snap'])
     })
 
     test('should use workspace settings when available', () => {
@@ -97,44 +130,125 @@ suite('Filesystem Config Tests', () => {
     })
   })
 
-  suite('validateFileCount', () => {
-    test('should return false when file count is 0', async () => {
-      const result = await configModule.validateFileCount(0, 15)
+  suite('validateFileSelection', () => {
+    const file = (path: string, tokens: number) => ({ uri: { path }, tokens })
+    const config = { fileThreshold: 15, tokenBudget: 1000 }
 
-      assert.strictEqual(result, false)
-      assert.strictEqual(showWarningMessageStub.calledOnce, true)
+    test('should return no files and warn when the selection is empty', async () => {
+      const result = await configModule.validateFileSelection([], config)
+
+      assert.deepStrictEqual(result, [])
       assert.strictEqual(
         showWarningMessageStub.firstCall.args[0],
         'No files or folders are selected to add to Cody.'
       )
     })
 
-    test('should return true when file count is below threshold', async () => {
-      const result = await configModule.validateFileCount(10, 15)
+    test('should not prompt when the selection is within the threshold and budget', async () => {
+      const files = [file('a.ts', 400), file('b.ts', 500)]
+
+      const result = await configModule.validateFileSelection(files, config)
 
-      assert.strictEqual(result, true)
+      assert.deepStrictEqual(result, files)
       assert.strictEqual(showWarningMessageStub.called, false)
     })
 
-    test('should prompt user when file count exceeds threshold and return true if confirmed', async () => {
-      showWarningMessageStub.resolves('Yes')
+    test('should show the total tokens and the largest files when over budget', async () => {
+      const files = [file('small.ts', 200), file('large.ts', 1500), file('medium.ts', 600)]
 
-      const result = await configModule.validateFileCount(20, 15)
+      const result = await configModule.validateFileSelection(files, config)
 
-      assert.strictEqual(result, true)
-      assert.strictEqual(showWarningMessageStub.calledOnce, true)
+      assert.deepStrictEqual(result, files)
+      const [message, options, ...actions] = showWarningMessageStub.firstCall.args
       assert.strictEqual(
-        showWarningMessageStub.firstCall.args[0],
-        'The selection contains 20 files. Do you want to proceed?'
+        message,
+        'The selection contains 3 files (~2.3k tokens, over the budget of 1.0k). Do you want to proceed?'
+      )
+      assert.strictEqual(options.modal, true)
+      assert.strictEqual(
+        options.detail,
+        'Largest files:\nlarge.ts (~1.5k tokens)\nmedium.ts (~600 tokens)\nsmall.ts (~200 tokens)'
+      )
+      assert.deepStrictEqual(actions, ['Yes', 'Preview', 'Drop Largest Files', 'No'])
+    })
+
+    test('should only offer to proceed when over the file threshold but within budget', async () => {
+      const files = Array.from({ length: 20 }, (_, i) => file(`file${i}.ts`, 10))
+
+      await configModule.validateFileSelection(files, config)
+
+      const [, , ...actions] = showWarningMessageStub.firstCall.args
+      assert.deepStrictEqual(actions, ['Yes', 'Preview', 'No'])
+    })
+
+    test('should show the tokens without a budget when they were counted', async () => {
+      const files = Array.from({ length: 20 }, (_, i) => file(`file${i}.ts`, 100 + i))
+
+      await configModule.validateFileSelection(files, { fileThreshold: 15, tokenBudget: 0 })
+
+      const [message, options, ...actions] = showWarningMessageStub.firstCall.args
+      assert.strictEqual(
+        message,
+        'The selection contains 20 files (~2.2k tokens). Do you want to proceed?'
+      )
+      assert.ok(options.detail.startsWith('Largest files:\nfile19.ts (~119 tokens)'))
+      assert.deepStrictEqual(actions, ['Yes', 'Preview', 'No'])
+    })
+
+    test('should only show the file count when the tokens were not counted', async () => {
+      const files = Array.from({ length: 20 }, (_, i) => ({ uri: { path: `file${i}.ts` } }))
+
+      await configModule.validateFileSelection(files, config)
+
+      const [message, options] = showWarningMessageStub.firstCall.args
+      assert.strictEqual(message, 'The selection contains 20 files. Do you want to proceed?')
+      assert.deepStrictEqual(options, { modal: true })
+    })
+
+    test('should return the files picked in the preview', async () => {
+      showWarningMessageStub.resolves('Preview')
+      const files = [file('a.ts', 800), file('b.ts', 900)]
+      showFilePreviewStub.resolves([files[1]])
+
+      const result = await configModule.validateFileSelection(files, config)
+
+      assert.deepStrictEqual(result, [files[1]])
+      assert.deepStrictEqual(showFilePreviewStub.firstCall.args, [files, { tokenBudget: 1000 }])
+    })
+
+    test('should return no files when the preview is dismissed', async () => {
+      showWarningMessageStub.resolves('Preview')
+      showFilePreviewStub.resolves(undefined)
+
+      const result = await configModule.validateFileSelection([file('a.ts', 5000)], config)
+
+      assert.deepStrictEqual(result, [])
+    })
+
+    test('should drop the largest files to fit the budget, keeping the original order', async () => {
+      showWarningMessageStub.resolves('Drop Largest Files')
+      const files = [
+        file('a.ts', 300),
+        file('b.ts', 900),
+        file('c.ts', 200),
+        file('d.ts', 700),
+        file('e.ts', 100)
+      ]
+
+      const result = await configModule.validateFileSelection(files, config)
+
+      assert.deepStrictEqual(
+        result.map((f: any) => f.uri.path),
+        ['a.ts', 'c.ts', 'e.ts']
       )
     })
 
-    test('should prompt user when file count exceeds threshold and return false if rejected', async () => {
+    test('should return no files when the user cancels', async () => {
       showWarningMessageStub.resolves('No')
 
-      const result = await configModule.validateFileCount(20, 15)
+      const result = await configModule.validateFileSelection([file('a.ts', 5000)], config)
 
-      assert.strictEqual(result, false)
+      assert.deepStrictEqual(result, [])
     })
   })
 })
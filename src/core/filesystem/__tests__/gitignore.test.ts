@@ -0,0 +1,157 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import proxyquire from 'proxyquire'
+import * as sinon from 'sinon'
+
+suite('Gitignore Filter Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let tempDir: string
+  let homeDir: string
+  let rootPath: string
+  let gitignoreModule: any
+  let originalXdgConfigHome: string | undefined
+
+  const writeFile = (filePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, content)
+  }
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    sandbox.stub(console, 'log')
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cody-plus-plus-gitignore-'))
+    homeDir = path.join(tempDir, 'home')
+    rootPath = path.join(tempDir, 'workspace')
+    fs.mkdirSync(homeDir, { recursive: true })
+    fs.mkdirSync(rootPath, { recursive: true })
+
+    originalXdgConfigHome = process.env.XDG_CONFIG_HOME
+    delete process.env.XDG_CONFIG_HOME
+
+    // Load a fresh module so the filter cache is empty and the home directory is isolated
+    gitignoreModule = proxyquire.noCallThru().load('../gitignore', {
+      os: { homedir: () => homeDir }
+    })
+    gitignoreModule.clearGitignoreFilterCache()
+  })
+
+  teardown(() => {
+    sandbox.restore()
+    if (originalXdgConfigHome === undefined) {
+      delete process.env.XDG_CONFIG_HOME
+    } else {
+      process.env.XDG_CONFIG_HOME = originalXdgConfigHome
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('should apply rules from the root .gitignore', async () => {
+    writeFile(path.join(rootPath, '.gitignore'), 'dist/\n*.log\n')
+
+    const filter = await gitignoreModule.GitignoreFilter.create(rootPath)
+
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'dist'), true), true)
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'debug.log'), false), true)
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'src', 'app.ts'), false), false)
+  })
+
+  test('should apply nested .gitignore files relative to their directory', async () => {
+    writeFile(path.join(rootPath, 'packages', 'api', '.gitignore'), 'generated/\n')
+
+    const filter = await gitignoreModule.GitignoreFilter.create(rootPath)
+
+    assert.strictEqual(
+      await filter.ignores(path.join(rootPath, 'packages', 'api', 'generated'), true),
+      true
+    )
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'generated'), true), false)
+    assert.strictEqual(
+      await filter.ignores(path.join(rootPath, 'packages', 'web', 'generated'), true),
+      false
+    )
+  })
+
+  test('should let nested negation re-include files ignored by a parent', async () => {
+    writeFile(path.join(rootPath, '.gitignore'), '*.json\n')
+    writeFile(path.join(rootPath, 'config', '.gitignore'), '!settings.json\n')
+
+    const filter = await gitignoreModule.GitignoreFilter.create(rootPath)
+
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'data.json'), false), true)
+    assert.strictEqual(
+      await filter.ignores(path.join(rootPath, 'config', 'settings.json'), false),
+      false
+    )
+    assert.strictEqual(
+      await filter.ignores(path.join(rootPath, 'config', 'other.json'), false),
+      true
+    )
+  })
+
+  test('should apply .git/info/exclude and the global excludes file', async () => {
+    writeFile(path.join(rootPath, '.git', 'info', 'exclude'), 'local-notes.md\n')
+    writeFile(path.join(homeDir, '.config', 'git', 'ignore'), '.DS_Store\n')
+
+    const filter = await gitignoreModule.GitignoreFilter.create(rootPath)
+
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'local-notes.md'), false), true)
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'src', '.DS_Store'), false), true)
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'README.md'), false), false)
+  })
+
+  test('should follow core.excludesFile from the user git config', async () => {
+    writeFile(path.join(homeDir, '.gitconfig'), '[core]\n\texcludesFile = ~/.my-ignore\n')
+    writeFile(path.join(homeDir, '.my-ignore'), '*.swp\n')
+
+    const filter = await gitignoreModule.GitignoreFilter.create(rootPath)
+
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'main.ts.swp'), false), true)
+  })
+
+  test('should let the repository .gitignore override global excludes', async () => {
+    writeFile(path.join(homeDir, '.config', 'git', 'ignore'), '*.env\n')
+    writeFile(path.join(rootPath, '.gitignore'), '!example.env\n')
+
+    const filter = await gitignoreModule.GitignoreFilter.create(rootPath)
+
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'example.env'), false), false)
+    assert.strictEqual(await filter.ignores(path.join(rootPath, 'local.env'), false), true)
+  })
+
+  test('should never ignore paths outside of the root', async () => {
+    writeFile(path.join(rootPath, '.gitignore'), '*\n')
+
+    const filter = await gitignoreModule.GitignoreFilter.create(rootPath)
+
+    assert.strictEqual(await filter.ignores(rootPath, true), false)
+    assert.strictEqual(await filter.ignores(path.join(tempDir, 'outside.ts'), false), false)
+  })
+
+  test('should reuse cached filters for the same root', async () => {
+    const filter1 = await gitignoreModule.getGitignoreFilter(rootPath)
+    const filter2 = await gitignoreModule.getGitignoreFilter(rootPath)
+
+    assert.strictEqual(filter1, filter2)
+
+    gitignoreModule.clearGitignoreFilterCache()
+    const filter3 = await gitignoreModule.getGitignoreFilter(rootPath)
+
+    assert.notStrictEqual(filter1, filter3)
+  })
+
+  test('should only clear the cached filter of the given root', async () => {
+    const otherRootPath = path.join(tempDir, 'other')
+    fs.mkdirSync(otherRootPath)
+
+    const filter = await gitignoreModule.getGitignoreFilter(rootPath)
+    const otherFilter = await gitignoreModule.getGitignoreFilter(otherRootPath)
+
+    gitignoreModule.clearGitignoreFilterCache(otherRootPath)
+
+    assert.strictEqual(await gitignoreModule.getGitignoreFilter(rootPath), filter)
+    assert.notStrictEqual(await gitignoreModule.getGitignoreFilter(otherRootPath), otherFilter)
+  })
+})
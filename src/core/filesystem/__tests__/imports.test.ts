@@ -0,0 +1,239 @@
+import * as assert from 'assert'
+import proxyquire from 'proxyquire'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+
+suite('Import Graph Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let files: Record<string, string>
+  let executeCommandStub: sinon.SinonStub
+  let findFilesStub: sinon.SinonStub
+  let importsModule: any
+
+  const workspaceFolder = { uri: vscode.Uri.file('/test/workspace'), name: 'workspace', index: 0 }
+  const fileUri = (relativePath: string) => vscode.Uri.joinPath(workspaceFolder.uri, relativePath)
+  const toPaths = (uris: vscode.Uri[]) => uris.map(uri => uri.fsPath)
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    files = {}
+    executeCommandStub = sandbox.stub().resolves([])
+    findFilesStub = sandbox
+      .stub()
+      .callsFake(async () => Object.keys(files).map(filePath => vscode.Uri.file(filePath)))
+
+    // In-memory workspace where `files` maps absolute paths to their content
+    const mockVscode = {
+      workspace: {
+        fs: {
+          stat: async (uri: vscode.Uri) => {
+            if (!(uri.fsPath in files)) {
+              throw new Error('ENOENT')
+            }
+            return { type: 1 }
+          },
+          readFile: async (uri: vscode.Uri) => new TextEncoder().encode(files[uri.fsPath])
+        },
+        findFiles: findFilesStub,
+        getWorkspaceFolder: (uri: vscode.Uri) =>
+          uri.fsPath.startsWith(workspaceFolder.uri.fsPath) ? workspaceFolder : undefined,
+        getConfiguration: () => ({ get: (_key: string, defaultValue: unknown) => defaultValue })
+      },
+      commands: { executeCommand: executeCommandStub },
+      FileType: { File: 1, Directory: 2 },
+      Uri: vscode.Uri,
+      RelativePattern: class {}
+    }
+
+    importsModule = proxyquire.noCallThru().load('../imports', { vscode: mockVscode })
+  })
+
+  teardown(() => {
+    importsModule.clearDependentsIndexCache()
+    sandbox.restore()
+  })
+
+  suite('parseImports', () => {
+    test('should find import, export, require and dynamic import specifiers', () => {
+      const content = [
+        "import { a, b as c } from './named'",
+        "import type { T } from '../types'",
+        "import * as ns from 'lodash'",
+        "import './side-effect'",
+        "export { d } from './reexport'",
+        "export * from './all'",
+        "const e = require('./required')",
+        "const f = await import('./lazy')",
+        'import {',
+        '  g,',
+        '  h',
+        "} from './multiline'"
+      ].join('\n')
+
+      const specifiers = importsModule
+        .parseImports(content)
+        .map((reference: any) => reference.specifier)
+
+      assert.deepStrictEqual(specifiers, [
+        './named',
+        '../types',
+        'lodash',
+        './side-effect',
+        './reexport',
+        './all',
+        './required',
+        './lazy',
+        './multiline'
+      ])
+    })
+
+    test('should report the offset of each specifier', () => {
+      const content = "import x from './x'"
+
+      const [reference] = importsModule.parseImports(content)
+
+      assert.strictEqual(content.slice(reference.offset, reference.offset + 3), './x')
+    })
+  })
+
+  suite('resolveImport', () => {
+    const fromUri = fileUri('src/app.ts')
+
+    test('should resolve extensionless and index imports', async () => {
+      files[fileUri('src/utils.ts').fsPath] = ''
+      files[fileUri('src/components/index.tsx').fsPath] = ''
+
+      const utils = await importsModule.resolveImport(fromUri, './utils')
+      const components = await importsModule.resolveImport(fromUri, './components')
+
+      assert.strictEqual(utils.fsPath, fileUri('src/utils.ts').fsPath)
+      assert.strictEqual(components.fsPath, fileUri('src/components/index.tsx').fsPath)
+    })
+
+    test('should resolve .js specifiers to TypeScript sources', async () => {
+      files[fileUri('src/module.ts').fsPath] = ''
+
+      const resolved = await importsModule.resolveImport(fromUri, './module.js')
+
+      assert.strictEqual(resolved.fsPath, fileUri('src/module.ts').fsPath)
+    })
+
+    test('should not resolve package imports or missing files', async () => {
+      assert.strictEqual(await importsModule.resolveImport(fromUri, 'react'), undefined)
+      assert.strictEqual(await importsModule.resolveImport(fromUri, './missing'), undefined)
+    })
+  })
+
+  suite('collectRelatedFiles', () => {
+    setup(() => {
+      // main -> service -> repository, and controller -> service
+      files[fileUri('src/main.ts').fsPath] = "import { service } from './service'"
+      files[fileUri('src/service.ts').fsPath] = "import { repository } from './repository'"
+      files[fileUri('src/repository.ts').fsPath] = "import { db } from 'db'"
+      files[fileUri('src/controller.ts').fsPath] = "import { service } from './service'"
+    })
+
+    test('should collect direct dependencies and dependents', async () => {
+      const related = await importsModule.collectRelatedFiles(fileUri('src/service.ts'), {
+        depth: 1,
+        useLanguageServer: false
+      })
+
+      assert.deepStrictEqual(toPaths(related.dependencies), [fileUri('src/repository.ts').fsPath])
+      assert.deepStrictEqual(toPaths(related.dependents).sort(), [
+        fileUri('src/controller.ts').fsPath,
+        fileUri('src/main.ts').fsPath
+      ])
+      assert.strictEqual(executeCommandStub.called, false)
+    })
+
+    test('should follow imports up to the given depth', async () => {
+      const depth1 = await importsModule.collectRelatedFiles(fileUri('src/main.ts'), {
+        depth: 1,
+        useLanguageServer: false
+      })
+      const depth2 = await importsModule.collectRelatedFiles(fileUri('src/main.ts'), {
+        depth: 2,
+        useLanguageServer: false
+      })
+
+      assert.deepStrictEqual(toPaths(depth1.dependencies), [fileUri('src/service.ts').fsPath])
+      assert.deepStrictEqual(toPaths(depth2.dependencies), [
+        fileUri('src/service.ts').fsPath,
+        fileUri('src/repository.ts').fsPath
+      ])
+      assert.deepStrictEqual(depth2.dependents, [])
+    })
+
+    test('should scan the workspace folder once and again after its index is cleared', async () => {
+      const options = { depth: 1, useLanguageServer: false }
+      await importsModule.collectRelatedFiles(fileUri('src/service.ts'), options)
+      files[fileUri('src/worker.ts').fsPath] = "import { service } from './service'"
+      const cached = await importsModule.collectRelatedFiles(fileUri('src/service.ts'), options)
+
+      assert.strictEqual(findFilesStub.callCount, 1)
+      assert.strictEqual(cached.dependents.length, 2)
+
+      importsModule.clearDependentsIndexCacheFor(fileUri('src/worker.ts'))
+      const rescanned = await importsModule.collectRelatedFiles(fileUri('src/service.ts'), options)
+
+      assert.strictEqual(findFilesStub.callCount, 2)
+      assert.strictEqual(rescanned.dependents.length, 3)
+    })
+
+    test('should update the index with the imports of changed and deleted files', async () => {
+      const options = { depth: 1, useLanguageServer: false }
+      const dependentsOf = async (relativePath: string) =>
+        toPaths(
+          (await importsModule.collectRelatedFiles(fileUri(relativePath), options)).dependents
+        )
+      await dependentsOf('src/service.ts')
+
+      // The controller now imports the repository, and main is deleted
+      files[fileUri('src/controller.ts').fsPath] = "import { repository } from './repository'"
+      importsModule.updateDependentsIndexFor(fileUri('src/controller.ts'))
+      delete files[fileUri('src/main.ts').fsPath]
+      importsModule.updateDependentsIndexFor(fileUri('src/main.ts'))
+
+      assert.deepStrictEqual(await dependentsOf('src/service.ts'), [])
+      assert.deepStrictEqual((await dependentsOf('src/repository.ts')).sort(), [
+        fileUri('src/controller.ts').fsPath,
+        fileUri('src/service.ts').fsPath
+      ])
+      assert.strictEqual(findFilesStub.callCount, 1)
+    })
+
+    test('should not scan the workspace folder without dependents to look up', async () => {
+      const related = await importsModule.collectRelatedFiles(fileUri('src/service.ts'), {
+        depth: 0,
+        useLanguageServer: false
+      })
+
+      assert.deepStrictEqual(related, { dependencies: [], dependents: [] })
+      assert.strictEqual(findFilesStub.called, false)
+    })
+
+    test('should add references found by the language server', async () => {
+      const symbolPosition = { line: 0, character: 9 }
+      executeCommandStub
+        .withArgs('vscode.executeDocumentSymbolProvider')
+        .resolves([{ selectionRange: { start: symbolPosition } }])
+      executeCommandStub
+        .withArgs('vscode.executeReferenceProvider')
+        .resolves([
+          { uri: fileUri('src/repository.ts') },
+          { uri: fileUri('src/consumer.py') },
+          { uri: vscode.Uri.file('/elsewhere/outside.ts') }
+        ])
+
+      const related = await importsModule.getDependents(
+        fileUri('src/repository.ts'),
+        new Map(),
+        true
+      )
+
+      // The file itself and files outside the workspace are left out
+      assert.deepStrictEqual(toPaths(related), [fileUri('src/consumer.py').fsPath])
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import * as assert from 'assert'
+import proxyquire from 'proxyquire'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+suite('Filesystem Inspection Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let statStub: sinon.SinonStub
+  let readFileStub: sinon.SinonStub
+  let showWarningMessageStub: sinon.SinonStub
+  let inspectionModule: any
+
+  const limits = { skipBinaryFiles: true, maxFileSize: 1, maxLineCount: 3 }
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    statStub = sandbox.stub()
+    readFileStub = sandbox.stub()
+    showWarningMessageStub = sandbox.stub().resolves(undefined)
+
+    inspectionModule = proxyquire.noCallThru().load('../inspection', {
+      vscode: {
+        workspace: {
+          fs: { stat: statStub, readFile: readFileStub },
+          asRelativePath: (uri: vscode.Uri) => uri.fsPath
+        },
+        window: { showWarningMessage: showWarningMessageStub }
+      },
+      './tokens': { estimateTokens: async (text: string) => text.length }
+    })
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  suite('isBinaryContent', () => {
+    test('should detect null bytes in the first chunk', () => {
+      assert.strictEqual(inspectionModule.isBinaryContent(new Uint8Array([0x89, 0x50, 0x00])), true)
+      assert.strictEqual(inspectionModule.isBinaryContent(encode('const a = 1\n')), false)
+    })
+
+    test('should only look at the first chunk', () => {
+      const content = new Uint8Array(10000).fill(0x61)
+      content[9000] = 0
+
+      assert.strictEqual(inspectionModule.isBinaryContent(content), false)
+    })
+  })
+
+  suite('countLines', () => {
+    test('should count lines with and without a trailing newline', () => {
+      assert.strictEqual(inspectionModule.countLines(encode('')), 0)
+      assert.strictEqual(inspectionModule.countLines(encode('one')), 1)
+      assert.strictEqual(inspectionModule.countLines(encode('one\ntwo\n')), 2)
+      assert.strictEqual(inspectionModule.countLines(encode('one\ntwo\nthree')), 3)
+    })
+  })
+
+  suite('inspectFiles', () => {
+    test('should split files into accepted and skipped with reasons', async () => {
+      const textUri = vscode.Uri.file('/test/workspace/app.ts')
+      const largeUri = vscode.Uri.file('/test/workspace/fixture.json')
+      const binaryUri = vscode.Uri.file('/test/workspace/logo.png')
+      const longUri = vscode.Uri.file('/test/workspace/pnpm-lock.yaml')
+
+      statStub.withArgs(textUri).resolves({ size: 20 })
+      statStub.withArgs(largeUri).resolves({ size: 2048 })
+      statStub.withArgs(binaryUri).resolves({ size: 100 })
+      statStub.withArgs(longUri).resolves({ size: 100 })
+      readFileStub.withArgs(textUri).resolves(encode('const a = 1\n'))
+      readFileStub.withArgs(binaryUri).resolves(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00]))
+      readFileStub.withArgs(longUri).resolves(encode('a\nb\nc\nd\n'))
+
+      const { files, skipped } = await inspectionModule.inspectFiles(
+        [textUri, largeUri, binaryUri, longUri],
+        limits
+      )
+
+      assert.deepStrictEqual(files, [{ uri: textUri, size: 20, lineCount: 1 }])
+      assert.deepStrictEqual(
+        skipped.map((file: any) => [file.uri, file.reason]),
+        [
+          [largeUri, 'tooLarge'],
+          [binaryUri, 'binary'],
+          [longUri, 'tooManyLines']
+        ]
+      )
+      // Oversized files are skipped without reading their content
+      assert.strictEqual(readFileStub.calledWith(largeUri), false)
+    })
+
+    test('should not read content when only the size limit is set', async () => {
+      const uri = vscode.Uri.file('/test/workspace/app.ts')
+      statStub.resolves({ size: 20 })
+
+      const { files } = await inspectionModule.inspectFiles([uri], {
+        skipBinaryFiles: false,
+        maxFileSize: 1,
+        maxLineCount: 0
+      })
+
+      assert.deepStrictEqual(files, [{ uri, size: 20 }])
+      assert.strictEqual(readFileStub.called, false)
+    })
+
+    test('should estimate tokens when asked to', async () => {
+      const uri = vscode.Uri.file('/test/workspace/app.ts')
+      statStub.resolves({ size: 12 })
+      readFileStub.resolves(encode('const a = 1\n'))
+
+      const { files } = await inspectionModule.inspectFiles(
+        [uri],
+        { skipBinaryFiles: false, maxFileSize: 0, maxLineCount: 0 },
+        { countTokens: true }
+      )
+
+      assert.deepStrictEqual(files, [{ uri, size: 12, lineCount: 1, tokens: 12 }])
+    })
+
+    test('should report unreadable files as skipped', async () => {
+      const uri = vscode.Uri.file('/test/workspace/missing.ts')
+      statStub.rejects(new Error('ENOENT'))
+
+      const { files, skipped } = await inspectionModule.inspectFiles([uri], limits)
+
+      assert.strictEqual(files.length, 0)
+      assert.strictEqual(skipped[0].reason, 'unreadable')
+      assert.strictEqual(skipped[0].detail, 'ENOENT')
+    })
+  })
+
+  suite('measureFiles', () => {
+    test('should measure the files without tokens and keep the unreadable ones', async () => {
+      const counted = { uri: vscode.Uri.file('/counted.ts'), size: 10, tokens: 4 }
+      const uncounted = { uri: vscode.Uri.file('/uncounted.ts') }
+      const unreadable = { uri: vscode.Uri.file('/unreadable.ts') }
+      readFileStub.withArgs(uncounted.uri).resolves(encode('a\nbc\n'))
+      readFileStub.withArgs(unreadable.uri).rejects(new Error('EACCES'))
+
+      const files = await inspectionModule.measureFiles([counted, uncounted, unreadable])
+
+      assert.deepStrictEqual(files, [
+        counted,
+        { uri: uncounted.uri, size: 5, lineCount: 2, tokens: 5 },
+        unreadable
+      ])
+      assert.strictEqual(readFileStub.calledWith(counted.uri), false)
+    })
+  })
+
+  suite('showSkippedFilesSummary', () => {
+    test('should summarize skipped files by reason', () => {
+      inspectionModule.showSkippedFilesSummary([
+        { uri: vscode.Uri.file('/a.png'), reason: 'binary', detail: '' },
+        { uri: vscode.Uri.file('/b.png'), reason: 'binary', detail: '' },
+        { uri: vscode.Uri.file('/c.json'), reason: 'tooLarge', detail: '' }
+      ])
+
+      assert.strictEqual(showWarningMessageStub.calledOnce, true)
+      assert.strictEqual(
+        showWarningMessageStub.firstCall.args[0],
+        'Cody++: Skipped 3 files (2 binary, 1 too large)'
+      )
+    })
+
+    test('should not show anything when no files were skipped', () => {
+      inspectionModule.showSkippedFilesSummary([])
+
+      assert.strictEqual(showWarningMessageStub.called, false)
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import * as assert from 'assert'
+import proxyquire from 'proxyquire'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+
+suite('Test Pairing Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let getWorkspaceFileTreeStub: sinon.SinonStub
+  let getTreeFilterStub: sinon.SinonStub
+  let pairingModule: any
+  let rules: any[]
+
+  const workspaceFolder = { uri: vscode.Uri.file('/test/workspace'), name: 'workspace', index: 0 }
+  const fileUri = (relativePath: string) => vscode.Uri.joinPath(workspaceFolder.uri, relativePath)
+  const treeEntry = (relativePath: string, type: 'file' | 'directory' = 'file') => ({
+    path: fileUri(relativePath).fsPath,
+    type,
+    name: relativePath.split('/').pop()
+  })
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    getWorkspaceFileTreeStub = sandbox.stub().resolves([])
+    getTreeFilterStub = sandbox.stub().resolves(() => false)
+
+    pairingModule = proxyquire.noCallThru().load('../pairing', {
+      vscode: {
+        workspace: {
+          getWorkspaceFolder: (uri: vscode.Uri) =>
+            uri.fsPath.startsWith(workspaceFolder.uri.fsPath) ? workspaceFolder : undefined,
+          getConfiguration: () => ({ get: (_key: string, defaultValue: unknown) => defaultValue })
+        },
+        Uri: vscode.Uri
+      },
+      './operations': { getWorkspaceFileTree: getWorkspaceFileTreeStub }
+    })
+    rules = Object.values(pairingModule.DEFAULT_PAIRING_RULES)
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  suite('findCounterparts', () => {
+    const filePaths = [
+      'src/app.ts',
+      'src/__tests__/app.test.ts',
+      'src/app.spec.ts',
+      'src/util.service.ts',
+      'src/util.service.test.ts',
+      'index.js',
+      'index.test.js',
+      'pkg/parser.py',
+      'tests/unit/test_parser.py',
+      'server/handler.go',
+      'server/handler_test.go',
+      'src/main/java/com/acme/Widget.java',
+      'src/test/java/com/acme/WidgetTest.java'
+    ]
+
+    test('should find the tests of an implementation file', () => {
+      assert.deepStrictEqual(pairingModule.findCounterparts('src/app.ts', filePaths, rules), [
+        'src/__tests__/app.test.ts',
+        'src/app.spec.ts'
+      ])
+      assert.deepStrictEqual(
+        pairingModule.findCounterparts('src/util.service.ts', filePaths, rules),
+        ['src/util.service.test.ts']
+      )
+      assert.deepStrictEqual(pairingModule.findCounterparts('index.js', filePaths, rules), [
+        'index.test.js'
+      ])
+    })
+
+    test('should find the implementation of a test file', () => {
+      assert.deepStrictEqual(
+        pairingModule.findCounterparts('src/__tests__/app.test.ts', filePaths, rules),
+        ['src/app.ts']
+      )
+      assert.deepStrictEqual(pairingModule.findCounterparts('src/app.spec.ts', filePaths, rules), [
+        'src/app.ts'
+      ])
+    })
+
+    test('should support other languages and globstar templates', () => {
+      assert.deepStrictEqual(pairingModule.findCounterparts('pkg/parser.py', filePaths, rules), [
+        'tests/unit/test_parser.py'
+      ])
+      assert.deepStrictEqual(
+        pairingModule.findCounterparts('server/handler_test.go', filePaths, rules),
+        ['server/handler.go']
+      )
+      assert.deepStrictEqual(
+        pairingModule.findCounterparts('src/main/java/com/acme/Widget.java', filePaths, rules),
+        ['src/test/java/com/acme/WidgetTest.java']
+      )
+    })
+
+    test('should use custom templates', () => {
+      const customRules = [
+        { extensions: ['ts'], source: 'lib/{dir}/{name}.ts', tests: ['test/{dir}/{name}.ts'] }
+      ]
+
+      assert.deepStrictEqual(
+        pairingModule.findCounterparts('lib/core/a.ts', ['test/core/a.ts'], customRules),
+        ['test/core/a.ts']
+      )
+      assert.deepStrictEqual(
+        pairingModule.findCounterparts('test/core/a.ts', ['lib/core/a.ts'], customRules),
+        ['lib/core/a.ts']
+      )
+    })
+
+    test('should return nothing for files without a rule or counterpart', () => {
+      assert.deepStrictEqual(pairingModule.findCounterparts('README.md', filePaths, rules), [])
+      assert.deepStrictEqual(pairingModule.findCounterparts('src/other.ts', filePaths, rules), [])
+    })
+  })
+
+  suite('addTestCounterparts', () => {
+    test('should append counterparts found in the workspace file tree', async () => {
+      getWorkspaceFileTreeStub.resolves([
+        treeEntry('src', 'directory'),
+        treeEntry('src/a.ts'),
+        treeEntry('src/b.ts'),
+        treeEntry('src/__tests__', 'directory'),
+        treeEntry('src/__tests__/a.test.ts'),
+        treeEntry('src/__tests__/b.test.ts')
+      ])
+
+      const result = await pairingModule.addTestCounterparts(
+        [fileUri('src/a.ts'), fileUri('src/__tests__/b.test.ts')],
+        getTreeFilterStub
+      )
+
+      assert.deepStrictEqual(
+        result.map((uri: vscode.Uri) => uri.fsPath),
+        [
+          fileUri('src/a.ts').fsPath,
+          fileUri('src/__tests__/b.test.ts').fsPath,
+          fileUri('src/__tests__/a.test.ts').fsPath,
+          fileUri('src/b.ts').fsPath
+        ]
+      )
+      // The tree is read once per workspace folder
+      assert.strictEqual(getWorkspaceFileTreeStub.calledOnce, true)
+      assert.strictEqual(getTreeFilterStub.calledOnce, true)
+    })
+
+    test('should look up counterparts in the filtered tree of the workspace folder', async () => {
+      const shouldExclude = (entry: any) => entry.name.endsWith('.snap')
+      getTreeFilterStub.resolves(shouldExclude)
+
+      await pairingModule.addTestCounterparts([fileUri('src/a.ts')], getTreeFilterStub)
+
+      assert.strictEqual(getTreeFilterStub.firstCall.args[0].fsPath, workspaceFolder.uri.fsPath)
+      assert.strictEqual(getWorkspaceFileTreeStub.firstCall.args[1], shouldExclude)
+    })
+
+    test('should skip files outside the workspace', async () => {
+      const outsideUri = vscode.Uri.file('/elsewhere/a.ts')
+
+      const result = await pairingModule.addTestCounterparts([outsideUri], getTreeFilterStub)
+
+      assert.deepStrictEqual(result, [outsideUri])
+      assert.strictEqual(getWorkspaceFileTreeStub.called, false)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import * as assert from 'assert'
+import proxyquire from 'proxyquire'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+
+const SEPARATOR = -1
+
+suite('File Preview Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let quickPick: any
+  let previewModule: any
+
+  const file = (relativePath: string, size: number, tokens?: number) => ({
+    uri: vscode.Uri.file(`/test/workspace/${relativePath}`),
+    size,
+    ...(tokens !== undefined ? { tokens } : {})
+  })
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+
+    // Minimal QuickPick that records its handlers so tests can drive it
+    quickPick = {
+      items: [],
+      selectedItems: [],
+      show: sandbox.stub(),
+      hide: sandbox.stub().callsFake(() => quickPick.hideHandler()),
+      dispose: sandbox.stub(),
+      onDidChangeSelection: (handler: any) => (quickPick.selectionHandler = handler),
+      onDidAccept: (handler: any) => (quickPick.acceptHandler = handler),
+      onDidHide: (handler: any) => (quickPick.hideHandler = handler)
+    }
+
+    previewModule = proxyquire.noCallThru().load('../preview', {
+      vscode: {
+        window: { createQuickPick: () => quickPick },
+        workspace: {
+          asRelativePath: (uri: vscode.Uri) => uri.path.replace('/test/workspace/', '')
+        },
+        QuickPickItemKind: { Separator: SEPARATOR }
+      }
+    })
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  test('should group files by directory with all files checked', () => {
+    const files = [file('src/b.ts', 2048, 300), file('README.md', 10, 3), file('src/a.ts', 20, 5)]
+
+    void previewModule.showFilePreview(files)
+
+    assert.deepStrictEqual(
+      quickPick.items.map((item: any) => [item.label, item.kind === SEPARATOR]),
+      [
+        ['.', true],
+        ['README.md', false],
+        ['src', true],
+        ['b.ts', false],
+        ['a.ts', false]
+      ]
+    )
+    assert.strictEqual(quickPick.items[3].description, '2.0 KB · ~300 tokens')
+    assert.strictEqual(quickPick.selectedItems.length, 3)
+    assert.strictEqual(quickPick.canSelectMany, true)
+    assert.strictEqual(quickPick.title, 'Add 3 of 3 files to Cody (~308 tokens)')
+    assert.strictEqual(quickPick.show.calledOnce, true)
+  })
+
+  test('should update the title with the checked files and budget', () => {
+    const files = [file('a.ts', 10, 800), file('b.ts', 10, 400)]
+
+    void previewModule.showFilePreview(files, { tokenBudget: 1000 })
+    assert.strictEqual(
+      quickPick.title,
+      'Add 2 of 2 files to Cody (~1.2k tokens of 1.0k, over budget)'
+    )
+
+    quickPick.selectionHandler([quickPick.items[1]])
+    assert.strictEqual(quickPick.title, 'Add 1 of 2 files to Cody (~800 tokens of 1.0k)')
+  })
+
+  test('should resolve with the checked files in their original order', async () => {
+    const files = [file('a.ts', 1), file('b.ts', 2), file('c.ts', 3)]
+
+    const result = previewModule.showFilePreview(files)
+    quickPick.selectedItems = [quickPick.items[3], quickPick.items[1]]
+    quickPick.acceptHandler()
+
+    assert.deepStrictEqual(await result, [files[0], files[2]])
+    assert.strictEqual(quickPick.dispose.calledOnce, true)
+  })
+
+  test('should resolve with undefined when dismissed', async () => {
+    const result = previewModule.showFilePreview([file('a.ts', 1)])
+    quickPick.hideHandler()
+
+    assert.strictEqual(await result, undefined)
+  })
+})
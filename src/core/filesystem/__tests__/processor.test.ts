@@ -2,6 +2,7 @@ import * as assert from 'assert'
 import proxyquire from 'proxyquire'
 import * as sinon from 'sinon'
 import * as vscode from 'vscode'
+import { hasInspectionLimits } from '../inspection'
 
 // Mock FileType enum
 const MockFileType = {
@@ -15,8 +16,13 @@ suite('Filesystem Processor Tests', () => {
   let vscodeWindowStub: sinon.SinonStub
   let vscodeWorkspaceFsStatStub: sinon.SinonStub
   let vscodeWorkspaceFsReadDirectoryStub: sinon.SinonStub
-  let validateFileCountStub: sinon.SinonStub
+  let validateFileSelectionStub: sinon.SinonStub
+  let showFilePreviewStub: sinon.SinonStub
+  let addTestCounterpartsStub: sinon.SinonStub
   let getProcessingConfigStub: sinon.SinonStub
+  let getGitignoreFilterForSelectionStub: sinon.SinonStub
+  let inspectFilesStub: sinon.SinonStub
+  let showSkippedFilesSummaryStub: sinon.SinonStub
   let processorModule: any
   let vscodeMock: any
 
@@ -32,8 +38,10 @@ suite('Filesystem Processor Tests', () => {
     vscodeWorkspaceFsReadDirectoryStub = sandbox.stub()
 
     // Stub config functions
-    validateFileCountStub = sandbox.stub()
-    validateFileCountStub.resolves(true)
+    validateFileSelectionStub = sandbox.stub()
+    validateFileSelectionStub.callsFake(async files => files)
+    showFilePreviewStub = sandbox.stub()
+    addTestCounterpartsStub = sandbox.stub()
     getProcessingConfigStub = sandbox.stub()
     getProcessingConfigStub.returns({
       fileThreshold: 15,
@@ -43,10 +51,23 @@ suite('Filesystem Processor Tests', () => {
       progressTitle: 'Processing files'
     })
 
+    // Stub gitignore lookups (no rules unless a test provides them)
+    getGitignoreFilterForSelectionStub = sandbox.stub()
+    getGitignoreFilterForSelectionStub.resolves(undefined)
+
+    // Stub content inspection
+    inspectFilesStub = sandbox.stub()
+    showSkippedFilesSummaryStub = sandbox.stub()
+
     // Create a mock vscode object with the required properties
     vscodeMock = {
-      window: { showWarningMessage: vscodeWindowStub },
+      window: {
+        showWarningMessage: vscodeWindowStub,
+        withProgress: (_options: unknown, task: () => unknown) => task()
+      },
+      ProgressLocation: { Notification: 15 },
       workspace: {
+        getWorkspaceFolder: sandbox.stub().returns(undefined),
         fs: {
           stat: vscodeWorkspaceFsStatStub,
           readDirectory: vscodeWorkspaceFsReadDirectoryStub
@@ -60,8 +81,25 @@ suite('Filesystem Processor Tests', () => {
     processorModule = proxyquire.noCallThru().load('../processor', {
       vscode: vscodeMock,
       './config': {
-        validateFileCount: validateFileCountStub,
+        validateFileSelection: validateFileSelectionStub,
         getProcessingConfig: getProcessingConfigStub
+      },
+      './gitignore': {
+        getGitignoreFilterForSelection: getGitignoreFilterForSelectionStub
+      },
+      './inspection': {
+        hasInspectionLimits,
+        inspectFiles: inspectFilesStub,
+        showSkippedFilesSummary: showSkippedFilesSummaryStub
+      },
+      './operations': {
+        readDirectory: vscodeWorkspaceFsReadDirectoryStub
+      },
+      './pairing': {
+        addTestCounterparts: addTestCounterpartsStub
+      },
+      './preview': {
+        showFilePreview: showFilePreviewStub
       }
     })
   })
@@ -123,10 +161,10 @@ suite('Filesystem Processor Tests', () => {
     assert.deepStrictEqual(result[0].fsPath, fileUri.fsPath)
     assert.deepStrictEqual(result[1].fsPath, fileInSubDirUri.fsPath)
 
-    // Verify validateFileCount was called
-    assert.strictEqual(validateFileCountStub.calledOnce, true)
-    assert.strictEqual(validateFileCountStub.firstCall.args[0], 2) // 2 files
-    assert.strictEqual(validateFileCountStub.firstCall.args[1], 15) // threshold
+    // Verify validateFileSelection was called
+    assert.strictEqual(validateFileSelectionStub.calledOnce, true)
+    assert.strictEqual(validateFileSelectionStub.firstCall.args[0].length, 2) // 2 files
+    assert.strictEqual(validateFileSelectionStub.firstCall.args[1].fileThreshold, 15) // threshold
   })
 
   test('should use non-recursive mode when specified', async () => {
@@ -184,8 +222,8 @@ suite('Filesystem Processor Tests', () => {
     assert.deepStrictEqual(result[0].fsPath, fileUri.fsPath)
   })
 
-  test('should return empty array when validateFileCount returns false', async () => {
-    validateFileCountStub.resolves(false)
+  test('should return empty array when validateFileSelection returns no files', async () => {
+    validateFileSelectionStub.resolves([])
 
     const fileUri = vscode.Uri.file('/test/workspace/file.js')
     vscodeWorkspaceFsStatStub.withArgs(fileUri).resolves({ type: MockFileType.File })
@@ -194,6 +232,355 @@ suite('Filesystem Processor Tests', () => {
 
     // Should return empty array
     assert.deepStrictEqual(result, [])
-    assert.strictEqual(validateFileCountStub.calledOnce, true)
+    assert.strictEqual(validateFileSelectionStub.calledOnce, true)
+  })
+
+  test('should skip gitignored files and folders when enabled', async () => {
+    getProcessingConfigStub.returns({
+      fileThreshold: 15,
+      excludedFileTypes: [],
+      excludedFolders: [],
+      respectGitignore: true,
+      recursive: true,
+      progressTitle: 'Processing files'
+    })
+
+    const rootUri = vscode.Uri.file('/test/workspace')
+    const fileUri = vscode.Uri.file('/test/workspace/index.ts')
+    const ignoredFileUri = vscode.Uri.file('/test/workspace/debug.log')
+    const ignoredDirUri = vscode.Uri.file('/test/workspace/dist')
+
+    const ignoredPaths = new Set([ignoredFileUri.fsPath, ignoredDirUri.fsPath])
+    getGitignoreFilterForSelectionStub.resolves({
+      ignores: async (fsPath: string) => ignoredPaths.has(fsPath)
+    })
+
+    vscodeWorkspaceFsStatStub.withArgs(rootUri).resolves({ type: MockFileType.Directory })
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(rootUri).resolves([
+      ['index.ts', MockFileType.File],
+      ['debug.log', MockFileType.File],
+      ['dist', MockFileType.Directory]
+    ])
+    vscodeWorkspaceFsReadDirectoryStub
+      .withArgs(ignoredDirUri)
+      .resolves([['bundle.js', MockFileType.File]])
+
+    const result = await processorModule.getSelectedFileUris([rootUri])
+
+    assert.strictEqual(getGitignoreFilterForSelectionStub.calledOnceWith(rootUri), true)
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(result[0].fsPath, fileUri.fsPath)
+    assert.strictEqual(vscodeWorkspaceFsReadDirectoryStub.calledWith(ignoredDirUri), false)
+  })
+
+  test('should not look up gitignore rules when disabled', async () => {
+    const rootUri = vscode.Uri.file('/test/workspace')
+    vscodeWorkspaceFsStatStub.withArgs(rootUri).resolves({ type: MockFileType.Directory })
+    vscodeWorkspaceFsReadDirectoryStub
+      .withArgs(rootUri)
+      .resolves([['debug.log', MockFileType.File]])
+
+    const result = await processorModule.getSelectedFileUris([rootUri])
+
+    assert.strictEqual(getGitignoreFilterForSelectionStub.called, false)
+    assert.strictEqual(result.length, 1)
+  })
+
+  test('should apply include and exclude glob patterns', async () => {
+    getProcessingConfigStub.returns({
+      fileThreshold: 15,
+      excludedFileTypes: [],
+      excludedFolders: [],
+      include: ['src/**'],
+      exclude: ['**/*.snap', '*.min.js', 'src/generated/**'],
+      recursive: true,
+      progressTitle: 'Processing files'
+    })
+
+    const rootUri = vscode.Uri.file('/test/workspace')
+    const srcUri = vscode.Uri.file('/test/workspace/src')
+    const generatedUri = vscode.Uri.file('/test/workspace/src/generated')
+    const appUri = vscode.Uri.file('/test/workspace/src/app.ts')
+
+    vscodeWorkspaceFsStatStub.withArgs(rootUri).resolves({ type: MockFileType.Directory })
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(rootUri).resolves([
+      ['README.md', MockFileType.File],
+      ['src', MockFileType.Directory]
+    ])
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(srcUri).resolves([
+      ['app.ts', MockFileType.File],
+      ['app.test.ts.snap', MockFileType.File],
+      ['vendor.min.js', MockFileType.File],
+      ['generated', MockFileType.Directory]
+    ])
+    vscodeWorkspaceFsReadDirectoryStub
+      .withArgs(generatedUri)
+      .resolves([['schema.ts', MockFileType.File]])
+
+    const result = await processorModule.getSelectedFileUris([rootUri])
+
+    // README.md is outside the include patterns, the rest are excluded by globs
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(result[0].fsPath, appUri.fsPath)
+    assert.strictEqual(vscodeWorkspaceFsReadDirectoryStub.calledWith(generatedUri), false)
+  })
+
+  test('should match glob patterns relative to the owning workspace folder', async () => {
+    getProcessingConfigStub.returns({
+      fileThreshold: 15,
+      excludedFileTypes: [],
+      excludedFolders: [],
+      include: [],
+      exclude: ['packages/api/**'],
+      recursive: true,
+      progressTitle: 'Processing files'
+    })
+
+    const workspaceUri = vscode.Uri.file('/test/workspace')
+    const packagesUri = vscode.Uri.file('/test/workspace/packages')
+    const apiUri = vscode.Uri.file('/test/workspace/packages/api')
+    const webUri = vscode.Uri.file('/test/workspace/packages/web')
+    vscodeMock.workspace.getWorkspaceFolder.returns({ uri: workspaceUri })
+
+    vscodeWorkspaceFsStatStub.withArgs(packagesUri).resolves({ type: MockFileType.Directory })
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(packagesUri).resolves([
+      ['api', MockFileType.Directory],
+      ['web', MockFileType.Directory]
+    ])
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(apiUri).resolves([['index.ts', MockFileType.File]])
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(webUri).resolves([['index.ts', MockFileType.File]])
+
+    const result = await processorModule.getSelectedFileUris([packagesUri])
+
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(result[0].fsPath, vscode.Uri.joinPath(webUri, 'index.ts').fsPath)
+  })
+
+  test('should skip files that fail content inspection', async () => {
+    getProcessingConfigStub.returns({
+      fileThreshold: 15,
+      excludedFileTypes: [],
+      excludedFolders: [],
+      skipBinaryFiles: true,
+      maxFileSize: 1,
+      maxLineCount: 0,
+      recursive: true,
+      progressTitle: 'Processing files'
+    })
+
+    const rootUri = vscode.Uri.file('/test/workspace')
+    const textUri = vscode.Uri.file('/test/workspace/app.ts')
+    const imageUri = vscode.Uri.file('/test/workspace/logo.png')
+    const skipped = [{ uri: imageUri, reason: 'binary', detail: 'contains binary data' }]
+    inspectFilesStub.resolves({ files: [{ uri: textUri, size: 3 }], skipped })
+
+    vscodeWorkspaceFsStatStub.withArgs(rootUri).resolves({ type: MockFileType.Directory })
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(rootUri).resolves([
+      ['app.ts', MockFileType.File],
+      ['logo.png', MockFileType.File]
+    ])
+
+    const result = await processorModule.getSelectedFileUris([rootUri])
+
+    assert.strictEqual(inspectFilesStub.calledOnce, true)
+    assert.strictEqual(inspectFilesStub.firstCall.args[0].length, 2)
+    // The files are read anyway, so their tokens are counted for the file count warning
+    assert.deepStrictEqual(inspectFilesStub.firstCall.args[2], { countTokens: true })
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(result[0].fsPath, textUri.fsPath)
+    assert.strictEqual(validateFileSelectionStub.firstCall.args[0].length, 1)
+    assert.strictEqual(showSkippedFilesSummaryStub.calledOnceWith(skipped), true)
+  })
+
+  test('should not inspect file contents when no limits are set', async () => {
+    const fileUri = vscode.Uri.file('/test/workspace/file.js')
+    vscodeWorkspaceFsStatStub.withArgs(fileUri).resolves({ type: MockFileType.File })
+
+    const result = await processorModule.getSelectedFileUris([fileUri])
+
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(inspectFilesStub.called, false)
+  })
+
+  test('should count tokens and confirm against the token budget when one is set', async () => {
+    getProcessingConfigStub.returns({
+      fileThreshold: 15,
+      tokenBudget: 1000,
+      excludedFileTypes: [],
+      excludedFolders: [],
+      skipBinaryFiles: false,
+      maxFileSize: 0,
+      maxLineCount: 0,
+      recursive: true,
+      progressTitle: 'Processing files'
+    })
+
+    const rootUri = vscode.Uri.file('/test/workspace')
+    const smallUri = vscode.Uri.file('/test/workspace/small.ts')
+    const largeUri = vscode.Uri.file('/test/workspace/large.ts')
+    const files = [
+      { uri: smallUri, size: 10, lineCount: 1, tokens: 5 },
+      { uri: largeUri, size: 9000, lineCount: 300, tokens: 2000 }
+    ]
+    inspectFilesStub.resolves({ files, skipped: [] })
+    validateFileSelectionStub.resolves([files[0]])
+
+    vscodeWorkspaceFsStatStub.withArgs(rootUri).resolves({ type: MockFileType.Directory })
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(rootUri).resolves([
+      ['small.ts', MockFileType.File],
+      ['large.ts', MockFileType.File]
+    ])
+
+    const result = await processorModule.getSelectedFileUris([rootUri])
+
+    assert.deepStrictEqual(inspectFilesStub.firstCall.args[2], { countTokens: true })
+    assert.strictEqual(validateFileSelectionStub.calledOnce, true)
+    assert.deepStrictEqual(validateFileSelectionStub.firstCall.args[0], files)
+    assert.strictEqual(result.length, 1)
+    assert.strictEqual(result[0].fsPath, smallUri.fsPath)
+  })
+
+  test('should let the user pick files in the preview instead of confirming', async () => {
+    getProcessingConfigStub.returns({
+      fileThreshold: 15,
+      tokenBudget: 0,
+      excludedFileTypes: [],
+      excludedFolders: [],
+      skipBinaryFiles: false,
+      maxFileSize: 0,
+      maxLineCount: 0,
+      recursive: true,
+      progressTitle: 'Processing files',
+      preview: true
+    })
+
+    const rootUri = vscode.Uri.file('/test/workspace')
+    const keptUri = vscode.Uri.file('/test/workspace/kept.ts')
+    const uncheckedUri = vscode.Uri.file('/test/workspace/unchecked.ts')
+    const files = [
+      { uri: keptUri, size: 10, lineCount: 1, tokens: 5 },
+      { uri: uncheckedUri, size: 20, lineCount: 2, tokens: 10 }
+    ]
+    inspectFilesStub.resolves({ files, skipped: [] })
+    showFilePreviewStub.resolves([files[0]])
+
+    vscodeWorkspaceFsStatStub.withArgs(rootUri).resolves({ type: MockFileType.Directory })
+    vscodeWorkspaceFsReadDirectoryStub.withArgs(rootUri).resolves([
+      ['kept.ts', MockFileType.File],
+      ['unchecked.ts', MockFileType.File]
+    ])
+
+    const { folderCount, fileUris } = await processorModule.getSelectedFolderCount([rootUri])
+
+    // Token estimates are shown in the preview even without a budget
+    assert.deepStrictEqual(inspectFilesStub.firstCall.args[2], { countTokens: true })
+    assert.strictEqual(showFilePreviewStub.calledOnce, true)
+    assert.strictEqual(validateFileSelectionStub.called, false)
+    assert.strictEqual(folderCount, 1)
+    assert.deepStrictEqual(
+      fileUris.map((uri: vscode.Uri) => uri.fsPath),
+      [keptUri.fsPath]
+    )
+  })
+
+  test('should add nothing when the preview is dismissed', async () => {
+    getProcessingConfigStub.returns({
+      fileThreshold: 15,
+      excludedFileTypes: [],
+      excludedFolders: [],
+      recursive: true,
+      progressTitle: 'Processing files',
+      preview: true
+    })
+
+    const fileUri = vscode.Uri.file('/test/workspace/file.js')
+    vscodeWorkspaceFsStatStub.withArgs(fileUri).resolves({ type: MockFileType.File })
+    inspectFilesStub.resolves({ files: [{ uri: fileUri, size: 1, lineCount: 1 }], skipped: [] })
+    showFilePreviewStub.resolves(undefined)
+
+    const { folderCount, fileUris } = await processorModule.getSelectedFolderCount([fileUri])
+
+    assert.strictEqual(folderCount, 0)
+    assert.deepStrictEqual(fileUris, [])
+  })
+
+  test('should add test counterparts of the collected files when enabled', async () => {
+    const config = {
+      fileThreshold: 15,
+      excludedFileTypes: ['.snap'],
+      excludedFolders: ['node_modules'],
+      include: [],
+      exclude: ['fixtures/**'],
+      recursive: true,
+      progressTitle: 'Processing files',
+      includeTestPairs: true
+    }
+    getProcessingConfigStub.returns(config)
+
+    const fileUri = vscode.Uri.file('/test/workspace/src/app.ts')
+    const testUri = vscode.Uri.file('/test/workspace/src/__tests__/app.test.ts')
+    vscodeWorkspaceFsStatStub.withArgs(fileUri).resolves({ type: MockFileType.File })
+    addTestCounterpartsStub.resolves([fileUri, testUri])
+
+    const result = await processorModule.getSelectedFileUris([fileUri])
+
+    assert.strictEqual(addTestCounterpartsStub.calledOnce, true)
+    assert.deepStrictEqual(addTestCounterpartsStub.firstCall.args[0], [fileUri])
+    // Counterparts are looked up among the files the add commands would collect
+    const shouldExclude = await addTestCounterpartsStub.firstCall.args[1](
+      vscode.Uri.file('/test/workspace')
+    )
+    const entry = (relativePath: string) => ({
+      path: vscode.Uri.file(`/test/workspace/${relativePath}`).fsPath,
+      type: 'file',
+      name: relativePath.split('/').pop()
+    })
+    assert.strictEqual(await shouldExclude(entry('src/__tests__/app.test.ts')), false)
+    assert.strictEqual(await shouldExclude(entry('src/__tests__/app.test.ts.snap')), true)
+    assert.strictEqual(await shouldExclude(entry('fixtures/app.test.ts')), true)
+    assert.deepStrictEqual(
+      result.map((uri: vscode.Uri) => uri.fsPath),
+      [fileUri.fsPath, testUri.fsPath]
+    )
+  })
+
+  test('should create a file tree filter sharing the exclusions of added files', async () => {
+    getProcessingConfigStub.callsFake(options => ({
+      excludedFileTypes: ['.exe'],
+      excludedFolders: ['node_modules'],
+      respectGitignore: true,
+      include: [],
+      exclude: [],
+      ...options
+    }))
+    getGitignoreFilterForSelectionStub.resolves({
+      ignores: async (fsPath: string) => fsPath.endsWith('debug.log')
+    })
+    const rootPath = vscode.Uri.file('/test/workspace').fsPath
+    const entry = (relativePath: string, type = 'file') => ({
+      path: vscode.Uri.file(`/test/workspace/${relativePath}`).fsPath,
+      type,
+      name: relativePath.split('/').pop()
+    })
+
+    const shouldExclude = await processorModule.getFileTreeFilter(vscode.Uri.file(rootPath), {
+      exclude: ['vendor/**']
+    })
+
+    assert.deepStrictEqual(getProcessingConfigStub.lastCall.args, [{ exclude: ['vendor/**'] }])
+    assert.strictEqual(await shouldExclude(entry('node_modules', 'directory')), true)
+    assert.strictEqual(await shouldExclude(entry('vendor/lib.js')), true)
+    assert.strictEqual(await shouldExclude(entry('tool.exe')), true)
+    assert.strictEqual(await shouldExclude(entry('debug.log')), true)
+    assert.strictEqual(await shouldExclude(entry('src/index.ts')), false)
+  })
+
+  test('should not look up test counterparts when disabled', async () => {
+    const fileUri = vscode.Uri.file('/test/workspace/src/app.ts')
+    vscodeWorkspaceFsStatStub.withArgs(fileUri).resolves({ type: MockFileType.File })
+
+    await processorModule.getSelectedFolderCount([fileUri])
+
+    assert.strictEqual(addTestCounterpartsStub.called, false)
   })
 })
@@ -0,0 +1,42 @@
+import * as assert from 'assert'
+import { estimateTokens, estimateTokensHeuristic, formatTokenCount } from '../tokens'
+
+suite('Token Estimation Tests', () => {
+  suite('estimateTokensHeuristic', () => {
+    test('should count word runs by length and punctuation individually', () => {
+      // "const" (2) + "value" (2) + "=" + "42" (1) + ";"
+      assert.strictEqual(estimateTokensHeuristic('const value = 42;'), 7)
+    })
+
+    test('should return 0 for empty or whitespace-only text', () => {
+      assert.strictEqual(estimateTokensHeuristic(''), 0)
+      assert.strictEqual(estimateTokensHeuristic(' \n\t'), 0)
+    })
+  })
+
+  suite('estimateTokens', () => {
+    test('should return a positive estimate close to the heuristic', async () => {
+      const text = 'export function add(a: number, b: number): number {\n  return a + b\n}\n'
+
+      const tokens = await estimateTokens(text)
+      const heuristic = estimateTokensHeuristic(text)
+
+      assert.ok(tokens > 0)
+      assert.ok(Math.abs(tokens - heuristic) <= heuristic, `${tokens} vs ${heuristic}`)
+    })
+
+    test('should use the heuristic for very large texts', async () => {
+      const text = 'word '.repeat(30_000)
+
+      assert.strictEqual(await estimateTokens(text), estimateTokensHeuristic(text))
+    })
+  })
+
+  suite('formatTokenCount', () => {
+    test('should format counts below and above a thousand', () => {
+      assert.strictEqual(formatTokenCount(950), '950')
+      assert.strictEqual(formatTokenCount(1234), '1.2k')
+      assert.strictEqual(formatTokenCount(30000), '30.0k')
+    })
+  })
+})
@@ -1,5 +1,11 @@
 import * as assert from 'assert'
-import { isFileTypeExcluded, isFolderNameExcluded } from '../validation'
+import {
+  isFileTypeExcluded,
+  isFolderNameExcluded,
+  isPathExcluded,
+  isPathIncluded,
+  matchesGlob
+} from '../validation'
 
 suite('Filesystem Validation Tests', () => {
   suite('isFileTypeExcluded', () => {
@@ -61,4 +67,55 @@ suite('Filesystem Validation Tests', () => {
       assert.strictEqual(isFolderNameExcluded('old_dist', excludedFolders), false)
     })
   })
+
+  suite('matchesGlob', () => {
+    test('should match slash-less patterns against names at any depth', () => {
+      assert.strictEqual(matchesGlob('vendor/jquery.min.js', ['*.min.js']), true)
+      assert.strictEqual(matchesGlob('jquery.min.js', ['*.min.js']), true)
+      assert.strictEqual(matchesGlob('src/app.js', ['*.min.js']), false)
+    })
+
+    test('should match patterns with slashes against the relative path', () => {
+      assert.strictEqual(matchesGlob('src/generated/schema.ts', ['src/generated/**']), true)
+      assert.strictEqual(matchesGlob('lib/src/generated/schema.ts', ['src/generated/**']), false)
+    })
+
+    test('should match dotfiles', () => {
+      assert.strictEqual(matchesGlob('.github/workflows/ci.yml', ['**/*.yml']), true)
+    })
+  })
+
+  suite('isPathExcluded', () => {
+    test('should exclude files matching any pattern', () => {
+      const patterns = ['**/*.snap', '*.min.js']
+
+      assert.strictEqual(isPathExcluded('src/__snapshots__/a.test.ts.snap', false, patterns), true)
+      assert.strictEqual(isPathExcluded('dist/app.min.js', false, patterns), true)
+      assert.strictEqual(isPathExcluded('src/app.ts', false, patterns), false)
+    })
+
+    test('should exclude directories whose contents are excluded', () => {
+      assert.strictEqual(isPathExcluded('src/generated', true, ['src/generated/**']), true)
+      assert.strictEqual(isPathExcluded('src/generated', false, ['src/generated/**']), false)
+      assert.strictEqual(isPathExcluded('src', true, ['src/generated/**']), false)
+    })
+
+    test('should work with empty excluded list', () => {
+      assert.strictEqual(isPathExcluded('src/app.ts', false, []), false)
+    })
+  })
+
+  suite('isPathIncluded', () => {
+    test('should include every path when no patterns are set', () => {
+      assert.strictEqual(isPathIncluded('anything/at/all.txt', []), true)
+    })
+
+    test('should only include paths matching a pattern', () => {
+      const patterns = ['src/**/*.ts', '*.md']
+
+      assert.strictEqual(isPathIncluded('src/core/app.ts', patterns), true)
+      assert.strictEqual(isPathIncluded('docs/README.md', patterns), true)
+      assert.strictEqual(isPathIncluded('src/core/app.js', patterns), false)
+    })
+  })
 })
@@ -1,14 +1,28 @@
 import * as vscode from 'vscode'
+import { InspectedFile, InspectionLimits, measureFiles } from './inspection'
+import { showFilePreview } from './preview'
+import { formatTokenCount } from './tokens'
+
+/** Number of largest files listed in the confirmation dialog */
+const LARGEST_FILES_SHOWN = 5
 
 /**
  * Configuration interface for file processing
  */
-export interface ProcessingConfig {
+export interface ProcessingConfig extends InspectionLimits {
   fileThreshold: number
+  tokenBudget: number
   excludedFileTypes: string[]
   excludedFolders: string[]
+  respectGitignore: boolean
+  include: string[]
+  exclude: string[]
   recursive: boolean
   progressTitle: string
+  /** Let the user review the collected files before they are added */
+  preview: boolean
+  /** Also add the test or implementation counterparts of the collected files */
+  includeTestPairs: boolean
 }
 
 /**
@@ -16,10 +30,19 @@ export interface ProcessingConfig {
  */
 const DEFAULT_CONFIG: ProcessingConfig = {
   fileThreshold: 15,
+  tokenBudget: 30000,
   excludedFileTypes: [],
   excludedFolders: [],
+  respectGitignore: true,
+  include: [],
+  exclude: [],
+  skipBinaryFiles: true,
+  maxFileSize: 1024,
+  maxLineCount: 5000,
   recursive: true,
-  progressTitle: 'Processing files'
+  progressTitle: 'Processing files',
+  preview: false,
+  includeTestPairs: false
 }
 
 /**
@@ -32,38 +55,114 @@ export function getProcessingConfig(options: Partial<ProcessingConfig> = {}): Pr
   return {
     fileThreshold:
       options.fileThreshold ?? config.get<number>('fileThreshold', DEFAULT_CONFIG.fileThreshold),
+    tokenBudget:
+      options.tokenBudget ?? config.get<number>('tokenBudget', DEFAULT_CONFIG.tokenBudget),
     excludedFileTypes:
       options.excludedFileTypes ??
       config.get<string[]>('excludedFileTypes', DEFAULT_CONFIG.excludedFileTypes),
     excludedFolders:
       options.excludedFolders ??
       config.get<string[]>('excludedFolders', DEFAULT_CONFIG.excludedFolders),
+    respectGitignore:
+      options.respectGitignore ??
+      config.get<boolean>('respectGitignore', DEFAULT_CONFIG.respectGitignore),
+    include: options.include ?? config.get<string[]>('include', DEFAULT_CONFIG.include),
+    exclude: options.exclude ?? config.get<string[]>('exclude', DEFAULT_CONFIG.exclude),
+    skipBinaryFiles:
+      options.skipBinaryFiles ??
+      config.get<boolean>('skipBinaryFiles', DEFAULT_CONFIG.skipBinaryFiles),
+    maxFileSize:
+      options.maxFileSize ?? config.get<number>('maxFileSize', DEFAULT_CONFIG.maxFileSize),
+    maxLineCount:
+      options.maxLineCount ?? config.get<number>('maxLineCount', DEFAULT_CONFIG.maxLineCount),
     recursive: options.recursive ?? DEFAULT_CONFIG.recursive,
-    progressTitle: options.progressTitle ?? DEFAULT_CONFIG.progressTitle
+    progressTitle: options.progressTitle ?? DEFAULT_CONFIG.progressTitle,
+    preview: options.preview ?? DEFAULT_CONFIG.preview,
+    includeTestPairs: options.includeTestPairs ?? DEFAULT_CONFIG.includeTestPairs
+  }
+}
+
+/**
+ * Drop the largest files until the selection fits in the token budget
+ * @param files Files with token estimates
+ * @param tokenBudget Maximum number of tokens
+ * @returns The remaining files, in their original order
+ */
+export function fitToTokenBudget(files: InspectedFile[], tokenBudget: number): InspectedFile[] {
+  let totalTokens = files.reduce((total, file) => total + (file.tokens ?? 0), 0)
+  const dropped = new Set<InspectedFile>()
+
+  for (const file of [...files].sort((a, b) => (b.tokens ?? 0) - (a.tokens ?? 0))) {
+    if (totalTokens <= tokenBudget) {
+      break
+    }
+    dropped.add(file)
+    totalTokens -= file.tokens ?? 0
   }
+
+  return files.filter(file => !dropped.has(file))
 }
 
 /**
- * Validate and confirm file count with user if above threshold
- * @param fileCount Number of files to process
- * @param threshold Maximum number of files before confirmation
+ * Validate and confirm the selection with the user if it is above the file threshold
+ * or the token budget. When tokens are known the dialog shows the estimated tokens
+ * and the largest files. The user can preview the files to uncheck some of them, or
+ * drop the largest files to fit the budget.
+ * @param files Files to add, with token estimates when their contents were read
+ * @param config File threshold and token budget
+ * @returns The files to add, empty if the user cancelled
  */
-export async function validateFileCount(fileCount: number, threshold: number): Promise<boolean> {
-  if (fileCount === 0) {
+export async function validateFileSelection(
+  files: InspectedFile[],
+  config: Pick<ProcessingConfig, 'fileThreshold' | 'tokenBudget'>
+): Promise<InspectedFile[]> {
+  if (files.length === 0) {
     vscode.window.showWarningMessage('No files or folders are selected to add to Cody.')
-    return false
+    return []
+  }
+
+  const hasTokens = files.some(file => file.tokens !== undefined)
+  const totalTokens = files.reduce((total, file) => total + (file.tokens ?? 0), 0)
+  const isOverBudget = config.tokenBudget > 0 && hasTokens && totalTokens > config.tokenBudget
+  if (files.length <= config.fileThreshold && !isOverBudget) {
+    return files
   }
 
-  if (fileCount <= threshold) {
-    return true
+  let message = `The selection contains ${files.length} files. Do you want to proceed?`
+  const dialogOptions: vscode.MessageOptions = { modal: true }
+  if (hasTokens) {
+    const budgetInfo = isOverBudget
+      ? `, over the budget of ${formatTokenCount(config.tokenBudget)}`
+      : ''
+    message = `The selection contains ${files.length} files (~${formatTokenCount(totalTokens)} tokens${budgetInfo}). Do you want to proceed?`
+
+    const largestFiles = [...files]
+      .sort((a, b) => (b.tokens ?? 0) - (a.tokens ?? 0))
+      .slice(0, LARGEST_FILES_SHOWN)
+      .map(
+        file =>
+          `${vscode.workspace.asRelativePath(file.uri)} (~${formatTokenCount(file.tokens ?? 0)} tokens)`
+      )
+    dialogOptions.detail = `Largest files:\n${largestFiles.join('\n')}`
   }
 
-  const userResponse = await vscode.window.showWarningMessage(
-    `The selection contains ${fileCount} files. Do you want to proceed?`,
-    { modal: true },
-    'Yes',
-    'No'
-  )
+  const actions = isOverBudget
+    ? ['Yes', 'Preview', 'Drop Largest Files', 'No']
+    : ['Yes', 'Preview', 'No']
+  const userResponse = await vscode.window.showWarningMessage(message, dialogOptions, ...actions)
 
-  return userResponse === 'Yes'
+  switch (userResponse) {
+    case 'Yes':
+      return files
+    case 'Preview':
+      // The preview shows the size and tokens of every file, even when they weren't counted
+      return (
+        (await showFilePreview(await measureFiles(files), { tokenBudget: config.tokenBudget })) ??
+        []
+      )
+    case 'Drop Largest Files':
+      return fitToTokenBudget(files, config.tokenBudget)
+    default:
+      return []
+  }
 }
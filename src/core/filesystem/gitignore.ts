@@ -0,0 +1,213 @@
+import fs from 'fs/promises'
+import ignore, { Ignore } from 'ignore'
+import * as os from 'os'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { clearGitignoreCache, getGitignore } from './operations'
+
+/** Cache of gitignore filters, keyed by workspace root path */
+const filterCache = new Map<string, Promise<GitignoreFilter>>()
+
+/**
+ * Read a file and return its content, or undefined if it can't be read
+ * @param filePath Absolute path of the file to read
+ */
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf8')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Expand a leading `~` in a path from git config to the user's home directory
+ * @param filePath The path to expand
+ */
+function expandHome(filePath: string): string {
+  if (filePath === '~' || filePath.startsWith('~/')) {
+    return path.join(os.homedir(), filePath.slice(1))
+  }
+  return filePath
+}
+
+/**
+ * Resolve the global excludes file, following `core.excludesFile` in the user's git config
+ * and falling back to git's default location (`$XDG_CONFIG_HOME/git/ignore`)
+ */
+async function getGlobalExcludesPath(): Promise<string> {
+  const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config')
+  const configPaths = [
+    path.join(xdgConfigHome, 'git', 'config'),
+    path.join(os.homedir(), '.gitconfig')
+  ]
+
+  // Later config files take precedence, mirroring git's own lookup order
+  let excludesFile: string | undefined
+  for (const configPath of configPaths) {
+    const content = await readOptionalFile(configPath)
+    if (!content) {
+      continue
+    }
+
+    let inCoreSection = false
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      if (line.startsWith('[')) {
+        inCoreSection = /^\[\s*core\s*\]$/i.test(line)
+        continue
+      }
+
+      const match = inCoreSection && line.match(/^excludesfile\s*=\s*(.+)$/i)
+      if (match) {
+        excludesFile = expandHome(match[1].trim().replace(/^"(.*)"$/, '$1'))
+      }
+    }
+  }
+
+  return excludesFile ?? path.join(xdgConfigHome, 'git', 'ignore')
+}
+
+/**
+ * Applies gitignore semantics to paths inside a workspace root, including nested
+ * `.gitignore` files, `.git/info/exclude` and the user's global excludes file.
+ * Rules closer to a path take precedence, so a nested `!pattern` can re-include
+ * a file that a parent `.gitignore` excluded.
+ */
+export class GitignoreFilter {
+  /** Nested `.gitignore` rules keyed by directory path, `null` when the directory has none */
+  private readonly nestedRules = new Map<string, Promise<Ignore | null>>()
+
+  private constructor(
+    public readonly rootPath: string,
+    private readonly baseRules: Ignore[]
+  ) {}
+
+  /**
+   * Create a filter for a workspace root
+   * @param rootPath Absolute path of the workspace root
+   */
+  public static async create(rootPath: string): Promise<GitignoreFilter> {
+    // Global excludes have the lowest precedence, then .git/info/exclude, then .gitignore files
+    const globalExcludes = await readOptionalFile(await getGlobalExcludesPath())
+    const infoExclude = await readOptionalFile(path.join(rootPath, '.git', 'info', 'exclude'))
+
+    const repositoryRules = ignore()
+    if (globalExcludes) {
+      repositoryRules.add(globalExcludes)
+    }
+    if (infoExclude) {
+      repositoryRules.add(infoExclude)
+    }
+
+    const rootGitignore = await getGitignore(rootPath)
+    return new GitignoreFilter(rootPath, [repositoryRules, rootGitignore])
+  }
+
+  /**
+   * Check whether a path is ignored
+   * @param fsPath Absolute path of the file or directory
+   * @param isDirectory Whether the path is a directory
+   */
+  public async ignores(fsPath: string, isDirectory: boolean): Promise<boolean> {
+    const relativePath = path.relative(this.rootPath, fsPath)
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return false
+    }
+
+    const segments = relativePath.split(path.sep)
+    const toPattern = (parts: string[]) => parts.join('/') + (isDirectory ? '/' : '')
+
+    let ignored = false
+    const applyRules = (rules: Ignore, candidate: string) => {
+      const result = rules.test(candidate)
+      if (result.ignored) {
+        ignored = true
+      } else if (result.unignored) {
+        ignored = false
+      }
+    }
+
+    for (const rules of this.baseRules) {
+      applyRules(rules, toPattern(segments))
+    }
+
+    // Walk down through each ancestor directory below the root, letting deeper rules override
+    let currentDir = this.rootPath
+    for (let depth = 0; depth < segments.length - 1; depth++) {
+      currentDir = path.join(currentDir, segments[depth])
+      const rules = await this.getNestedRules(currentDir)
+      if (rules) {
+        applyRules(rules, toPattern(segments.slice(depth + 1)))
+      }
+    }
+
+    return ignored
+  }
+
+  private getNestedRules(dirPath: string): Promise<Ignore | null> {
+    let rules = this.nestedRules.get(dirPath)
+    if (!rules) {
+      rules = readOptionalFile(path.join(dirPath, '.gitignore')).then(content =>
+        content ? ignore().add(content) : null
+      )
+      this.nestedRules.set(dirPath, rules)
+    }
+    return rules
+  }
+}
+
+/**
+ * Get or create the gitignore filter for a workspace root
+ * @param rootPath Absolute path of the workspace root
+ */
+export function getGitignoreFilter(rootPath: string): Promise<GitignoreFilter> {
+  let filter = filterCache.get(rootPath)
+  if (!filter) {
+    filter = GitignoreFilter.create(rootPath)
+    filterCache.set(rootPath, filter)
+  }
+  return filter
+}
+
+/**
+ * Get the gitignore filter to apply below an explicitly selected folder.
+ * A folder that is itself ignored was picked on purpose, so its contents are not filtered.
+ * @param dirUri The selected folder URI
+ * @returns The filter, or undefined when nothing below the folder should be filtered
+ */
+export async function getGitignoreFilterForSelection(
+  dirUri: vscode.Uri
+): Promise<GitignoreFilter | undefined> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(dirUri)
+  if (!workspaceFolder) {
+    return undefined
+  }
+
+  const gitignore = await getGitignoreFilter(workspaceFolder.uri.fsPath)
+  if (await gitignore.ignores(dirUri.fsPath, true)) {
+    return undefined
+  }
+  return gitignore
+}
+
+/**
+ * Drop cached gitignore rules so they are re-read on next use
+ * @param rootPath Root path of the workspace folder to clear, all folders when omitted
+ */
+export function clearGitignoreFilterCache(rootPath?: string): void {
+  if (rootPath) {
+    filterCache.delete(rootPath)
+  } else {
+    filterCache.clear()
+  }
+  clearGitignoreCache(rootPath)
+}
+
+/**
+ * Drop the cached gitignore rules of the workspace folder owning a changed ignore file
+ * @param uri URI of the changed `.gitignore` or `.git/info/exclude` file
+ */
+export function clearGitignoreFilterCacheFor(uri: vscode.Uri): void {
+  clearGitignoreFilterCache(vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath)
+}
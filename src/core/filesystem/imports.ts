@@ -0,0 +1,445 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+/** Extensions of the source files whose import statements are parsed */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']
+
+/** Glob matching the source files scanned for dependents */
+export const SOURCE_FILES_GLOB = `**/*.{${SOURCE_EXTENSIONS.map(ext => ext.slice(1)).join(',')}}`
+
+/** Folders never scanned for dependents */
+const SCAN_EXCLUDED_FOLDERS = ['node_modules', '.git', 'dist', 'out', 'build']
+
+/** Glob matching the files in the folders never scanned for dependents */
+const SCAN_EXCLUDE_GLOB = `**/{${SCAN_EXCLUDED_FOLDERS.join(',')}}/**`
+
+/** Maximum number of files scanned per workspace folder when looking for dependents */
+const MAX_SCANNED_FILES = 5000
+
+/** Dependents indexes keyed by workspace folder path, built on first use */
+const dependentsIndexCache = new Map<string, Promise<DependentsIndex>>()
+
+/**
+ * `import ... from 'x'`, `import 'x'`, `export ... from 'x'`, `require('x')` and `import('x')`.
+ * The specifier is in the first capture group that matched.
+ */
+const IMPORT_PATTERN =
+  /(?:\bimport\s+(?:type\s+)?(?:[\w*{}\s,$]+\s+from\s+)?|\bexport\s+(?:type\s+)?(?:[\w*{}\s,$]+\s+)?from\s+)['"]([^'"\n]+)['"]|\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g
+
+/**
+ * A module specifier found in a source file
+ */
+export interface ImportReference {
+  specifier: string
+  /** Offset of the specifier in the file content */
+  offset: number
+}
+
+/**
+ * Files related to a file through its imports
+ */
+export interface RelatedFiles {
+  /** Files imported by the file, directly or up to the requested depth */
+  dependencies: vscode.Uri[]
+  /** Files importing the file, directly or up to the requested depth */
+  dependents: vscode.Uri[]
+}
+
+/**
+ * Options for collecting related files
+ */
+export interface RelatedFilesOptions {
+  /** Number of import levels to follow in each direction */
+  depth: number
+  /** Also ask the language server for definitions and references */
+  useLanguageServer: boolean
+}
+
+/**
+ * Map from the path of an imported file to the files importing it
+ */
+type DependentsIndex = Map<string, vscode.Uri[]>
+
+/**
+ * Read the related files options from the workspace settings
+ */
+export function getRelatedFilesOptions(): RelatedFilesOptions {
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  return {
+    depth: config.get<number>('relatedFilesDepth', 1),
+    useLanguageServer: config.get<boolean>('relatedFilesUseLanguageServer', false)
+  }
+}
+
+/**
+ * Check whether the imports of a file can be parsed
+ * @param uri URI of the file
+ */
+export function isSourceFile(uri: vscode.Uri): boolean {
+  return SOURCE_EXTENSIONS.includes(path.extname(uri.fsPath).toLowerCase())
+}
+
+/**
+ * Find the module specifiers of the import, export and require statements in a source file
+ * @param content The file content
+ */
+export function parseImports(content: string): ImportReference[] {
+  const references: ImportReference[] = []
+  for (const match of content.matchAll(IMPORT_PATTERN)) {
+    const specifier = match[1] ?? match[2]
+    const offset = match.index! + match[0].lastIndexOf(specifier)
+    references.push({ specifier, offset })
+  }
+  return references
+}
+
+async function isFile(uri: vscode.Uri): Promise<boolean> {
+  try {
+    return (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.File
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolve a relative module specifier to a file, trying source extensions and index files.
+ * Package imports are not resolved.
+ * @param fromUri URI of the importing file
+ * @param specifier The module specifier
+ */
+export async function resolveImport(
+  fromUri: vscode.Uri,
+  specifier: string
+): Promise<vscode.Uri | undefined> {
+  if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+    return undefined
+  }
+
+  const basePath = path.resolve(path.dirname(fromUri.fsPath), specifier)
+  const candidates = [basePath, ...SOURCE_EXTENSIONS.map(ext => basePath + ext)]
+
+  // TypeScript ESM code imports './module.js' for './module.ts'
+  const jsExtension = path.extname(basePath).match(/^\.([mc]?)js(x?)$/)
+  if (jsExtension) {
+    const withoutExtension = basePath.slice(0, -path.extname(basePath).length)
+    candidates.push(`${withoutExtension}.${jsExtension[1]}ts${jsExtension[2]}`)
+  }
+
+  candidates.push(...SOURCE_EXTENSIONS.map(ext => path.join(basePath, `index${ext}`)))
+
+  for (const candidate of candidates) {
+    const candidateUri = vscode.Uri.file(candidate)
+    if (await isFile(candidateUri)) {
+      return candidateUri
+    }
+  }
+  return undefined
+}
+
+async function readText(uri: vscode.Uri): Promise<string> {
+  return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+}
+
+/**
+ * Keep the URIs of files inside a workspace folder, without duplicates or the file itself
+ */
+function toWorkspaceFiles(uris: vscode.Uri[], self: vscode.Uri): vscode.Uri[] {
+  const seenPaths = new Set([self.fsPath])
+  return uris.filter(uri => {
+    if (
+      seenPaths.has(uri.fsPath) ||
+      !vscode.workspace.getWorkspaceFolder(uri) ||
+      uri.fsPath.split(path.sep).includes('node_modules')
+    ) {
+      return false
+    }
+    seenPaths.add(uri.fsPath)
+    return true
+  })
+}
+
+/**
+ * Get the URIs of the locations returned by a location provider command
+ */
+async function executeLocationProvider(
+  command: string,
+  uri: vscode.Uri,
+  position: vscode.Position
+): Promise<vscode.Uri[]> {
+  try {
+    const locations =
+      (await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+        command,
+        uri,
+        position
+      )) ?? []
+    return locations.map(location => ('targetUri' in location ? location.targetUri : location.uri))
+  } catch (error) {
+    console.error(
+      `CODY++: ${command} failed for ${uri.fsPath}:`,
+      error instanceof Error ? error.message : String(error)
+    )
+    return []
+  }
+}
+
+/**
+ * Get the files a file imports
+ * @param uri URI of the file
+ * @param useLanguageServer Also resolve the parsed imports through the definition provider,
+ * which understands path aliases
+ */
+export async function getDependencies(
+  uri: vscode.Uri,
+  useLanguageServer: boolean
+): Promise<vscode.Uri[]> {
+  if (!isSourceFile(uri) && !useLanguageServer) {
+    return []
+  }
+
+  const content = await readText(uri)
+  const references = parseImports(content)
+  const dependencies: vscode.Uri[] = []
+
+  for (const { specifier } of references) {
+    const resolved = await resolveImport(uri, specifier)
+    if (resolved) {
+      dependencies.push(resolved)
+    }
+  }
+
+  if (useLanguageServer) {
+    const document = await vscode.workspace.openTextDocument(uri)
+    for (const { offset } of references) {
+      dependencies.push(
+        ...(await executeLocationProvider(
+          'vscode.executeDefinitionProvider',
+          uri,
+          document.positionAt(offset)
+        ))
+      )
+    }
+  }
+
+  return toWorkspaceFiles(dependencies, uri)
+}
+
+/**
+ * Index which files import which, by parsing the source files of a workspace folder
+ * @param workspaceFolder The workspace folder to scan
+ */
+export async function buildDependentsIndex(
+  workspaceFolder: vscode.WorkspaceFolder
+): Promise<DependentsIndex> {
+  const index: DependentsIndex = new Map()
+  const sourceUris = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(workspaceFolder, SOURCE_FILES_GLOB),
+    SCAN_EXCLUDE_GLOB,
+    MAX_SCANNED_FILES
+  )
+
+  for (const sourceUri of sourceUris) {
+    await indexImports(index, sourceUri)
+  }
+
+  return index
+}
+
+/**
+ * Add the imports of a source file to a dependents index
+ * @param index The dependents index
+ * @param sourceUri URI of the source file
+ * @returns Whether the file could be read
+ */
+async function indexImports(index: DependentsIndex, sourceUri: vscode.Uri): Promise<boolean> {
+  try {
+    for (const { specifier } of parseImports(await readText(sourceUri))) {
+      const resolved = await resolveImport(sourceUri, specifier)
+      if (resolved) {
+        const dependents = index.get(resolved.fsPath) ?? []
+        dependents.push(sourceUri)
+        index.set(resolved.fsPath, dependents)
+      }
+    }
+    return true
+  } catch (error) {
+    console.error(
+      `CODY++: Failed to read imports of ${sourceUri.fsPath}:`,
+      error instanceof Error ? error.message : String(error)
+    )
+    return false
+  }
+}
+
+/**
+ * Index the imports of a changed source file again, dropping the ones it had before.
+ * A deleted file is also dropped as an imported file.
+ * @param index The dependents index
+ * @param sourceUri URI of the changed or deleted source file
+ */
+async function reindexImports(index: DependentsIndex, sourceUri: vscode.Uri): Promise<void> {
+  for (const [importedPath, dependents] of index) {
+    const remaining = dependents.filter(dependent => dependent.fsPath !== sourceUri.fsPath)
+    if (remaining.length === 0) {
+      index.delete(importedPath)
+    } else if (remaining.length < dependents.length) {
+      index.set(importedPath, remaining)
+    }
+  }
+
+  if (!(await isFile(sourceUri)) || !(await indexImports(index, sourceUri))) {
+    index.delete(sourceUri.fsPath)
+  }
+}
+
+/**
+ * Get the dependents index of a workspace folder, building it on first use
+ * @param workspaceFolder The workspace folder to scan
+ */
+export function getDependentsIndex(
+  workspaceFolder: vscode.WorkspaceFolder
+): Promise<DependentsIndex> {
+  const rootPath = workspaceFolder.uri.fsPath
+  let index = dependentsIndexCache.get(rootPath)
+  if (!index) {
+    index = buildDependentsIndex(workspaceFolder)
+    dependentsIndexCache.set(rootPath, index)
+    // Don't keep failed scans, the next lookup scans again
+    index.catch(() => {
+      if (dependentsIndexCache.get(rootPath) === index) {
+        dependentsIndexCache.delete(rootPath)
+      }
+    })
+  }
+  return index
+}
+
+/**
+ * Clear the cached dependents indexes
+ * @param rootPath Only clear the index of this workspace folder
+ */
+export function clearDependentsIndexCache(rootPath?: string): void {
+  if (rootPath) {
+    dependentsIndexCache.delete(rootPath)
+  } else {
+    dependentsIndexCache.clear()
+  }
+}
+
+/**
+ * Update the cached dependents index of the workspace folder owning a changed or deleted
+ * source file, re-reading the imports of that file only
+ * @param uri URI of the changed or deleted source file
+ */
+export function updateDependentsIndexFor(uri: vscode.Uri): void {
+  const rootPath = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath
+  if (!rootPath || uri.fsPath.split(path.sep).some(name => SCAN_EXCLUDED_FOLDERS.includes(name))) {
+    return
+  }
+  const index = dependentsIndexCache.get(rootPath)
+  if (!index) {
+    return
+  }
+
+  const updated = index.then(async entries => {
+    await reindexImports(entries, uri)
+    return entries
+  })
+  dependentsIndexCache.set(rootPath, updated)
+  // Don't keep failed updates, the next lookup scans again
+  updated.catch(() => {
+    if (dependentsIndexCache.get(rootPath) === updated) {
+      dependentsIndexCache.delete(rootPath)
+    }
+  })
+}
+
+/**
+ * Drop the cached dependents index of the workspace folder owning a created source file.
+ * A new file can change how the imports of other files resolve, so the folder is scanned again.
+ * @param uri URI of the created source file
+ */
+export function clearDependentsIndexCacheFor(uri: vscode.Uri): void {
+  const rootPath = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath
+  if (rootPath) {
+    clearDependentsIndexCache(rootPath)
+  }
+}
+
+/**
+ * Get the files importing a file
+ * @param uri URI of the file
+ * @param index Dependents index of the file's workspace folder
+ * @param useLanguageServer Also look up references to the file's top-level symbols
+ */
+export async function getDependents(
+  uri: vscode.Uri,
+  index: DependentsIndex,
+  useLanguageServer: boolean
+): Promise<vscode.Uri[]> {
+  const dependents = [...(index.get(uri.fsPath) ?? [])]
+
+  if (useLanguageServer) {
+    const symbols =
+      (await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+        'vscode.executeDocumentSymbolProvider',
+        uri
+      )) ?? []
+    for (const symbol of symbols) {
+      dependents.push(
+        ...(await executeLocationProvider(
+          'vscode.executeReferenceProvider',
+          uri,
+          symbol.selectionRange.start
+        ))
+      )
+    }
+  }
+
+  return toWorkspaceFiles(dependents, uri)
+}
+
+/**
+ * Collect the dependencies and dependents of a file, following imports in each
+ * direction up to the given depth
+ * @param uri URI of the file
+ * @param options Depth and language server options
+ */
+export async function collectRelatedFiles(
+  uri: vscode.Uri,
+  options: RelatedFilesOptions
+): Promise<RelatedFiles> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+  // The index is only needed, and built, once a dependent is looked up
+  const getIndex = async (): Promise<DependentsIndex> =>
+    workspaceFolder ? getDependentsIndex(workspaceFolder) : new Map()
+
+  const walk = async (next: (fileUri: vscode.Uri) => Promise<vscode.Uri[]>) => {
+    const visited = new Set([uri.fsPath])
+    const related: vscode.Uri[] = []
+    let level = [uri]
+
+    for (let depth = 0; depth < options.depth && level.length > 0; depth++) {
+      const nextLevel: vscode.Uri[] = []
+      for (const fileUri of level) {
+        for (const relatedUri of await next(fileUri)) {
+          if (!visited.has(relatedUri.fsPath)) {
+            visited.add(relatedUri.fsPath)
+            related.push(relatedUri)
+            nextLevel.push(relatedUri)
+          }
+        }
+      }
+      level = nextLevel
+    }
+
+    return related
+  }
+
+  const dependencies = await walk(fileUri => getDependencies(fileUri, options.useLanguageServer))
+  const dependents = await walk(async fileUri =>
+    getDependents(fileUri, await getIndex(), options.useLanguageServer)
+  )
+
+  return { dependencies, dependents }
+}
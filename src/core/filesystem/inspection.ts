@@ -0,0 +1,245 @@
+import * as vscode from 'vscode'
+import { estimateTokens } from './tokens'
+
+/** Number of leading bytes checked for binary content (same heuristic as git) */
+const BINARY_SNIFF_LENGTH = 8000
+
+const NEWLINE = 0x0a
+
+/**
+ * Limits applied to file contents before they are mentioned to Cody
+ */
+export interface InspectionLimits {
+  /** Skip files that look binary */
+  skipBinaryFiles: boolean
+  /** Maximum file size in KB, 0 for no limit */
+  maxFileSize: number
+  /** Maximum number of lines, 0 for no limit */
+  maxLineCount: number
+}
+
+/**
+ * Information gathered about a file that passed inspection
+ */
+export interface InspectedFile {
+  uri: vscode.Uri
+  /** Size in bytes, or undefined when the file was not inspected */
+  size?: number
+  /** Number of lines, or undefined when the content was not read */
+  lineCount?: number
+  /** Estimated number of tokens, or undefined when tokens were not counted */
+  tokens?: number
+}
+
+/**
+ * Additional measurements to take while inspecting files
+ */
+export interface InspectionOptions {
+  /** Estimate the number of tokens of each file */
+  countTokens?: boolean
+}
+
+export type SkipReason = 'binary' | 'tooLarge' | 'tooManyLines' | 'unreadable'
+
+/**
+ * A file left out of the selection, with the reason why
+ */
+export interface SkippedFile {
+  uri: vscode.Uri
+  reason: SkipReason
+  detail: string
+}
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  binary: 'binary',
+  tooLarge: 'too large',
+  tooManyLines: 'too many lines',
+  unreadable: 'unreadable'
+}
+
+/**
+ * Check whether content looks binary by looking for a null byte in its first chunk
+ * @param content The file content
+ */
+export function isBinaryContent(content: Uint8Array): boolean {
+  return content.subarray(0, BINARY_SNIFF_LENGTH).includes(0)
+}
+
+/**
+ * Count the lines in a file's content
+ * @param content The file content
+ */
+export function countLines(content: Uint8Array): number {
+  if (content.length === 0) {
+    return 0
+  }
+
+  let lineCount = 0
+  for (const byte of content) {
+    if (byte === NEWLINE) {
+      lineCount++
+    }
+  }
+
+  // The last line has no trailing newline
+  return content[content.length - 1] === NEWLINE ? lineCount : lineCount + 1
+}
+
+/**
+ * Format a byte count for display
+ * @param bytes Number of bytes
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Check whether any inspection limit is enabled
+ * @param limits The inspection limits
+ */
+export function hasInspectionLimits(limits: InspectionLimits): boolean {
+  return Boolean(limits.skipBinaryFiles || limits.maxFileSize > 0 || limits.maxLineCount > 0)
+}
+
+/**
+ * Inspect a single file against the configured limits
+ * @param uri URI of the file
+ * @param limits The inspection limits
+ * @returns The inspected file, or the reason it should be skipped
+ */
+async function inspectFile(
+  uri: vscode.Uri,
+  limits: InspectionLimits,
+  options: InspectionOptions
+): Promise<InspectedFile | SkippedFile> {
+  try {
+    const { size } = await vscode.workspace.fs.stat(uri)
+    const maxBytes = limits.maxFileSize * 1024
+    if (maxBytes > 0 && size > maxBytes) {
+      return {
+        uri,
+        reason: 'tooLarge',
+        detail: `${formatFileSize(size)} exceeds ${formatFileSize(maxBytes)}`
+      }
+    }
+
+    if (!limits.skipBinaryFiles && !(limits.maxLineCount > 0) && !options.countTokens) {
+      return { uri, size }
+    }
+
+    const content = await vscode.workspace.fs.readFile(uri)
+    if (limits.skipBinaryFiles && isBinaryContent(content)) {
+      return { uri, reason: 'binary', detail: 'contains binary data' }
+    }
+
+    const lineCount = countLines(content)
+    if (limits.maxLineCount > 0 && lineCount > limits.maxLineCount) {
+      return {
+        uri,
+        reason: 'tooManyLines',
+        detail: `${lineCount} lines exceeds ${limits.maxLineCount}`
+      }
+    }
+
+    const file: InspectedFile = { uri, size, lineCount }
+    if (options.countTokens) {
+      file.tokens = await estimateTokens(Buffer.from(content).toString('utf8'))
+    }
+    return file
+  } catch (error: any) {
+    return { uri, reason: 'unreadable', detail: error?.message ?? 'unknown error' }
+  }
+}
+
+/**
+ * Inspect files and split them into the ones that can be added and the ones to skip
+ * @param uris URIs of the files to inspect
+ * @param limits The inspection limits
+ * @param options Additional measurements to take
+ */
+export async function inspectFiles(
+  uris: vscode.Uri[],
+  limits: InspectionLimits,
+  options: InspectionOptions = {}
+): Promise<{ files: InspectedFile[]; skipped: SkippedFile[] }> {
+  const files: InspectedFile[] = []
+  const skipped: SkippedFile[] = []
+
+  for (const uri of uris) {
+    const result = await inspectFile(uri, limits, options)
+    if ('reason' in result) {
+      skipped.push(result)
+    } else {
+      files.push(result)
+    }
+  }
+
+  return { files, skipped }
+}
+
+/**
+ * Measure the size and tokens of the files inspected without counting tokens, for the
+ * views showing them. Files that can't be read are kept without measurements.
+ * @param files The inspected files
+ * @returns The files, measured
+ */
+export async function measureFiles(files: InspectedFile[]): Promise<InspectedFile[]> {
+  const measured: InspectedFile[] = []
+  for (const file of files) {
+    if (file.tokens !== undefined) {
+      measured.push(file)
+      continue
+    }
+    try {
+      const content = await vscode.workspace.fs.readFile(file.uri)
+      measured.push({
+        ...file,
+        size: content.byteLength,
+        lineCount: countLines(content),
+        tokens: await estimateTokens(Buffer.from(content).toString('utf8'))
+      })
+    } catch {
+      measured.push(file)
+    }
+  }
+  return measured
+}
+
+/**
+ * Tell the user which files were skipped and why, without blocking the add operation
+ * @param skipped The skipped files
+ */
+export function showSkippedFilesSummary(skipped: SkippedFile[]): void {
+  if (skipped.length === 0) {
+    return
+  }
+
+  const countsByReason = new Map<SkipReason, number>()
+  skipped.forEach(file =>
+    countsByReason.set(file.reason, (countsByReason.get(file.reason) ?? 0) + 1)
+  )
+  const breakdown = Array.from(countsByReason.entries())
+    .map(([reason, count]) => `${count} ${SKIP_REASON_LABELS[reason]}`)
+    .join(', ')
+
+  const message = `Cody++: Skipped ${skipped.length} file${skipped.length !== 1 ? 's' : ''} (${breakdown})`
+  void vscode.window.showWarningMessage(message, 'Show Details').then(selection => {
+    if (selection !== 'Show Details') {
+      return
+    }
+
+    const detail = skipped
+      .map(
+        file =>
+          `${vscode.workspace.asRelativePath(file.uri)}: ${SKIP_REASON_LABELS[file.reason]} (${file.detail})`
+      )
+      .join('\n')
+    vscode.window.showInformationMessage(message, { detail, modal: true })
+  })
+}
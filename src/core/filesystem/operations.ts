@@ -12,18 +12,44 @@ export interface FileMetadata {
   name: string
 }
 
+/**
+ * Predicate deciding whether an entry should be left out of a file tree.
+ * Excluded directories are not traversed.
+ */
+export type FileTreeFilter = (entry: FileMetadata) => boolean | Promise<boolean>
+
+/**
+ * Read the entries of a directory, as `vscode.workspace.fs.readDirectory` does
+ */
+export type DirectoryReader = (uri: vscode.Uri) => Thenable<[string, vscode.FileType][]>
+
+/** Reader used by the tree scans, the file index once the extension is active */
+let directoryReader: DirectoryReader | undefined
+
+/**
+ * Serve the directory reads of the tree scans from another reader, e.g. a cache
+ * @param reader The reader, or undefined to read from the file system again
+ */
+export function setDirectoryReader(reader: DirectoryReader | undefined): void {
+  directoryReader = reader
+}
+
+/**
+ * Read the entries of a directory through the current directory reader
+ * @param uri The directory to read
+ */
+export function readDirectory(uri: vscode.Uri): Thenable<[string, vscode.FileType][]> {
+  return directoryReader ? directoryReader(uri) : vscode.workspace.fs.readDirectory(uri)
+}
+
 /** Cache for gitignore instances to avoid repeated parsing */
 const gitignoreCache: { [key: string]: ReturnType<typeof ignore> } = {}
 
 /**
- * Get or create an ignore instance for a workspace
- * @param rootPath Optional root path of the workspace
+ * Get or create an ignore instance for a workspace folder
+ * @param rootPath Root path of the workspace folder
  */
-export async function getGitignore(rootPath?: string) {
-  if (!rootPath) {
-    rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath as string
-  }
-
+export async function getGitignore(rootPath: string) {
   if (gitignoreCache[rootPath]) {
     return gitignoreCache[rootPath]
   }
@@ -44,6 +70,18 @@ export async function getGitignore(rootPath?: string) {
   return ig
 }
 
+/**
+ * Drop cached gitignore instances so they are re-read on next use
+ * @param rootPath Root path of the workspace folder to clear, all folders when omitted
+ */
+export function clearGitignoreCache(rootPath?: string): void {
+  for (const cachedRootPath of Object.keys(gitignoreCache)) {
+    if (!rootPath || cachedRootPath === rootPath) {
+      delete gitignoreCache[cachedRootPath]
+    }
+  }
+}
+
 /**
  * Format a file tree structure as a string
  * @param rootFolder The root folder name
@@ -173,27 +211,38 @@ export function formatFileTree(
 /**
  * Retrieves a tree structure of files and directories in the workspace
  * @param rootUri The root URI of the workspace or folder to start from
+ * @param shouldExclude Optional predicate for entries to leave out (e.g. gitignored paths)
  * @returns A promise that resolves to an array of FileMetadata objects representing the file tree
  */
-export async function getWorkspaceFileTree(rootUri: vscode.Uri): Promise<FileMetadata[]> {
+export async function getWorkspaceFileTree(
+  rootUri: vscode.Uri,
+  shouldExclude?: FileTreeFilter
+): Promise<FileMetadata[]> {
   const fileUris: FileMetadata[] = []
-  const entries = await vscode.workspace.fs.readDirectory(rootUri)
+  const entries = await readDirectory(rootUri)
 
   for (const [name, type] of entries) {
     const uri = vscode.Uri.joinPath(rootUri, name)
     if (type === vscode.FileType.File) {
-      fileUris.push({
+      const entry: FileMetadata = {
         path: uri.fsPath, // Store absolute path
         type: 'file',
         name
-      })
+      }
+      if (!shouldExclude || !(await shouldExclude(entry))) {
+        fileUris.push(entry)
+      }
     } else if (type === vscode.FileType.Directory) {
-      fileUris.push({
+      const entry: FileMetadata = {
         path: uri.fsPath, // Store absolute path
         type: 'directory',
         name
-      })
-      const subFileUris = await getWorkspaceFileTree(uri)
+      }
+      if (shouldExclude && (await shouldExclude(entry))) {
+        continue
+      }
+      fileUris.push(entry)
+      const subFileUris = await getWorkspaceFileTree(uri, shouldExclude)
       fileUris.push(...subFileUris)
     }
   }
@@ -0,0 +1,244 @@
+import { minimatch } from 'minimatch'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { FileTreeFilter, getWorkspaceFileTree } from './operations'
+import { toGlobPath } from './validation'
+
+/**
+ * How implementation and test files of a language are laid out.
+ *
+ * Templates are glob paths relative to the workspace folder with placeholders:
+ * `{dir}` (directory of the file, may be empty), `{name}` (file name without extension)
+ * and `{ext}` (one of the rule's extensions). `*` and `**` match like in other glob settings.
+ */
+export interface PairingRule {
+  /** File extensions the rule applies to, without the leading dot */
+  extensions: string[]
+  /** Template of the implementation file */
+  source: string
+  /** Templates of the test files, tried in order */
+  tests: string[]
+}
+
+/** Pairing rules per language, used when `codyPlusPlus.testPairing` is not set */
+export const DEFAULT_PAIRING_RULES: Record<string, PairingRule> = {
+  typescript: {
+    extensions: ['ts', 'tsx', 'mts', 'cts'],
+    source: '{dir}/{name}.{ext}',
+    tests: [
+      '{dir}/__tests__/{name}.test.{ext}',
+      '{dir}/{name}.test.{ext}',
+      '{dir}/{name}.spec.{ext}'
+    ]
+  },
+  javascript: {
+    extensions: ['js', 'jsx', 'mjs', 'cjs'],
+    source: '{dir}/{name}.{ext}',
+    tests: [
+      '{dir}/__tests__/{name}.test.{ext}',
+      '{dir}/{name}.test.{ext}',
+      '{dir}/{name}.spec.{ext}'
+    ]
+  },
+  python: {
+    extensions: ['py'],
+    source: '{dir}/{name}.py',
+    tests: ['{dir}/test_{name}.py', '{dir}/{name}_test.py', 'tests/**/test_{name}.py']
+  },
+  go: {
+    extensions: ['go'],
+    source: '{dir}/{name}.go',
+    tests: ['{dir}/{name}_test.go']
+  },
+  java: {
+    extensions: ['java'],
+    source: 'src/main/java/{dir}/{name}.java',
+    tests: ['src/test/java/{dir}/{name}Test.java']
+  }
+}
+
+/** Values captured from the placeholders of a template */
+type TemplateValues = Partial<Record<'dir' | 'name' | 'ext', string>>
+
+/**
+ * Template tokens: placeholders (with the slash after `{dir}`), globstars, wildcards
+ * and runs of literal characters
+ */
+const TEMPLATE_TOKEN_PATTERN = /\{dir\}\/|\{(?:dir|name|ext)\}|\*\*\/|\*\*|\*|\?|[^{*?]+|./g
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Compile a template to a regular expression capturing its placeholders.
+ * A placeholder used twice must match the same text both times.
+ * @param template The template to compile
+ * @param extensions Extensions `{ext}` can stand for
+ */
+function compileTemplate(template: string, extensions: string[]): RegExp {
+  const captured = new Set<string>()
+  const capture = (name: string, pattern: string) => {
+    if (captured.has(name)) {
+      return `\\k<${name}>`
+    }
+    captured.add(name)
+    return `(?<${name}>${pattern})`
+  }
+
+  const source = (template.match(TEMPLATE_TOKEN_PATTERN) ?? [])
+    .map(token => {
+      switch (token) {
+        case '{dir}/':
+          return `(?:${capture('dir', '.+')}/)?`
+        case '{dir}':
+          return capture('dir', '.*')
+        case '{name}':
+          return capture('name', '[^/]+?')
+        case '{ext}':
+          return capture('ext', extensions.map(escapeRegExp).join('|'))
+        case '**/':
+          return '(?:.*/)?'
+        case '**':
+          return '.*'
+        case '*':
+          return '[^/]*'
+        case '?':
+          return '[^/]'
+        default:
+          return escapeRegExp(token)
+      }
+    })
+    .join('')
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Fill the placeholders of a template, leaving a glob pattern
+ * @param template The template to fill
+ * @param values Values captured from the matching template
+ */
+function fillTemplate(template: string, values: TemplateValues): string {
+  return template
+    .replace(/\{dir\}\//g, values.dir ? `${minimatch.escape(values.dir)}/` : '')
+    .replace(/\{(dir|name|ext)\}/g, (_, key: keyof TemplateValues) =>
+      values[key] !== undefined ? minimatch.escape(values[key]!) : '*'
+    )
+}
+
+/**
+ * Find the counterparts of a file: its tests for an implementation file,
+ * or its implementation for a test file
+ * @param relativePath Forward-slash path of the file relative to the workspace folder
+ * @param filePaths Forward-slash paths of the workspace files to pick counterparts from
+ * @param rules Pairing rules to apply
+ * @returns Paths of the counterparts, in the order of the rule templates
+ */
+export function findCounterparts(
+  relativePath: string,
+  filePaths: string[],
+  rules: PairingRule[]
+): string[] {
+  const extension = path.posix.extname(relativePath).slice(1)
+  const applicableRules = rules.filter(rule => rule.extensions.includes(extension))
+
+  // Test files would also match the implementation template, so they are resolved first
+  const patterns: string[] = []
+  for (const rule of applicableRules) {
+    for (const testTemplate of rule.tests) {
+      const match = compileTemplate(testTemplate, rule.extensions).exec(relativePath)
+      if (match) {
+        patterns.push(fillTemplate(rule.source, match.groups ?? {}))
+      }
+    }
+  }
+
+  if (patterns.length === 0) {
+    for (const rule of applicableRules) {
+      const match = compileTemplate(rule.source, rule.extensions).exec(relativePath)
+      if (match) {
+        patterns.push(
+          ...rule.tests.map(testTemplate => fillTemplate(testTemplate, match.groups ?? {}))
+        )
+      }
+    }
+  }
+
+  const counterparts: string[] = []
+  for (const pattern of patterns) {
+    for (const filePath of filePaths) {
+      if (
+        filePath !== relativePath &&
+        !counterparts.includes(filePath) &&
+        minimatch(filePath, pattern, { dot: true })
+      ) {
+        counterparts.push(filePath)
+      }
+    }
+  }
+  return counterparts
+}
+
+/**
+ * Read the pairing rules from the workspace settings
+ */
+export function getPairingRules(): PairingRule[] {
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  return Object.values(
+    config.get<Record<string, PairingRule>>('testPairing', DEFAULT_PAIRING_RULES)
+  )
+}
+
+/**
+ * Check whether adding files and selections should also add their counterparts
+ */
+export function isTestPairingEnabled(): boolean {
+  return vscode.workspace.getConfiguration('codyPlusPlus').get<boolean>('addTestPairs', false)
+}
+
+/**
+ * Add the test or implementation counterparts of files, looked up in the file tree
+ * of their workspace folder. Each folder's tree is read once.
+ * @param fileUris The files to pair
+ * @param getTreeFilter Create the filter of a workspace folder's tree, leaving out the
+ * entries the add commands exclude so no counterpart is added that they would refuse
+ * @returns The files followed by their counterparts, without duplicates
+ */
+export async function addTestCounterparts(
+  fileUris: vscode.Uri[],
+  getTreeFilter: (folderUri: vscode.Uri) => Promise<FileTreeFilter>
+): Promise<vscode.Uri[]> {
+  const rules = getPairingRules()
+  const treesByFolder = new Map<string, string[]>()
+  const resultPaths = new Set(fileUris.map(uri => uri.fsPath))
+  const result = [...fileUris]
+
+  for (const fileUri of fileUris) {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri)
+    if (!workspaceFolder) {
+      continue
+    }
+
+    const rootPath = workspaceFolder.uri.fsPath
+    let filePaths = treesByFolder.get(rootPath)
+    if (!filePaths) {
+      const shouldExclude = await getTreeFilter(workspaceFolder.uri)
+      filePaths = (await getWorkspaceFileTree(workspaceFolder.uri, shouldExclude))
+        .filter(entry => entry.type === 'file')
+        .map(entry => toGlobPath(path.relative(rootPath, entry.path)))
+      treesByFolder.set(rootPath, filePaths)
+    }
+
+    const relativePath = toGlobPath(path.relative(rootPath, fileUri.fsPath))
+    for (const counterpart of findCounterparts(relativePath, filePaths, rules)) {
+      const counterpartUri = vscode.Uri.joinPath(workspaceFolder.uri, counterpart)
+      if (!resultPaths.has(counterpartUri.fsPath)) {
+        resultPaths.add(counterpartUri.fsPath)
+        result.push(counterpartUri)
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,132 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { InspectedFile, formatFileSize } from './inspection'
+import { formatTokenCount } from './tokens'
+
+/**
+ * Options for the file preview picker
+ */
+export interface FilePreviewOptions {
+  /** Token budget shown in the title, 0 for none */
+  tokenBudget?: number
+}
+
+interface FilePreviewItem extends vscode.QuickPickItem {
+  file?: InspectedFile
+}
+
+/**
+ * Describe a file's size and token estimate, when known
+ * @param file The inspected file
+ */
+function describeFile(file: InspectedFile): string {
+  const parts: string[] = []
+  if (file.size !== undefined) {
+    parts.push(formatFileSize(file.size))
+  }
+  if (file.tokens !== undefined) {
+    parts.push(`~${formatTokenCount(file.tokens)} tokens`)
+  }
+  return parts.join(' · ')
+}
+
+/**
+ * Build the picker items, grouped under a separator per directory
+ * @param files Files to show
+ */
+function createPreviewItems(files: InspectedFile[]): FilePreviewItem[] {
+  const filesByDirectory = new Map<string, InspectedFile[]>()
+  for (const file of files) {
+    const directory = path.posix.dirname(vscode.workspace.asRelativePath(file.uri))
+    const directoryFiles = filesByDirectory.get(directory) ?? []
+    directoryFiles.push(file)
+    filesByDirectory.set(directory, directoryFiles)
+  }
+
+  const items: FilePreviewItem[] = []
+  for (const directory of Array.from(filesByDirectory.keys()).sort()) {
+    items.push({ label: directory, kind: vscode.QuickPickItemKind.Separator })
+    for (const file of filesByDirectory.get(directory)!) {
+      items.push({
+        label: path.basename(file.uri.fsPath),
+        description: describeFile(file),
+        file
+      })
+    }
+  }
+  return items
+}
+
+/**
+ * Build the picker title from the checked files
+ * @param selectedFiles Files currently checked
+ * @param totalCount Number of files in the picker
+ * @param tokenBudget Token budget, 0 for none
+ */
+function getPreviewTitle(
+  selectedFiles: InspectedFile[],
+  totalCount: number,
+  tokenBudget: number
+): string {
+  const title = `Add ${selectedFiles.length} of ${totalCount} files to Cody`
+  if (!selectedFiles.some(file => file.tokens !== undefined)) {
+    return title
+  }
+
+  const tokens = selectedFiles.reduce((total, file) => total + (file.tokens ?? 0), 0)
+  const budgetInfo =
+    tokenBudget > 0
+      ? ` of ${formatTokenCount(tokenBudget)}${tokens > tokenBudget ? ', over budget' : ''}`
+      : ''
+  return `${title} (~${formatTokenCount(tokens)} tokens${budgetInfo})`
+}
+
+/**
+ * Let the user review the collected files in a multi-select picker before they are added.
+ * All files start checked and are grouped by directory with their size and token estimate.
+ * @param files Files to preview
+ * @param options Preview options
+ * @returns The checked files in their original order, or undefined if the picker was dismissed
+ */
+export function showFilePreview(
+  files: InspectedFile[],
+  options: FilePreviewOptions = {}
+): Promise<InspectedFile[] | undefined> {
+  const tokenBudget = options.tokenBudget ?? 0
+  const items = createPreviewItems(files)
+  const fileItems = items.filter(item => item.file)
+
+  const quickPick = vscode.window.createQuickPick<FilePreviewItem>()
+  quickPick.canSelectMany = true
+  quickPick.matchOnDescription = true
+  quickPick.ignoreFocusOut = true
+  quickPick.placeholder = 'Uncheck the files you do not want to add to Cody'
+  quickPick.items = items
+  quickPick.selectedItems = fileItems
+  quickPick.title = getPreviewTitle(files, files.length, tokenBudget)
+
+  return new Promise(resolve => {
+    let accepted = false
+
+    quickPick.onDidChangeSelection(selection => {
+      const selectedFiles = selection.flatMap(item => (item.file ? [item.file] : []))
+      quickPick.title = getPreviewTitle(selectedFiles, files.length, tokenBudget)
+    })
+
+    quickPick.onDidAccept(() => {
+      accepted = true
+      const selected = new Set(quickPick.selectedItems.map(item => item.file))
+      resolve(files.filter(file => selected.has(file)))
+      quickPick.hide()
+    })
+
+    quickPick.onDidHide(() => {
+      if (!accepted) {
+        resolve(undefined)
+      }
+      quickPick.dispose()
+    })
+
+    quickPick.show()
+  })
+}
@@ -1,23 +1,108 @@
 import * as path from 'path'
 import * as vscode from 'vscode'
-import { ProcessingConfig, getProcessingConfig, validateFileCount } from './config'
-import { isFileTypeExcluded, isFolderNameExcluded } from './validation'
+import { ProcessingConfig, getProcessingConfig, validateFileSelection } from './config'
+import { GitignoreFilter, getGitignoreFilterForSelection } from './gitignore'
+import {
+  InspectedFile,
+  hasInspectionLimits,
+  inspectFiles,
+  showSkippedFilesSummary
+} from './inspection'
+import { FileTreeFilter, readDirectory } from './operations'
+import { addTestCounterparts } from './pairing'
+import { showFilePreview } from './preview'
+import {
+  isFileTypeExcluded,
+  isFolderNameExcluded,
+  isPathExcluded,
+  isPathIncluded,
+  toGlobPath
+} from './validation'
+
+/**
+ * Subset of the processing configuration used while collecting files
+ */
+type CollectionOptions = Pick<
+  ProcessingConfig,
+  'recursive' | 'excludedFileTypes' | 'excludedFolders' | 'respectGitignore' | 'include' | 'exclude'
+>
+
+/**
+ * Context shared while collecting files below one selected URI
+ */
+interface SelectionScope {
+  /** Root that glob patterns are matched against (the owning workspace folder) */
+  rootPath: string
+  /** Gitignore rules to apply, if enabled */
+  gitignore?: GitignoreFilter
+}
+
+/**
+ * Resolve the scope for a selected file or folder
+ */
+async function getSelectionScope(
+  uri: vscode.Uri,
+  isDirectory: boolean,
+  options: CollectionOptions
+): Promise<SelectionScope> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+  const rootPath =
+    workspaceFolder?.uri.fsPath ?? (isDirectory ? uri.fsPath : path.dirname(uri.fsPath))
+
+  // Explicitly selected files are never filtered by gitignore
+  const gitignore =
+    isDirectory && options.respectGitignore ? await getGitignoreFilterForSelection(uri) : undefined
+
+  return { rootPath, gitignore }
+}
+
+/**
+ * Check whether an entry should be left out, combining the extension and folder name
+ * shorthands, the include/exclude globs and gitignore rules
+ */
+async function isEntryExcluded(
+  entryUri: vscode.Uri,
+  isDirectory: boolean,
+  options: CollectionOptions,
+  scope: SelectionScope
+): Promise<boolean> {
+  const name = path.basename(entryUri.fsPath)
+  const relativePath = toGlobPath(path.relative(scope.rootPath, entryUri.fsPath))
+
+  if (isDirectory) {
+    if (isFolderNameExcluded(name, options.excludedFolders)) {
+      return true
+    }
+  } else if (
+    isFileTypeExcluded(name, options.excludedFileTypes) ||
+    !isPathIncluded(relativePath, options.include)
+  ) {
+    return true
+  }
+
+  if (isPathExcluded(relativePath, isDirectory, options.exclude)) {
+    return true
+  }
+
+  return (await scope.gitignore?.ignores(entryUri.fsPath, isDirectory)) ?? false
+}
 
 async function collectFileUrisFromDirectory(
   dirUri: vscode.Uri,
-  options: { recursive: boolean; excludedFileTypes: string[]; excludedFolders: string[] }
+  options: CollectionOptions,
+  scope: SelectionScope
 ): Promise<vscode.Uri[]> {
   const fileUris: vscode.Uri[] = []
-  const entries = await vscode.workspace.fs.readDirectory(dirUri)
+  const entries = await readDirectory(dirUri)
   for (const [name, type] of entries) {
     const entryUri = vscode.Uri.joinPath(dirUri, name)
     if (type === vscode.FileType.File) {
-      if (!isFileTypeExcluded(name, options.excludedFileTypes)) {
+      if (!(await isEntryExcluded(entryUri, false, options, scope))) {
         fileUris.push(entryUri)
       }
     } else if (type === vscode.FileType.Directory && options.recursive) {
-      if (!isFolderNameExcluded(name, options.excludedFolders)) {
-        const subFileUris = await collectFileUrisFromDirectory(entryUri, options)
+      if (!(await isEntryExcluded(entryUri, true, options, scope))) {
+        const subFileUris = await collectFileUrisFromDirectory(entryUri, options, scope)
         fileUris.push(...subFileUris)
       }
     }
@@ -27,24 +112,112 @@ async function collectFileUrisFromDirectory(
 
 async function collectFileUris(
   uris: vscode.Uri[],
-  options: { recursive: boolean; excludedFileTypes: string[]; excludedFolders: string[] }
+  options: CollectionOptions
 ): Promise<vscode.Uri[]> {
   const fileUris: vscode.Uri[] = []
   for (const uri of uris) {
     const stat = await vscode.workspace.fs.stat(uri)
     if (stat.type === vscode.FileType.File) {
-      const name = path.basename(uri.fsPath)
-      if (!isFileTypeExcluded(name, options.excludedFileTypes)) {
+      const scope = await getSelectionScope(uri, false, options)
+      if (!(await isEntryExcluded(uri, false, options, scope))) {
         fileUris.push(uri)
       }
     } else if (stat.type === vscode.FileType.Directory) {
-      const dirFileUris = await collectFileUrisFromDirectory(uri, options)
+      const scope = await getSelectionScope(uri, true, options)
+      const dirFileUris = await collectFileUrisFromDirectory(uri, options, scope)
       fileUris.push(...dirFileUris)
     }
   }
   return fileUris
 }
 
+/**
+ * Create a file tree filter leaving out the same entries as when adding files: excluded
+ * folder names and file types, include/exclude globs and gitignore rules
+ * @param rootUri The root folder of the tree
+ * @param options Processing configuration overrides, e.g. additional exclude globs
+ */
+export async function getFileTreeFilter(
+  rootUri: vscode.Uri,
+  options: Partial<ProcessingConfig> = {}
+): Promise<FileTreeFilter> {
+  return createFileTreeFilter(rootUri, getProcessingConfig(options))
+}
+
+/**
+ * Create a file tree filter from a resolved processing configuration
+ */
+async function createFileTreeFilter(
+  rootUri: vscode.Uri,
+  config: CollectionOptions
+): Promise<FileTreeFilter> {
+  const scope = await getSelectionScope(rootUri, true, config)
+  return entry =>
+    isEntryExcluded(vscode.Uri.file(entry.path), entry.type === 'directory', config, scope)
+}
+
+/**
+ * Add the test or implementation counterparts of the collected files when enabled
+ * @param fileUris Collected file URIs
+ * @param config Processing configuration
+ */
+async function withTestPairs(
+  fileUris: vscode.Uri[],
+  config: ProcessingConfig
+): Promise<vscode.Uri[]> {
+  // Counterparts are looked up among the files the add commands would collect, and are
+  // inspected with the collected files afterwards
+  return config.includeTestPairs
+    ? addTestCounterparts(fileUris, folderUri => createFileTreeFilter(folderUri, config))
+    : fileUris
+}
+
+/**
+ * Drop binary, oversized and overly long files, report what was skipped,
+ * and estimate tokens when a token budget is set or the files are inspected anyway
+ * @param fileUris Collected file URIs
+ * @param config Processing configuration with the inspection limits
+ */
+async function inspectCollectedFiles(
+  fileUris: vscode.Uri[],
+  config: ProcessingConfig
+): Promise<InspectedFile[]> {
+  // The preview shows token estimates even when no budget is set, and the inspection
+  // reads the files anyway, so the threshold dialog can show them too
+  const countTokens = config.tokenBudget > 0 || config.preview || hasInspectionLimits(config)
+  if (fileUris.length === 0 || (!hasInspectionLimits(config) && !countTokens)) {
+    return fileUris.map(uri => ({ uri }))
+  }
+
+  const { files, skipped } = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `${config.progressTitle}: checking ${fileUris.length} files...`
+    },
+    () => inspectFiles(fileUris, config, { countTokens })
+  )
+
+  showSkippedFilesSummary(skipped)
+  return files
+}
+
+/**
+ * Confirm the selection with the user, either through the preview picker
+ * or the threshold and token budget dialog
+ * @returns The URIs of the files to add, empty if the user cancelled
+ */
+async function confirmFileSelection(
+  files: InspectedFile[],
+  config: ProcessingConfig
+): Promise<vscode.Uri[]> {
+  const selectedFiles =
+    config.preview && files.length > 0
+      ? (await showFilePreview(files, { tokenBudget: config.tokenBudget })) ?? []
+      : await validateFileSelection(files, config)
+
+  return selectedFiles.map(file => file.uri)
+}
+
 export async function getSelectedFileUris(
   uris: vscode.Uri[],
   options: Partial<ProcessingConfig> = {}
@@ -55,19 +228,10 @@ export async function getSelectedFileUris(
   }
 
   const config = getProcessingConfig(options)
-  const fileUris = await collectFileUris(uris, {
-    recursive: config.recursive,
-    excludedFileTypes: config.excludedFileTypes,
-    excludedFolders: config.excludedFolders
-  })
-
-  const fileCount = fileUris.length
-  const shouldProceed = await validateFileCount(fileCount, config.fileThreshold)
-  if (!shouldProceed) {
-    return []
-  }
+  const fileUris = await withTestPairs(await collectFileUris(uris, config), config)
+  const files = await inspectCollectedFiles(fileUris, config)
 
-  return fileUris
+  return confirmFileSelection(files, config)
 }
 
 /**
@@ -108,19 +272,16 @@ export async function getSelectedFolderCount(
     }
   }
 
-  const fileUris = await collectFileUrisWithFolderTracking(
-    uris,
-    {
-      recursive: config.recursive,
-      excludedFileTypes: config.excludedFileTypes,
-      excludedFolders: config.excludedFolders
-    },
-    trackFolderCallback
+  const files = await inspectCollectedFiles(
+    await withTestPairs(
+      await collectFileUrisWithFolderTracking(uris, config, trackFolderCallback),
+      config
+    ),
+    config
   )
 
-  const fileCount = fileUris.length
-  const shouldProceed = await validateFileCount(fileCount, config.fileThreshold)
-  if (!shouldProceed) {
+  const fileUris = await confirmFileSelection(files, config)
+  if (fileUris.length === 0) {
     return { folderCount: 0, fileUris: [] }
   }
 
@@ -132,7 +293,7 @@ export async function getSelectedFolderCount(
  */
 async function collectFileUrisWithFolderTracking(
   uris: vscode.Uri[],
-  options: { recursive: boolean; excludedFileTypes: string[]; excludedFolders: string[] },
+  options: CollectionOptions,
   folderCallback: (folderPath: string) => void
 ): Promise<vscode.Uri[]> {
   const fileUris: vscode.Uri[] = []
@@ -140,15 +301,17 @@ async function collectFileUrisWithFolderTracking(
   for (const uri of uris) {
     const stat = await vscode.workspace.fs.stat(uri)
     if (stat.type === vscode.FileType.File) {
-      const name = path.basename(uri.fsPath)
-      if (!isFileTypeExcluded(name, options.excludedFileTypes)) {
+      const scope = await getSelectionScope(uri, false, options)
+      if (!(await isEntryExcluded(uri, false, options, scope))) {
         fileUris.push(uri)
       }
     } else if (stat.type === vscode.FileType.Directory) {
+      const scope = await getSelectionScope(uri, true, options)
       const dirFileUris = await collectFileUrisFromDirectoryWithTracking(
         uri,
         options,
-        folderCallback
+        folderCallback,
+        scope
       )
       fileUris.push(...dirFileUris)
     }
@@ -162,21 +325,22 @@ async function collectFileUrisWithFolderTracking(
  */
 async function collectFileUrisFromDirectoryWithTracking(
   dirUri: vscode.Uri,
-  options: { recursive: boolean; excludedFileTypes: string[]; excludedFolders: string[] },
-  folderCallback: (folderPath: string) => void
+  options: CollectionOptions,
+  folderCallback: (folderPath: string) => void,
+  scope: SelectionScope
 ): Promise<vscode.Uri[]> {
   const fileUris: vscode.Uri[] = []
-  const entries = await vscode.workspace.fs.readDirectory(dirUri)
+  const entries = await readDirectory(dirUri)
 
   for (const [name, type] of entries) {
     const entryUri = vscode.Uri.joinPath(dirUri, name)
 
     if (type === vscode.FileType.File) {
-      if (!isFileTypeExcluded(name, options.excludedFileTypes)) {
+      if (!(await isEntryExcluded(entryUri, false, options, scope))) {
         fileUris.push(entryUri)
       }
     } else if (type === vscode.FileType.Directory && options.recursive) {
-      if (!isFolderNameExcluded(name, options.excludedFolders)) {
+      if (!(await isEntryExcluded(entryUri, true, options, scope))) {
         // Track this subfolder
         folderCallback(entryUri.fsPath)
 
@@ -184,7 +348,8 @@ async function collectFileUrisFromDirectoryWithTracking(
         const subFileUris = await collectFileUrisFromDirectoryWithTracking(
           entryUri,
           options,
-          folderCallback
+          folderCallback,
+          scope
         )
         fileUris.push(...subFileUris)
       }
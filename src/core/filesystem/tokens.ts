@@ -0,0 +1,74 @@
+/**
+ * Above this many characters the heuristic is used instead of the tokenizer,
+ * since exact counts stop mattering for a budget estimate and tokenizing gets slow
+ */
+const MAX_TOKENIZER_LENGTH = 100_000
+
+/** Average number of characters per token for word-like runs */
+const CHARS_PER_TOKEN = 4
+
+interface Tokenizer {
+  encode(text: string): number[]
+}
+
+/** Lazily loaded BPE tokenizer, resolves to undefined if it can't be loaded */
+let tokenizerPromise: Promise<Tokenizer | undefined> | undefined
+
+async function loadTokenizer(): Promise<Tokenizer | undefined> {
+  try {
+    const { Tiktoken } = await import('js-tiktoken/lite')
+    const { default: o200kBase } = await import('js-tiktoken/ranks/o200k_base')
+    return new Tiktoken(o200kBase)
+  } catch (error) {
+    console.error(
+      'CODY++: Failed to load tokenizer, using heuristic token estimates:',
+      error instanceof Error ? error.message : String(error)
+    )
+    return undefined
+  }
+}
+
+/**
+ * Estimate the number of tokens in a text without a tokenizer.
+ * Word-like runs count roughly one token per four characters and every
+ * punctuation character counts as one token, which tracks BPE tokenizers on code.
+ * @param text The text to estimate
+ */
+export function estimateTokensHeuristic(text: string): number {
+  const pieces = text.match(/\w+|[^\w\s]/g) ?? []
+  return pieces.reduce(
+    (total, piece) => total + (/^\w/.test(piece) ? Math.ceil(piece.length / CHARS_PER_TOKEN) : 1),
+    0
+  )
+}
+
+/**
+ * Estimate the number of tokens in a text, using a BPE tokenizer and falling back
+ * to the heuristic for very large texts or when the tokenizer is unavailable
+ * @param text The text to estimate
+ */
+export async function estimateTokens(text: string): Promise<number> {
+  if (text.length > MAX_TOKENIZER_LENGTH) {
+    return estimateTokensHeuristic(text)
+  }
+
+  tokenizerPromise ??= loadTokenizer()
+  const tokenizer = await tokenizerPromise
+  if (!tokenizer) {
+    return estimateTokensHeuristic(text)
+  }
+
+  try {
+    return tokenizer.encode(text).length
+  } catch {
+    return estimateTokensHeuristic(text)
+  }
+}
+
+/**
+ * Format a token count for display (e.g. 1234 -> "1.2k")
+ * @param tokens Number of tokens
+ */
+export function formatTokenCount(tokens: number): string {
+  return tokens < 1000 ? `${tokens}` : `${(tokens / 1000).toFixed(1)}k`
+}
@@ -1,5 +1,9 @@
+import { minimatch } from 'minimatch'
 import * as path from 'path'
 
+/** Options shared by all glob matching: match dotfiles and let slash-less patterns match names */
+const GLOB_OPTIONS = { dot: true, matchBase: true }
+
 /**
  * Check if a file should be excluded based on its extension
  * @param fileName The name of the file to check
@@ -18,3 +22,51 @@ export function isFileTypeExcluded(fileName: string, excludedFileTypes: string[]
 export function isFolderNameExcluded(folderName: string, excludedFolders: string[] = []): boolean {
   return excludedFolders.includes(folderName)
 }
+
+/**
+ * Convert a relative file system path to the forward-slash form used by glob patterns
+ * @param relativePath Path relative to the workspace root
+ */
+export function toGlobPath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/')
+}
+
+/**
+ * Check if a path matches any of the given glob patterns.
+ * Patterns without a slash match the file or folder name at any depth (e.g. `*.min.js`).
+ * @param relativePath Forward-slash path relative to the workspace root
+ * @param patterns Array of glob patterns
+ */
+export function matchesGlob(relativePath: string, patterns: string[] = []): boolean {
+  return patterns.some(pattern => minimatch(relativePath, pattern, GLOB_OPTIONS))
+}
+
+/**
+ * Check if a path should be excluded based on glob patterns.
+ * Directories are also excluded when a pattern excludes everything below them (e.g. `src/generated/**`).
+ * @param relativePath Forward-slash path relative to the workspace root
+ * @param isDirectory Whether the path is a directory
+ * @param excludePatterns Array of glob patterns to exclude
+ */
+export function isPathExcluded(
+  relativePath: string,
+  isDirectory: boolean,
+  excludePatterns: string[] = []
+): boolean {
+  return excludePatterns.some(
+    pattern =>
+      minimatch(relativePath, pattern, GLOB_OPTIONS) ||
+      (isDirectory &&
+        pattern.endsWith('/**') &&
+        minimatch(relativePath, pattern.slice(0, -3), GLOB_OPTIONS))
+  )
+}
+
+/**
+ * Check if a file matches the include patterns. An empty list includes every file.
+ * @param relativePath Forward-slash path relative to the workspace root
+ * @param includePatterns Array of glob patterns to include
+ */
+export function isPathIncluded(relativePath: string, includePatterns: string[] = []): boolean {
+  return includePatterns.length === 0 || matchesGlob(relativePath, includePatterns)
+}
@@ -0,0 +1,189 @@
+import * as assert from 'assert'
+import proxyquire from 'proxyquire'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { GitStatus } from '../types'
+
+suite('Git Changes Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let getExtensionStub: sinon.SinonStub
+  let showQuickPickStub: sinon.SinonStub
+  let changesModule: any
+
+  const rootUri = vscode.Uri.file('/test/repo')
+  const fileUri = (name: string) => vscode.Uri.joinPath(rootUri, name)
+  const change = (name: string, status: GitStatus) => ({
+    uri: fileUri(name),
+    originalUri: fileUri(name),
+    status
+  })
+
+  const createRepository = (state: Record<string, unknown> = {}) => ({
+    rootUri,
+    state: {
+      HEAD: { type: 0, name: 'feature' },
+      indexChanges: [],
+      workingTreeChanges: [],
+      ...state
+    },
+    getBranches: sandbox.stub().resolves([]),
+    getMergeBase: sandbox.stub().resolves(undefined),
+    diffWith: sandbox.stub().resolves([])
+  })
+
+  const mockGitApi = (repositories: unknown[]) => {
+    const api = {
+      repositories,
+      getRepository: sandbox.stub().returns(null)
+    }
+    getExtensionStub.withArgs('vscode.git').returns({
+      isActive: true,
+      exports: { enabled: true, getAPI: () => api }
+    })
+    return api
+  }
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    getExtensionStub = sandbox.stub()
+    showQuickPickStub = sandbox.stub()
+
+    changesModule = proxyquire.noCallThru().load('../changes', {
+      vscode: {
+        extensions: { getExtension: getExtensionStub },
+        window: { showQuickPick: showQuickPickStub }
+      }
+    })
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  suite('getUncommittedChanges', () => {
+    test('should combine staged, unstaged and untracked files without duplicates', () => {
+      const repository = createRepository({
+        indexChanges: [change('staged.ts', GitStatus.INDEX_MODIFIED)],
+        workingTreeChanges: [
+          change('staged.ts', GitStatus.MODIFIED),
+          change('modified.ts', GitStatus.MODIFIED)
+        ],
+        untrackedChanges: [change('new.ts', GitStatus.UNTRACKED)]
+      })
+
+      const uris = changesModule.getUncommittedChanges(repository)
+
+      assert.deepStrictEqual(
+        uris.map((uri: vscode.Uri) => uri.fsPath),
+        [fileUri('staged.ts').fsPath, fileUri('modified.ts').fsPath, fileUri('new.ts').fsPath]
+      )
+    })
+
+    test('should leave out deleted files', () => {
+      const repository = createRepository({
+        indexChanges: [change('removed.ts', GitStatus.INDEX_DELETED)],
+        workingTreeChanges: [change('gone.ts', GitStatus.DELETED)]
+      })
+
+      assert.deepStrictEqual(changesModule.getUncommittedChanges(repository), [])
+    })
+  })
+
+  suite('getStagedChanges', () => {
+    test('should only return files in the index', () => {
+      const repository = createRepository({
+        indexChanges: [change('staged.ts', GitStatus.INDEX_ADDED)],
+        workingTreeChanges: [change('modified.ts', GitStatus.MODIFIED)]
+      })
+
+      const uris = changesModule.getStagedChanges(repository)
+
+      assert.deepStrictEqual(
+        uris.map((uri: vscode.Uri) => uri.fsPath),
+        [fileUri('staged.ts').fsPath]
+      )
+    })
+  })
+
+  suite('getBranchChanges', () => {
+    test('should diff against the merge base and include untracked files', async () => {
+      const repository = createRepository({
+        untrackedChanges: [change('new.ts', GitStatus.UNTRACKED)]
+      })
+      repository.getMergeBase.resolves('abc123')
+      repository.diffWith.resolves([change('changed.ts', GitStatus.MODIFIED)])
+
+      const uris = await changesModule.getBranchChanges(repository, 'main')
+
+      assert.strictEqual(repository.getMergeBase.calledOnceWith('HEAD', 'main'), true)
+      assert.strictEqual(repository.diffWith.calledOnceWith('abc123'), true)
+      assert.deepStrictEqual(
+        uris.map((uri: vscode.Uri) => uri.fsPath),
+        [fileUri('changed.ts').fsPath, fileUri('new.ts').fsPath]
+      )
+    })
+  })
+
+  suite('getChangedFileUris', () => {
+    test('should fail when the git extension is not available', async () => {
+      getExtensionStub.returns(undefined)
+
+      await assert.rejects(
+        changesModule.getChangedFileUris('uncommitted'),
+        /The built-in Git extension is not available/
+      )
+    })
+
+    test('should fail when there is no repository', async () => {
+      mockGitApi([])
+
+      await assert.rejects(
+        changesModule.getChangedFileUris('uncommitted'),
+        /No git repository found/
+      )
+    })
+
+    test('should use the repository owning the given URI', async () => {
+      const repository = createRepository({
+        indexChanges: [change('staged.ts', GitStatus.INDEX_ADDED)]
+      })
+      const api = mockGitApi([createRepository(), repository])
+      api.getRepository.withArgs(rootUri).returns(repository)
+
+      const uris = await changesModule.getChangedFileUris('staged', rootUri)
+
+      assert.strictEqual(uris.length, 1)
+      assert.strictEqual(showQuickPickStub.called, false)
+    })
+
+    test('should ask for the repository when several are open', async () => {
+      const repository = createRepository()
+      mockGitApi([createRepository(), repository])
+      showQuickPickStub.resolves(undefined)
+
+      const uris = await changesModule.getChangedFileUris('staged')
+
+      assert.strictEqual(uris, undefined)
+      assert.strictEqual(showQuickPickStub.firstCall.args[0].length, 2)
+    })
+
+    test('should offer branches other than the current one to compare with', async () => {
+      const repository = createRepository()
+      repository.getBranches.resolves([
+        { type: 0, name: 'feature' },
+        { type: 0, name: 'main' },
+        { type: 1, name: 'origin/main', remote: 'origin' }
+      ])
+      mockGitApi([repository])
+      showQuickPickStub.callsFake(async (items: any[]) => items[1])
+
+      await changesModule.getChangedFileUris('branch')
+
+      assert.deepStrictEqual(
+        showQuickPickStub.firstCall.args[0].map((item: any) => item.label),
+        ['main', 'origin/main']
+      )
+      assert.strictEqual(repository.getMergeBase.calledOnceWith('HEAD', 'origin/main'), true)
+    })
+  })
+})
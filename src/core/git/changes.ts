@@ -0,0 +1,166 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { GitAPI, GitChange, GitExtension, GitRepository, GitStatus } from './types'
+
+/**
+ * Which changed files to collect
+ * - `uncommitted`: staged, unstaged and untracked files
+ * - `staged`: files in the index
+ * - `branch`: files changed since the merge base with another branch, including uncommitted ones
+ */
+export type GitChangeScope = 'uncommitted' | 'staged' | 'branch'
+
+/** Statuses of changes whose file no longer exists */
+const DELETED_STATUSES = new Set([GitStatus.INDEX_DELETED, GitStatus.DELETED])
+
+/**
+ * Get the API of the built-in git extension, activating it if needed
+ */
+export async function getGitAPI(): Promise<GitAPI> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git')
+  if (!extension) {
+    throw new Error('The built-in Git extension is not available.')
+  }
+
+  const gitExtension = extension.isActive ? extension.exports : await extension.activate()
+  if (!gitExtension.enabled) {
+    throw new Error('The built-in Git extension is disabled.')
+  }
+  return gitExtension.getAPI(1)
+}
+
+/**
+ * Resolve the repository to read changes from: the one owning the given URI,
+ * the only open repository, or the one picked by the user
+ * @param api The git extension API
+ * @param uri Optional URI the command was invoked on
+ * @returns The repository, or undefined if the user cancelled the picker
+ */
+export async function pickRepository(
+  api: GitAPI,
+  uri?: vscode.Uri
+): Promise<GitRepository | undefined> {
+  const repository = uri && api.getRepository(uri)
+  if (repository) {
+    return repository
+  }
+
+  if (api.repositories.length === 0) {
+    throw new Error('No git repository found in the workspace.')
+  }
+  if (api.repositories.length === 1) {
+    return api.repositories[0]
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    api.repositories.map(repository => ({
+      label: path.basename(repository.rootUri.fsPath),
+      description: repository.rootUri.fsPath,
+      repository
+    })),
+    { placeHolder: 'Select a git repository' }
+  )
+  return picked?.repository
+}
+
+/**
+ * Let the user pick a local or remote branch other than the current one
+ * @param repository The repository to list branches of
+ * @returns The branch name, or undefined if the user cancelled the picker
+ */
+export async function pickBranch(repository: GitRepository): Promise<string | undefined> {
+  const currentBranch = repository.state.HEAD?.name
+  const branches = await repository.getBranches({ remote: true })
+
+  const picked = await vscode.window.showQuickPick(
+    branches
+      .filter(branch => branch.name && branch.name !== currentBranch)
+      .map(branch => ({
+        label: branch.name!,
+        description: branch.remote ? 'remote branch' : undefined
+      })),
+    { placeHolder: 'Select the branch to compare with' }
+  )
+  return picked?.label
+}
+
+/**
+ * Convert changes to the URIs of the files that still exist, without duplicates
+ * @param changes Changes reported by git
+ */
+function toFileUris(changes: GitChange[]): vscode.Uri[] {
+  const seenPaths = new Set<string>()
+  const fileUris: vscode.Uri[] = []
+
+  for (const change of changes) {
+    if (DELETED_STATUSES.has(change.status) || seenPaths.has(change.uri.fsPath)) {
+      continue
+    }
+    seenPaths.add(change.uri.fsPath)
+    fileUris.push(change.uri)
+  }
+
+  return fileUris
+}
+
+/**
+ * Get the files with staged, unstaged or untracked changes
+ * @param repository The repository to read
+ */
+export function getUncommittedChanges(repository: GitRepository): vscode.Uri[] {
+  const { indexChanges, workingTreeChanges, untrackedChanges = [] } = repository.state
+  return toFileUris([...indexChanges, ...workingTreeChanges, ...untrackedChanges])
+}
+
+/**
+ * Get the files with staged changes
+ * @param repository The repository to read
+ */
+export function getStagedChanges(repository: GitRepository): vscode.Uri[] {
+  return toFileUris(repository.state.indexChanges)
+}
+
+/**
+ * Get the files changed on the current branch compared with another branch
+ * @param repository The repository to read
+ * @param branch The branch to compare with
+ */
+export async function getBranchChanges(
+  repository: GitRepository,
+  branch: string
+): Promise<vscode.Uri[]> {
+  // Diff against the merge base so changes made only on the other branch are left out
+  const mergeBase = await repository.getMergeBase('HEAD', branch)
+  const changes = await repository.diffWith(mergeBase ?? branch)
+
+  // The diff covers tracked files only, new files are reported as untracked
+  return toFileUris([...changes, ...(repository.state.untrackedChanges ?? [])])
+}
+
+/**
+ * Collect the changed files of a repository for the given scope, asking the user
+ * for the repository and the branch to compare with when needed
+ * @param scope Which changes to collect
+ * @param uri Optional URI the command was invoked on, used to find the repository
+ * @returns The changed file URIs, or undefined if the user cancelled
+ */
+export async function getChangedFileUris(
+  scope: GitChangeScope,
+  uri?: vscode.Uri
+): Promise<vscode.Uri[] | undefined> {
+  const repository = await pickRepository(await getGitAPI(), uri)
+  if (!repository) {
+    return undefined
+  }
+
+  switch (scope) {
+    case 'uncommitted':
+      return getUncommittedChanges(repository)
+    case 'staged':
+      return getStagedChanges(repository)
+    case 'branch': {
+      const branch = await pickBranch(repository)
+      return branch ? getBranchChanges(repository, branch) : undefined
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode'
+
+/**
+ * Minimal typings of the built-in `vscode.git` extension API (version 1),
+ * limited to what Cody++ uses. See `extensions/git/src/api/git.d.ts` in VS Code.
+ */
+
+/** Change status, numbered as in the git extension's `Status` enum */
+export enum GitStatus {
+  INDEX_MODIFIED = 0,
+  INDEX_ADDED = 1,
+  INDEX_DELETED = 2,
+  INDEX_RENAMED = 3,
+  INDEX_COPIED = 4,
+  MODIFIED = 5,
+  DELETED = 6,
+  UNTRACKED = 7,
+  IGNORED = 8,
+  INTENT_TO_ADD = 9,
+  INTENT_TO_RENAME = 10,
+  TYPE_CHANGED = 11
+}
+
+export interface GitChange {
+  readonly uri: vscode.Uri
+  readonly originalUri: vscode.Uri
+  readonly status: GitStatus
+}
+
+export interface GitRef {
+  readonly type: number
+  readonly name?: string
+  readonly commit?: string
+  readonly remote?: string
+}
+
+export interface GitRepositoryState {
+  readonly HEAD: GitRef | undefined
+  readonly indexChanges: GitChange[]
+  readonly workingTreeChanges: GitChange[]
+  /** Only present in newer VS Code versions; older ones report untracked files as working tree changes */
+  readonly untrackedChanges?: GitChange[]
+}
+
+export interface GitRepository {
+  readonly rootUri: vscode.Uri
+  readonly state: GitRepositoryState
+  getBranches(query: { remote?: boolean }): Promise<GitRef[]>
+  getMergeBase(ref1: string, ref2: string): Promise<string | undefined>
+  diffWith(ref: string): Promise<GitChange[]>
+}
+
+export interface GitAPI {
+  readonly repositories: GitRepository[]
+  getRepository(uri: vscode.Uri): GitRepository | null
+}
+
+export interface GitExtension {
+  readonly enabled: boolean
+  getAPI(version: 1): GitAPI
+}
@@ -0,0 +1,174 @@
+import * as assert from 'assert'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, FILE_SELECTION_FORMAT } from '../constants'
+import { AnthropicProvider } from '../providers/anthropic'
+
+interface RecordedRequest {
+  method?: string
+  url?: string
+  headers: http.IncomingHttpHeaders
+  body: any
+}
+
+suite('Anthropic Provider Tests', () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: RecordedRequest[]
+  let respond: (request: RecordedRequest) => { status?: number; body: object }
+
+  suiteSetup(async () => {
+    // A mock of the Messages API answering with the current `respond` handler
+    server = http.createServer((req, res) => {
+      let data = ''
+      req.on('data', chunk => (data += chunk))
+      req.on('end', () => {
+        const request = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: data ? JSON.parse(data) : undefined
+        }
+        requests.push(request)
+        const { status = 200, body } = respond(request)
+        res.writeHead(status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(body))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+  })
+
+  suiteTeardown(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  setup(() => {
+    requests = []
+    respond = () => ({ body: { content: [{ type: 'text', text: ' {"files": []} ' }] } })
+  })
+
+  const createProvider = () =>
+    new AnthropicProvider({ apiKey: 'key', baseUrl, model: 'claude-test' })
+
+  test('should send the system prompt separately with the Anthropic headers', async () => {
+    const response = await createProvider().complete({
+      messages: [
+        { role: 'system', content: 'select files' },
+        { role: 'user', content: 'typescript files' }
+      ]
+    })
+
+    assert.strictEqual(response.text, '{"files": []}')
+    const [request] = requests
+    assert.strictEqual(request.method, 'POST')
+    assert.strictEqual(request.url, '/v1/messages')
+    assert.strictEqual(request.headers['x-api-key'], 'key')
+    assert.strictEqual(request.headers['anthropic-version'], '2023-06-01')
+    assert.strictEqual(request.headers.authorization, undefined)
+    assert.strictEqual(request.body.model, 'claude-test')
+    assert.strictEqual(request.body.system, 'select files')
+    assert.deepStrictEqual(request.body.messages, [{ role: 'user', content: 'typescript files' }])
+    assert.strictEqual(request.body.tools, undefined)
+  })
+
+  test('should merge consecutive messages of the same role', async () => {
+    await createProvider().complete({
+      messages: [
+        { role: 'user', content: 'first' },
+        { role: 'user', content: 'second' },
+        { role: 'assistant', content: '{}' }
+      ]
+    })
+
+    assert.deepStrictEqual(requests[0].body.messages, [
+      { role: 'user', content: 'first\n\nsecond' },
+      { role: 'assistant', content: '{}' }
+    ])
+  })
+
+  test('should force a tool call for structured outputs', async () => {
+    const files = [{ path: 'src/index.ts', reason: 'Entry point', confidence: 0.9 }]
+    respond = () => ({
+      body: {
+        content: [
+          { type: 'text', text: 'Selecting the files.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'file_selection', input: { files } }
+        ]
+      }
+    })
+
+    const response = await createProvider().complete({
+      messages: [{ role: 'user', content: 'select files' }],
+      config: { responseFormat: FILE_SELECTION_FORMAT }
+    })
+
+    assert.deepStrictEqual(JSON.parse(response.text), { files })
+    assert.deepStrictEqual(requests[0].body.tools, [
+      {
+        name: 'file_selection',
+        description: 'Respond with the requested JSON object.',
+        input_schema: FILE_SELECTION_FORMAT.schema
+      }
+    ])
+    assert.deepStrictEqual(requests[0].body.tool_choice, { type: 'tool', name: 'file_selection' })
+  })
+
+  test('should surface API errors', async () => {
+    respond = () => ({
+      status: 401,
+      body: { type: 'error', error: { type: 'authentication_error' } }
+    })
+
+    await assert.rejects(
+      createProvider().complete({ messages: [{ role: 'user', content: 'hello' }] }),
+      /Network request failed.*authentication_error/
+    )
+  })
+
+  test('should require an API key', async () => {
+    await assert.rejects(
+      new AnthropicProvider({ apiKey: '', baseUrl }).complete({ messages: [] }),
+      /Authentication required/
+    )
+    assert.strictEqual(requests.length, 0)
+  })
+
+  test('should send the requests to the configured base URL', async () => {
+    const getConfigurationStub = sinon.stub(vscode.workspace, 'getConfiguration').returns({
+      get: (key: string) => (key === CONFIG_KEYS.ANTHROPIC_BASE_URL ? `${baseUrl}/` : undefined)
+    } as any)
+    respond = () => ({ body: { data: [{ id: 'model-1' }], has_more: false } })
+
+    try {
+      const models = await new AnthropicProvider({ apiKey: 'key' }).fetchModels()
+
+      assert.deepStrictEqual(models, ['model-1'])
+      assert.strictEqual(requests[0].url, '/v1/models?limit=1000')
+    } finally {
+      getConfigurationStub.restore()
+    }
+  })
+
+  test('should list the models of every page', async () => {
+    respond = request =>
+      request.url?.includes('after_id=model-2')
+        ? { body: { data: [{ id: 'model-3' }], has_more: false, last_id: 'model-3' } }
+        : {
+            body: {
+              data: [{ id: 'model-1' }, { id: 'model-2' }],
+              has_more: true,
+              last_id: 'model-2'
+            }
+          }
+
+    const models = await createProvider().fetchModels()
+
+    assert.deepStrictEqual(models, ['model-1', 'model-2', 'model-3'])
+    assert.strictEqual(requests[0].method, 'GET')
+    assert.strictEqual(requests[0].url, '/v1/models?limit=1000')
+    assert.strictEqual(requests[0].headers['x-api-key'], 'key')
+  })
+})
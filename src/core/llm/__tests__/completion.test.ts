@@ -0,0 +1,44 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import { completeSelection } from '../completion'
+import { FILE_SELECTION_FORMAT } from '../constants'
+
+suite('Smart Add Completion Tests', () => {
+  const request = {
+    messages: [{ role: 'user' as const, content: 'select files' }],
+    config: { responseFormat: FILE_SELECTION_FORMAT }
+  }
+
+  test('should return the paths of a valid response with a single request', async () => {
+    const complete = sinon.stub().resolves({ text: '{"files": ["a.ts"]}' })
+
+    const paths = await completeSelection({ complete }, request, 'files')
+
+    assert.deepStrictEqual(paths, ['a.ts'])
+    assert.strictEqual(complete.calledOnceWith(request), true)
+  })
+
+  test('should ask the model once to repair an invalid response', async () => {
+    const complete = sinon.stub()
+    complete.onFirstCall().resolves({ text: 'Sure! The files are a.ts and b.ts' })
+    complete.onSecondCall().resolves({ text: '{"files": ["a.ts", "b.ts"]}' })
+
+    const paths = await completeSelection({ complete }, request, 'files')
+
+    assert.deepStrictEqual(paths, ['a.ts', 'b.ts'])
+    const repairRequest = complete.secondCall.args[0]
+    assert.strictEqual(repairRequest.config, request.config)
+    assert.deepStrictEqual(repairRequest.messages.slice(0, 2), [
+      ...request.messages,
+      { role: 'assistant', content: 'Sure! The files are a.ts and b.ts' }
+    ])
+    assert.ok(repairRequest.messages[2].content.includes('"files" array'))
+  })
+
+  test('should fail when the repaired response is invalid too', async () => {
+    const complete = sinon.stub().resolves({ text: '{"directories": []}' })
+
+    await assert.rejects(completeSelection({ complete }, request, 'files'), /no "files" array/)
+    assert.strictEqual(complete.callCount, 2)
+  })
+})
@@ -9,7 +9,16 @@ suite('LLM Constants', () => {
         PROVIDER: 'llmProvider',
         API_KEY: 'llmApiKey',
         MODEL: 'llmModel',
-        OPENAI_BASE_URL: 'openaiBaseUrl'
+        OPENAI_BASE_URL: 'openaiBaseUrl',
+        OLLAMA_BASE_URL: 'ollamaBaseUrl',
+        OLLAMA_KEEP_ALIVE: 'ollamaKeepAlive',
+        OLLAMA_CONTEXT_LENGTH: 'ollamaContextLength',
+        ANTHROPIC_BASE_URL: 'anthropicBaseUrl',
+        AZURE_OPENAI_RESOURCE: 'azureOpenAIResource',
+        AZURE_OPENAI_DEPLOYMENT: 'azureOpenAIDeployment',
+        AZURE_OPENAI_API_VERSION: 'azureOpenAIApiVersion',
+        PROFILES: 'llmProfiles',
+        DEFAULT_PROFILE: 'defaultLlmProfile'
       },
       'CONFIG_KEYS mismatch'
     )
@@ -23,14 +32,32 @@ suite('LLM Constants', () => {
       assert.strictEqual(typeof provider.name, 'string', `Provider ${provider.code} name missing`)
       assert.strictEqual(typeof provider.code, 'string', `Provider ${provider.name} code missing`)
       assert.ok(
-        ['openai-compatible', 'openai', 'gemini'].includes(provider.code),
+        [
+          'openai-compatible',
+          'openai',
+          'gemini',
+          'azure-openai',
+          'anthropic',
+          'ollama',
+          'local'
+        ].includes(provider.code),
         `Provider ${provider.name} has unexpected code: ${provider.code}`
       )
+      assert.strictEqual(
+        typeof provider.requiresApiKey,
+        'boolean',
+        `Provider ${provider.name} requiresApiKey missing`
+      )
       assert.strictEqual(
         typeof provider.baseURL,
         'string',
         `Provider ${provider.name} baseURL missing`
       )
+      // The local ranking runs in-process, without endpoint
+      if (provider.code === 'local') {
+        assert.strictEqual(provider.requiresApiKey, false)
+        return
+      }
       assert.ok(provider.baseURL.length > 0, `Provider ${provider.name} baseURL empty`)
       assert.strictEqual(
         typeof provider.defaultModel,
@@ -62,6 +89,17 @@ suite('LLM Constants', () => {
         assert.strictEqual(provider.baseURL, 'https://generativelanguage.googleapis.com/v1beta')
         assert.ok(provider.chatCompletionPath.includes('openai')) // Check Gemini path specifics
       }
+      if (provider.code === 'azure-openai') {
+        assert.ok(provider.chatCompletionPath.includes('{deployment}'))
+      }
+      if (provider.code === 'anthropic') {
+        assert.strictEqual(provider.baseURL, 'https://api.anthropic.com/v1')
+        assert.strictEqual(provider.chatCompletionPath, '/messages')
+      }
+      if (provider.code === 'ollama') {
+        assert.strictEqual(provider.requiresApiKey, false)
+        assert.strictEqual(provider.modelsPath, '/api/tags')
+      }
     })
 
     // Check if specific codes exist
@@ -0,0 +1,265 @@
+import * as assert from 'assert'
+import * as path from 'path'
+import * as sinon from 'sinon'
+import {
+  SmartAddOptions,
+  chunkByTokens,
+  formatDirectorySummary,
+  mapWithConcurrency,
+  selectFilesHierarchically,
+  shouldUseHierarchicalSelection,
+  summarizeDirectories
+} from '../hierarchical'
+
+suite('Hierarchical Smart Add Tests', () => {
+  const rootPath = path.join(path.sep, 'repo')
+  const file = (relativePath: string) => ({
+    path: path.join(rootPath, relativePath),
+    type: 'file' as const,
+    name: path.basename(relativePath)
+  })
+  const directory = (relativePath: string) => ({
+    path: path.join(rootPath, relativePath),
+    type: 'directory' as const,
+    name: path.basename(relativePath)
+  })
+
+  const fileTree = [
+    file('README.md'),
+    directory('src'),
+    directory('src/auth'),
+    file('src/auth/login.ts'),
+    file('src/auth/session.ts'),
+    directory('src/billing'),
+    file('src/billing/invoice.ts'),
+    directory('docs'),
+    file('docs/guide.md')
+  ]
+
+  const options: SmartAddOptions = {
+    mode: 'hierarchical',
+    chunkTokens: 8000,
+    maxConcurrentRequests: 2,
+    pathObfuscation: 'none',
+    autoAcceptConfidence: 0.8
+  }
+
+  suite('summarizeDirectories', () => {
+    test('should collapse the tree to the directories directly containing files', () => {
+      const directories = summarizeDirectories(rootPath, fileTree)
+
+      assert.deepStrictEqual(
+        directories.map(summary => [summary.path, summary.files.length]),
+        [
+          ['.', 1],
+          ['docs', 1],
+          [path.join('src', 'auth'), 2],
+          [path.join('src', 'billing'), 1]
+        ]
+      )
+    })
+
+    test('should format a directory with its file count and a few file names', () => {
+      const summary = {
+        path: 'src',
+        files: ['a.ts', 'b.ts', 'c.ts', 'd.ts'].map(name => file(`src/${name}`))
+      }
+
+      assert.strictEqual(formatDirectorySummary(summary), 'src (4 files: a.ts, b.ts, c.ts, ...)')
+    })
+  })
+
+  suite('shouldUseHierarchicalSelection', () => {
+    test('should follow the mode, or the tree size in auto mode', () => {
+      assert.strictEqual(shouldUseHierarchicalSelection(fileTree, options), true)
+      assert.strictEqual(
+        shouldUseHierarchicalSelection(fileTree, { ...options, mode: 'single' }),
+        false
+      )
+      assert.strictEqual(
+        shouldUseHierarchicalSelection(fileTree, { ...options, mode: 'auto' }),
+        false
+      )
+      assert.strictEqual(
+        shouldUseHierarchicalSelection(fileTree, { ...options, mode: 'auto', chunkTokens: 10 }),
+        true
+      )
+    })
+  })
+
+  suite('chunkByTokens', () => {
+    test('should split items into chunks within the budget', () => {
+      assert.deepStrictEqual(
+        chunkByTokens([3, 4, 2, 6, 1], item => item, 7),
+        [[3, 4], [2], [6, 1]]
+      )
+    })
+
+    test('should give an item over the budget a chunk of its own', () => {
+      assert.deepStrictEqual(
+        chunkByTokens([2, 9, 2], item => item, 5),
+        [[2], [9], [2]]
+      )
+    })
+  })
+
+  suite('mapWithConcurrency', () => {
+    test('should never run more tasks than the limit at the same time', async () => {
+      let running = 0
+      let maxRunning = 0
+
+      const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setImmediate(resolve))
+        running--
+        if (item === 3) {
+          throw new Error('failed')
+        }
+        return item * 2
+      })
+
+      assert.strictEqual(maxRunning, 2)
+      assert.deepStrictEqual(
+        results.map(result => (result.status === 'fulfilled' ? result.value : 'rejected')),
+        [2, 4, 'rejected', 8, 10]
+      )
+    })
+  })
+
+  suite('selectFilesHierarchically', () => {
+    let completeStub: sinon.SinonStub
+
+    const userMessage = (request: any) => request.messages[request.messages.length - 1].content
+
+    setup(() => {
+      completeStub = sinon.stub().callsFake(async (request: any) => {
+        if (userMessage(request).includes('<directories')) {
+          return {
+            text: JSON.stringify({ directories: [path.join('src', 'auth') + '/', 'unknown'] })
+          }
+        }
+        return {
+          text: JSON.stringify({
+            files: [file('src/auth/login.ts').path, file('src/auth/login.ts').path]
+          })
+        }
+      })
+    })
+
+    test('should pick directories first, then files inside them', async () => {
+      const onProgress = sinon.stub()
+
+      const selectedFiles = await selectFilesHierarchically(
+        { complete: completeStub },
+        'login flow',
+        rootPath,
+        fileTree,
+        options,
+        onProgress
+      )
+
+      assert.deepStrictEqual(selectedFiles, [file('src/auth/login.ts').path])
+      assert.strictEqual(completeStub.callCount, 2)
+      // Only the files of the picked directory are sent in the second step
+      const fileRequest = userMessage(completeStub.secondCall.args[0])
+      assert.ok(fileRequest.includes('session.ts'))
+      assert.ok(!fileRequest.includes('invoice.ts'))
+      assert.strictEqual(onProgress.callCount, 2)
+    })
+
+    test('should send chunks within the token budget and merge their results', async () => {
+      completeStub.callsFake(async (request: any) => {
+        if (userMessage(request).includes('<directories')) {
+          return { text: JSON.stringify({ directories: ['.', 'docs', path.join('src', 'auth')] }) }
+        }
+        const names = ['README.md', 'guide.md', 'login.ts', 'session.ts']
+        return {
+          text: JSON.stringify(
+            names
+              .filter(name => userMessage(request).includes(name))
+              .map(name => fileTree.find(entry => entry.name === name)!.path)
+          )
+        }
+      })
+
+      const selectedFiles = await selectFilesHierarchically(
+        { complete: completeStub },
+        'everything',
+        rootPath,
+        fileTree,
+        { ...options, chunkTokens: 12 }
+      )
+
+      // Several directory and file chunks were sent
+      assert.ok(completeStub.callCount > 3)
+      assert.deepStrictEqual(
+        [...selectedFiles].sort(),
+        [
+          file('README.md').path,
+          file('docs/guide.md').path,
+          file('src/auth/login.ts').path,
+          file('src/auth/session.ts').path
+        ].sort()
+      )
+    })
+
+    test('should keep the results of the chunks that succeeded', async () => {
+      completeStub.callsFake(async (request: any) => {
+        if (userMessage(request).includes('<directories')) {
+          return { text: JSON.stringify({ directories: ['docs', path.join('src', 'auth')] }) }
+        }
+        if (userMessage(request).includes('guide.md')) {
+          throw new Error('rate limited')
+        }
+        return { text: JSON.stringify([file('src/auth/session.ts').path]) }
+      })
+
+      const selectedFiles = await selectFilesHierarchically(
+        { complete: completeStub },
+        'docs and auth',
+        rootPath,
+        fileTree,
+        { ...options, chunkTokens: 12 }
+      )
+
+      assert.deepStrictEqual(selectedFiles, [file('src/auth/session.ts').path])
+    })
+
+    test('should fail when every chunk fails', async () => {
+      completeStub.rejects(new Error('invalid API key'))
+
+      await assert.rejects(
+        selectFilesHierarchically({ complete: completeStub }, 'auth', rootPath, fileTree, options),
+        /invalid API key/
+      )
+    })
+
+    test('should not select files when no directory is picked or after cancellation', async () => {
+      completeStub.resolves({ text: '{"directories": []}' })
+      assert.deepStrictEqual(
+        await selectFilesHierarchically(
+          { complete: completeStub },
+          'auth',
+          rootPath,
+          fileTree,
+          options
+        ),
+        []
+      )
+      assert.strictEqual(completeStub.callCount, 1)
+
+      completeStub.resetHistory()
+      await selectFilesHierarchically(
+        { complete: completeStub },
+        'auth',
+        rootPath,
+        fileTree,
+        options,
+        undefined,
+        { isCancellationRequested: true, onCancellationRequested: sinon.stub() }
+      )
+      assert.strictEqual(completeStub.called, false)
+    })
+  })
+})
@@ -0,0 +1,188 @@
+import * as assert from 'assert'
+import * as path from 'path'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { LocalRankingProvider } from '../providers/local'
+import { findIdentifiers, rankFiles, tokenize } from '../providers/local/ranking'
+
+suite('Local Ranking Provider Tests', () => {
+  const rootPath = path.join(path.sep, 'repo')
+  const relativePaths = [
+    'README.md',
+    'src/auth/login.ts',
+    'src/auth/session.ts',
+    'src/billing/invoice.ts',
+    'src/utils/http.ts',
+    'test/auth/login.test.ts'
+  ]
+  const contents: { [relativePath: string]: string } = {
+    'README.md': 'Getting started with the billing and auth modules',
+    'src/auth/login.ts': 'export function login(user) { return createSession(user.id) }',
+    'src/auth/session.ts':
+      'export function createSession(userId) { return { userId, token: refreshToken() } }',
+    'src/billing/invoice.ts': 'export function createInvoice(customer) { return total }',
+    'src/utils/http.ts': 'export function request(url) { return fetch(url) }',
+    'test/auth/login.test.ts': "suite('login', () => test('should login', () => login(user)))"
+  }
+  const fileTree = relativePaths.map(relativePath => ({
+    path: path.join(rootPath, relativePath),
+    type: 'file' as const,
+    name: path.basename(relativePath)
+  }))
+
+  suite('tokenize', () => {
+    test('should split identifiers and paths, dropping stop words and plurals', () => {
+      assert.deepStrictEqual(tokenize('the UserSessions of src/auth_service-v2.ts'), [
+        'user',
+        'session',
+        'src',
+        'auth',
+        'service',
+        'v2',
+        'ts'
+      ])
+    })
+
+    test('should find the identifiers written like code in a request', () => {
+      assert.deepStrictEqual(findIdentifiers('files calling createSession or user_id in auth'), [
+        'createSession',
+        'user_id'
+      ])
+    })
+  })
+
+  suite('rankFiles', () => {
+    const candidates = relativePaths.map(relativePath => ({
+      path: relativePath,
+      content: contents[relativePath]
+    }))
+
+    test('should rank files by their path and content', () => {
+      const ranked = rankFiles('authentication login', candidates, 10)
+
+      // The test mentions login the most in its content
+      assert.deepStrictEqual(
+        ranked.map(file => file.path),
+        ['test/auth/login.test.ts', 'src/auth/login.ts']
+      )
+      assert.ok(ranked.every(file => file.score > 0 && file.score <= 1))
+      assert.strictEqual(ranked[1].reason, 'Path matches "authentication", "login"')
+    })
+
+    test('should match the identifiers of the request in the contents', () => {
+      const ranked = rankFiles('who calls createSession', candidates, 10)
+
+      assert.strictEqual(ranked[0].path, 'src/auth/session.ts')
+      assert.ok(ranked.some(file => file.path === 'src/auth/login.ts'))
+      assert.ok(
+        ranked
+          .find(file => file.path === 'src/auth/login.ts')!
+          .reason.startsWith('Uses createSession')
+      )
+    })
+
+    test('should return the best files only, up to the maximum', () => {
+      assert.deepStrictEqual(
+        rankFiles('login', candidates, 1).map(file => file.path),
+        ['test/auth/login.test.ts']
+      )
+      assert.deepStrictEqual(rankFiles('kubernetes deployment', candidates, 10), [])
+    })
+  })
+
+  suite('LocalRankingProvider', () => {
+    let sandbox: sinon.SinonSandbox
+    let readFileStub: sinon.SinonStub
+    let statStub: sinon.SinonStub
+
+    setup(() => {
+      sandbox = sinon.createSandbox()
+      statStub = sandbox.stub().resolves({ size: 100 })
+      readFileStub = sandbox.stub().callsFake(async (uri: vscode.Uri) => {
+        const relativePath = path.relative(rootPath, uri.fsPath).split(path.sep).join('/')
+        if (!(relativePath in contents)) {
+          throw new Error('ENOENT')
+        }
+        return Buffer.from(contents[relativePath])
+      })
+      sandbox.stub(vscode.workspace, 'fs').value({ stat: statStub, readFile: readFileStub })
+    })
+
+    teardown(() => {
+      sandbox.restore()
+    })
+
+    const toRelativePaths = (selections: Array<{ path: string }>) =>
+      selections.map(selection => path.relative(rootPath, selection.path).split(path.sep).join('/'))
+
+    test('should select files of the tree with reasons and confidences', async () => {
+      const selections = await new LocalRankingProvider().selectFiles({
+        query: 'session token refresh',
+        rootPath,
+        fileTree
+      })
+
+      assert.strictEqual(selections[0].path, path.join(rootPath, 'src/auth/session.ts'))
+      assert.strictEqual(typeof selections[0].reason, 'string')
+      assert.ok(selections[0].confidence! > 0 && selections[0].confidence! <= 1)
+      assert.strictEqual(readFileStub.callCount, relativePaths.length)
+    })
+
+    test('should rank by path the files that cannot be read', async () => {
+      readFileStub.rejects(new Error('EACCES'))
+
+      const selections = await new LocalRankingProvider().selectFiles({
+        query: 'invoice',
+        rootPath,
+        fileTree
+      })
+
+      assert.deepStrictEqual(toRelativePaths(selections), ['src/billing/invoice.ts'])
+    })
+
+    test('should not read large and binary files', async () => {
+      const largePath = path.join(rootPath, 'fixtures/large-invoice.json')
+      const imagePath = path.join(rootPath, 'assets/invoice.png')
+      statStub.withArgs(sinon.match({ fsPath: largePath })).resolves({ size: 10 * 1024 * 1024 })
+
+      const selections = await new LocalRankingProvider().selectFiles({
+        query: 'invoice',
+        rootPath,
+        fileTree: [
+          ...fileTree,
+          { path: largePath, type: 'file', name: 'large-invoice.json' },
+          { path: imagePath, type: 'file', name: 'invoice.png' }
+        ]
+      })
+
+      const readPaths = readFileStub.getCalls().map(call => call.args[0].fsPath)
+      assert.strictEqual(readPaths.includes(largePath), false)
+      assert.strictEqual(readPaths.includes(imagePath), false)
+      // They are still ranked by their path
+      assert.ok(toRelativePaths(selections).includes('assets/invoice.png'))
+    })
+
+    test('should never select directories', async () => {
+      const selections = await new LocalRankingProvider().selectFiles({
+        query: 'invoice',
+        rootPath,
+        fileTree: [
+          ...fileTree,
+          { path: path.join(rootPath, 'src/invoices'), type: 'directory', name: 'invoices' }
+        ]
+      })
+
+      assert.deepStrictEqual(toRelativePaths(selections), ['src/billing/invoice.ts'])
+    })
+
+    test('should not complete prompts', async () => {
+      await assert.rejects(
+        new LocalRankingProvider().complete({ messages: [{ role: 'user', content: 'login' }] })
+      )
+    })
+
+    test('should list its single model', async () => {
+      assert.deepStrictEqual(await new LocalRankingProvider().fetchModels(), ['bm25'])
+    })
+  })
+})
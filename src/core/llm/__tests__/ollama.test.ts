@@ -0,0 +1,88 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, FILE_SELECTION_FORMAT } from '../constants'
+import { OllamaProvider } from '../providers/ollama'
+
+suite('Ollama Provider Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let fetchStub: sinon.SinonStub
+  let configGet: sinon.SinonStub
+
+  const requestBody = () => JSON.parse(fetchStub.firstCall.args[1].body)
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    configGet = sandbox.stub().callsFake((_key: string, defaultValue?: unknown) => defaultValue)
+    sandbox.stub(vscode.workspace, 'getConfiguration').returns({ get: configGet } as any)
+    fetchStub = sandbox.stub(globalThis, 'fetch').resolves({
+      ok: true,
+      json: async () => ({ message: { role: 'assistant', content: ' {"files": []} ' }, done: true })
+    } as any)
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  test('should complete without an API key using the native chat API', async () => {
+    configGet.withArgs(CONFIG_KEYS.MODEL).returns('qwen2.5-coder')
+
+    const response = await new OllamaProvider().complete({
+      messages: [{ role: 'user', content: 'select files' }],
+      config: { responseFormat: FILE_SELECTION_FORMAT }
+    })
+
+    assert.strictEqual(response.text, '{"files": []}')
+    assert.strictEqual(fetchStub.firstCall.args[0], 'http://localhost:11434/api/chat')
+    assert.strictEqual('Authorization' in fetchStub.firstCall.args[1].headers, false)
+    const body = requestBody()
+    assert.strictEqual(body.model, 'qwen2.5-coder')
+    assert.strictEqual(body.stream, false)
+    assert.strictEqual(body.format, 'json')
+    assert.strictEqual('keep_alive' in body, false)
+    assert.strictEqual('num_ctx' in body.options, false)
+  })
+
+  test('should send the configured server, keep-alive and context length', async () => {
+    configGet.withArgs(CONFIG_KEYS.OLLAMA_BASE_URL).returns('http://gpu-box:11434/')
+    configGet.withArgs(CONFIG_KEYS.OLLAMA_KEEP_ALIVE).returns('30m')
+    configGet.withArgs(CONFIG_KEYS.OLLAMA_CONTEXT_LENGTH).returns(32768)
+
+    await new OllamaProvider().complete({
+      messages: [{ role: 'user', content: 'hello' }],
+      config: { responseFormat: { type: 'text' } }
+    })
+
+    assert.strictEqual(fetchStub.firstCall.args[0], 'http://gpu-box:11434/api/chat')
+    const body = requestBody()
+    assert.strictEqual(body.keep_alive, '30m')
+    assert.strictEqual(body.options.num_ctx, 32768)
+    assert.strictEqual('format' in body, false)
+  })
+
+  test('should send a keep-alive in seconds as a number', async () => {
+    configGet.withArgs(CONFIG_KEYS.OLLAMA_KEEP_ALIVE).returns('-1')
+
+    await new OllamaProvider().complete({ messages: [{ role: 'user', content: 'hello' }] })
+
+    assert.strictEqual(requestBody().keep_alive, -1)
+  })
+
+  test('should discover the models pulled on the server', async () => {
+    fetchStub.resolves({
+      ok: true,
+      json: async () => ({
+        models: [
+          { name: 'llama3.2:latest', model: 'llama3.2:latest', size: 1 },
+          { name: 'qwen2.5-coder:7b', model: 'qwen2.5-coder:7b', size: 2 }
+        ]
+      })
+    } as any)
+
+    const models = await new OllamaProvider({ baseUrl: 'http://127.0.0.1:8080' }).fetchModels()
+
+    assert.deepStrictEqual(models, ['llama3.2:latest', 'qwen2.5-coder:7b'])
+    assert.strictEqual(fetchStub.firstCall.args[0], 'http://127.0.0.1:8080/api/tags')
+  })
+})
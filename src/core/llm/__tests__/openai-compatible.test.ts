@@ -0,0 +1,141 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, FILE_SELECTION_FORMAT } from '../constants'
+import { AzureOpenAIProvider } from '../providers/azure-openai'
+import { OpenAICompatibleProvider } from '../providers/openai-compatible'
+import { OpenAIProvider } from '../providers/openai'
+
+suite('OpenAI Compatible Provider Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let fetchStub: sinon.SinonStub
+
+  const requestBody = () => JSON.parse(fetchStub.firstCall.args[1].body)
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    fetchStub = sandbox.stub(globalThis, 'fetch').resolves({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: ' {"files": []} ' } }] })
+    } as any)
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  test('should send the JSON schema to providers supporting structured outputs', async () => {
+    const provider = new OpenAIProvider({ apiKey: 'key' })
+
+    const response = await provider.complete({
+      messages: [{ role: 'user', content: 'select files' }],
+      config: { responseFormat: FILE_SELECTION_FORMAT }
+    })
+
+    assert.strictEqual(response.text, '{"files": []}')
+    assert.deepStrictEqual(requestBody().response_format, {
+      type: 'json_schema',
+      json_schema: {
+        name: 'file_selection',
+        schema: FILE_SELECTION_FORMAT.schema,
+        strict: true
+      }
+    })
+  })
+
+  test('should fall back to JSON mode for other providers', async () => {
+    const provider = new OpenAICompatibleProvider({ apiKey: 'key' })
+
+    await provider.complete({
+      messages: [{ role: 'user', content: 'select files' }],
+      config: { responseFormat: FILE_SELECTION_FORMAT }
+    })
+
+    assert.deepStrictEqual(requestBody().response_format, { type: 'json_object' })
+  })
+
+  test('should use the endpoint of its own provider whatever the provider setting', async () => {
+    // A profile may use an OpenAI-compatible endpoint while the settings name Azure OpenAI
+    sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+      get: (key: string, defaultValue?: unknown) =>
+        key === CONFIG_KEYS.PROVIDER ? 'azure-openai' : defaultValue
+    } as any)
+    const provider = new OpenAICompatibleProvider({
+      apiKey: 'key',
+      baseUrl: 'http://localhost:8080/v1'
+    })
+
+    await provider.complete({
+      messages: [{ role: 'user', content: 'select files' }],
+      config: { responseFormat: FILE_SELECTION_FORMAT }
+    })
+
+    assert.strictEqual(fetchStub.firstCall.args[0], 'http://localhost:8080/v1/chat/completions')
+    assert.deepStrictEqual(requestBody().response_format, { type: 'json_object' })
+  })
+
+  test('should not request JSON for text responses', async () => {
+    const provider = new OpenAIProvider({ apiKey: 'key' })
+
+    await provider.complete({
+      messages: [{ role: 'user', content: 'hello' }],
+      config: { responseFormat: { type: 'text' } }
+    })
+
+    assert.strictEqual('response_format' in requestBody(), false)
+  })
+
+  test('should call Azure OpenAI deployments with the api-key header', async () => {
+    const provider = new AzureOpenAIProvider({
+      apiKey: 'key',
+      resource: 'contoso',
+      deployment: 'gpt-4o mini',
+      apiVersion: '2024-06-01'
+    })
+
+    const response = await provider.complete({
+      messages: [{ role: 'user', content: 'select files' }],
+      config: { responseFormat: FILE_SELECTION_FORMAT }
+    })
+
+    assert.strictEqual(response.text, '{"files": []}')
+    const [url, init] = fetchStub.firstCall.args
+    assert.strictEqual(
+      url,
+      'https://contoso.openai.azure.com/openai/deployments/gpt-4o%20mini/chat/completions?api-version=2024-06-01'
+    )
+    assert.strictEqual(init.headers['api-key'], 'key')
+    assert.strictEqual('Authorization' in init.headers, false)
+    assert.deepStrictEqual(requestBody().response_format, { type: 'json_object' })
+  })
+
+  test('should accept the endpoint URL of an Azure OpenAI resource', async () => {
+    const provider = new AzureOpenAIProvider({
+      apiKey: 'key',
+      resource: 'https://openai.contoso.com/',
+      deployment: 'smart-add'
+    })
+
+    await provider.complete({ messages: [{ role: 'user', content: 'select files' }] })
+
+    assert.strictEqual(
+      fetchStub.firstCall.args[0],
+      'https://openai.contoso.com/openai/deployments/smart-add/chat/completions?api-version=2024-10-21'
+    )
+  })
+
+  test('should use the model of the options as the deployment before the settings', async () => {
+    sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+      get: (key: string) => (key === CONFIG_KEYS.MODEL ? 'gpt-4o' : undefined)
+    } as any)
+    const provider = new AzureOpenAIProvider({
+      apiKey: 'key',
+      resource: 'contoso',
+      model: 'profile-deployment'
+    })
+
+    await provider.complete({ messages: [{ role: 'user', content: 'select files' }] })
+
+    assert.ok(fetchStub.firstCall.args[0].includes('/openai/deployments/profile-deployment/'))
+  })
+})
@@ -0,0 +1,90 @@
+import * as assert from 'assert'
+import * as path from 'path'
+import { formatFileTree } from '../../filesystem/operations'
+import { createPromptFileTree } from '../paths'
+
+suite('Smart Add Prompt Paths Tests', () => {
+  const rootPath = path.join(path.sep, 'home', 'jane', 'acme-billing')
+  const entry = (relativePath: string, type: 'file' | 'directory' = 'file') => ({
+    path: path.join(rootPath, relativePath),
+    type,
+    name: path.basename(relativePath)
+  })
+
+  const fileTree = [
+    entry('README.md'),
+    entry('src', 'directory'),
+    entry('src/invoices', 'directory'),
+    entry('src/invoices/tax.ts'),
+    entry('lib', 'directory'),
+    entry('lib/src', 'directory'),
+    entry('lib/src/tax.ts')
+  ]
+
+  test('should show the tree relative to its root and resolve relative paths back', () => {
+    const promptTree = createPromptFileTree(rootPath, fileTree)
+    const formattedTree = formatFileTree(promptTree.rootPath, [...promptTree.fileTree])
+
+    assert.ok(formattedTree.startsWith('acme-billing\n'))
+    assert.ok(!formattedTree.includes('jane'))
+    assert.strictEqual(
+      promptTree.toWorkspacePath('src/invoices/tax.ts'),
+      path.join(rootPath, 'src', 'invoices', 'tax.ts')
+    )
+    // The root folder name and absolute paths are tolerated
+    assert.strictEqual(
+      promptTree.toWorkspacePath('acme-billing/README.md'),
+      entry('README.md').path
+    )
+    assert.strictEqual(
+      promptTree.toWorkspacePath(entry('lib/src/tax.ts').path),
+      entry('lib/src/tax.ts').path
+    )
+    assert.strictEqual(
+      promptTree.toPromptPath(entry('src/invoices/tax.ts').path),
+      'src/invoices/tax.ts'
+    )
+    assert.strictEqual(promptTree.toPromptPath(entry('README.md').path), 'README.md')
+  })
+
+  test('should hash directory names and map them back', () => {
+    const promptTree = createPromptFileTree(rootPath, fileTree, 'hash')
+    const formattedTree = formatFileTree(promptTree.rootPath, [...promptTree.fileTree])
+
+    for (const name of ['acme-billing', 'invoices', 'src', 'lib', 'jane']) {
+      assert.ok(!formattedTree.includes(name), `${name} should not be shown`)
+    }
+    // File names are kept so the model can still pick files
+    assert.ok(formattedTree.includes('tax.ts'))
+
+    const shownTaxFiles = promptTree.fileTree
+      .filter(shown => shown.name === 'tax.ts')
+      .map(shown => path.relative(promptTree.rootPath, shown.path).split(path.sep).join('/'))
+    assert.deepStrictEqual(
+      shownTaxFiles.map(shownPath => promptTree.toWorkspacePath(shownPath)),
+      [entry('src/invoices/tax.ts').path, entry('lib/src/tax.ts').path]
+    )
+    // The same name gets the same hash in every folder of the tree
+    const [invoicesPath, libSrcPath] = shownTaxFiles.map(shownPath => shownPath.split('/'))
+    assert.strictEqual(invoicesPath[0], libSrcPath[1])
+    assert.deepStrictEqual(
+      [entry('src/invoices/tax.ts').path, entry('lib/src/tax.ts').path].map(workspacePath =>
+        promptTree.toPromptPath(workspacePath)
+      ),
+      shownTaxFiles
+    )
+  })
+
+  test('should keep unknown directories as returned', () => {
+    const promptTree = createPromptFileTree(rootPath, fileTree, 'hash')
+
+    assert.strictEqual(
+      promptTree.toWorkspacePath('unknown/tax.ts'),
+      path.join(rootPath, 'unknown', 'tax.ts')
+    )
+    assert.strictEqual(
+      promptTree.toWorkspacePath('../outside.ts'),
+      path.join(path.dirname(rootPath), 'outside.ts')
+    )
+  })
+})
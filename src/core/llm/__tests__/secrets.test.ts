@@ -0,0 +1,103 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { CONFIG_KEYS } from '../constants'
+import { OpenAIProvider } from '../providers/openai'
+import {
+  getApiKey,
+  getApiKeySecretKey,
+  migrateApiKeyFromSettings,
+  setSecretStorage,
+  storeApiKey
+} from '../secrets'
+
+suite('API Key Secrets Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let secrets: Map<string, string>
+  let configGet: sinon.SinonStub
+  let configInspect: sinon.SinonStub
+  let configUpdate: sinon.SinonStub
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+
+    // In-memory secret storage
+    secrets = new Map()
+    setSecretStorage({
+      get: async (key: string) => secrets.get(key),
+      store: async (key: string, value: string) => void secrets.set(key, value),
+      delete: async (key: string) => void secrets.delete(key)
+    } as any as vscode.SecretStorage)
+
+    configGet = sandbox.stub()
+    configInspect = sandbox.stub().returns(undefined)
+    configUpdate = sandbox.stub().resolves()
+    sandbox
+      .stub(vscode.workspace, 'getConfiguration')
+      .returns({ get: configGet, inspect: configInspect, update: configUpdate } as any)
+  })
+
+  teardown(() => {
+    setSecretStorage(undefined)
+    sandbox.restore()
+  })
+
+  test('should keep one secret per provider', async () => {
+    await storeApiKey('openai', 'openai-key')
+    await storeApiKey('anthropic', 'anthropic-key')
+
+    assert.strictEqual(await getApiKey('openai'), 'openai-key')
+    assert.strictEqual(await getApiKey('anthropic'), 'anthropic-key')
+    assert.strictEqual(await getApiKey('gemini'), undefined)
+    assert.strictEqual(secrets.get(getApiKeySecretKey('openai')), 'openai-key')
+
+    await storeApiKey('openai', '')
+    assert.strictEqual(await getApiKey('openai'), undefined)
+  })
+
+  test('should move a plaintext key to the secret of the configured provider', async () => {
+    configGet.withArgs(CONFIG_KEYS.API_KEY).returns('plaintext-key')
+    configGet.withArgs(CONFIG_KEYS.PROVIDER).returns('gemini')
+    configInspect
+      .withArgs(CONFIG_KEYS.API_KEY)
+      .returns({ key: 'codyPlusPlus.llmApiKey', globalValue: 'plaintext-key', workspaceValue: 'x' })
+
+    const provider = await migrateApiKeyFromSettings()
+
+    assert.strictEqual(provider, 'gemini')
+    assert.strictEqual(await getApiKey('gemini'), 'plaintext-key')
+    assert.deepStrictEqual(
+      configUpdate.getCalls().map(call => call.args),
+      [
+        [CONFIG_KEYS.API_KEY, undefined, vscode.ConfigurationTarget.Global],
+        [CONFIG_KEYS.API_KEY, undefined, vscode.ConfigurationTarget.Workspace]
+      ]
+    )
+  })
+
+  test('should store the key for OpenAI when the configured provider needs none', async () => {
+    configGet.withArgs(CONFIG_KEYS.API_KEY).returns('plaintext-key')
+    configGet.withArgs(CONFIG_KEYS.PROVIDER).returns('ollama')
+
+    assert.strictEqual(await migrateApiKeyFromSettings(), 'openai')
+    assert.strictEqual(await getApiKey('openai'), 'plaintext-key')
+  })
+
+  test('should not migrate anything without a plaintext key', async () => {
+    assert.strictEqual(await migrateApiKeyFromSettings(), undefined)
+    assert.strictEqual(secrets.size, 0)
+    assert.strictEqual(configUpdate.called, false)
+  })
+
+  test('should authenticate provider requests with the stored key', async () => {
+    await storeApiKey('openai', 'stored-key')
+    const fetchStub: sinon.SinonStub = sandbox.stub(globalThis, 'fetch').resolves({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: '{}' } }] })
+    } as any)
+
+    await new OpenAIProvider().complete({ messages: [{ role: 'user', content: 'hello' }] })
+
+    assert.strictEqual(fetchStub.firstCall.args[1].headers.Authorization, 'Bearer stored-key')
+  })
+})
@@ -0,0 +1,163 @@
+import * as assert from 'assert'
+import * as path from 'path'
+import {
+  editDistance,
+  formatSelectionDiff,
+  formatSelectionIssues,
+  toFileSelection,
+  validateSelectedPaths
+} from '../selection'
+
+suite('Smart Add Selection Validation Tests', () => {
+  const rootPath = path.join(path.sep, 'repo')
+  const absolute = (relativePath: string) => path.join(rootPath, relativePath)
+  const file = (relativePath: string) => ({
+    path: absolute(relativePath),
+    type: 'file' as const,
+    name: path.basename(relativePath)
+  })
+
+  const fileTree = [
+    { path: absolute('src'), type: 'directory' as const, name: 'src' },
+    file('src/Auth.ts'),
+    file('src/session.ts'),
+    file('src/utils/format.ts'),
+    file('src/utils/index.ts'),
+    file('lib/index.ts'),
+    file('README.md')
+  ]
+
+  test('should keep files of the tree, absolute or relative, without duplicates', () => {
+    const result = validateSelectedPaths(
+      [absolute('src/session.ts'), 'README.md', path.join('src', 'session.ts')],
+      rootPath,
+      fileTree
+    )
+
+    assert.deepStrictEqual(result, {
+      files: [absolute('src/session.ts'), absolute('README.md')],
+      selections: [{ path: absolute('src/session.ts') }, { path: absolute('README.md') }],
+      corrected: [],
+      rejected: []
+    })
+  })
+
+  test('should keep the reason and confidence of selected files', () => {
+    const result = validateSelectedPaths(
+      [
+        { path: 'src/session.ts', reason: 'Session handling', confidence: 0.9 },
+        { path: 'src/sesion.ts', reason: 'Duplicate', confidence: 0.2 },
+        { path: 'src/auth.ts', reason: 'Login', confidence: 70 },
+        { reason: 'No path' }
+      ],
+      rootPath,
+      fileTree
+    )
+
+    assert.deepStrictEqual(result.selections, [
+      { path: absolute('src/session.ts'), reason: 'Session handling', confidence: 0.9 },
+      { path: absolute('src/Auth.ts'), reason: 'Login', confidence: 0.7 }
+    ])
+    assert.deepStrictEqual(result.rejected, [
+      { path: '{"reason":"No path"}', reason: 'not a file path' }
+    ])
+  })
+
+  test('should read paths and file objects, ignoring invalid reasons and confidences', () => {
+    assert.deepStrictEqual(toFileSelection('a.ts'), { path: 'a.ts' })
+    assert.deepStrictEqual(toFileSelection({ path: 'a.ts', reason: ' ', confidence: 'high' }), {
+      path: 'a.ts'
+    })
+    assert.deepStrictEqual(toFileSelection({ path: 'a.ts', confidence: 150 }), { path: 'a.ts' })
+    assert.strictEqual(toFileSelection({ file: 'a.ts' }), undefined)
+    assert.strictEqual(toFileSelection(null), undefined)
+  })
+
+  test('should correct near misses in case, extension, folder or spelling', () => {
+    const selectedPaths = [
+      absolute('src/auth.ts'),
+      absolute('src/session.js'),
+      absolute('format.ts'),
+      absolute('src/sesion.ts')
+    ]
+
+    const result = validateSelectedPaths(selectedPaths, rootPath, fileTree)
+
+    assert.deepStrictEqual(
+      result.corrected.map(({ match }) => match),
+      [
+        absolute('src/Auth.ts'),
+        absolute('src/session.ts'),
+        absolute('src/utils/format.ts'),
+        absolute('src/session.ts')
+      ]
+    )
+    assert.deepStrictEqual(result.files, [
+      absolute('src/Auth.ts'),
+      absolute('src/session.ts'),
+      absolute('src/utils/format.ts')
+    ])
+    assert.deepStrictEqual(result.rejected, [])
+  })
+
+  test('should reject paths outside the root, folders, unknown and ambiguous paths', () => {
+    const outsidePath = path.join(path.sep, 'etc', 'passwd')
+    const selectedPaths = [
+      outsidePath,
+      path.join('..', 'other', 'index.ts'),
+      absolute('src'),
+      absolute('src/billing/invoice.ts'),
+      absolute('index.ts'),
+      42
+    ]
+
+    const result = validateSelectedPaths(selectedPaths, rootPath, fileTree)
+
+    assert.deepStrictEqual(result.files, [])
+    assert.deepStrictEqual(result.rejected, [
+      { path: outsidePath, reason: 'outside the selected folder' },
+      { path: path.join('..', 'other', 'index.ts'), reason: 'outside the selected folder' },
+      { path: absolute('src'), reason: 'a folder, not a file' },
+      { path: absolute('src/billing/invoice.ts'), reason: 'not found' },
+      { path: absolute('index.ts'), reason: 'matches 2 files' },
+      { path: '42', reason: 'not a file path' }
+    ])
+  })
+
+  test('should describe the files added to and removed from a selection', () => {
+    assert.strictEqual(
+      formatSelectionDiff(
+        [absolute('db/001.sql'), absolute('db/002.sql')],
+        [absolute('a.test.ts')],
+        rootPath
+      ),
+      `Added 2 files:\n+ ${path.join('db', '001.sql')}\n+ ${path.join('db', '002.sql')}\n\n` +
+        'Removed 1 file:\n- a.test.ts'
+    )
+    assert.strictEqual(formatSelectionDiff([], [], rootPath), 'The selection did not change.')
+  })
+
+  test('should describe corrected and rejected paths', () => {
+    const result = validateSelectedPaths(
+      [absolute('src/auth.ts'), absolute('missing.ts')],
+      rootPath,
+      fileTree
+    )
+
+    assert.strictEqual(
+      formatSelectionIssues(result, rootPath),
+      `Corrected 1 path:\n- ${absolute('src/auth.ts')} → ${path.join('src', 'Auth.ts')}\n\n` +
+        `Rejected 1 path:\n- ${absolute('missing.ts')} (not found)`
+    )
+    assert.strictEqual(
+      formatSelectionIssues({ files: [], selections: [], corrected: [], rejected: [] }, rootPath),
+      ''
+    )
+  })
+
+  test('should count the edits between two texts', () => {
+    assert.strictEqual(editDistance('session', 'session'), 0)
+    assert.strictEqual(editDistance('sesion', 'session'), 1)
+    assert.strictEqual(editDistance('kitten', 'sitting'), 3)
+  })
+})
@@ -0,0 +1,125 @@
+import * as assert from 'assert'
+import proxyquire from 'proxyquire'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+
+suite('LLM Utils Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let getWorkspaceFileTreeStub: sinon.SinonStub
+  let getFileTreeFilterStub: sinon.SinonStub
+  let utilsModule: any
+
+  const rootUri = vscode.Uri.file('/test/workspace')
+  const fileTree = [{ path: '/test/workspace/index.ts', type: 'file', name: 'index.ts' }]
+  const treeFilter = () => false
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    getWorkspaceFileTreeStub = sandbox.stub().resolves(fileTree)
+    getFileTreeFilterStub = sandbox.stub().resolves(treeFilter)
+
+    utilsModule = proxyquire.noCallThru().load('../utils', {
+      vscode: {
+        workspace: {
+          getConfiguration: () => ({
+            get: (key: string, defaultValue: unknown) =>
+              key === 'smartAddExclude' ? ['vendor/**'] : defaultValue
+          })
+        },
+        window: { showErrorMessage: sandbox.stub() }
+      },
+      '../filesystem/config': { getProcessingConfig: () => ({ exclude: ['**/*.snap'] }) },
+      '../filesystem/operations': {
+        formatFileTree: () => '└── index.ts',
+        getWorkspaceFileTree: getWorkspaceFileTreeStub
+      },
+      '../filesystem/processor': { getFileTreeFilter: getFileTreeFilterStub }
+    })
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  test('should build the Smart Add tree with the processing exclusions and its own excludes', async () => {
+    const result = await utilsModule.getSmartAddFileTree(rootUri)
+
+    assert.strictEqual(result, fileTree)
+    assert.deepStrictEqual(getFileTreeFilterStub.firstCall.args, [
+      rootUri,
+      { exclude: ['**/*.snap', 'vendor/**'] }
+    ])
+    assert.deepStrictEqual(getWorkspaceFileTreeStub.firstCall.args, [rootUri, treeFilter])
+  })
+
+  test('should reuse a file tree built by the caller', async () => {
+    const promptTree = { rootPath: rootUri.fsPath, fileTree, toWorkspacePath: sandbox.stub() }
+
+    const messages = await utilsModule.createCompletionRequestMessages(
+      'entry point',
+      rootUri,
+      promptTree
+    )
+
+    assert.strictEqual(getWorkspaceFileTreeStub.called, false)
+    assert.ok(messages[messages.length - 1].content.includes('└── index.ts'))
+  })
+
+  test('should not send absolute paths to the model', async () => {
+    const messages = await utilsModule.createCompletionRequestMessages('entry point', rootUri)
+
+    assert.strictEqual(getWorkspaceFileTreeStub.calledOnce, true)
+    assert.ok(!messages.some((message: any) => message.content.includes(rootUri.fsPath)))
+  })
+
+  test('should parse paths from an array or an object holding the array', () => {
+    assert.deepStrictEqual(utilsModule.parseLLMResponse('["a.ts"]'), ['a.ts'])
+    assert.deepStrictEqual(utilsModule.parseLLMResponse('{"files": ["a.ts"]}'), ['a.ts'])
+    assert.deepStrictEqual(
+      utilsModule.parseLLMResponse('{"directories": ["src"]}', 'directories'),
+      ['src']
+    )
+    assert.throws(
+      () => utilsModule.parseLLMResponse('{"directories": ["src"]}'),
+      /no "files" array/
+    )
+  })
+
+  test('should tolerate code fences and text around the JSON', () => {
+    assert.deepStrictEqual(
+      utilsModule.parseLLMResponse('```json\n{"files": ["a.ts"]}\n```\nThese match the request.'),
+      ['a.ts']
+    )
+    assert.deepStrictEqual(
+      utilsModule.parseLLMResponse('Here are the files: {"files": ["src/[id].ts"]} Hope it helps!'),
+      ['src/[id].ts']
+    )
+    assert.deepStrictEqual(utilsModule.parseLLMResponse('Files: ["a.ts", "b.ts"]'), [
+      'a.ts',
+      'b.ts'
+    ])
+  })
+
+  test('should fail on responses without valid JSON', () => {
+    assert.throws(() => utilsModule.parseLLMResponse('{"files": ["a.ts"'), /not valid JSON/)
+    assert.throws(() => utilsModule.parseLLMResponse('I cannot help with that.'), /not valid JSON/)
+  })
+
+  test('should append the previous selection and the follow-up to the conversation', () => {
+    const conversation = [{ role: 'user', content: 'select auth files' }]
+    const previousSelection = [{ path: 'src/auth.ts', reason: 'Login', confidence: 0.9 }]
+
+    const messages = utilsModule.createRefinementMessages(
+      conversation,
+      previousSelection,
+      'drop the tests'
+    )
+
+    assert.deepStrictEqual(messages.slice(0, 2), [
+      ...conversation,
+      { role: 'assistant', content: JSON.stringify({ files: previousSelection }) }
+    ])
+    assert.strictEqual(messages[2].role, 'user')
+    assert.ok(messages[2].content.includes('Follow-up request: drop the tests'))
+  })
+})
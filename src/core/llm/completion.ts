@@ -0,0 +1,37 @@
+import { CompletionProvider, CompletionRequest } from './types'
+import { parseLLMResponse } from './utils'
+
+/**
+ * Request a selection from the model, such as the files or directories it picks.
+ * When the response can't be parsed, the model is asked once to repair it.
+ * @param llm The provider completing the request
+ * @param request The request, usually with a JSON response format
+ * @param key Key of the selection array in the response object
+ * @returns The entries of the selection array
+ * @throws When the repaired response can't be parsed either
+ */
+export async function completeSelection(
+  llm: CompletionProvider,
+  request: CompletionRequest,
+  key: string
+): Promise<unknown[]> {
+  const response = await llm.complete(request)
+  try {
+    return parseLLMResponse(response.text, key)
+  } catch (error: any) {
+    console.warn(`CODY++: Retrying invalid LLM response: ${error.message}`)
+  }
+
+  const repairedResponse = await llm.complete({
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: response.text },
+      {
+        role: 'user',
+        content: `Your response could not be parsed. Respond again with only the JSON object with the "${key}" array, without code fences or any other text.`
+      }
+    ]
+  })
+  return parseLLMResponse(repairedResponse.text, key)
+}
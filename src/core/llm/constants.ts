@@ -1,6 +1,13 @@
-import { CompletionRequestMessage } from './types'
+import { CompletionRequestMessage, ResponseFormat } from './types'
 
-export type SUPPORTED_PROVIDER_CODES = 'openai-compatible' | 'openai' | 'gemini'
+export type SUPPORTED_PROVIDER_CODES =
+  | 'openai-compatible'
+  | 'openai'
+  | 'gemini'
+  | 'azure-openai'
+  | 'anthropic'
+  | 'ollama'
+  | 'local'
 
 export interface LLMProviderDetails {
   name: string // User-friendly name (e.g., "OpenAI Compatible")
@@ -9,6 +16,8 @@ export interface LLMProviderDetails {
   baseURL: string
   chatCompletionPath: string // e.g., /chat/completions
   modelsPath: string // e.g., /models
+  supportsJsonSchema: boolean // Accepts response_format json_schema (structured outputs)
+  requiresApiKey: boolean // Needs an API key before completing requests
 }
 
 // Define the supported providers using the new structure
@@ -19,7 +28,9 @@ export const SUPPORTED_PROVIDERS: LLMProviderDetails[] = [
     defaultModel: 'gpt-4o-mini',
     baseURL: 'https://api.openai.com/v1',
     chatCompletionPath: '/chat/completions',
-    modelsPath: '/models'
+    modelsPath: '/models',
+    supportsJsonSchema: false, // Not every compatible endpoint supports structured outputs
+    requiresApiKey: true
   },
   {
     name: 'OpenAI',
@@ -27,7 +38,9 @@ export const SUPPORTED_PROVIDERS: LLMProviderDetails[] = [
     defaultModel: 'gpt-4o-mini',
     baseURL: 'https://api.openai.com/v1',
     chatCompletionPath: '/chat/completions',
-    modelsPath: '/models'
+    modelsPath: '/models',
+    supportsJsonSchema: true,
+    requiresApiKey: true
   },
   {
     name: 'Gemini',
@@ -35,15 +48,69 @@ export const SUPPORTED_PROVIDERS: LLMProviderDetails[] = [
     defaultModel: 'gemini-2.0-flash', // Note: Model name updated based on package.json description
     baseURL: 'https://generativelanguage.googleapis.com/v1beta', // Keeping this simpler for now
     chatCompletionPath: '/openai/chat/completions', // Adjusted for Gemini's OpenAI compatibility layer
-    modelsPath: '/openai/models' // Adjusted for Gemini's OpenAI compatibility layer
+    modelsPath: '/openai/models', // Adjusted for Gemini's OpenAI compatibility layer
+    supportsJsonSchema: false, // Its schema subset rejects strict OpenAI schemas, JSON mode is used
+    requiresApiKey: true
+  },
+  {
+    name: 'Azure OpenAI',
+    code: 'azure-openai',
+    defaultModel: 'gpt-4o-mini', // Name of the deployment, often named after its model
+    baseURL: 'https://{resource}.openai.azure.com', // Filled from the azureOpenAIResource setting
+    chatCompletionPath: '/openai/deployments/{deployment}/chat/completions',
+    modelsPath: '/openai/models',
+    supportsJsonSchema: false, // Structured outputs depend on the deployed model version
+    requiresApiKey: true
+  },
+  {
+    name: 'Anthropic',
+    code: 'anthropic',
+    defaultModel: 'claude-3-5-haiku-latest',
+    baseURL: 'https://api.anthropic.com/v1',
+    chatCompletionPath: '/messages', // Native Messages API, not OpenAI-shaped
+    modelsPath: '/models',
+    supportsJsonSchema: true, // Schemas are enforced through a forced tool call
+    requiresApiKey: true
+  },
+  {
+    name: 'Ollama (local model)',
+    code: 'ollama',
+    defaultModel: 'llama3.2',
+    baseURL: 'http://localhost:11434',
+    chatCompletionPath: '/api/chat', // Native Ollama API, not its OpenAI-compatible layer
+    modelsPath: '/api/tags',
+    supportsJsonSchema: false, // JSON mode through `format: json`
+    requiresApiKey: false
+  },
+  {
+    name: 'Local Ranking (offline)',
+    code: 'local',
+    defaultModel: 'bm25',
+    baseURL: '', // Files are ranked in-process, nothing is sent over the network
+    chatCompletionPath: '',
+    modelsPath: '',
+    supportsJsonSchema: false,
+    requiresApiKey: false
   }
 ]
 
+/** Latest generally available version of the Azure OpenAI data plane API */
+export const DEFAULT_AZURE_OPENAI_API_VERSION = '2024-10-21'
+
 export const CONFIG_KEYS = {
   PROVIDER: 'llmProvider',
   API_KEY: 'llmApiKey',
   MODEL: 'llmModel',
-  OPENAI_BASE_URL: 'openaiBaseUrl'
+  OPENAI_BASE_URL: 'openaiBaseUrl',
+  OLLAMA_BASE_URL: 'ollamaBaseUrl',
+  OLLAMA_KEEP_ALIVE: 'ollamaKeepAlive',
+  OLLAMA_CONTEXT_LENGTH: 'ollamaContextLength',
+  ANTHROPIC_BASE_URL: 'anthropicBaseUrl',
+  AZURE_OPENAI_RESOURCE: 'azureOpenAIResource',
+  AZURE_OPENAI_DEPLOYMENT: 'azureOpenAIDeployment',
+  AZURE_OPENAI_API_VERSION: 'azureOpenAIApiVersion',
+  PROFILES: 'llmProfiles',
+  DEFAULT_PROFILE: 'defaultLlmProfile'
 } as const
 
 export const ERROR_MESSAGES = {
@@ -57,23 +124,62 @@ export const ERROR_MESSAGES = {
 
 export const SYSTEM_PROMPT = `
 You are a helpful assistant that helps select files in a codebase based on user requests.
-You are given the file tree of the codebase and the user's request.
-You should respond with a JSON array of file paths that should be added to the codebase.
-The file paths should be absolute paths.
-Do not include any additional text in your response, only the JSON array.
+You are given the file tree of the codebase and the user's request. The first line of the tree is its root folder.
+You should respond with a JSON object with a "files" array of the files that should be added to the codebase.
+Each file is an object with its "path", a short "reason" explaining why it matches the request, and your "confidence" that it matches, between 0 and 1.
+The file paths should be relative to the root folder, without the root folder name, using / as separator.
+Do not include any additional text in your response, only the JSON object.
+`
+
+export const DIRECTORY_SELECTION_PROMPT = `
+You are a helpful assistant that helps select directories in a large codebase based on user requests.
+You are given the directories of the codebase, one per line, relative to its root, with their number of files and a few of their file names.
+A selected directory covers only the files directly inside it, so list every relevant subdirectory separately.
+You should respond with a JSON object with a "directories" array of the directories, exactly as listed, that may contain files matching the request.
+Do not include any additional text in your response, only the JSON object.
 `
 
+/**
+ * JSON schema of a response holding an array of items under a key
+ */
+const arraySchema = (key: string, items: object) => ({
+  type: 'object',
+  properties: { [key]: { type: 'array', items } },
+  required: [key],
+  additionalProperties: false
+})
+
+export const FILE_SELECTION_FORMAT: ResponseFormat = {
+  type: 'json',
+  name: 'file_selection',
+  schema: arraySchema('files', {
+    type: 'object',
+    properties: {
+      path: { type: 'string' },
+      reason: { type: 'string' },
+      confidence: { type: 'number' }
+    },
+    required: ['path', 'reason', 'confidence'],
+    additionalProperties: false
+  })
+}
+
+export const DIRECTORY_SELECTION_FORMAT: ResponseFormat = {
+  type: 'json',
+  name: 'directory_selection',
+  schema: arraySchema('directories', { type: 'string' })
+}
+
 export const FEW_SHOT_EXAMPLES: CompletionRequestMessage[] = [
   {
     role: 'user',
     content: `<file-tree>
-/Users/users/Work/Tools/mcp-servers/src/servers/perplexity
-├── perplexity
-│   ├── __pycache__
-│   ├── index.ts
-│   └── tools
-│       ├── cookies.json
-│       └── search.ts
+perplexity
+├── __pycache__
+├── index.ts
+└── tools
+    ├── cookies.json
+    └── search.ts
 </file-tree>
 User request: typescript files
 `
@@ -81,20 +187,20 @@ User request: typescript files
   {
     role: 'assistant',
     content: `{"files": [
-      "/Users/users/Work/Tools/mcp-servers/src/servers/perplexity/index.ts",
-      "/Users/users/Work/Tools/mcp-servers/src/servers/perplexity/tools/search.ts"
+      {"path": "index.ts", "reason": "TypeScript entry point", "confidence": 1},
+      {"path": "tools/search.ts", "reason": "TypeScript search tool", "confidence": 1}
     ]}`
   },
   {
     role: 'user',
     content: `<file-tree>
-/Users/user/projects/go-project
+go-project
 ├── main.go
 ├── database
-│   ├── db.go
-│   └── migrations
-│       ├── 0001_init.sql
-│       └── 0002_add_users.sql
+│    ├── db.go
+│    └── migrations
+│         ├── 0001_init.sql
+│         └── 0002_add_users.sql
 └── utils
      └── helpers.go
 </file-tree>
@@ -104,15 +210,15 @@ User request: files related to database interactions
   {
     role: 'assistant',
     content: `{"files": [
-      "/Users/user/projects/go-project/database/db.go",
-      "/Users/user/projects/go-project/database/migrations/0001_init.sql",
-      "/Users/user/projects/go-project/database/migrations/0002_add_users.sql"
+      {"path": "database/db.go", "reason": "Database connection and queries", "confidence": 0.95},
+      {"path": "database/migrations/0001_init.sql", "reason": "Initial database schema", "confidence": 0.85},
+      {"path": "database/migrations/0002_add_users.sql", "reason": "Migration adding the users table", "confidence": 0.85}
     ]}`
   },
   {
     role: 'user',
     content: `<file-tree>
-/Users/user/projects/webapp
+webapp
 ├── frontend
 │    ├── src
 │    │    ├── components
@@ -133,13 +239,13 @@ User request: styling files
   {
     role: 'assistant',
     content: `{"files": [
-      "/Users/user/projects/webapp/frontend/src/styles/AuthForm.css"
+      {"path": "frontend/src/styles/AuthForm.css", "reason": "Only stylesheet of the project", "confidence": 0.95}
     ]}`
   },
   {
     role: 'user',
     content: `<file-tree>
-/Users/user/projects/python-project
+python-project
 ├── src
 │    ├── main.py
 │    └── utils.py
@@ -153,8 +259,8 @@ User request: test files
   {
     role: 'assistant',
     content: `{"files": [
-      "/Users/user/projects/python-project/tests/test_main.py",
-      "/Users/user/projects/python-project/tests/test_utils.py"
+      {"path": "tests/test_main.py", "reason": "Tests of main.py", "confidence": 1},
+      {"path": "tests/test_utils.py", "reason": "Tests of utils.py", "confidence": 1}
     ]}`
   }
 ]
@@ -0,0 +1,323 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { FileMetadata, formatFileTree } from '../filesystem/operations'
+import { estimateTokensHeuristic } from '../filesystem/tokens'
+import { completeSelection } from './completion'
+import { DIRECTORY_SELECTION_FORMAT, FILE_SELECTION_FORMAT } from './constants'
+import { PathObfuscation } from './paths'
+import { CompletionProvider, CompletionRequest } from './types'
+import { createDirectorySelectionMessages, createFileSelectionMessages } from './utils'
+
+/** Number of file names shown next to each directory of the collapsed tree */
+const SAMPLE_FILE_NAMES = 3
+
+/** Estimated tokens of the indentation and line break of a formatted tree entry */
+const TREE_LINE_OVERHEAD = 3
+
+/**
+ * How Smart Add sends the file tree to the model:
+ * - single: the whole tree in one request
+ * - hierarchical: directories first, then the files of the picked directories in chunks
+ * - auto: hierarchical when the tree doesn't fit in one chunk
+ */
+export type SmartAddMode = 'auto' | 'single' | 'hierarchical'
+
+/**
+ * Options for the hierarchical Smart Add selection
+ */
+export interface SmartAddOptions {
+  mode: SmartAddMode
+  /** Maximum estimated tokens of the tree sent in one request */
+  chunkTokens: number
+  /** Maximum number of requests sent at the same time */
+  maxConcurrentRequests: number
+  /** How directory names are shown to the model */
+  pathObfuscation: PathObfuscation
+  /** Minimum confidence of the selected files added without review */
+  autoAcceptConfidence: number
+}
+
+/**
+ * A directory of the collapsed tree with the files directly inside it
+ */
+export interface DirectorySummary {
+  /** Path relative to the tree root, '.' for the root itself */
+  path: string
+  files: FileMetadata[]
+}
+
+/**
+ * Get the Smart Add options from the workspace settings
+ */
+export function getSmartAddOptions(): SmartAddOptions {
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  return {
+    mode: config.get<SmartAddMode>('smartAddMode', 'auto'),
+    chunkTokens: Math.max(config.get<number>('smartAddChunkTokens', 8000), 500),
+    maxConcurrentRequests: Math.max(config.get<number>('smartAddConcurrentRequests', 4), 1),
+    pathObfuscation: config.get<PathObfuscation>('smartAddPathObfuscation', 'none'),
+    autoAcceptConfidence: Math.min(
+      Math.max(config.get<number>('smartAddAutoAcceptConfidence', 0.8), 0),
+      1
+    )
+  }
+}
+
+/**
+ * Estimate the tokens of a file tree once formatted, without formatting it
+ * @param fileTree The tree entries
+ */
+export function estimateTreeTokens(fileTree: FileMetadata[]): number {
+  return fileTree.reduce(
+    (total, entry) => total + estimateTokensHeuristic(entry.name) + TREE_LINE_OVERHEAD,
+    0
+  )
+}
+
+/**
+ * Check whether Smart Add should select directories first for a file tree
+ * @param fileTree The tree entries
+ * @param options The Smart Add options
+ */
+export function shouldUseHierarchicalSelection(
+  fileTree: FileMetadata[],
+  options: SmartAddOptions
+): boolean {
+  if (options.mode === 'auto') {
+    return estimateTreeTokens(fileTree) > options.chunkTokens
+  }
+  return options.mode === 'hierarchical'
+}
+
+/**
+ * Collapse a file tree to the directories directly containing files
+ * @param rootPath Absolute path of the tree root
+ * @param fileTree The tree entries
+ * @returns The directories sorted by path
+ */
+export function summarizeDirectories(
+  rootPath: string,
+  fileTree: FileMetadata[]
+): DirectorySummary[] {
+  const directories = new Map<string, FileMetadata[]>()
+  for (const entry of fileTree) {
+    if (entry.type !== 'file') {
+      continue
+    }
+    const directory = path.relative(rootPath, path.dirname(entry.path)) || '.'
+    const files = directories.get(directory) ?? []
+    files.push(entry)
+    directories.set(directory, files)
+  }
+
+  return [...directories.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([directory, files]) => ({ path: directory, files }))
+}
+
+/**
+ * Format a directory of the collapsed tree as one line, with its file count and a few file names
+ * @param directory The directory summary
+ */
+export function formatDirectorySummary(directory: DirectorySummary): string {
+  const names = directory.files.slice(0, SAMPLE_FILE_NAMES).map(file => file.name)
+  const more = directory.files.length > SAMPLE_FILE_NAMES ? ', ...' : ''
+  const count = `${directory.files.length} file${directory.files.length !== 1 ? 's' : ''}`
+  return `${directory.path} (${count}: ${names.join(', ')}${more})`
+}
+
+/**
+ * Split items into consecutive chunks whose estimated tokens stay within a budget.
+ * An item larger than the budget gets a chunk of its own.
+ * @param items The items to split
+ * @param getTokens Estimate the tokens of an item
+ * @param budget Maximum tokens per chunk
+ */
+export function chunkByTokens<T>(
+  items: T[],
+  getTokens: (item: T) => number,
+  budget: number
+): T[][] {
+  const chunks: T[][] = []
+  let chunk: T[] = []
+  let chunkTokens = 0
+
+  for (const item of items) {
+    const tokens = getTokens(item)
+    if (chunk.length > 0 && chunkTokens + tokens > budget) {
+      chunks.push(chunk)
+      chunk = []
+      chunkTokens = 0
+    }
+    chunk.push(item)
+    chunkTokens += tokens
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+/**
+ * Run a task for each item with at most `limit` tasks running at the same time
+ * @param items The items
+ * @param limit Maximum number of concurrent tasks
+ * @param task The task run for each item
+ * @returns The settled results, in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) }
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/**
+ * Send one request per chunk and merge the entries of the responses.
+ * Failed chunks are skipped, unless every chunk failed.
+ */
+async function selectInChunks<T>(
+  chunks: T[][],
+  options: SmartAddOptions,
+  createRequest: (chunk: T[]) => CompletionRequest,
+  llm: CompletionProvider,
+  responseKey: string,
+  token?: vscode.CancellationToken
+): Promise<unknown[]> {
+  const results = await mapWithConcurrency(chunks, options.maxConcurrentRequests, async chunk => {
+    if (token?.isCancellationRequested) {
+      return []
+    }
+    return completeSelection(llm, createRequest(chunk), responseKey)
+  })
+
+  const failures = results.filter(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  )
+  if (failures.length > 0 && failures.length === results.length) {
+    throw failures[0].reason
+  }
+  failures.forEach(failure =>
+    console.error('CODY++: Smart Add chunk failed:', failure.reason?.message ?? failure.reason)
+  )
+
+  const entries = results.flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+  return [...new Set(entries)]
+}
+
+/**
+ * Match the directories picked by the model to the collapsed tree
+ * @param rootPath Absolute path of the tree root
+ * @param directories The collapsed tree
+ * @param picked The directories returned by the model
+ */
+function findPickedDirectories(
+  rootPath: string,
+  directories: DirectorySummary[],
+  picked: unknown[]
+): DirectorySummary[] {
+  const pickedPaths = new Set(
+    picked
+      .filter((directory): directory is string => typeof directory === 'string')
+      .map(directory => {
+        // Accept absolute paths and trailing separators the model may add
+        const relativePath = path.isAbsolute(directory)
+          ? path.relative(rootPath, directory)
+          : directory
+        return path.normalize(relativePath).replace(/[\\/]+$/, '') || '.'
+      })
+  )
+  return directories.filter(directory => pickedPaths.has(directory.path))
+}
+
+/**
+ * Select files matching a request in a tree too large for one prompt. The model first
+ * picks directories from the collapsed tree, then files inside the picked directories.
+ * Both steps split their input into chunks within the token budget and send the chunks
+ * in parallel.
+ * @param llm The provider completing the requests
+ * @param userPrompt The user's description of the files
+ * @param rootPath Root of the tree as shown to the model
+ * @param fileTree The tree entries as shown to the model
+ * @param options The Smart Add options
+ * @param onProgress Called with a message when a step starts
+ * @param token Stops sending chunks once cancelled
+ * @returns The files returned by the model, with paths relative to the root
+ */
+export async function selectFilesHierarchically(
+  llm: CompletionProvider,
+  userPrompt: string,
+  rootPath: string,
+  fileTree: FileMetadata[],
+  options: SmartAddOptions,
+  onProgress?: (message: string) => void,
+  token?: vscode.CancellationToken
+): Promise<unknown[]> {
+  const directories = summarizeDirectories(rootPath, fileTree)
+  const directoryChunks = chunkByTokens(
+    directories.map(directory => formatDirectorySummary(directory)),
+    estimateTokensHeuristic,
+    options.chunkTokens
+  )
+
+  onProgress?.(
+    `Selecting among ${directories.length} directories in ${directoryChunks.length} requests...`
+  )
+  const pickedDirectories = findPickedDirectories(
+    rootPath,
+    directories,
+    await selectInChunks(
+      directoryChunks,
+      options,
+      lines => ({
+        messages: createDirectorySelectionMessages(userPrompt, lines.join('\n')),
+        config: { responseFormat: DIRECTORY_SELECTION_FORMAT }
+      }),
+      llm,
+      'directories',
+      token
+    )
+  )
+  if (pickedDirectories.length === 0 || token?.isCancellationRequested) {
+    return []
+  }
+
+  // Keep the files of a directory together, unless the directory alone exceeds the budget
+  const fileGroups = pickedDirectories.flatMap(directory =>
+    chunkByTokens(directory.files, file => estimateTreeTokens([file]), options.chunkTokens)
+  )
+  const fileChunks = chunkByTokens(fileGroups, estimateTreeTokens, options.chunkTokens).map(
+    groups => groups.flat()
+  )
+
+  onProgress?.(
+    `Selecting files in ${pickedDirectories.length} directories in ${fileChunks.length} requests...`
+  )
+  return selectInChunks(
+    fileChunks,
+    options,
+    files => ({
+      messages: createFileSelectionMessages(userPrompt, formatFileTree(rootPath, [...files])),
+      config: { responseFormat: FILE_SELECTION_FORMAT }
+    }),
+    llm,
+    'files',
+    token
+  )
+}
@@ -1,24 +1,40 @@
 import { SUPPORTED_PROVIDER_CODES } from './constants'
+import { AnthropicProvider } from './providers/anthropic'
+import { AzureOpenAIProvider } from './providers/azure-openai'
 import { GeminiProvider } from './providers/gemini'
+import { LocalRankingProvider } from './providers/local'
+import { OllamaProvider } from './providers/ollama'
 import { OpenAIProvider } from './providers/openai'
 import { OpenAICompatibleProvider } from './providers/openai-compatible'
 
-export { CompletionRequest, CompletionRequestMessage, CompletionResponse } from './types'
+import { LLMProvider } from './types'
+
+export {
+  CompletionRequest,
+  CompletionRequestMessage,
+  CompletionResponse,
+  LLMProvider
+} from './types'
 export { OpenAICompatibleProvider }
 
 /**
  * Optional configuration for creating a provider instance,
- * typically used for temporary credentials during setup.
+ * typically used for temporary credentials during setup or the settings of a profile.
  */
-interface ProviderOptions {
+export interface ProviderOptions {
   apiKey?: string
   baseUrl?: string
+  model?: string
+  /** Azure OpenAI resource, deployment and API version */
+  resource?: string
+  deployment?: string
+  apiVersion?: string
 }
 
 export const createProvider = (
   provider: SUPPORTED_PROVIDER_CODES,
   options?: ProviderOptions // Add optional options parameter
-): OpenAICompatibleProvider => {
+): LLMProvider => {
   switch (provider) {
     case 'openai-compatible':
       // Pass options to the constructor
@@ -29,6 +45,18 @@ export const createProvider = (
     case 'gemini':
       // Pass options to the constructor
       return new GeminiProvider(options)
+    case 'azure-openai':
+      // Pass options to the constructor, the resource and deployment come from the settings
+      return new AzureOpenAIProvider(options)
+    case 'anthropic':
+      // Pass options to the constructor
+      return new AnthropicProvider(options)
+    case 'ollama':
+      // Pass options to the constructor, no API key is needed
+      return new OllamaProvider(options)
+    case 'local':
+      // Ranks files in-process, without API key or endpoint
+      return new LocalRankingProvider()
     default:
       throw new Error(`Unsupported provider: ${provider}`)
   }
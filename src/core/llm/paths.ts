@@ -0,0 +1,140 @@
+import { createHash, randomBytes } from 'crypto'
+import * as path from 'path'
+import { FileMetadata } from '../filesystem/operations'
+
+/** Number of hex characters of a hashed directory name */
+const HASH_LENGTH = 8
+
+/**
+ * How directory names are shown to the model:
+ * - none: the real names
+ * - hash: salted hashes of the names, for repositories whose layout is sensitive
+ */
+export type PathObfuscation = 'none' | 'hash'
+
+/**
+ * A file tree as shown to the model. Paths in prompts and responses are relative to
+ * the tree root, which is the first line of the formatted tree.
+ */
+export interface PromptFileTree {
+  /** Root of the tree as shown to the model */
+  rootPath: string
+  /** Tree entries with the paths and names shown to the model */
+  fileTree: FileMetadata[]
+  /**
+   * Resolve a path returned by the model to an absolute path of the workspace
+   * @param promptPath A path relative to the tree root, as shown to the model
+   */
+  toWorkspacePath(promptPath: string): string
+  /**
+   * Show a file of the tree as the model sees it
+   * @param workspacePath An absolute path inside the tree root
+   * @returns The path relative to the tree root, with / as separator
+   */
+  toPromptPath(workspacePath: string): string
+}
+
+/**
+ * Split a path on both separators, dropping empty and `.` segments
+ */
+function splitPath(filePath: string): string[] {
+  return filePath.split(/[\\/]+/).filter(segment => segment && segment !== '.')
+}
+
+/**
+ * Create the file tree shown to the model for a scanned tree, with directory names
+ * obfuscated when requested. File names are kept so the model can still pick files.
+ * @param rootPath Absolute path of the scanned root
+ * @param fileTree The scanned tree entries
+ * @param obfuscation How directory names are shown
+ */
+export function createPromptFileTree(
+  rootPath: string,
+  fileTree: FileMetadata[],
+  obfuscation: PathObfuscation = 'none'
+): PromptFileTree {
+  // A fresh salt per tree keeps common names like "src" from being recognizable
+  const salt = randomBytes(8).toString('hex')
+  const hashName = (name: string) =>
+    createHash('sha256')
+      .update(salt + name)
+      .digest('hex')
+      .slice(0, HASH_LENGTH)
+  const maskName = obfuscation === 'hash' ? hashName : (name: string) => name
+
+  /** Shown relative directory paths keyed by their real relative path, and back */
+  const shownDirectories = new Map<string, string>([['', '']])
+  const realDirectories = new Map<string, string>([['', '']])
+  const showDirectory = (relativeDirectory: string): string => {
+    const shown = shownDirectories.get(relativeDirectory)
+    if (shown !== undefined) {
+      return shown
+    }
+    const parent = showDirectory(path.dirname(relativeDirectory).replace(/^\.$/, ''))
+    let candidate = path.join(parent, maskName(path.basename(relativeDirectory)))
+    // Distinct names hashing alike get a suffix so they can be told apart
+    for (let suffix = 2; realDirectories.has(candidate); suffix++) {
+      candidate = path.join(parent, `${maskName(path.basename(relativeDirectory))}_${suffix}`)
+    }
+    shownDirectories.set(relativeDirectory, candidate)
+    realDirectories.set(candidate, relativeDirectory)
+    return candidate
+  }
+
+  const shownRootPath =
+    obfuscation === 'hash'
+      ? path.join(path.parse(rootPath).root, hashName(path.basename(rootPath)))
+      : rootPath
+  const shownFileTree = fileTree.map(entry => {
+    const relativePath = path.relative(rootPath, entry.path)
+    const shownPath =
+      entry.type === 'directory'
+        ? showDirectory(relativePath)
+        : path.join(
+            showDirectory(path.dirname(relativePath).replace(/^\.$/, '')),
+            path.basename(relativePath)
+          )
+    return {
+      path: path.join(shownRootPath, shownPath),
+      type: entry.type,
+      name: path.basename(shownPath)
+    }
+  })
+
+  const toWorkspacePath = (promptPath: string): string => {
+    if (path.isAbsolute(promptPath) && !promptPath.startsWith(shownRootPath)) {
+      return promptPath
+    }
+
+    const segments = splitPath(
+      path.isAbsolute(promptPath) ? path.relative(shownRootPath, promptPath) : promptPath
+    )
+    // Models often prefix the root line of the tree
+    const rootName = path.basename(shownRootPath)
+    if (segments.length > 1 && segments[0] === rootName && !realDirectories.has(rootName)) {
+      segments.shift()
+    }
+
+    // Map the longest shown directory prefix back, keeping the rest as returned
+    let realDirectory = ''
+    let index = 0
+    for (let shown = ''; index < segments.length - 1; index++) {
+      shown = path.join(shown, segments[index])
+      const real = realDirectories.get(shown)
+      if (real === undefined) {
+        break
+      }
+      realDirectory = real
+    }
+    return path.join(rootPath, realDirectory, ...segments.slice(index))
+  }
+
+  const toPromptPath = (workspacePath: string): string => {
+    const relativePath = path.relative(rootPath, workspacePath)
+    const relativeDirectory = path.dirname(relativePath).replace(/^\.$/, '')
+    const shownDirectory = shownDirectories.get(relativeDirectory) ?? relativeDirectory
+    return splitPath(path.join(shownDirectory, path.basename(relativePath))).join('/')
+  }
+
+  return { rootPath: shownRootPath, fileTree: shownFileTree, toWorkspacePath, toPromptPath }
+}
@@ -0,0 +1,216 @@
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, ERROR_MESSAGES, SUPPORTED_PROVIDERS } from '../../constants'
+import { getApiKey } from '../../secrets'
+import {
+  CompletionRequest,
+  CompletionRequestMessage,
+  CompletionResponse,
+  LLMProvider,
+  ResponseFormat
+} from '../../types'
+import {
+  AnthropicMessage,
+  AnthropicMessagesResponse,
+  AnthropicModelsResponse,
+  AnthropicTool
+} from './types'
+
+/** Version of the Messages API the requests are written for */
+const ANTHROPIC_VERSION = '2023-06-01'
+
+interface ProviderOptions {
+  apiKey?: string
+  baseUrl?: string // Overrides the Anthropic endpoint, e.g. for a proxy or a mock server
+  model?: string
+}
+
+/**
+ * LLM provider implementation for the Anthropic Messages API.
+ * Unlike the other providers it doesn't go through an OpenAI-compatible layer: the system
+ * prompt is sent in its own field, requests are authenticated with `x-api-key` and the
+ * response is a list of content blocks. Structured outputs are obtained by forcing a call
+ * to a tool whose input schema is the requested JSON schema.
+ * Reference: https://docs.anthropic.com/en/api/messages
+ */
+export class AnthropicProvider implements LLMProvider {
+  private readonly apiKey?: string
+  private readonly baseUrl: string
+  private readonly model: string
+  private readonly messagesPath: string
+  private readonly modelsPath: string
+
+  constructor(options?: ProviderOptions) {
+    const config = vscode.workspace.getConfiguration('codyPlusPlus')
+
+    const anthropicDetails = SUPPORTED_PROVIDERS.find(p => p.code === 'anthropic')
+    if (!anthropicDetails) {
+      // This should theoretically never happen
+      throw new Error('Cody++: Anthropic provider details not found in constants.')
+    }
+
+    // The key stored for Anthropic is read when requesting, unless one is passed here
+    this.apiKey = options?.apiKey
+    // Prioritize options.baseUrl, then the anthropicBaseUrl setting, then the Anthropic API
+    this.baseUrl = (
+      options?.baseUrl ||
+      config.get<string>(CONFIG_KEYS.ANTHROPIC_BASE_URL) ||
+      anthropicDetails.baseURL
+    ).replace(/\/$/, '')
+    this.model =
+      options?.model ?? config.get<string>(CONFIG_KEYS.MODEL) ?? anthropicDetails.defaultModel
+    this.messagesPath = anthropicDetails.chatCompletionPath
+    this.modelsPath = anthropicDetails.modelsPath
+  }
+
+  /**
+   * Get the API key of the requests, given in the options or stored for Anthropic
+   */
+  private async resolveApiKey(): Promise<string | undefined> {
+    return this.apiKey ?? (await getApiKey('anthropic'))
+  }
+
+  private getHeaders(apiKey: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION
+    }
+  }
+
+  /**
+   * Map a requested JSON schema to a tool the model is forced to call, its input being the
+   * structured response. Other formats are left to the prompt.
+   * @param responseFormat The requested format
+   */
+  private getResponseTool(responseFormat?: ResponseFormat): AnthropicTool | undefined {
+    if (responseFormat?.type !== 'json' || !responseFormat.schema) {
+      return undefined
+    }
+    return {
+      name: responseFormat.name ?? 'response',
+      description: 'Respond with the requested JSON object.',
+      input_schema: responseFormat.schema
+    }
+  }
+
+  /**
+   * Split the system prompts from the conversation and merge consecutive messages of the
+   * same role, as the Messages API expects alternating user and assistant turns
+   */
+  private toAnthropicMessages(messages: CompletionRequestMessage[]): {
+    system: string
+    messages: AnthropicMessage[]
+  } {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content.trim())
+      .join('\n\n')
+
+    const conversation: AnthropicMessage[] = []
+    for (const message of messages) {
+      if (message.role === 'system') {
+        continue
+      }
+      const previous = conversation[conversation.length - 1]
+      if (previous?.role === message.role) {
+        previous.content = `${previous.content}\n\n${message.content}`
+      } else {
+        conversation.push({ role: message.role, content: message.content })
+      }
+    }
+    return { system, messages: conversation }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const apiKey = await this.resolveApiKey()
+    if (!apiKey) {
+      throw new Error(ERROR_MESSAGES.NOT_AUTHENTICATED)
+    }
+
+    const { system, messages } = this.toAnthropicMessages(request.messages)
+    const tool = this.getResponseTool(request.config?.responseFormat)
+
+    try {
+      const response = await fetch(`${this.baseUrl}${this.messagesPath}`, {
+        method: 'POST',
+        headers: this.getHeaders(apiKey),
+        body: JSON.stringify({
+          model: this.model,
+          system: system || undefined,
+          messages,
+          max_tokens: request.config?.maxTokens || 4000,
+          temperature: request.config?.temperature || 0,
+          tools: tool ? [tool] : undefined,
+          tool_choice: tool ? { type: 'tool', name: tool.name } : undefined
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.text()
+        console.error('CODY++: Anthropic provider error', error)
+        throw new Error(`${ERROR_MESSAGES.NETWORK_ERROR} ${error}`)
+      }
+
+      const data = (await response.json()) as AnthropicMessagesResponse
+      if (!Array.isArray(data?.content)) {
+        throw new Error(ERROR_MESSAGES.INVALID_RESPONSE)
+      }
+
+      // The forced tool call holds the structured response
+      const toolUse = tool
+        ? data.content.find(block => block.type === 'tool_use' && block.name === tool.name)
+        : undefined
+      if (toolUse?.type === 'tool_use') {
+        return { text: JSON.stringify(toolUse.input) }
+      }
+
+      return {
+        text: data.content
+          .map(block => (block.type === 'text' ? block.text : ''))
+          .join('')
+          .trim()
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error(ERROR_MESSAGES.UNKNOWN_ERROR)
+    }
+  }
+
+  async fetchModels(): Promise<string[]> {
+    const apiKey = await this.resolveApiKey()
+    if (!apiKey) {
+      console.warn('CODY++: Cannot fetch models without an API key.')
+      return []
+    }
+
+    try {
+      const models: string[] = []
+      let afterId: string | null = null
+      // The models are listed by pages
+      do {
+        const query: string = afterId
+          ? `?limit=1000&after_id=${encodeURIComponent(afterId)}`
+          : '?limit=1000'
+        const response = await fetch(`${this.baseUrl}${this.modelsPath}${query}`, {
+          headers: this.getHeaders(apiKey)
+        })
+
+        if (!response.ok) {
+          throw new Error(`${ERROR_MESSAGES.NETWORK_ERROR} ${response.statusText}`)
+        }
+
+        const data = (await response.json()) as AnthropicModelsResponse
+        models.push(...(Array.isArray(data?.data) ? data.data.map(model => model.id) : []))
+        afterId = data?.has_more ? data.last_id : null
+      } while (afterId)
+
+      console.log(`Available models: ${JSON.stringify(models)}`)
+      return models
+    } catch (error) {
+      console.error('Error fetching models:', error)
+      return []
+    }
+  }
+}
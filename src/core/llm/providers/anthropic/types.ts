@@ -0,0 +1,33 @@
+export interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface AnthropicTool {
+  name: string
+  description: string
+  input_schema: object
+}
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+
+export interface AnthropicMessagesResponse {
+  id: string
+  type: 'message'
+  role: 'assistant'
+  model: string
+  content: AnthropicContentBlock[]
+  stop_reason: string | null
+  usage: {
+    input_tokens: number
+    output_tokens: number
+  }
+}
+
+export interface AnthropicModelsResponse {
+  data: Array<{ id: string; display_name: string }>
+  has_more: boolean
+  last_id: string | null
+}
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, DEFAULT_AZURE_OPENAI_API_VERSION, SUPPORTED_PROVIDERS } from '../../constants'
+import { OpenAICompatibleProvider } from '../openai-compatible'
+
+interface ProviderOptions {
+  apiKey?: string
+  baseUrl?: string // Included for consistency, but will be ignored
+  model?: string // The deployment when none is given, as saved by profiles
+  resource?: string
+  deployment?: string
+  apiVersion?: string
+}
+
+/**
+ * LLM provider implementation for Azure OpenAI.
+ * Requests and responses have the OpenAI shape, but the URLs are built from the resource
+ * and the deployment, carry the API version as a query parameter, and are authenticated
+ * with the `api-key` header instead of a bearer token.
+ * Reference: https://learn.microsoft.com/azure/ai-services/openai/reference
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  private readonly deployment: string
+  private readonly apiVersion: string
+
+  constructor(options?: ProviderOptions) {
+    // Pass options to parent, but we will override specific properties.
+    super(options, 'azure-openai')
+
+    const config = vscode.workspace.getConfiguration('codyPlusPlus')
+
+    const azureDetails = SUPPORTED_PROVIDERS.find(p => p.code === 'azure-openai')
+    if (!azureDetails) {
+      // This should theoretically never happen
+      throw new Error('Cody++: Azure OpenAI provider details not found in constants.')
+    }
+
+    // The resource is either its name or its full endpoint, e.g. behind a custom domain
+    const resource = (
+      options?.resource ??
+      config.get<string>(CONFIG_KEYS.AZURE_OPENAI_RESOURCE) ??
+      ''
+    ).trim()
+    this.baseUrl = resource.includes('://')
+      ? resource.replace(/\/$/, '')
+      : azureDetails.baseURL.replace('{resource}', resource)
+
+    // The deployment picks the model, the model of the requests is ignored by Azure.
+    // A profile saved without a deployment uses its model before the settings
+    this.deployment =
+      options?.deployment ||
+      options?.model ||
+      config.get<string>(CONFIG_KEYS.AZURE_OPENAI_DEPLOYMENT) ||
+      config.get<string>(CONFIG_KEYS.MODEL) ||
+      azureDetails.defaultModel
+    this.model = this.deployment
+    this.apiVersion =
+      options?.apiVersion ||
+      config.get<string>(CONFIG_KEYS.AZURE_OPENAI_API_VERSION) ||
+      DEFAULT_AZURE_OPENAI_API_VERSION
+
+    this.chatCompletionPath = azureDetails.chatCompletionPath.replace(
+      '{deployment}',
+      encodeURIComponent(this.deployment)
+    )
+    this.modelsPath = azureDetails.modelsPath
+    this.supportsJsonSchema = azureDetails.supportsJsonSchema
+
+    if (!resource) {
+      console.warn(
+        'Cody++: AzureOpenAIProvider initialized without a resource. Please configure codyPlusPlus.azureOpenAIResource.'
+      )
+    }
+  }
+
+  protected getAuthHeaders(apiKey: string): Record<string, string> {
+    return { 'api-key': apiKey }
+  }
+
+  protected getChatCompletionUrl(): string {
+    return `${super.getChatCompletionUrl()}?api-version=${encodeURIComponent(this.apiVersion)}`
+  }
+
+  /**
+   * Deployments can't be listed with an API key, only through the Azure management API,
+   * so the deployment name is entered instead of picked
+   */
+  async fetchModels(): Promise<string[]> {
+    return []
+  }
+}
@@ -0,0 +1,129 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { isBinaryContent } from '../../../filesystem/inspection'
+import { FileMetadata } from '../../../filesystem/operations'
+import { SUPPORTED_PROVIDERS } from '../../constants'
+import { mapWithConcurrency } from '../../hierarchical'
+import { FileSelection } from '../../selection'
+import {
+  CompletionRequest,
+  CompletionResponse,
+  FileSelectionRequest,
+  LLMProvider
+} from '../../types'
+import { RankingCandidate, rankFiles } from './ranking'
+
+/** Largest file whose content is indexed, larger files are ranked by their path only */
+const MAX_INDEXED_FILE_SIZE = 256 * 1024
+
+/** Maximum number of files whose content is indexed, the others are ranked by their path only */
+const MAX_INDEXED_FILES = 2000
+
+/** Number of files read at the same time */
+const READ_CONCURRENCY = 16
+
+/** Extensions of files that are binary, ranked by their path without reading them */
+const BINARY_EXTENSIONS = new Set([
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.ico',
+  '.bmp',
+  '.pdf',
+  '.zip',
+  '.gz',
+  '.tgz',
+  '.jar',
+  '.woff',
+  '.woff2',
+  '.ttf',
+  '.otf',
+  '.mp3',
+  '.mp4',
+  '.mov',
+  '.wasm',
+  '.exe',
+  '.dll',
+  '.so',
+  '.dylib'
+])
+
+/**
+ * Smart Add provider ranking files in-process, for projects that can't send their file
+ * tree to an external API. Instead of completing the Smart Add prompt, it gets the scanned
+ * tree and the user's request, scores the files with path tokens, identifier matching and
+ * BM25 over their contents, and returns the best files.
+ */
+export class LocalRankingProvider implements LLMProvider {
+  private readonly maxFiles: number
+
+  constructor() {
+    this.maxFiles = Math.max(
+      vscode.workspace.getConfiguration('codyPlusPlus').get<number>('smartAddLocalMaxFiles', 20),
+      1
+    )
+  }
+
+  /**
+   * The local ranking has no model to complete prompts with, Smart Add calls `selectFiles`
+   */
+  async complete(_request: CompletionRequest): Promise<CompletionResponse> {
+    throw new Error('The local ranking only selects files for Smart Add.')
+  }
+
+  async selectFiles({ query, rootPath, fileTree }: FileSelectionRequest): Promise<FileSelection[]> {
+    // Files are ranked by their path relative to the root, so the root's own name doesn't match
+    const files = fileTree.filter(entry => entry.type === 'file')
+    const filesByPath = new Map(
+      files.map(file => [path.relative(rootPath, file.path).split(path.sep).join('/'), file])
+    )
+
+    const candidates = await this.readCandidates([...filesByPath.entries()])
+    return rankFiles(query, candidates, this.maxFiles).map(file => ({
+      path: filesByPath.get(file.path)!.path,
+      reason: file.reason,
+      confidence: Math.round(file.score * 100) / 100
+    }))
+  }
+
+  /**
+   * The local ranking has a single model
+   */
+  async fetchModels(): Promise<string[]> {
+    return [SUPPORTED_PROVIDERS.find(provider => provider.code === 'local')!.defaultModel]
+  }
+
+  /**
+   * Read the text content of the files. Files that can't be read, binary files, large
+   * files and the files past the indexed count are ranked without content.
+   * @param files The files keyed by their path relative to the root
+   */
+  private async readCandidates(files: Array<[string, FileMetadata]>): Promise<RankingCandidate[]> {
+    const indexedFiles = files
+      .filter(([, file]) => !BINARY_EXTENSIONS.has(path.extname(file.name).toLowerCase()))
+      .slice(0, MAX_INDEXED_FILES)
+    const results = await mapWithConcurrency(indexedFiles, READ_CONCURRENCY, async ([, file]) => {
+      const uri = vscode.Uri.file(file.path)
+      // Large files are left out before they are read
+      if ((await vscode.workspace.fs.stat(uri)).size > MAX_INDEXED_FILE_SIZE) {
+        return undefined
+      }
+      const content = await vscode.workspace.fs.readFile(uri)
+      return isBinaryContent(content) ? undefined : Buffer.from(content).toString('utf8')
+    })
+
+    const contents = new Map<string, string>()
+    indexedFiles.forEach(([relativePath], index) => {
+      const result = results[index]
+      if (result.status === 'fulfilled' && result.value !== undefined) {
+        contents.set(relativePath, result.value)
+      }
+    })
+    return files.map(([relativePath]) => ({
+      path: relativePath,
+      content: contents.get(relativePath)
+    }))
+  }
+}
@@ -0,0 +1,279 @@
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2
+
+/** BM25 document length normalization */
+const BM25_B = 0.75
+
+/** Minimum length of two tokens matching by prefix, e.g. "auth" and "authentication" */
+const MIN_PREFIX_MATCH_LENGTH = 4
+
+/** Weight of a query token found in a directory name, relative to the file name */
+const DIRECTORY_MATCH_WEIGHT = 0.6
+
+/** Minimum score of a ranked file, below it the file is considered unrelated */
+const MIN_SCORE = 0.1
+
+/** Minimum score of a ranked file relative to the best file */
+const MIN_RELATIVE_SCORE = 0.4
+
+/** Words of requests and code that don't describe what a file is about */
+const STOP_WORDS = new Set([
+  'a',
+  'about',
+  'add',
+  'all',
+  'also',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'code',
+  'file',
+  'for',
+  'from',
+  'in',
+  'include',
+  'is',
+  'it',
+  'me',
+  'of',
+  'on',
+  'or',
+  'related',
+  'that',
+  'the',
+  'their',
+  'this',
+  'to',
+  'with'
+])
+
+/**
+ * A file ranked against a request
+ */
+export interface RankedFile {
+  /** Path of the file relative to the tree root, with / as separator */
+  path: string
+  /** Combined score between 0 and 1 */
+  score: number
+  /** Why the file matches, listing the matched terms */
+  reason: string
+}
+
+/**
+ * A file to rank, with its content when it could be read
+ */
+export interface RankingCandidate {
+  /** Path of the file relative to the tree root, with / as separator */
+  path: string
+  content?: string
+}
+
+/**
+ * Reduce a token to a common form so plurals match, e.g. "services" and "service"
+ */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1)
+  }
+  return token
+}
+
+/**
+ * Split text into lowercase search tokens, breaking identifiers on camelCase, snake_case,
+ * kebab-case, dots and path separators. Stop words and single characters are dropped.
+ * @param text A request, a path or the content of a file
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem)
+}
+
+/**
+ * Find the identifiers of a request, words written like code such as `fetchModels`,
+ * `user_id` or `UserService`, which are looked up as-is in the file contents
+ * @param query The request
+ */
+export function findIdentifiers(query: string): string[] {
+  const words = query.match(/[A-Za-z_$][\w$]*/g) ?? []
+  return [...new Set(words.filter(word => word.length > 2 && /[a-z][A-Z]|_/.test(word)))]
+}
+
+/**
+ * Check whether two tokens match, exactly or when one is a long enough prefix of the other
+ */
+function tokensMatch(queryToken: string, pathToken: string): boolean {
+  if (queryToken === pathToken) {
+    return true
+  }
+  if (Math.min(queryToken.length, pathToken.length) < MIN_PREFIX_MATCH_LENGTH) {
+    return false
+  }
+  return pathToken.startsWith(queryToken) || queryToken.startsWith(pathToken)
+}
+
+/**
+ * Score the path of a file against the query tokens. Tokens found in the file name
+ * count fully, tokens found in a directory name count less.
+ * @returns The score between 0 and 1, and the matched query tokens
+ */
+function scorePath(queryTokens: string[], filePath: string): { score: number; matched: string[] } {
+  const segments = filePath.split('/')
+  const nameTokens = tokenize(segments[segments.length - 1])
+  const directoryTokens = tokenize(segments.slice(0, -1).join('/'))
+
+  let total = 0
+  const matched: string[] = []
+  for (const queryToken of queryTokens) {
+    const weight = nameTokens.some(token => tokensMatch(queryToken, token))
+      ? 1
+      : directoryTokens.some(token => tokensMatch(queryToken, token))
+        ? DIRECTORY_MATCH_WEIGHT
+        : 0
+    if (weight > 0) {
+      total += weight
+      matched.push(queryToken)
+    }
+  }
+  return { score: queryTokens.length > 0 ? total / queryTokens.length : 0, matched }
+}
+
+/**
+ * Score the contents of the files against the query tokens with BM25
+ * @returns The scores normalized between 0 and 1, and the query tokens found in each file
+ */
+function scoreContents(
+  queryTokens: string[],
+  candidates: RankingCandidate[]
+): { scores: number[]; matched: string[][] } {
+  const queryTerms = new Set(queryTokens)
+  const documents = candidates.map(candidate => {
+    const frequencies = new Map<string, number>()
+    const tokens = candidate.content ? tokenize(candidate.content) : []
+    for (const token of tokens) {
+      if (queryTerms.has(token)) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1)
+      }
+    }
+    return { length: tokens.length, frequencies }
+  })
+
+  const indexed = documents.filter(document => document.length > 0)
+  if (indexed.length === 0) {
+    return { scores: candidates.map(() => 0), matched: candidates.map(() => []) }
+  }
+  const averageLength =
+    indexed.reduce((total, document) => total + document.length, 0) / indexed.length
+
+  const inverseFrequencies = new Map<string, number>()
+  for (const term of queryTerms) {
+    const documentFrequency = indexed.filter(document => document.frequencies.has(term)).length
+    inverseFrequencies.set(
+      term,
+      Math.log(1 + (indexed.length - documentFrequency + 0.5) / (documentFrequency + 0.5))
+    )
+  }
+
+  const scores = documents.map(document => {
+    let score = 0
+    for (const [term, frequency] of document.frequencies) {
+      const normalization = BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength)
+      score +=
+        (inverseFrequencies.get(term) ?? 0) *
+        ((frequency * (BM25_K1 + 1)) / (frequency + normalization))
+    }
+    return score
+  })
+
+  const bestScore = scores.reduce((best, score) => Math.max(best, score), 0)
+  return {
+    scores: scores.map(score => (bestScore > 0 ? score / bestScore : 0)),
+    matched: documents.map(document => [...document.frequencies.keys()])
+  }
+}
+
+/**
+ * Describe why a file matches from the terms found in its path, content and identifiers
+ */
+function formatReason(
+  pathMatches: string[],
+  contentMatches: string[],
+  identifierMatches: string[]
+): string {
+  const quote = (terms: string[]) => terms.map(term => `"${term}"`).join(', ')
+  const parts: string[] = []
+  if (pathMatches.length > 0) {
+    parts.push(`path matches ${quote(pathMatches)}`)
+  }
+  if (identifierMatches.length > 0) {
+    parts.push(`uses ${identifierMatches.join(', ')}`)
+  }
+  const contentOnly = contentMatches.filter(term => !pathMatches.includes(term))
+  if (contentOnly.length > 0) {
+    parts.push(`content mentions ${quote(contentOnly)}`)
+  }
+  const reason = parts.join('; ')
+  return reason.charAt(0).toUpperCase() + reason.slice(1)
+}
+
+/**
+ * Rank files against a request, combining path tokens, identifiers of the request found
+ * in the contents and a BM25 index of the contents, all computed in-process
+ * @param query The request describing the files
+ * @param candidates The files to rank, with their contents when they could be read
+ * @param maxFiles Maximum number of files returned
+ * @returns The matching files, the best first
+ */
+export function rankFiles(
+  query: string,
+  candidates: RankingCandidate[],
+  maxFiles: number
+): RankedFile[] {
+  const queryTokens = [...new Set(tokenize(query))]
+  const identifiers = findIdentifiers(query)
+  if (queryTokens.length === 0 || candidates.length === 0) {
+    return []
+  }
+
+  const contents = scoreContents(queryTokens, candidates)
+  const ranked = candidates.map((candidate, index) => {
+    const pathScore = scorePath(queryTokens, candidate.path)
+    const identifierMatches = identifiers.filter(identifier =>
+      new RegExp(`(^|[^\\w$])${identifier.replace(/\$/g, '\\$')}($|[^\\w$])`).test(
+        candidate.content ?? ''
+      )
+    )
+
+    // Identifiers weigh in only when the request names some
+    const score =
+      identifiers.length > 0
+        ? 0.5 * pathScore.score +
+          0.35 * contents.scores[index] +
+          0.15 * (identifierMatches.length / identifiers.length)
+        : 0.55 * pathScore.score + 0.45 * contents.scores[index]
+
+    return {
+      path: candidate.path,
+      score,
+      reason: formatReason(pathScore.matched, contents.matched[index], identifierMatches)
+    }
+  })
+
+  const bestScore = ranked.reduce((best, file) => Math.max(best, file.score), 0)
+  return ranked
+    .filter(file => file.score >= MIN_SCORE && file.score >= bestScore * MIN_RELATIVE_SCORE)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, maxFiles)
+}
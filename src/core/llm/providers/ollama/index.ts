@@ -0,0 +1,115 @@
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, ERROR_MESSAGES, SUPPORTED_PROVIDERS } from '../../constants'
+import { CompletionRequest, CompletionResponse, LLMProvider } from '../../types'
+import { OllamaChatResponse, OllamaTagsResponse } from './types'
+
+interface ProviderOptions {
+  apiKey?: string // Ignored, Ollama doesn't authenticate requests
+  baseUrl?: string
+  model?: string
+}
+
+/**
+ * LLM provider implementation for a local Ollama server, using its native chat API.
+ * No API key is needed. Models are discovered from the models pulled on the server, JSON
+ * responses are requested with `format: json`, and the keep-alive and context length of
+ * the model are configurable.
+ * Reference: https://github.com/ollama/ollama/blob/main/docs/api.md
+ */
+export class OllamaProvider implements LLMProvider {
+  private readonly baseUrl: string
+  private readonly model: string
+  private readonly chatPath: string
+  private readonly tagsPath: string
+  private readonly keepAlive?: string | number
+  private readonly contextLength: number
+
+  constructor(options?: ProviderOptions) {
+    const config = vscode.workspace.getConfiguration('codyPlusPlus')
+
+    const ollamaDetails = SUPPORTED_PROVIDERS.find(p => p.code === 'ollama')
+    if (!ollamaDetails) {
+      // This should theoretically never happen
+      throw new Error('Cody++: Ollama provider details not found in constants.')
+    }
+
+    // Prioritize options.baseUrl, then the ollamaBaseUrl setting, then the default server
+    this.baseUrl = (
+      options?.baseUrl ||
+      config.get<string>(CONFIG_KEYS.OLLAMA_BASE_URL) ||
+      ollamaDetails.baseURL
+    ).replace(/\/$/, '')
+    this.model =
+      options?.model ?? config.get<string>(CONFIG_KEYS.MODEL) ?? ollamaDetails.defaultModel
+    this.chatPath = ollamaDetails.chatCompletionPath
+    this.tagsPath = ollamaDetails.modelsPath
+
+    // Durations are sent as strings ("10m"), plain numbers of seconds as numbers ("-1")
+    const keepAlive = config.get<string>(CONFIG_KEYS.OLLAMA_KEEP_ALIVE)?.trim()
+    this.keepAlive =
+      keepAlive && /^-?\d+$/.test(keepAlive) ? Number(keepAlive) : keepAlive || undefined
+    this.contextLength = config.get<number>(CONFIG_KEYS.OLLAMA_CONTEXT_LENGTH, 0)
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}${this.chatPath}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          stream: false,
+          format: request.config?.responseFormat?.type === 'text' ? undefined : 'json',
+          keep_alive: this.keepAlive,
+          options: {
+            temperature: request.config?.temperature || 0,
+            num_predict: request.config?.maxTokens || 4000,
+            // 0 keeps the context length of the model
+            num_ctx: this.contextLength > 0 ? this.contextLength : undefined
+          }
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.text()
+        console.error('CODY++: Ollama provider error', error)
+        throw new Error(`${ERROR_MESSAGES.NETWORK_ERROR} ${error}`)
+      }
+
+      const data = (await response.json()) as OllamaChatResponse
+      if (typeof data?.message?.content !== 'string') {
+        throw new Error(ERROR_MESSAGES.INVALID_RESPONSE)
+      }
+      return {
+        text: data.message.content.trim()
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error
+      }
+      throw new Error(ERROR_MESSAGES.UNKNOWN_ERROR)
+    }
+  }
+
+  /**
+   * List the models pulled on the Ollama server
+   */
+  async fetchModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}${this.tagsPath}`)
+
+      if (!response.ok) {
+        throw new Error(`${ERROR_MESSAGES.NETWORK_ERROR} ${response.statusText}`)
+      }
+
+      const data = (await response.json()) as OllamaTagsResponse
+      const models = Array.isArray(data?.models) ? data.models.map(model => model.name) : []
+      console.log(`Available models: ${JSON.stringify(models)}`)
+      return models
+    } catch (error) {
+      console.error('Error fetching models:', error)
+      return []
+    }
+  }
+}
@@ -0,0 +1,13 @@
+export interface OllamaChatResponse {
+  model: string
+  created_at: string
+  message: {
+    role: string
+    content: string
+  }
+  done: boolean
+}
+
+export interface OllamaTagsResponse {
+  models: Array<{ name: string; model: string; size: number }>
+}
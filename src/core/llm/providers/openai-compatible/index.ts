@@ -5,7 +5,8 @@ import {
   SUPPORTED_PROVIDER_CODES,
   SUPPORTED_PROVIDERS
 } from '../../constants'
-import { CompletionRequest, CompletionResponse } from '../../types'
+import { getApiKey } from '../../secrets'
+import { CompletionRequest, CompletionResponse, ResponseFormat } from '../../types'
 import { OpenAICompletionResponse, OpenAIModelsResponse } from './types'
 
 // Re-define or import the options interface
@@ -16,27 +17,36 @@ interface ProviderOptions {
 }
 
 export class OpenAICompatibleProvider {
+  protected providerCode: SUPPORTED_PROVIDER_CODES
   protected apiKey?: string
   protected baseUrl: string
   protected model: string
   protected chatCompletionPath: string
   protected modelsPath: string
+  protected supportsJsonSchema: boolean
   private readonly headers = { 'Content-Type': 'application/json' }
 
-  constructor(options?: ProviderOptions) {
+  /**
+   * @param options Credentials, endpoint and model overriding the settings
+   * @param providerCode The provider the paths and capabilities are looked up for, passed by
+   * the subclasses rather than read from the settings, which may name another provider when
+   * a profile is active
+   */
+  constructor(
+    options?: ProviderOptions,
+    providerCode: SUPPORTED_PROVIDER_CODES = 'openai-compatible'
+  ) {
     const config = vscode.workspace.getConfiguration('codyPlusPlus')
-    const configuredProviderCode = config.get<SUPPORTED_PROVIDER_CODES>(
-      CONFIG_KEYS.PROVIDER,
-      'openai-compatible' // Default to openai-compatible if not set
-    )
 
-    // Find the details for the configured provider or default to openai-compatible
-    const providerDetails =
-      SUPPORTED_PROVIDERS.find(provider => provider.code === configuredProviderCode) ??
-      SUPPORTED_PROVIDERS.find(p => p.code === 'openai-compatible')!
+    const providerDetails = SUPPORTED_PROVIDERS.find(provider => provider.code === providerCode)
+    if (!providerDetails) {
+      // This should theoretically never happen
+      throw new Error(`Cody++: ${providerCode} provider details not found in constants.`)
+    }
 
-    // Prioritize options.apiKey, then config, then undefined
-    this.apiKey = options?.apiKey ?? config.get<string>(CONFIG_KEYS.API_KEY)
+    // The key stored for this provider is read when requesting, unless one is passed here
+    this.providerCode = providerCode
+    this.apiKey = options?.apiKey
 
     // Prioritize options.baseUrl, then specific config (openaiBaseUrl), then provider default
     this.baseUrl =
@@ -49,26 +59,71 @@ export class OpenAICompatibleProvider {
     // Set paths from provider details
     this.chatCompletionPath = providerDetails.chatCompletionPath
     this.modelsPath = providerDetails.modelsPath
+    this.supportsJsonSchema = providerDetails.supportsJsonSchema
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    if (!this.apiKey) {
-      throw new Error(ERROR_MESSAGES.NOT_AUTHENTICATED)
+  /**
+   * Map a requested response format to the `response_format` of the chat completions API.
+   * Schemas are only sent to providers supporting structured outputs, others get JSON mode.
+   * @param responseFormat The requested format, JSON mode when omitted
+   */
+  protected getResponseFormat(responseFormat?: ResponseFormat): object | undefined {
+    if (responseFormat?.type === 'text') {
+      return undefined
     }
+    if (responseFormat?.schema && this.supportsJsonSchema) {
+      return {
+        type: 'json_schema',
+        json_schema: {
+          name: responseFormat.name ?? 'response',
+          schema: responseFormat.schema,
+          strict: true
+        }
+      }
+    }
+    return { type: 'json_object' }
+  }
+
+  /**
+   * Get the API key of the requests, given in the options or stored for the provider
+   */
+  protected async resolveApiKey(): Promise<string | undefined> {
+    return this.apiKey ?? (await getApiKey(this.providerCode))
+  }
+
+  /**
+   * Headers authenticating the requests, a bearer token for OpenAI-compatible APIs
+   */
+  protected getAuthHeaders(apiKey: string): Record<string, string> {
+    return { Authorization: `Bearer ${apiKey}` }
+  }
 
+  /**
+   * URL of the chat completions endpoint, the base URL joined with the completion path
+   */
+  protected getChatCompletionUrl(): string {
     // Ensure paths don't start with / if baseUrl ends with /
     const cleanBaseUrl = this.baseUrl.endsWith('/') ? this.baseUrl.slice(0, -1) : this.baseUrl
     const cleanChatPath = this.chatCompletionPath.startsWith('/')
       ? this.chatCompletionPath
       : `/${this.chatCompletionPath}`
-    const fullUrl = `${cleanBaseUrl}${cleanChatPath}`
+    return `${cleanBaseUrl}${cleanChatPath}`
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const apiKey = await this.resolveApiKey()
+    if (!apiKey) {
+      throw new Error(ERROR_MESSAGES.NOT_AUTHENTICATED)
+    }
+
+    const fullUrl = this.getChatCompletionUrl()
 
     try {
       const response = await fetch(fullUrl, {
         method: 'POST',
         headers: {
           ...this.headers,
-          Authorization: `Bearer ${this.apiKey}`
+          ...this.getAuthHeaders(apiKey)
         },
         body: JSON.stringify({
           model: this.model,
@@ -76,9 +131,7 @@ export class OpenAICompatibleProvider {
           max_tokens: request.config?.maxTokens || 4000,
           temperature: request.config?.temperature || 0,
           stream: false,
-          response_format: {
-            type: 'json_object'
-          }
+          response_format: this.getResponseFormat(request.config?.responseFormat)
         })
       })
 
@@ -101,7 +154,8 @@ export class OpenAICompatibleProvider {
   }
 
   async fetchModels(): Promise<string[]> {
-    if (!this.apiKey) {
+    const apiKey = await this.resolveApiKey()
+    if (!apiKey) {
       // Can't fetch models without an API key
       console.warn('CODY++: Cannot fetch models without an API key.')
       return []
@@ -117,7 +171,7 @@ export class OpenAICompatibleProvider {
       const response = await fetch(fullUrl, {
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`
+          ...this.getAuthHeaders(apiKey)
         }
       })
 
@@ -1,12 +1,11 @@
-import * as vscode from 'vscode'
-import { CONFIG_KEYS, SUPPORTED_PROVIDERS } from '../../constants'
+import { SUPPORTED_PROVIDERS } from '../../constants'
 import { OpenAICompatibleProvider } from '../openai-compatible'
 
 // Define the options interface
 interface ProviderOptions {
   apiKey?: string
   baseUrl?: string // Included for consistency, but will be ignored
-  model?: string // Included for consistency, but will be ignored
+  model?: string // Only set by profiles, the model setting is ignored
 }
 
 /**
@@ -16,9 +15,7 @@ interface ProviderOptions {
 export class OpenAIProvider extends OpenAICompatibleProvider {
   constructor(options?: ProviderOptions) {
     // Pass options to parent, but we will override specific properties.
-    super(options)
-
-    const config = vscode.workspace.getConfiguration('codyPlusPlus')
+    super(options, 'openai')
 
     // Find the specific OpenAI provider details
     const openAIDetails = SUPPORTED_PROVIDERS.find(p => p.code === 'openai')
@@ -31,26 +28,17 @@ export class OpenAIProvider extends OpenAICompatibleProvider {
     // ignoring any options.baseUrl or custom base URL setting.
     this.baseUrl = openAIDetails.baseURL
 
-    // Re-read API key from options or config.
-    // Prioritize options if passed during temporary creation (e.g., testing).
-    this.apiKey = options?.apiKey ?? config.get<string>(CONFIG_KEYS.API_KEY)
-
-    // Force the model to the OpenAI specific default, ignoring options.model and config.
-    this.model = openAIDetails.defaultModel
+    // Use options.model (e.g. from a profile), else force the OpenAI specific default,
+    // ignoring the model setting.
+    this.model = options?.model ?? openAIDetails.defaultModel
 
     // Force the paths to the OpenAI specific ones.
     this.chatCompletionPath = openAIDetails.chatCompletionPath
     this.modelsPath = openAIDetails.modelsPath
-
-    if (!this.apiKey) {
-      // The parent's `complete` method checks for apiKey, but we can warn earlier.
-      console.warn(
-        'Cody++: OpenAIProvider initialized without an API key. Please configure codyPlusPlus.llmApiKey.'
-      )
-    }
+    this.supportsJsonSchema = openAIDetails.supportsJsonSchema
   }
 
   // The `complete` and `fetchModels` methods are inherited from OpenAICompatibleProvider
-  // and will use the forced `this.baseUrl`, `this.model`, `this.chatCompletionPath`,
-  // and `this.modelsPath` set here.
+  // and will use the forced `this.baseUrl`, `this.chatCompletionPath` and `this.modelsPath`,
+  // and the `this.model` set here.
 }
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, SUPPORTED_PROVIDERS } from './constants'
+
+/** Storage of the API keys, the secret storage of the extension once activated */
+let secretStorage: vscode.SecretStorage | undefined
+
+/**
+ * Get the key of the secret holding the API key of a provider
+ * @param provider The provider code
+ */
+export function getApiKeySecretKey(provider: string): string {
+  return `codyPlusPlus.apiKey.${provider}`
+}
+
+/**
+ * Set the storage of the API keys, called on activation with `context.secrets`
+ * @param storage The secret storage, or undefined to stop reading and storing keys
+ */
+export function setSecretStorage(storage: vscode.SecretStorage | undefined): void {
+  secretStorage = storage
+}
+
+/**
+ * Get the API key of a provider from the secret storage
+ * @param provider The provider code
+ * @returns The key, or undefined when none is stored or the storage isn't set
+ */
+export async function getApiKey(provider: string): Promise<string | undefined> {
+  return (await secretStorage?.get(getApiKeySecretKey(provider))) || undefined
+}
+
+/**
+ * Store the API key of a provider in the secret storage, an empty key deletes it
+ * @param provider The provider code
+ * @param apiKey The key
+ */
+export async function storeApiKey(provider: string, apiKey: string): Promise<void> {
+  if (!secretStorage) {
+    throw new Error('The API key storage is not initialized.')
+  }
+  if (apiKey) {
+    await secretStorage.store(getApiKeySecretKey(provider), apiKey)
+  } else {
+    await secretStorage.delete(getApiKeySecretKey(provider))
+  }
+}
+
+/**
+ * Move an API key written in plain text in the settings to the secret storage, then
+ * clear the setting from every scope it was set in. Keys were shared by the providers,
+ * so the key is stored for the configured provider, or for OpenAI, the default provider,
+ * when the configured provider runs without one.
+ * @returns The provider the key was stored for, or undefined when there was no key
+ */
+export async function migrateApiKeyFromSettings(): Promise<string | undefined> {
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  const apiKey = config.get<string>(CONFIG_KEYS.API_KEY)
+  if (!apiKey) {
+    return undefined
+  }
+
+  const configuredProvider = config.get<string>(CONFIG_KEYS.PROVIDER) || 'openai'
+  const provider = SUPPORTED_PROVIDERS.find(details => details.code === configuredProvider)
+    ?.requiresApiKey
+    ? configuredProvider
+    : 'openai'
+  await storeApiKey(provider, apiKey)
+
+  const inspection = config.inspect<string>(CONFIG_KEYS.API_KEY)
+  const targets: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+    [inspection?.globalValue, vscode.ConfigurationTarget.Global],
+    [inspection?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+    [inspection?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder]
+  ]
+  for (const [value, target] of targets) {
+    if (value !== undefined) {
+      await config.update(CONFIG_KEYS.API_KEY, undefined, target)
+    }
+  }
+  return provider
+}
@@ -0,0 +1,306 @@
+import * as path from 'path'
+import { FileMetadata } from '../filesystem/operations'
+
+/** Maximum number of edits for a path to count as a near miss of a file in the same folder */
+const MAX_EDIT_DISTANCE = 2
+
+/**
+ * A file selected by the model
+ */
+export interface FileSelection {
+  path: string
+  /** Why the model selected the file */
+  reason?: string
+  /** How confident the model is that the file matches, between 0 and 1 */
+  confidence?: number
+}
+
+/**
+ * A path selected by the model that was not added
+ */
+export interface RejectedPath {
+  /** The entry as returned by the model */
+  path: string
+  reason: string
+}
+
+/**
+ * A near-miss path selected by the model, matched to a file of the tree
+ */
+export interface CorrectedPath {
+  /** The entry as returned by the model */
+  path: string
+  /** Absolute path of the matched file */
+  match: string
+}
+
+/**
+ * Paths selected by the model, checked against the scanned file tree
+ */
+export interface SelectionValidationResult {
+  /** Absolute paths of the selected files, without duplicates */
+  files: string[]
+  /** The selected files with absolute paths, in the order of `files` */
+  selections: FileSelection[]
+  corrected: CorrectedPath[]
+  rejected: RejectedPath[]
+}
+
+/**
+ * Lookup tables of the files of a tree, built once per validation
+ */
+interface FileTreeIndex {
+  files: Set<string>
+  directories: Set<string>
+  /** Files keyed by their lower-cased relative path */
+  byLowerCasePath: Map<string, string[]>
+  /** Files keyed by their lower-cased relative path without extension */
+  byLowerCaseStem: Map<string, string[]>
+  /** Files keyed by their lower-cased name */
+  byLowerCaseName: Map<string, string[]>
+  /** Files keyed by their lower-cased relative folder */
+  byLowerCaseFolder: Map<string, string[]>
+}
+
+function addToIndex(map: Map<string, string[]>, key: string, filePath: string) {
+  const filePaths = map.get(key) ?? []
+  filePaths.push(filePath)
+  map.set(key, filePaths)
+}
+
+function stripExtension(filePath: string): string {
+  const extension = path.extname(filePath)
+  return extension ? filePath.slice(0, -extension.length) : filePath
+}
+
+function indexFileTree(rootPath: string, fileTree: FileMetadata[]): FileTreeIndex {
+  const index: FileTreeIndex = {
+    files: new Set(),
+    directories: new Set(),
+    byLowerCasePath: new Map(),
+    byLowerCaseStem: new Map(),
+    byLowerCaseName: new Map(),
+    byLowerCaseFolder: new Map()
+  }
+
+  for (const entry of fileTree) {
+    if (entry.type === 'directory') {
+      index.directories.add(entry.path)
+      continue
+    }
+    const relativePath = path.relative(rootPath, entry.path).toLowerCase()
+    index.files.add(entry.path)
+    addToIndex(index.byLowerCasePath, relativePath, entry.path)
+    addToIndex(index.byLowerCaseStem, stripExtension(relativePath), entry.path)
+    addToIndex(index.byLowerCaseName, path.basename(relativePath), entry.path)
+    addToIndex(index.byLowerCaseFolder, path.dirname(relativePath), entry.path)
+  }
+  return index
+}
+
+/**
+ * Read a file selected by the model, either a path or an object with a path, a reason and a
+ * confidence. Confidences given as percentages are scaled down.
+ * @param entry An entry of the selection returned by the model
+ * @returns The selection, undefined when the entry has no path
+ */
+export function toFileSelection(entry: unknown): FileSelection | undefined {
+  if (typeof entry === 'string') {
+    return { path: entry }
+  }
+  if (typeof entry !== 'object' || entry === null) {
+    return undefined
+  }
+
+  const { path: selectedPath, reason, confidence } = entry as Record<string, unknown>
+  if (typeof selectedPath !== 'string') {
+    return undefined
+  }
+  const selection: FileSelection = { path: selectedPath }
+  if (typeof reason === 'string' && reason.trim()) {
+    selection.reason = reason.trim()
+  }
+  if (typeof confidence === 'number' && confidence >= 0 && confidence <= 100) {
+    selection.confidence = confidence > 1 ? confidence / 100 : confidence
+  }
+  return selection
+}
+
+/**
+ * Number of single-character insertions, deletions and substitutions turning one text into another
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Find the file a near-miss path most likely meant, trying from the strictest match:
+ * a different case, a different extension, the same name in another folder, then a
+ * small typo in the name within the same folder
+ * @returns The matched file, undefined when there is no match, or the candidates when ambiguous
+ */
+function findNearMiss(relativePath: string, index: FileTreeIndex): string | string[] | undefined {
+  const lowerCasePath = relativePath.toLowerCase()
+  const candidateLookups = [
+    () => index.byLowerCasePath.get(lowerCasePath),
+    () => index.byLowerCaseStem.get(stripExtension(lowerCasePath)),
+    () => index.byLowerCaseName.get(path.basename(lowerCasePath)),
+    () =>
+      index.byLowerCaseFolder
+        .get(path.dirname(lowerCasePath))
+        ?.filter(
+          filePath =>
+            editDistance(path.basename(filePath).toLowerCase(), path.basename(lowerCasePath)) <=
+            MAX_EDIT_DISTANCE
+        )
+  ]
+
+  for (const lookup of candidateLookups) {
+    const candidates = lookup() ?? []
+    if (candidates.length > 0) {
+      return candidates.length === 1 ? candidates[0] : candidates
+    }
+  }
+  return undefined
+}
+
+/**
+ * Check the paths selected by the model against the scanned file tree. Paths are kept when
+ * they are files of the tree, corrected when they are a near miss of exactly one file, and
+ * rejected otherwise, including paths outside the root and directories.
+ * The reason and confidence of a selected file are kept, the first selection of a file wins.
+ * @param selectedPaths The entries returned by the model, paths or file selections, with paths
+ * absolute or relative to the root
+ * @param rootPath Absolute path of the tree root
+ * @param fileTree The scanned tree entries
+ */
+export function validateSelectedPaths(
+  selectedPaths: unknown[],
+  rootPath: string,
+  fileTree: FileMetadata[]
+): SelectionValidationResult {
+  const index = indexFileTree(rootPath, fileTree)
+  const files = new Map<string, FileSelection>()
+  const result: SelectionValidationResult = {
+    files: [],
+    selections: [],
+    corrected: [],
+    rejected: []
+  }
+  const addFile = (filePath: string, selection: FileSelection) => {
+    if (!files.has(filePath)) {
+      files.set(filePath, { ...selection, path: filePath })
+    }
+  }
+
+  for (const entry of selectedPaths) {
+    const selection = toFileSelection(entry)
+    if (!selection?.path.trim()) {
+      const shownEntry = typeof entry === 'object' && entry ? JSON.stringify(entry) : String(entry)
+      result.rejected.push({ path: shownEntry, reason: 'not a file path' })
+      continue
+    }
+
+    const selectedPath = selection.path
+    const absolutePath = path.resolve(rootPath, selectedPath.trim())
+    const relativePath = path.relative(rootPath, absolutePath)
+    if (
+      relativePath === '..' ||
+      relativePath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relativePath)
+    ) {
+      result.rejected.push({ path: selectedPath, reason: 'outside the selected folder' })
+      continue
+    }
+
+    if (index.files.has(absolutePath)) {
+      addFile(absolutePath, selection)
+      continue
+    }
+    if (!relativePath || index.directories.has(absolutePath)) {
+      result.rejected.push({ path: selectedPath, reason: 'a folder, not a file' })
+      continue
+    }
+
+    const match = findNearMiss(relativePath, index)
+    if (typeof match === 'string') {
+      addFile(match, selection)
+      result.corrected.push({ path: selectedPath, match })
+    } else {
+      result.rejected.push({
+        path: selectedPath,
+        reason: match ? `matches ${match.length} files` : 'not found'
+      })
+    }
+  }
+
+  result.files = [...files.keys()]
+  result.selections = [...files.values()]
+  return result
+}
+
+/**
+ * Describe how a refined selection differs from the previous one
+ * @param addedFiles Absolute paths of the files new to the selection
+ * @param removedFiles Absolute paths of the files no longer selected
+ * @param rootPath Absolute path of the tree root, files are shown relative to it
+ */
+export function formatSelectionDiff(
+  addedFiles: string[],
+  removedFiles: string[],
+  rootPath: string
+): string {
+  const sections = [
+    { files: addedFiles, title: 'Added', sign: '+' },
+    { files: removedFiles, title: 'Removed', sign: '-' }
+  ]
+    .filter(({ files }) => files.length > 0)
+    .map(
+      ({ files, title, sign }) =>
+        `${title} ${files.length} file${files.length !== 1 ? 's' : ''}:\n` +
+        files.map(filePath => `${sign} ${path.relative(rootPath, filePath)}`).join('\n')
+    )
+  return sections.length > 0 ? sections.join('\n\n') : 'The selection did not change.'
+}
+
+/**
+ * Describe the corrected and rejected paths of a validation for the result dialog
+ * @param result The validation result
+ * @param rootPath Absolute path of the tree root, corrected paths are shown relative to it
+ * @returns The description, empty when every path was valid
+ */
+export function formatSelectionIssues(result: SelectionValidationResult, rootPath: string): string {
+  const sections: string[] = []
+  if (result.corrected.length > 0) {
+    sections.push(
+      `Corrected ${result.corrected.length} path${result.corrected.length !== 1 ? 's' : ''}:\n` +
+        result.corrected
+          .map(
+            ({ path: selectedPath, match }) =>
+              `- ${selectedPath} → ${path.relative(rootPath, match)}`
+          )
+          .join('\n')
+    )
+  }
+  if (result.rejected.length > 0) {
+    sections.push(
+      `Rejected ${result.rejected.length} path${result.rejected.length !== 1 ? 's' : ''}:\n` +
+        result.rejected
+          .map(({ path: selectedPath, reason }) => `- ${selectedPath} (${reason})`)
+          .join('\n')
+    )
+  }
+  return sections.join('\n\n')
+}
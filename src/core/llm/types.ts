@@ -1,11 +1,18 @@
+import { FileMetadata } from '../filesystem/operations'
+import { FileSelection } from './selection'
+
+export interface ResponseFormat {
+  type: 'json' | 'text'
+  /** Name of the schema, sent along with it to providers supporting JSON schemas */
+  name?: string
+  schema?: object
+}
+
 export interface CompletionConfig {
   model?: string
   maxTokens?: number
   temperature?: number
-  responseFormat?: {
-    type: 'json' | 'text'
-    schema?: object
-  }
+  responseFormat?: ResponseFormat
 }
 
 export type CompletionRequestMessage = {
@@ -21,3 +28,43 @@ export interface CompletionRequest {
 export interface CompletionResponse {
   text: string
 }
+
+/**
+ * Anything that can complete a request, usually an LLM provider
+ */
+export interface CompletionProvider {
+  complete(request: CompletionRequest): Promise<CompletionResponse>
+}
+
+/**
+ * The files to select from and the request describing them, given as is to providers
+ * selecting files themselves instead of completing the Smart Add prompt
+ */
+export interface FileSelectionRequest {
+  /** The user's request, followed by the instructions of the refinements */
+  query: string
+  /** Absolute path of the tree root */
+  rootPath: string
+  /** The scanned tree, with absolute paths */
+  fileTree: FileMetadata[]
+}
+
+/**
+ * A provider selectable for Smart Add, completing requests and listing its models
+ */
+export interface LLMProvider extends CompletionProvider {
+  fetchModels(): Promise<string[]>
+  /**
+   * Select the files of the tree matching a request without a prompt, for providers
+   * ranking files in-process. Smart Add completes its prompt with the providers without it.
+   * @returns The selected files, with absolute paths
+   */
+  selectFiles?(request: FileSelectionRequest): Promise<FileSelection[]>
+}
+
+/**
+ * A provider selecting files itself, see `LLMProvider.selectFiles`
+ */
+export interface FileSelectingProvider extends LLMProvider {
+  selectFiles(request: FileSelectionRequest): Promise<FileSelection[]>
+}
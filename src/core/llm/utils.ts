@@ -1,22 +1,59 @@
 import * as vscode from 'vscode'
-import { formatFileTree, getWorkspaceFileTree } from '../filesystem/operations'
-import { FEW_SHOT_EXAMPLES, SYSTEM_PROMPT } from './constants'
+import { getProcessingConfig } from '../filesystem/config'
+import { FileMetadata, formatFileTree, getWorkspaceFileTree } from '../filesystem/operations'
+import { getFileTreeFilter } from '../filesystem/processor'
+import { DIRECTORY_SELECTION_PROMPT, FEW_SHOT_EXAMPLES, SYSTEM_PROMPT } from './constants'
+import { PromptFileTree, createPromptFileTree } from './paths'
+import { FileSelection } from './selection'
 import { CompletionRequestMessage } from './types'
 
+/**
+ * Build the file tree sent to the model for Smart Add. It leaves out the same entries as
+ * when adding files (excluded folders and file types, include/exclude globs and gitignore
+ * rules), plus the Smart Add specific `smartAddExclude` globs.
+ * @param rootUri The root folder of the tree
+ */
+export async function getSmartAddFileTree(rootUri: vscode.Uri): Promise<FileMetadata[]> {
+  const smartAddExclude = vscode.workspace
+    .getConfiguration('codyPlusPlus')
+    .get<string[]>('smartAddExclude', [])
+  const { exclude } = getProcessingConfig()
+
+  return getWorkspaceFileTree(
+    rootUri,
+    await getFileTreeFilter(rootUri, { exclude: [...exclude, ...smartAddExclude] })
+  )
+}
+
+/**
+ * Create the messages asking the model to select files in the Smart Add file tree
+ * @param userPrompt The user's description of the files
+ * @param rootUri The root folder of the tree
+ * @param promptTree The tree as shown to the model, built from the Smart Add tree when omitted
+ */
 export async function createCompletionRequestMessages(
   userPrompt: string,
-  rootUri: vscode.Uri
+  rootUri: vscode.Uri,
+  promptTree?: PromptFileTree
 ): Promise<CompletionRequestMessage[]> {
-  // Get the file tree structure
-  const fileTree = await getWorkspaceFileTree(rootUri)
-  const formattedFileTree = formatFileTree(
-    rootUri.fsPath, // Use the full fsPath
-    fileTree
-  )
+  // Get the file tree structure, unless the caller already built it
+  const { rootPath, fileTree } =
+    promptTree ?? createPromptFileTree(rootUri.fsPath, await getSmartAddFileTree(rootUri))
 
+  return createFileSelectionMessages(userPrompt, formatFileTree(rootPath, fileTree))
+}
+
+/**
+ * Create the messages asking the model to select files in a formatted file tree
+ * @param userPrompt The user's description of the files
+ * @param formattedFileTree The tree, or part of it, as formatted by `formatFileTree`
+ */
+export function createFileSelectionMessages(
+  userPrompt: string,
+  formattedFileTree: string
+): CompletionRequestMessage[] {
   const userMessage = `
 <file-tree>
-${rootUri.fsPath}
 ${formattedFileTree}
 </file-tree>
 
@@ -38,29 +75,140 @@ User request: ${userPrompt}
   return messages
 }
 
-export function parseLLMResponse(response: string): string[] {
-  if (!response) return []
+/**
+ * Create the messages asking the model to refine its file selection with a follow-up request
+ * @param messages The conversation of the selection, up to its last request
+ * @param previousSelection The files kept from the last response, with paths as shown to the model
+ * @param instruction The user's follow-up request
+ */
+export function createRefinementMessages(
+  messages: CompletionRequestMessage[],
+  previousSelection: FileSelection[],
+  instruction: string
+): CompletionRequestMessage[] {
+  return [
+    ...messages,
+    {
+      role: 'assistant',
+      content: JSON.stringify({ files: previousSelection })
+    },
+    {
+      role: 'user',
+      content: `
+Follow-up request: ${instruction}
 
-  try {
-    const parsedResponse = JSON.parse(response)
+Respond with the complete updated selection: keep the previous files that still match, add the files the follow-up asks for and leave out the files it excludes.
+`
+    }
+  ]
+}
 
-    if (Array.isArray(parsedResponse)) {
-      return parsedResponse
+/**
+ * Create the messages asking the model to select directories in a collapsed tree
+ * @param userPrompt The user's description of the files
+ * @param directoryListing The directories, one per line, relative to the root
+ */
+export function createDirectorySelectionMessages(
+  userPrompt: string,
+  directoryListing: string
+): CompletionRequestMessage[] {
+  return [
+    {
+      role: 'system',
+      content: DIRECTORY_SELECTION_PROMPT
+    },
+    {
+      role: 'user',
+      content: `
+<directories>
+${directoryListing}
+</directories>
+
+User request: ${userPrompt}
+`
+    }
+  ]
+}
+
+/**
+ * Find the end of the JSON array or object starting at an offset, skipping brackets in strings
+ * @returns The offset after the closing bracket, or -1 when it is not closed
+ */
+function findJsonEnd(text: string, start: number): number {
+  let depth = 0
+  let inString = false
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (char === '\\') {
+        i++
+      } else if (char === '"') {
+        inString = false
+      }
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      depth++
+    } else if (char === '}' || char === ']') {
+      depth--
+      if (depth === 0) {
+        return i + 1
+      }
     }
+  }
+  return -1
+}
+
+/**
+ * Extract the JSON value of an LLM response, tolerating code fences and text around the JSON
+ * @param response The response text
+ * @throws When the response holds no valid JSON array or object
+ */
+export function extractJson(response: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(response)
+  const text = (fenced?.[1] ?? response).trim()
 
-    if (typeof parsedResponse === 'object' && Array.isArray(parsedResponse.files)) {
-      return parsedResponse.files
+  try {
+    return JSON.parse(text)
+  } catch {
+    // Look for the first complete array or object in the surrounding text
+    for (let start = 0; start < text.length; start++) {
+      if (text[start] !== '{' && text[start] !== '[') {
+        continue
+      }
+      const end = findJsonEnd(text, start)
+      if (end === -1) {
+        break
+      }
+      try {
+        return JSON.parse(text.slice(start, end))
+      } catch {
+        // Not valid JSON, try the next bracket
+      }
     }
+  }
+  throw new Error('The LLM response is not valid JSON.')
+}
+
+/**
+ * Parse the entries of an LLM response, either a JSON array or an object holding the array.
+ * Entries are paths, or objects describing a file for file selections.
+ * @param response The response text
+ * @param key Key of the array when the response is an object
+ * @throws When the response is not JSON or has no array
+ */
+export function parseLLMResponse(response: string, key: string = 'files'): unknown[] {
+  if (!response) return []
 
-    return []
-  } catch (error) {
-    console.error(
-      'Error parsing LLM response:',
-      error instanceof Error ? error.message : String(error)
-    )
-    vscode.window.showErrorMessage(
-      'Error parsing LLM response: ' + (error instanceof Error ? error.message : String(error))
-    )
-    return []
+  const parsedResponse = extractJson(response)
+  if (Array.isArray(parsedResponse)) {
+    return parsedResponse
+  }
+  if (typeof parsedResponse === 'object' && parsedResponse !== null) {
+    const entries = (parsedResponse as Record<string, unknown>)[key]
+    if (Array.isArray(entries)) {
+      return entries
+    }
   }
+  throw new Error(`The LLM response has no "${key}" array.`)
 }
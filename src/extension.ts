@@ -2,12 +2,60 @@
 import * as vscode from 'vscode'
 // Import custom command handlers
 import { addCustomCommand, editCustomCommand } from './commands/add-custom-command'
-import { addFile, addFilesSmart, addFolder, addSelection } from './commands/add-to-cody'
+import {
+  addFile,
+  addFileWithRelated,
+  addFilesSmart,
+  addFolder,
+  addGitChanges,
+  addSelection,
+  refineSmartAdd
+} from './commands/add-to-cody'
+import {
+  ContextSetItem,
+  addContextSet,
+  deleteContextSet,
+  editContextSet,
+  renameContextSet,
+  saveContextSet
+} from './commands/context-sets'
+import { rebuildFileIndex } from './commands/file-index'
 import { selectLLM, selectProvider } from './commands/provider-commands'
+import {
+  deleteProviderProfile,
+  saveProviderProfile,
+  setDefaultProviderProfile,
+  switchProviderProfile
+} from './commands/provider-profiles'
+import {
+  SmartAddHistoryItem,
+  clearSmartAddHistory,
+  deleteSmartAddRun,
+  readdSmartAddRun,
+  rerunSmartAddRun,
+  showSmartAddHistory
+} from './commands/smart-add-history'
+import { clearGitignoreFilterCacheFor } from './core/filesystem/gitignore'
+import {
+  clearDependentsIndexCacheFor,
+  SOURCE_FILES_GLOB,
+  updateDependentsIndexFor
+} from './core/filesystem/imports'
+import { migrateApiKeyFromSettings, setSecretStorage } from './core/llm/secrets'
 // Import services and views
+import { ContextSetService } from './services/contextSet.service'
 import { CustomCommandService } from './services/customCommand.service'
+import { FileIndexService } from './services/fileIndex.service'
+import { ProviderProfileService } from './services/providerProfile.service'
+import { SmartAddHistoryService } from './services/smartAddHistory.service'
 import { TelemetryService } from './services/telemetry.service'
+import {
+  getApiKeyConfig,
+  getProviderConfig,
+  providerRequiresApiKey
+} from './utils/workspace-config'
 import { MainWebviewView } from './views/MainWebviewView'
+import { ProviderProfileStatusBar } from './views/ProviderProfileStatusBar'
 
 // Function called when the extension is activated
 export async function activate(context: vscode.ExtensionContext) {
@@ -19,6 +67,31 @@ export async function activate(context: vscode.ExtensionContext) {
   // Initialize the singleton service for managing custom commands
   const customCommandService = CustomCommandService.getInstance()
 
+  // Initialize the singleton service for managing context sets
+  ContextSetService.getInstance()
+
+  // Initialize the file index, serving the tree scans of Smart Add and the folder commands
+  FileIndexService.getInstance()
+
+  // Initialize the Smart Add history, stored in the workspace state
+  SmartAddHistoryService.initialize(context.workspaceState)
+
+  // Initialize the provider profiles, the profile picked in a workspace is kept in its state
+  const providerProfileService = ProviderProfileService.initialize(context.workspaceState)
+
+  // Read and store the API keys in the secret storage, moving keys left in the settings
+  setSecretStorage(context.secrets)
+  try {
+    const migratedProvider = await migrateApiKeyFromSettings()
+    if (migratedProvider) {
+      void vscode.window.showInformationMessage(
+        `Cody++: Your API key was moved from the settings to the VS Code secret storage (${migratedProvider}).`
+      )
+    }
+  } catch (error) {
+    console.error('CODY++: Failed to move the API key to the secret storage', error)
+  }
+
   const addFolderDisposable = vscode.commands.registerCommand(
     'cody-plus-plus.addFolder',
     (uri: vscode.Uri) => addFolder(uri, true)
@@ -29,7 +102,22 @@ export async function activate(context: vscode.ExtensionContext) {
     (uri: vscode.Uri) => addFolder(uri, false)
   )
 
-  const addFileDisposable = vscode.commands.registerCommand('cody-plus-plus.addFile', addFile)
+  const addFolderPreviewDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addFolderPreview',
+    (uri: vscode.Uri) => addFolder(uri, true, true)
+  )
+
+  const addFileDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addFile',
+    (uri: vscode.Uri) => addFile(uri)
+  )
+
+  // Adds a file with the files it imports and the files importing it,
+  // defaulting to the active editor when run from the Command Palette
+  const addFileWithRelatedDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addFileWithRelated',
+    (uri?: vscode.Uri) => addFileWithRelated(uri ?? vscode.window.activeTextEditor?.document.uri)
+  )
 
   const addSelectionDisposable = vscode.commands.registerCommand(
     'cody-plus-plus.addSelection',
@@ -47,15 +135,54 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   )
 
+  const addSelectionPreviewDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addSelectionPreview',
+    async (contextSelection: vscode.Uri, allSelections: vscode.Uri[]) => {
+      const urisToAdd = allSelections || [contextSelection]
+      await addSelection(urisToAdd, true, undefined, true)
+    }
+  )
+
+  // Adds the selected files with their tests (or implementations for test files),
+  // defaulting to the active editor when run from the Command Palette
+  const addWithTestsDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addWithTests',
+    async (contextSelection?: vscode.Uri, allSelections?: vscode.Uri[]) => {
+      const uri = contextSelection ?? vscode.window.activeTextEditor?.document.uri
+      await addSelection(allSelections || (uri ? [uri] : []), false, true)
+    }
+  )
+
+  // Register the git commands, which add changed files of the repository owning the
+  // source control (when run from the SCM view) or of the picked repository
+  const addUncommittedChangesDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addUncommittedChanges',
+    (sourceControl?: vscode.SourceControl) => addGitChanges('uncommitted', sourceControl?.rootUri)
+  )
+
+  const addStagedFilesDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addStagedFiles',
+    (sourceControl?: vscode.SourceControl) => addGitChanges('staged', sourceControl?.rootUri)
+  )
+
+  const addBranchChangesDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addBranchChanges',
+    (sourceControl?: vscode.SourceControl) => addGitChanges('branch', sourceControl?.rootUri)
+  )
+
   // Register the "Add Files Smart" command, which adds all files in a folder to Cody
   const addFilesSmartDisposable = vscode.commands.registerCommand(
     'cody-plus-plus.addFilesToCodySmart',
     async (contextSelection: vscode.Uri, allSelections: vscode.Uri[]) => {
       try {
-        // Check if API key is configured
-        const apiKey = vscode.workspace.getConfiguration('codyPlusPlus').get<string>('llmApiKey')
+        // Check if API key is configured, unless the provider runs without one
+        const profile = providerProfileService.getActiveProfile()
+        const provider = profile?.provider ?? (await getProviderConfig())
+        const apiKey = profile
+          ? await providerProfileService.getApiKey(profile)
+          : await getApiKeyConfig(provider)
 
-        if (!apiKey) {
+        if (!apiKey && providerRequiresApiKey(provider)) {
           const result = await selectProvider()
           if (!result) {
             void vscode.window.showInformationMessage(
@@ -75,6 +202,45 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   )
 
+  // Register the "Refine Smart Add" command, which refines the last Smart Add selection
+  const refineSmartAddDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.refineSmartAdd',
+    refineSmartAdd
+  )
+
+  // Register the Smart Add history commands. The sidebar passes the run it was invoked on,
+  // the Command Palette lets the user pick one.
+  const smartAddHistoryDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.smartAddHistory',
+    () => showSmartAddHistory(context)
+  )
+
+  const readdSmartAddRunDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.readdSmartAddRun',
+    (item?: SmartAddHistoryItem) => readdSmartAddRun(item)
+  )
+
+  const rerunSmartAddRunDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.rerunSmartAddRun',
+    (item?: SmartAddHistoryItem) => rerunSmartAddRun(item, context)
+  )
+
+  const deleteSmartAddRunDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.deleteSmartAddRun',
+    (item?: SmartAddHistoryItem) => deleteSmartAddRun(item)
+  )
+
+  const clearSmartAddHistoryDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.clearSmartAddHistory',
+    clearSmartAddHistory
+  )
+
+  // Register the "Rebuild File Index" command, which scans the workspace folders again
+  const rebuildFileIndexDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.rebuildFileIndex',
+    rebuildFileIndex
+  )
+
   // Register the "Add Custom Command" command, which opens a UI to create a custom command
   const addCustomCommandDisposable = vscode.commands.registerCommand(
     'cody-plus-plus.addCustomCommand',
@@ -84,7 +250,7 @@ export async function activate(context: vscode.ExtensionContext) {
   // Register the "Edit Command" command, allowing users to edit existing custom commands
   const editCommandDisposable = vscode.commands.registerCommand(
     'cody-plus-plus.editCommand',
-    async (item: any) => editCustomCommand(context, item.commandId)
+    async (item: any) => editCustomCommand(context, item.commandId, item.folderUri)
   )
 
   // Register the "Delete Command" command, enabling users to delete custom commands
@@ -99,12 +265,39 @@ export async function activate(context: vscode.ExtensionContext) {
       )
 
       if (confirmation === 'Yes') {
-        customCommandService.removeCommand(item.commandId)
+        customCommandService.removeCommand(item.commandId, item.folderUri)
         vscode.window.showInformationMessage(`Command "${item.commandId}" deleted successfully.`)
       }
     }
   )
 
+  // Register the context set commands. The sidebar passes the set it was invoked on,
+  // the Command Palette lets the user pick one.
+  const saveContextSetDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.saveContextSet',
+    saveContextSet
+  )
+
+  const addContextSetDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.addContextSet',
+    (item?: ContextSetItem) => addContextSet(item)
+  )
+
+  const editContextSetDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.editContextSet',
+    (item?: ContextSetItem) => editContextSet(item)
+  )
+
+  const renameContextSetDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.renameContextSet',
+    (item?: ContextSetItem) => renameContextSet(item)
+  )
+
+  const deleteContextSetDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.deleteContextSet',
+    (item?: ContextSetItem) => deleteContextSet(item)
+  )
+
   const selectProviderDisposable = vscode.commands.registerCommand(
     'cody-plus-plus.selectProvider',
     selectProvider
@@ -112,6 +305,43 @@ export async function activate(context: vscode.ExtensionContext) {
 
   const selectLlmDisposable = vscode.commands.registerCommand('cody-plus-plus.selectLlm', selectLLM)
 
+  const switchProviderProfileDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.switchProviderProfile',
+    switchProviderProfile
+  )
+
+  const saveProviderProfileDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.saveProviderProfile',
+    saveProviderProfile
+  )
+
+  const deleteProviderProfileDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.deleteProviderProfile',
+    deleteProviderProfile
+  )
+
+  const setDefaultProviderProfileDisposable = vscode.commands.registerCommand(
+    'cody-plus-plus.setDefaultProviderProfile',
+    setDefaultProviderProfile
+  )
+
+  // Show the provider profile of Smart Add in the status bar, switching it on click
+  const providerProfileStatusBar = new ProviderProfileStatusBar()
+
+  // Re-read the gitignore rules of a workspace folder whenever one of its ignore files changes
+  const gitignoreWatcher = vscode.workspace.createFileSystemWatcher(
+    '**/{.gitignore,.git/info/exclude}'
+  )
+  gitignoreWatcher.onDidChange(clearGitignoreFilterCacheFor)
+  gitignoreWatcher.onDidCreate(clearGitignoreFilterCacheFor)
+  gitignoreWatcher.onDidDelete(clearGitignoreFilterCacheFor)
+
+  // Keep the imports index of a workspace folder up to date with its source files
+  const sourceFileWatcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILES_GLOB)
+  sourceFileWatcher.onDidChange(updateDependentsIndexFor)
+  sourceFileWatcher.onDidCreate(clearDependentsIndexCacheFor)
+  sourceFileWatcher.onDidDelete(updateDependentsIndexFor)
+
   // Create and register the webview view for displaying custom commands in the sidebar
   const customCommandsWebviewProvider = new MainWebviewView(
     context.extensionUri,
@@ -129,15 +359,42 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     addFolderDisposable,
     addShallowFolderDisposable,
+    addFolderPreviewDisposable,
     addFileDisposable,
+    addFileWithRelatedDisposable,
     addSelectionDisposable,
     addSelectionRecursiveDisposable,
+    addSelectionPreviewDisposable,
+    addWithTestsDisposable,
+    addUncommittedChangesDisposable,
+    addStagedFilesDisposable,
+    addBranchChangesDisposable,
     addFilesSmartDisposable,
+    refineSmartAddDisposable,
+    smartAddHistoryDisposable,
+    readdSmartAddRunDisposable,
+    rerunSmartAddRunDisposable,
+    deleteSmartAddRunDisposable,
+    clearSmartAddHistoryDisposable,
+    rebuildFileIndexDisposable,
     selectProviderDisposable,
     selectLlmDisposable,
+    switchProviderProfileDisposable,
+    saveProviderProfileDisposable,
+    deleteProviderProfileDisposable,
+    setDefaultProviderProfileDisposable,
+    providerProfileStatusBar,
+    providerProfileService,
     addCustomCommandDisposable,
     editCommandDisposable,
-    deleteCommandDisposable
+    deleteCommandDisposable,
+    saveContextSetDisposable,
+    addContextSetDisposable,
+    editContextSetDisposable,
+    renameContextSetDisposable,
+    deleteContextSetDisposable,
+    gitignoreWatcher,
+    sourceFileWatcher
   )
 }
 
@@ -147,4 +404,6 @@ export function deactivate() {
   if (CustomCommandService && CustomCommandService.getInstance()) {
     CustomCommandService.getInstance().disposeFileWatcher()
   }
+  ContextSetService.getInstance().disposeFileWatcher()
+  FileIndexService.getInstance().disposeFileWatcher()
 }
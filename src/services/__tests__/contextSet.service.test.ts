@@ -0,0 +1,180 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import * as codyConstants from '../../constants/cody'
+import * as fileOperations from '../../core/filesystem/operations'
+import * as fileProcessor from '../../core/filesystem/processor'
+import { ContextSetService } from '../contextSet.service'
+import { TelemetryService } from '../telemetry.service'
+
+suite('ContextSetService Tests', () => {
+  const firstFolder = { uri: vscode.Uri.file('/fake/first'), name: 'first', index: 0 }
+  const secondFolder = { uri: vscode.Uri.file('/fake/second'), name: 'second', index: 1 }
+
+  let sandbox: sinon.SinonSandbox
+  let writeFileStub: sinon.SinonStub
+  let statStub: sinon.SinonStub
+  let getWorkspaceFileTreeStub: sinon.SinonStub
+  let treeFilter: sinon.SinonStub
+  let service: ContextSetService
+
+  const flushPromises = () => new Promise(resolve => setImmediate(resolve))
+  const writtenContent = () => JSON.parse(writeFileStub.lastCall.args[1])
+
+  setup(async () => {
+    sandbox = sinon.createSandbox()
+
+    sandbox.stub(vscode.workspace, 'workspaceFolders').value([firstFolder, secondFolder])
+    sandbox
+      .stub(codyConstants, 'getContextSetsPath')
+      .callsFake(
+        (folder: vscode.WorkspaceFolder) => `/fake/${folder.name}/.vscode/cody-context.json`
+      )
+
+    const readFileStub = sandbox.stub(fs.promises, 'readFile') as unknown as sinon.SinonStub
+    readFileStub.rejects(new Error('ENOENT'))
+    readFileStub.withArgs('/fake/first/.vscode/cody-context.json').resolves(
+      JSON.stringify({
+        'auth stack': { files: ['src/auth.ts', 'src/missing.ts'], globs: ['src/auth/**'] },
+        billing: { files: ['src/billing.ts'] }
+      })
+    )
+    writeFileStub = sandbox.stub(fs.promises, 'writeFile').resolves() as unknown as sinon.SinonStub
+    sandbox.stub(fs.promises, 'mkdir').resolves(undefined)
+
+    statStub = sandbox.stub().resolves({ type: vscode.FileType.File })
+    statStub.withArgs(sinon.match({ fsPath: '/fake/first/src/missing.ts' })).rejects(new Error())
+    sandbox.stub(vscode.workspace, 'fs').value({ stat: statStub })
+    treeFilter = sandbox.stub().returns(false)
+    sandbox.stub(fileProcessor, 'getFileTreeFilter').resolves(treeFilter)
+    getWorkspaceFileTreeStub = sandbox.stub(fileOperations, 'getWorkspaceFileTree').resolves([])
+
+    const mockFileWatcher = {
+      onDidChange: sandbox.stub(),
+      onDidCreate: sandbox.stub(),
+      onDidDelete: sandbox.stub(),
+      dispose: sandbox.stub()
+    }
+    sandbox.stub(vscode.workspace, 'createFileSystemWatcher').returns(mockFileWatcher as any)
+
+    sandbox.stub(TelemetryService, 'getInstance').returns({ trackEvent: sandbox.stub() } as any)
+
+    // Create a fresh instance for the stubbed workspace folders
+    ;(ContextSetService as any).instance = undefined
+    service = ContextSetService.getInstance()
+    await flushPromises()
+  })
+
+  teardown(() => {
+    service.disposeFileWatcher()
+    ;(ContextSetService as any).instance = undefined
+    sandbox.restore()
+  })
+
+  test('getInstance should return the same instance', () => {
+    assert.strictEqual(ContextSetService.getInstance(), service)
+  })
+
+  test('should load and group context sets per workspace folder', () => {
+    const folders = service.getContextSetsByFolder()
+
+    assert.deepStrictEqual(
+      folders.map(folder => [folder.folderName, Object.keys(folder.contextSets)]),
+      [
+        ['first', ['auth stack', 'billing']],
+        ['second', []]
+      ]
+    )
+    // Missing globs default to an empty list
+    assert.deepStrictEqual(service.getContextSet('billing')?.globs, [])
+  })
+
+  test('should save a context set to the cody-context.json of the given folder', async () => {
+    await service.saveContextSet(
+      'api',
+      { files: ['api/routes.ts'], globs: [] },
+      secondFolder.uri.toString()
+    )
+
+    assert.strictEqual(writeFileStub.lastCall.args[0], '/fake/second/.vscode/cody-context.json')
+    assert.deepStrictEqual(writtenContent(), { api: { files: ['api/routes.ts'], globs: [] } })
+    assert.ok(service.getContextSet('api', secondFolder.uri.toString()))
+  })
+
+  test('should rename a context set in the folder that defines it', async () => {
+    await service.renameContextSet('billing', 'billing API')
+
+    assert.strictEqual(writeFileStub.lastCall.args[0], '/fake/first/.vscode/cody-context.json')
+    assert.deepStrictEqual(Object.keys(writtenContent()), ['auth stack', 'billing API'])
+  })
+
+  test('should not rename a context set over an existing one', async () => {
+    await assert.rejects(
+      service.renameContextSet('billing', 'auth stack'),
+      /Context set "auth stack" already exists/
+    )
+    assert.strictEqual(writeFileStub.called, false)
+  })
+
+  test('should remove a context set', async () => {
+    await service.removeContextSet('auth stack')
+
+    assert.deepStrictEqual(Object.keys(writtenContent()), ['billing'])
+  })
+
+  test('should resolve existing files and globs against the filtered tree', async () => {
+    const entry = (relativePath: string, type: 'file' | 'directory' = 'file') => ({
+      path: `/fake/first/${relativePath}`,
+      type,
+      name: relativePath.split('/').pop()
+    })
+    getWorkspaceFileTreeStub.resolves([
+      entry('src', 'directory'),
+      entry('src/auth', 'directory'),
+      entry('src/auth/session.ts'),
+      entry('src/auth.ts'),
+      entry('src/billing.ts')
+    ])
+
+    const fileUris = await service.resolveContextSet('auth stack')
+
+    assert.deepStrictEqual(
+      fileUris.map(uri => uri.fsPath),
+      ['/fake/first/src/auth.ts', '/fake/first/src/auth/session.ts']
+    )
+    // The tree is scanned with the exclusions of the add commands
+    assert.strictEqual(getWorkspaceFileTreeStub.firstCall.args[0].fsPath, '/fake/first')
+    assert.strictEqual(getWorkspaceFileTreeStub.firstCall.args[1], treeFilter)
+  })
+
+  test('should not scan the tree for context sets without globs', async () => {
+    const fileUris = await service.resolveContextSet('billing')
+
+    assert.deepStrictEqual(
+      fileUris.map(uri => uri.fsPath),
+      ['/fake/first/src/billing.ts']
+    )
+    assert.strictEqual(getWorkspaceFileTreeStub.called, false)
+  })
+
+  test('should report write failures and keep the saved context sets', async () => {
+    writeFileStub.rejects(new Error('EACCES'))
+    const onChange = sandbox.stub()
+    service.onDidChangeContextSets(onChange)
+
+    await assert.rejects(
+      service.saveContextSet('api', { files: ['api.ts'], globs: [] }, firstFolder.uri.toString()),
+      /EACCES/
+    )
+    await assert.rejects(service.removeContextSet('billing'), /EACCES/)
+
+    assert.strictEqual(service.getContextSet('api'), undefined)
+    assert.ok(service.getContextSet('billing'))
+    assert.strictEqual(onChange.called, false)
+  })
+
+  test('should fail to resolve an unknown context set', async () => {
+    await assert.rejects(service.resolveContextSet('unknown'), /does not exist/)
+  })
+})
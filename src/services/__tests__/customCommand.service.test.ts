@@ -54,4 +54,88 @@ suite('CustomCommandService Tests', () => {
 
     assert.strictEqual(typeof commands, 'object')
   })
+
+  suite('multi-root workspaces', () => {
+    const firstFolder = { uri: vscode.Uri.file('/fake/first'), name: 'first', index: 0 }
+    const secondFolder = { uri: vscode.Uri.file('/fake/second'), name: 'second', index: 1 }
+    let writeFileStub: sinon.SinonStub
+    let service: CustomCommandService
+
+    const flushPromises = () => new Promise(resolve => setImmediate(resolve))
+
+    setup(async () => {
+      sandbox.stub(vscode.workspace, 'workspaceFolders').value([firstFolder, secondFolder])
+      ;(codyConstants.getCodyJsonPath as sinon.SinonStub).callsFake(
+        (folder: vscode.WorkspaceFolder) => `/fake/${folder.name}/.vscode/cody.json`
+      )
+
+      const readFileStub = fs.promises.readFile as unknown as sinon.SinonStub
+      readFileStub
+        .withArgs('/fake/first/.vscode/cody.json')
+        .resolves(JSON.stringify({ review: { prompt: 'Review' }, shared: { prompt: 'First' } }))
+      readFileStub
+        .withArgs('/fake/second/.vscode/cody.json')
+        .resolves(JSON.stringify({ explain: { prompt: 'Explain' }, shared: { prompt: 'Second' } }))
+      writeFileStub = fs.promises.writeFile as unknown as sinon.SinonStub
+      sandbox.stub(fs.promises, 'mkdir').resolves(undefined)
+
+      // Create a fresh instance for the stubbed workspace folders
+      ;(CustomCommandService as any).instance = undefined
+      service = CustomCommandService.getInstance()
+      await flushPromises()
+    })
+
+    teardown(() => {
+      service.disposeFileWatcher()
+      ;(CustomCommandService as any).instance = undefined
+    })
+
+    test('should load and group commands per workspace folder', () => {
+      const folders = service.getCommandsByFolder()
+
+      assert.deepStrictEqual(
+        folders.map(folder => [folder.folderName, Object.keys(folder.commands)]),
+        [
+          ['first', ['review', 'shared']],
+          ['second', ['explain', 'shared']]
+        ]
+      )
+      assert.strictEqual(folders[1].folderUri, secondFolder.uri.toString())
+    })
+
+    test('should watch the cody.json of every workspace folder', () => {
+      const createWatcherStub = vscode.workspace.createFileSystemWatcher as sinon.SinonStub
+
+      assert.strictEqual(createWatcherStub.callCount, 2)
+    })
+
+    test('should let the first folder win when merging commands', () => {
+      const commands = service.getCommands()
+
+      assert.deepStrictEqual(Object.keys(commands).sort(), ['explain', 'review', 'shared'])
+      assert.strictEqual(commands.shared.prompt, 'First')
+    })
+
+    test('should save commands to the cody.json of the given folder', async () => {
+      await service.addCommand('test', { prompt: 'Test' }, secondFolder.uri.toString())
+
+      assert.strictEqual(writeFileStub.firstCall.args[0], '/fake/second/.vscode/cody.json')
+      assert.deepStrictEqual(Object.keys(JSON.parse(writeFileStub.firstCall.args[1])), [
+        'explain',
+        'shared',
+        'test'
+      ])
+    })
+
+    test('should remove a command from the folder that defines it', async () => {
+      await service.removeCommand('explain')
+
+      assert.strictEqual(writeFileStub.firstCall.args[0], '/fake/second/.vscode/cody.json')
+      assert.strictEqual(await service.getCommand('explain'), undefined)
+      assert.strictEqual(
+        (await service.getCommand('shared', secondFolder.uri.toString()))?.prompt,
+        'Second'
+      )
+    })
+  })
 })
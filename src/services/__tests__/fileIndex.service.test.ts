@@ -0,0 +1,133 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import * as fileOperations from '../../core/filesystem/operations'
+import * as fileProcessor from '../../core/filesystem/processor'
+import { FileIndexService } from '../fileIndex.service'
+
+suite('FileIndexService Tests', () => {
+  const workspaceFolder = { uri: vscode.Uri.file('/fake/workspace'), name: 'workspace', index: 0 }
+  const uri = (relativePath: string) => vscode.Uri.joinPath(workspaceFolder.uri, relativePath)
+
+  let sandbox: sinon.SinonSandbox
+  let readDirectoryStub: sinon.SinonStub
+  let watcherHandlers: { [event: string]: (uri: vscode.Uri) => void }
+  let service: FileIndexService
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+
+    sandbox.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder])
+    sandbox
+      .stub(vscode.workspace, 'getWorkspaceFolder')
+      .callsFake((entryUri: vscode.Uri) =>
+        entryUri.fsPath.startsWith(workspaceFolder.uri.fsPath) ? workspaceFolder : undefined
+      )
+
+    readDirectoryStub = sandbox.stub().resolves([])
+    readDirectoryStub.withArgs(sinon.match({ fsPath: workspaceFolder.uri.fsPath })).resolves([
+      ['README.md', vscode.FileType.File],
+      ['src', vscode.FileType.Directory]
+    ])
+    readDirectoryStub
+      .withArgs(sinon.match({ fsPath: uri('src').fsPath }))
+      .resolves([['index.ts', vscode.FileType.File]])
+    sandbox.stub(vscode.workspace, 'fs').value({ readDirectory: readDirectoryStub })
+
+    watcherHandlers = {}
+    const mockFileWatcher = {
+      onDidChange: sandbox.stub(),
+      onDidCreate: (handler: (uri: vscode.Uri) => void) => (watcherHandlers.create = handler),
+      onDidDelete: (handler: (uri: vscode.Uri) => void) => (watcherHandlers.delete = handler),
+      dispose: sandbox.stub()
+    }
+    sandbox.stub(vscode.workspace, 'createFileSystemWatcher').returns(mockFileWatcher as any)
+
+    // Create a fresh index for the stubbed workspace
+    ;(FileIndexService as any).instance = undefined
+    service = FileIndexService.getInstance()
+  })
+
+  teardown(() => {
+    service.disposeFileWatcher()
+    sandbox.restore()
+  })
+
+  test('should read each workspace directory once', async () => {
+    await service.readDirectory(workspaceFolder.uri)
+    const entries = await service.readDirectory(workspaceFolder.uri)
+
+    assert.strictEqual(readDirectoryStub.callCount, 1)
+    assert.deepStrictEqual(entries, [
+      ['README.md', vscode.FileType.File],
+      ['src', vscode.FileType.Directory]
+    ])
+  })
+
+  test('should always read directories outside the workspace', async () => {
+    await service.readDirectory(vscode.Uri.file('/elsewhere'))
+    await service.readDirectory(vscode.Uri.file('/elsewhere'))
+
+    assert.strictEqual(readDirectoryStub.callCount, 2)
+  })
+
+  test('should serve the tree scans once active', async () => {
+    await fileOperations.getWorkspaceFileTree(workspaceFolder.uri)
+    const fileTree = await fileOperations.getWorkspaceFileTree(workspaceFolder.uri)
+
+    assert.deepStrictEqual(
+      fileTree.map(entry => entry.path),
+      [uri('README.md').fsPath, uri('src').fsPath, uri('src/index.ts').fsPath]
+    )
+    // The root and src directories were read by the first scan only
+    assert.strictEqual(readDirectoryStub.callCount, 2)
+  })
+
+  test('should read the directory of a created or deleted entry again', async () => {
+    await fileOperations.getWorkspaceFileTree(workspaceFolder.uri)
+    readDirectoryStub.resetHistory()
+
+    watcherHandlers.create(uri('src/login.ts'))
+    await fileOperations.getWorkspaceFileTree(workspaceFolder.uri)
+    assert.deepStrictEqual(
+      readDirectoryStub.getCalls().map(call => call.args[0].fsPath),
+      [uri('src').fsPath]
+    )
+
+    // Deleting a directory drops its listing and the listing of its parent
+    readDirectoryStub.resetHistory()
+    watcherHandlers.delete(uri('src'))
+    await service.readDirectory(workspaceFolder.uri)
+    await service.readDirectory(uri('src'))
+    assert.strictEqual(readDirectoryStub.callCount, 2)
+  })
+
+  test('should not keep failed reads', async () => {
+    readDirectoryStub
+      .withArgs(sinon.match({ fsPath: uri('private').fsPath }))
+      .onFirstCall()
+      .rejects(new Error('EACCES'))
+
+    await assert.rejects(service.readDirectory(uri('private')), /EACCES/)
+    await service.readDirectory(uri('private'))
+
+    assert.strictEqual(readDirectoryStub.callCount, 2)
+  })
+
+  test('should scan the workspace folders again on rebuild', async () => {
+    const getFileTreeFilterStub = sandbox
+      .stub(fileProcessor, 'getFileTreeFilter')
+      .resolves(entry => entry.name === 'README.md')
+    await service.readDirectory(workspaceFolder.uri)
+    readDirectoryStub.resetHistory()
+
+    const fileCount = await service.rebuild()
+
+    assert.strictEqual(fileCount, 1)
+    assert.strictEqual(getFileTreeFilterStub.calledOnceWith(workspaceFolder.uri), true)
+    assert.deepStrictEqual(
+      readDirectoryStub.getCalls().map(call => call.args[0].fsPath),
+      [workspaceFolder.uri.fsPath, uri('src').fsPath]
+    )
+  })
+})
@@ -0,0 +1,150 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as vscode from 'vscode'
+import { CONFIG_KEYS } from '../../core/llm/constants'
+import { getApiKey, setSecretStorage, storeApiKey } from '../../core/llm/secrets'
+import { ProviderProfile, ProviderProfileService } from '../providerProfile.service'
+
+suite('ProviderProfileService Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let state: Map<string, unknown>
+  let settings: Map<string, unknown>
+  let configUpdate: sinon.SinonStub
+  let service: ProviderProfileService
+
+  const fast: ProviderProfile = { name: 'fast', provider: 'openai', model: 'gpt-4o-mini' }
+  const local: ProviderProfile = {
+    name: 'local',
+    provider: 'ollama',
+    model: 'llama3.1',
+    baseUrl: 'http://gpu-box:11434'
+  }
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+
+    state = new Map()
+    const workspaceState = {
+      keys: () => [...state.keys()],
+      get: (key: string, defaultValue?: unknown) =>
+        state.has(key) ? state.get(key) : defaultValue,
+      update: async (key: string, value: unknown) => {
+        state.set(key, value)
+      }
+    }
+
+    // In-memory settings and secret storage
+    settings = new Map()
+    configUpdate = sandbox.stub().callsFake(async (key: string, value: unknown) => {
+      settings.set(key, value)
+    })
+    sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+      get: (key: string, defaultValue?: unknown) =>
+        settings.has(key) ? settings.get(key) : defaultValue,
+      update: configUpdate
+    } as any)
+    const secrets = new Map<string, string>()
+    setSecretStorage({
+      get: async (key: string) => secrets.get(key),
+      store: async (key: string, value: string) => void secrets.set(key, value),
+      delete: async (key: string) => void secrets.delete(key)
+    } as any as vscode.SecretStorage)
+
+    service = ProviderProfileService.initialize(workspaceState)
+  })
+
+  teardown(() => {
+    service.dispose()
+    setSecretStorage(undefined)
+    sandbox.restore()
+  })
+
+  test('should save profiles in the user settings with their own API key', async () => {
+    await service.saveProfile(fast, 'profile-key')
+    await service.saveProfile(local)
+    await service.saveProfile({ ...fast, model: 'gpt-4o' }, 'new-key')
+
+    assert.deepStrictEqual(service.getProfiles(), [local, { ...fast, model: 'gpt-4o' }])
+    assert.strictEqual(
+      configUpdate.lastCall.args[2],
+      vscode.ConfigurationTarget.Global,
+      'profiles are user settings'
+    )
+    assert.strictEqual(await service.getApiKey(service.getProfile('fast')!), 'new-key')
+  })
+
+  test('should skip invalid profiles of the settings', () => {
+    settings.set(CONFIG_KEYS.PROFILES, [
+      fast,
+      { name: '', provider: 'openai', model: 'gpt-4o' },
+      { name: 'unknown', provider: 'mistral', model: 'large' },
+      null
+    ])
+
+    assert.deepStrictEqual(service.getProfiles(), [fast])
+  })
+
+  test('should fall back to the key of the provider', async () => {
+    await storeApiKey('openai', 'provider-key')
+    await service.saveProfile(fast)
+
+    assert.deepStrictEqual(await service.getProviderOptions(fast), {
+      apiKey: 'provider-key',
+      baseUrl: undefined,
+      model: 'gpt-4o-mini',
+      resource: undefined,
+      deployment: undefined,
+      apiVersion: undefined
+    })
+  })
+
+  test('should use the default model of the profile provider, not the model setting', async () => {
+    settings.set(CONFIG_KEYS.MODEL, 'gpt-4o')
+
+    const options = await service.getProviderOptions({ ...local, model: '' })
+
+    assert.strictEqual(options.model, 'llama3.2')
+  })
+
+  test('should prefer the picked profile over the default profile', async () => {
+    const onChange = sandbox.stub()
+    service.onDidChangeActiveProfile(onChange)
+    settings.set(CONFIG_KEYS.PROFILES, [fast, local])
+    settings.set(CONFIG_KEYS.DEFAULT_PROFILE, 'local')
+
+    assert.strictEqual(service.getActiveProfile()?.name, 'local')
+
+    await service.setActiveProfile('fast')
+    assert.strictEqual(service.getActiveProfile()?.name, 'fast')
+
+    // Picking the provider settings also overrides the default
+    await service.setActiveProfile(undefined)
+    assert.strictEqual(service.getActiveProfile(), undefined)
+    assert.strictEqual(onChange.callCount, 2)
+  })
+
+  test('should set the default profile in the workspace settings', async () => {
+    settings.set(CONFIG_KEYS.PROFILES, [fast, local])
+    await service.setActiveProfile('fast')
+
+    await service.setWorkspaceDefaultProfile('local')
+
+    assert.deepStrictEqual(configUpdate.lastCall.args, [
+      CONFIG_KEYS.DEFAULT_PROFILE,
+      'local',
+      vscode.ConfigurationTarget.Workspace
+    ])
+    assert.strictEqual(service.getActiveProfile()?.name, 'local')
+  })
+
+  test('should delete a profile with its key and stop using it', async () => {
+    await service.saveProfile(fast, 'profile-key')
+    await service.setActiveProfile('fast')
+
+    await service.deleteProfile('fast')
+
+    assert.deepStrictEqual(service.getProfiles(), [])
+    assert.strictEqual(service.getActiveProfile(), undefined)
+    assert.strictEqual(await getApiKey('profile.fast'), undefined)
+  })
+})
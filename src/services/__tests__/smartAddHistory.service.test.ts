@@ -0,0 +1,84 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import { SmartAddHistoryService } from '../smartAddHistory.service'
+
+suite('SmartAddHistoryService Tests', () => {
+  let sandbox: sinon.SinonSandbox
+  let state: Map<string, unknown>
+  let service: SmartAddHistoryService
+
+  const run = (prompt: string) => ({
+    prompt,
+    rootUri: 'file:///workspace',
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    files: ['src/auth.ts']
+  })
+
+  setup(() => {
+    sandbox = sinon.createSandbox()
+    state = new Map()
+    const workspaceState = {
+      keys: () => [...state.keys()],
+      get: (key: string, defaultValue?: unknown) =>
+        state.has(key) ? state.get(key) : defaultValue,
+      update: async (key: string, value: unknown) => {
+        state.set(key, value)
+      }
+    }
+    service = SmartAddHistoryService.initialize(workspaceState)
+  })
+
+  teardown(() => {
+    sandbox.restore()
+  })
+
+  test('should store runs in the workspace state, the most recent first', async () => {
+    const onChange = sandbox.stub()
+    service.onDidChangeHistory(onChange)
+    sandbox.stub(Date, 'now').returns(1000)
+
+    const first = await service.addEntry(run('auth files'))
+    const second = await service.addEntry(run('billing files'))
+
+    assert.strictEqual(SmartAddHistoryService.getInstance(), service)
+    assert.deepStrictEqual(
+      service.getEntries().map(entry => entry.prompt),
+      ['billing files', 'auth files']
+    )
+    assert.notStrictEqual(first.id, second.id)
+    assert.deepStrictEqual(service.getEntry(first.id), {
+      ...run('auth files'),
+      id: first.id,
+      timestamp: 1000
+    })
+    assert.strictEqual(onChange.callCount, 2)
+  })
+
+  test('should keep only the most recent runs', async () => {
+    for (let index = 0; index < 55; index++) {
+      await service.addEntry(run(`prompt ${index}`))
+    }
+
+    const entries = service.getEntries()
+    assert.strictEqual(entries.length, 50)
+    assert.strictEqual(entries[0].prompt, 'prompt 54')
+  })
+
+  test('should update the files of a run, remove runs and clear the history', async () => {
+    const first = await service.addEntry(run('auth files'))
+    const second = await service.addEntry(run('billing files'))
+
+    await service.updateFiles(first.id, ['src/auth.ts', 'src/session.ts'])
+    assert.deepStrictEqual(service.getEntry(first.id)?.files, ['src/auth.ts', 'src/session.ts'])
+
+    await service.removeEntry(second.id)
+    assert.deepStrictEqual(
+      service.getEntries().map(entry => entry.id),
+      [first.id]
+    )
+
+    await service.clear()
+    assert.deepStrictEqual(service.getEntries(), [])
+  })
+})
@@ -0,0 +1,285 @@
+import * as fs from 'fs'
+import { minimatch } from 'minimatch'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { z } from 'zod'
+import { CODY_CONTEXT_SETS_FILE, getContextSetsPath } from '../constants/cody'
+import { TELEMETRY_EVENTS } from '../constants/telemetry'
+import { getWorkspaceFileTree } from '../core/filesystem/operations'
+import { getFileTreeFilter } from '../core/filesystem/processor'
+import { toGlobPath } from '../core/filesystem/validation'
+import { TelemetryService } from './telemetry.service'
+
+export const ContextSetSchema = z.object({
+  description: z.string().optional(),
+  /** File paths relative to the workspace folder */
+  files: z.array(z.string()).default([]),
+  /** Glob patterns relative to the workspace folder, resolved each time the set is added */
+  globs: z.array(z.string()).default([])
+})
+
+export const ContextSetsSchema = z.record(z.string(), ContextSetSchema)
+
+export type ContextSet = z.infer<typeof ContextSetSchema>
+type ContextSets = z.infer<typeof ContextSetsSchema>
+
+/**
+ * Context sets defined in the cody-context.json file of one workspace folder
+ */
+export interface WorkspaceFolderContextSets {
+  /** URI of the workspace folder, as a string */
+  folderUri: string
+  folderName: string
+  contextSets: ContextSets
+}
+
+export class ContextSetService {
+  private static instance: ContextSetService
+  /** Context sets keyed by workspace folder URI */
+  private contextSetsByFolder = new Map<string, ContextSets>()
+  /** cody-context.json watchers keyed by workspace folder URI */
+  private fileWatchers = new Map<string, vscode.FileSystemWatcher>()
+  private workspaceFoldersListener: vscode.Disposable | undefined
+  private _onDidChangeContextSets: vscode.EventEmitter<void> = new vscode.EventEmitter<void>()
+  public readonly onDidChangeContextSets: vscode.Event<void> = this._onDidChangeContextSets.event
+  private telemetry = TelemetryService.getInstance()
+
+  private constructor() {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      this.addWorkspaceFolder(folder)
+    }
+
+    this.workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(
+      ({ added, removed }) => {
+        removed.forEach(folder => this.removeWorkspaceFolder(folder))
+        added.forEach(folder => this.addWorkspaceFolder(folder))
+        this._onDidChangeContextSets.fire()
+      }
+    )
+  }
+
+  public static getInstance(): ContextSetService {
+    if (!ContextSetService.instance) {
+      ContextSetService.instance = new ContextSetService()
+    }
+    return ContextSetService.instance
+  }
+
+  private addWorkspaceFolder(folder: vscode.WorkspaceFolder) {
+    this.loadContextSets(folder)
+    this.setupFileWatcher(folder)
+  }
+
+  private removeWorkspaceFolder(folder: vscode.WorkspaceFolder) {
+    const key = folder.uri.toString()
+    this.contextSetsByFolder.delete(key)
+    this.fileWatchers.get(key)?.dispose()
+    this.fileWatchers.delete(key)
+  }
+
+  private async loadContextSets(folder: vscode.WorkspaceFolder) {
+    const contextSetsPath = getContextSetsPath(folder)
+
+    try {
+      const fileContent = await fs.promises.readFile(contextSetsPath, 'utf-8')
+      const validationResult = ContextSetsSchema.safeParse(JSON.parse(fileContent))
+
+      if (!validationResult.success) {
+        vscode.window.showErrorMessage(
+          `Invalid ${CODY_CONTEXT_SETS_FILE} format in "${folder.name}".`
+        )
+        console.error(validationResult.error)
+        return
+      }
+
+      this.contextSetsByFolder.set(folder.uri.toString(), validationResult.data)
+      this._onDidChangeContextSets.fire()
+    } catch (error: any) {
+      // A deleted cody-context.json leaves the folder without context sets
+      if (this.contextSetsByFolder.delete(folder.uri.toString())) {
+        this._onDidChangeContextSets.fire()
+      }
+      console.error(
+        `CODY++: Failed to load ${CODY_CONTEXT_SETS_FILE} in "${folder.name}": ${error.message}`
+      )
+    }
+  }
+
+  private setupFileWatcher(folder: vscode.WorkspaceFolder) {
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(folder, `.vscode/${CODY_CONTEXT_SETS_FILE}`)
+    )
+
+    fileWatcher.onDidChange(() => this.loadContextSets(folder))
+    fileWatcher.onDidCreate(() => this.loadContextSets(folder))
+    fileWatcher.onDidDelete(() => this.loadContextSets(folder))
+
+    this.fileWatchers.set(folder.uri.toString(), fileWatcher)
+  }
+
+  public disposeFileWatcher() {
+    this.fileWatchers.forEach(fileWatcher => fileWatcher.dispose())
+    this.fileWatchers.clear()
+    this.workspaceFoldersListener?.dispose()
+    this.workspaceFoldersListener = undefined
+  }
+
+  /**
+   * Get the context sets grouped by workspace folder, in workspace folder order
+   */
+  public getContextSetsByFolder(): WorkspaceFolderContextSets[] {
+    return (vscode.workspace.workspaceFolders ?? []).map(folder => ({
+      folderUri: folder.uri.toString(),
+      folderName: folder.name,
+      contextSets: this.contextSetsByFolder.get(folder.uri.toString()) ?? {}
+    }))
+  }
+
+  public getContextSet(name: string, folderUri?: string): ContextSet | undefined {
+    const folder = this.resolveWorkspaceFolder(folderUri, name)
+    return folder && this.contextSetsByFolder.get(folder.uri.toString())?.[name]
+  }
+
+  public async saveContextSet(
+    name: string,
+    contextSet: ContextSet,
+    folderUri?: string
+  ): Promise<void> {
+    const folder = this.resolveWorkspaceFolder(folderUri)
+    if (!folder) {
+      throw new Error('No workspace folder is open.')
+    }
+
+    await this.writeContextSets(folder, {
+      ...this.contextSetsByFolder.get(folder.uri.toString()),
+      [name]: contextSet
+    })
+    this._onDidChangeContextSets.fire()
+    this.telemetry.trackEvent(TELEMETRY_EVENTS.CONTEXT_SETS.SAVED, {
+      fileCount: contextSet.files.length,
+      globCount: contextSet.globs.length
+    })
+  }
+
+  public async renameContextSet(oldName: string, newName: string, folderUri?: string) {
+    const folder = this.resolveWorkspaceFolder(folderUri, oldName)
+    const contextSets = folder && this.contextSetsByFolder.get(folder.uri.toString())
+    if (!folder || !contextSets?.[oldName]) {
+      throw new Error(`Context set "${oldName}" does not exist.`)
+    }
+    if (contextSets[newName]) {
+      throw new Error(`Context set "${newName}" already exists.`)
+    }
+
+    const { [oldName]: renamed, ...others } = contextSets
+    await this.writeContextSets(folder, { ...others, [newName]: renamed })
+    this._onDidChangeContextSets.fire()
+  }
+
+  public async removeContextSet(name: string, folderUri?: string): Promise<void> {
+    const folder = this.resolveWorkspaceFolder(folderUri, name)
+    const contextSets = folder && this.contextSetsByFolder.get(folder.uri.toString())
+    if (folder && contextSets?.[name]) {
+      await this.writeContextSets(
+        folder,
+        Object.fromEntries(Object.entries(contextSets).filter(([key]) => key !== name))
+      )
+      this._onDidChangeContextSets.fire()
+      this.telemetry.trackEvent(TELEMETRY_EVENTS.CONTEXT_SETS.DELETED)
+    } else {
+      console.error(`CODY++: Context set ${name} does not exist.`)
+    }
+  }
+
+  /**
+   * Resolve a context set to the files it currently covers: its saved files that still
+   * exist and the files matching its globs in the current workspace tree
+   * @param name Name of the context set
+   * @param folderUri URI of the workspace folder owning the set, if known
+   * @returns The file URIs, without duplicates
+   */
+  public async resolveContextSet(name: string, folderUri?: string): Promise<vscode.Uri[]> {
+    const folder = this.resolveWorkspaceFolder(folderUri, name)
+    const contextSet = folder && this.contextSetsByFolder.get(folder.uri.toString())?.[name]
+    if (!folder || !contextSet) {
+      throw new Error(`Context set "${name}" does not exist.`)
+    }
+
+    const fileUris: vscode.Uri[] = []
+    for (const file of contextSet.files) {
+      const fileUri = vscode.Uri.joinPath(folder.uri, file)
+      try {
+        await vscode.workspace.fs.stat(fileUri)
+        fileUris.push(fileUri)
+      } catch {
+        console.log(`CODY++: Skipping missing file ${file} of context set ${name}`)
+      }
+    }
+    if (contextSet.globs.length > 0) {
+      // Globs are matched against the tree the add commands collect from, so excluded
+      // folders and gitignored files are left out like when adding a folder
+      const fileTree = await getWorkspaceFileTree(folder.uri, await getFileTreeFilter(folder.uri))
+      for (const entry of fileTree) {
+        const relativePath = toGlobPath(path.relative(folder.uri.fsPath, entry.path))
+        if (
+          entry.type === 'file' &&
+          contextSet.globs.some(glob => minimatch(relativePath, glob, { dot: true }))
+        ) {
+          fileUris.push(vscode.Uri.file(entry.path))
+        }
+      }
+    }
+
+    const seenPaths = new Set<string>()
+    return fileUris.filter(uri => !seenPaths.has(uri.fsPath) && seenPaths.add(uri.fsPath))
+  }
+
+  /**
+   * Find the workspace folder a context set belongs to
+   * @param folderUri URI of the workspace folder, if known
+   * @param name Context set to look for when no folder is given
+   * @returns The given folder, else the first folder defining the set, else the first folder
+   */
+  private resolveWorkspaceFolder(
+    folderUri?: string,
+    name?: string
+  ): vscode.WorkspaceFolder | undefined {
+    const folders = vscode.workspace.workspaceFolders ?? []
+    if (folderUri) {
+      return folders.find(folder => folder.uri.toString() === folderUri)
+    }
+    if (name) {
+      const owner = folders.find(
+        folder => this.contextSetsByFolder.get(folder.uri.toString())?.[name]
+      )
+      if (owner) {
+        return owner
+      }
+    }
+    return folders[0]
+  }
+
+  /**
+   * Write the context sets of a workspace folder to its cody-context.json, keeping them
+   * in memory only once they are written
+   * @param folder The workspace folder
+   * @param contextSets All the context sets of the folder
+   */
+  private async writeContextSets(
+    folder: vscode.WorkspaceFolder,
+    contextSets: ContextSets
+  ): Promise<void> {
+    const contextSetsPath = getContextSetsPath(folder)
+
+    try {
+      const fileContent = JSON.stringify(contextSets, null, 2)
+      await fs.promises.mkdir(path.dirname(contextSetsPath), { recursive: true })
+      await fs.promises.writeFile(contextSetsPath, fileContent, 'utf-8')
+    } catch (error: any) {
+      console.error(`CODY++: Failed to save ${CODY_CONTEXT_SETS_FILE}: ${error.message}`)
+      throw error
+    }
+    this.contextSetsByFolder.set(folder.uri.toString(), contextSets)
+  }
+}
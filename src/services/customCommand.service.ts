@@ -1,4 +1,5 @@
 import * as fs from 'fs'
+import * as path from 'path'
 import * as vscode from 'vscode'
 
 import { z } from 'zod'
@@ -45,17 +46,39 @@ export type CreateCustomCommand = z.infer<typeof CreateCommandSchema>
 export type UpdateCustomCommand = z.infer<typeof UpdateCommandSchema>
 type CustomCommands = z.infer<typeof CustomCommandsSchema>
 
+/**
+ * Custom commands defined in the cody.json file of one workspace folder
+ */
+export interface WorkspaceFolderCommands {
+  /** URI of the workspace folder, as a string */
+  folderUri: string
+  folderName: string
+  commands: CustomCommands
+}
+
 export class CustomCommandService {
   private static instance: CustomCommandService
-  private commands: CustomCommands = {}
-  private fileWatcher: vscode.FileSystemWatcher | undefined
+  /** Commands keyed by workspace folder URI */
+  private commandsByFolder = new Map<string, CustomCommands>()
+  /** cody.json watchers keyed by workspace folder URI */
+  private fileWatchers = new Map<string, vscode.FileSystemWatcher>()
+  private workspaceFoldersListener: vscode.Disposable | undefined
   private _onDidChangeCommands: vscode.EventEmitter<void> = new vscode.EventEmitter<void>()
   public readonly onDidChangeCommands: vscode.Event<void> = this._onDidChangeCommands.event
   private telemetry = TelemetryService.getInstance()
 
   private constructor() {
-    this.loadCommands()
-    this.setupFileWatcher()
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      this.addWorkspaceFolder(folder)
+    }
+
+    this.workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(
+      ({ added, removed }) => {
+        removed.forEach(folder => this.removeWorkspaceFolder(folder))
+        added.forEach(folder => this.addWorkspaceFolder(folder))
+        this._onDidChangeCommands.fire()
+      }
+    )
   }
 
   public static getInstance(): CustomCommandService {
@@ -65,12 +88,20 @@ export class CustomCommandService {
     return CustomCommandService.instance
   }
 
-  private async loadCommands() {
-    const codyJsonPath = getCodyJsonPath()
+  private addWorkspaceFolder(folder: vscode.WorkspaceFolder) {
+    this.loadCommands(folder)
+    this.setupFileWatcher(folder)
+  }
 
-    if (!codyJsonPath) {
-      return
-    }
+  private removeWorkspaceFolder(folder: vscode.WorkspaceFolder) {
+    const key = folder.uri.toString()
+    this.commandsByFolder.delete(key)
+    this.fileWatchers.get(key)?.dispose()
+    this.fileWatchers.delete(key)
+  }
+
+  private async loadCommands(folder: vscode.WorkspaceFolder) {
+    const codyJsonPath = getCodyJsonPath(folder)
 
     try {
       const fileContent = await fs.promises.readFile(codyJsonPath, 'utf-8')
@@ -78,46 +109,76 @@ export class CustomCommandService {
       const validationResult = CustomCommandsSchema.safeParse(parsedCommands)
 
       if (!validationResult.success) {
-        vscode.window.showErrorMessage(`Invalid ${CODY_CUSTOM_COMMANDS_FILE} format.`)
+        vscode.window.showErrorMessage(
+          `Invalid ${CODY_CUSTOM_COMMANDS_FILE} format in "${folder.name}".`
+        )
         console.error(validationResult.error)
         return
       }
 
-      this.commands = validationResult.data
+      this.commandsByFolder.set(folder.uri.toString(), validationResult.data)
       this._onDidChangeCommands?.fire()
     } catch (error: any) {
-      console.error(`CODY++: Failed to load ${CODY_CUSTOM_COMMANDS_FILE}: ${error.message}`)
+      // A deleted cody.json leaves the folder without commands
+      if (this.commandsByFolder.delete(folder.uri.toString())) {
+        this._onDidChangeCommands?.fire()
+      }
+      console.error(
+        `CODY++: Failed to load ${CODY_CUSTOM_COMMANDS_FILE} in "${folder.name}": ${error.message}`
+      )
     }
   }
 
-  private setupFileWatcher() {
-    const codyJsonPath = getCodyJsonPath()
+  private setupFileWatcher(folder: vscode.WorkspaceFolder) {
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(folder, `.vscode/${CODY_CUSTOM_COMMANDS_FILE}`)
+    )
 
-    if (!codyJsonPath) {
-      return
-    }
-
-    this.fileWatcher = vscode.workspace.createFileSystemWatcher(codyJsonPath)
+    fileWatcher.onDidChange(() => this.loadCommands(folder))
+    fileWatcher.onDidCreate(() => this.loadCommands(folder))
+    fileWatcher.onDidDelete(() => this.loadCommands(folder))
 
-    this.fileWatcher.onDidChange(() => this.loadCommands())
-    this.fileWatcher.onDidCreate(() => this.loadCommands())
-    this.fileWatcher.onDidDelete(() => this.loadCommands())
+    this.fileWatchers.set(folder.uri.toString(), fileWatcher)
   }
 
   public disposeFileWatcher() {
-    if (this.fileWatcher) {
-      this.fileWatcher.dispose()
-      this.fileWatcher = undefined
-    }
+    this.fileWatchers.forEach(fileWatcher => fileWatcher.dispose())
+    this.fileWatchers.clear()
+    this.workspaceFoldersListener?.dispose()
+    this.workspaceFoldersListener = undefined
   }
 
+  /**
+   * Get the commands of all workspace folders. When several folders define the same
+   * command id, the first folder wins.
+   */
   public getCommands(): CustomCommands {
-    return this.commands
+    return this.getCommandsByFolder().reduceRight<CustomCommands>(
+      (commands, folder) => ({ ...commands, ...folder.commands }),
+      {}
+    )
   }
 
-  public async addCommand(id: string, command: CustomCommand): Promise<void> {
-    this.commands[id] = command
-    await this.saveCommands()
+  /**
+   * Get the commands grouped by workspace folder, in workspace folder order
+   */
+  public getCommandsByFolder(): WorkspaceFolderCommands[] {
+    return (vscode.workspace.workspaceFolders ?? []).map(folder => ({
+      folderUri: folder.uri.toString(),
+      folderName: folder.name,
+      commands: this.commandsByFolder.get(folder.uri.toString()) ?? {}
+    }))
+  }
+
+  public async addCommand(id: string, command: CustomCommand, folderUri?: string): Promise<void> {
+    const folder = this.resolveWorkspaceFolder(folderUri)
+    if (!folder) {
+      throw new Error('No workspace folder is open.')
+    }
+
+    const commands = this.getFolderCommands(folder)
+    commands[id] = command
+    await this.saveCommands(folder)
     this._onDidChangeCommands.fire()
     this.telemetry.trackEvent(TELEMETRY_EVENTS.CUSTOM_COMMANDS.CREATED, {
       commandMode: command.mode,
@@ -125,27 +186,38 @@ export class CustomCommandService {
     })
   }
 
-  public async getCommand(id: string): Promise<CustomCommand> {
-    return this.commands[id]
+  public async getCommand(id: string, folderUri?: string): Promise<CustomCommand | undefined> {
+    const folder = this.resolveWorkspaceFolder(folderUri, id)
+    return folder && this.commandsByFolder.get(folder.uri.toString())?.[id]
   }
 
-  public async updateCommand({ id, oldId, data }: UpdateCustomCommand): Promise<void> {
+  public async updateCommand(
+    { id, oldId, data }: UpdateCustomCommand,
+    folderUri?: string
+  ): Promise<void> {
+    const folder = this.resolveWorkspaceFolder(folderUri, oldId ?? id)
+    if (!folder) {
+      throw new Error('No workspace folder is open.')
+    }
+
     // If id !== oldId, we need to delete the old command and add the new one
     if (oldId && id !== oldId) {
-      await this.removeCommand(oldId)
-      await this.addCommand(id, data)
+      await this.removeCommand(oldId, folder.uri.toString())
+      await this.addCommand(id, data, folder.uri.toString())
       return
     }
 
-    this.commands[id] = data
-    await this.saveCommands()
+    this.getFolderCommands(folder)[id] = data
+    await this.saveCommands(folder)
     this._onDidChangeCommands.fire()
   }
 
-  public async removeCommand(id: string): Promise<void> {
-    if (this.commands[id]) {
-      delete this.commands[id]
-      await this.saveCommands()
+  public async removeCommand(id: string, folderUri?: string): Promise<void> {
+    const folder = this.resolveWorkspaceFolder(folderUri, id)
+    const commands = folder && this.commandsByFolder.get(folder.uri.toString())
+    if (folder && commands?.[id]) {
+      delete commands[id]
+      await this.saveCommands(folder)
       this._onDidChangeCommands.fire()
       this.telemetry.trackEvent(TELEMETRY_EVENTS.CUSTOM_COMMANDS.DELETED)
     } else {
@@ -153,15 +225,47 @@ export class CustomCommandService {
     }
   }
 
-  private async saveCommands(): Promise<void> {
-    const codyJsonPath = getCodyJsonPath()
+  /**
+   * Find the workspace folder a command belongs to
+   * @param folderUri URI of the workspace folder, if known
+   * @param commandId Command to look for when no folder is given
+   * @returns The given folder, else the first folder defining the command, else the first folder
+   */
+  private resolveWorkspaceFolder(
+    folderUri?: string,
+    commandId?: string
+  ): vscode.WorkspaceFolder | undefined {
+    const folders = vscode.workspace.workspaceFolders ?? []
+    if (folderUri) {
+      return folders.find(folder => folder.uri.toString() === folderUri)
+    }
+    if (commandId) {
+      const owner = folders.find(
+        folder => this.commandsByFolder.get(folder.uri.toString())?.[commandId]
+      )
+      if (owner) {
+        return owner
+      }
+    }
+    return folders[0]
+  }
 
-    if (!codyJsonPath) {
-      return
+  private getFolderCommands(folder: vscode.WorkspaceFolder): CustomCommands {
+    const key = folder.uri.toString()
+    let commands = this.commandsByFolder.get(key)
+    if (!commands) {
+      commands = {}
+      this.commandsByFolder.set(key, commands)
     }
+    return commands
+  }
+
+  private async saveCommands(folder: vscode.WorkspaceFolder): Promise<void> {
+    const codyJsonPath = getCodyJsonPath(folder)
 
     try {
-      const fileContent = JSON.stringify(this.commands, null, 2)
+      const fileContent = JSON.stringify(this.getFolderCommands(folder), null, 2)
+      await fs.promises.mkdir(path.dirname(codyJsonPath), { recursive: true })
       await fs.promises.writeFile(codyJsonPath, fileContent, 'utf-8')
     } catch (error: any) {
       console.error(`CODY++: Failed to save ${CODY_CUSTOM_COMMANDS_FILE}: ${error.message}`)
@@ -169,7 +273,9 @@ export class CustomCommandService {
   }
 
   public refreshCommands(): void {
-    this.loadCommands()
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      this.loadCommands(folder)
+    }
   }
 
   public async executeCommand(id: string): Promise<void> {
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode'
+import { clearGitignoreFilterCache } from '../core/filesystem/gitignore'
+import { getWorkspaceFileTree, setDirectoryReader } from '../core/filesystem/operations'
+import { getFileTreeFilter } from '../core/filesystem/processor'
+
+type DirectoryEntries = [string, vscode.FileType][]
+
+/**
+ * Index of the workspace file tree. Directory listings are read once and kept in memory,
+ * so Smart Add and the folder commands don't walk the file system on every run. A file
+ * system watcher drops the listings of the directories whose entries changed.
+ */
+export class FileIndexService {
+  private static instance: FileIndexService
+  /** Directory listings keyed by directory URI */
+  private directories = new Map<string, Promise<DirectoryEntries>>()
+  private fileWatcher: vscode.FileSystemWatcher | undefined
+  private workspaceFoldersListener: vscode.Disposable | undefined
+
+  private constructor() {
+    this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*')
+    // Edited files don't change directory listings, only created and deleted entries do
+    this.fileWatcher.onDidCreate(uri => this.invalidate(uri))
+    this.fileWatcher.onDidDelete(uri => this.invalidate(uri))
+
+    this.workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(({ removed }) =>
+      removed.forEach(folder => this.invalidateTree(folder.uri))
+    )
+
+    setDirectoryReader(uri => this.readDirectory(uri))
+  }
+
+  public static getInstance(): FileIndexService {
+    if (!FileIndexService.instance) {
+      FileIndexService.instance = new FileIndexService()
+    }
+    return FileIndexService.instance
+  }
+
+  /**
+   * Read the entries of a directory, from the index when it was read before.
+   * Directories outside the workspace are not watched, so they are always read.
+   * @param uri The directory to read
+   */
+  public readDirectory(uri: vscode.Uri): Promise<DirectoryEntries> {
+    if (!vscode.workspace.getWorkspaceFolder(uri)) {
+      return Promise.resolve(vscode.workspace.fs.readDirectory(uri))
+    }
+
+    const key = uri.toString()
+    const cached = this.directories.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const entries = Promise.resolve(vscode.workspace.fs.readDirectory(uri))
+    this.directories.set(key, entries)
+    // Don't keep failed reads, the directory may be readable next time
+    entries.catch(() => {
+      if (this.directories.get(key) === entries) {
+        this.directories.delete(key)
+      }
+    })
+    return entries
+  }
+
+  /**
+   * Drop the listing of the directory containing a created or deleted entry, and the
+   * listings below the entry itself when it was a directory
+   * @param uri URI of the created or deleted entry
+   */
+  public invalidate(uri: vscode.Uri) {
+    this.directories.delete(vscode.Uri.joinPath(uri, '..').toString())
+    this.invalidateTree(uri)
+  }
+
+  /**
+   * Drop the whole index and scan the workspace folders again, applying the same
+   * exclusions as when adding files
+   * @returns The number of files found in the workspace folders
+   */
+  public async rebuild(): Promise<number> {
+    this.directories.clear()
+    clearGitignoreFilterCache()
+
+    let fileCount = 0
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const fileTree = await getWorkspaceFileTree(folder.uri, await getFileTreeFilter(folder.uri))
+      fileCount += fileTree.filter(entry => entry.type === 'file').length
+    }
+    return fileCount
+  }
+
+  public disposeFileWatcher() {
+    this.fileWatcher?.dispose()
+    this.fileWatcher = undefined
+    this.workspaceFoldersListener?.dispose()
+    this.workspaceFoldersListener = undefined
+    this.directories.clear()
+    setDirectoryReader(undefined)
+  }
+
+  /**
+   * Drop the listings of a directory and of every directory below it
+   */
+  private invalidateTree(uri: vscode.Uri) {
+    const key = uri.toString()
+    const prefix = key.endsWith('/') ? key : `${key}/`
+    for (const cachedKey of [...this.directories.keys()]) {
+      if (cachedKey === key || cachedKey.startsWith(prefix)) {
+        this.directories.delete(cachedKey)
+      }
+    }
+  }
+}
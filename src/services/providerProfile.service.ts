@@ -0,0 +1,200 @@
+import * as vscode from 'vscode'
+import { ProviderOptions } from '../core/llm'
+import { CONFIG_KEYS, SUPPORTED_PROVIDERS, SUPPORTED_PROVIDER_CODES } from '../core/llm/constants'
+import { getApiKey, storeApiKey } from '../core/llm/secrets'
+import { AzureOpenAIConfig } from '../utils/workspace-config'
+
+/** Key of the profile picked in the status bar, in the workspace state */
+const ACTIVE_PROFILE_STATE_KEY = 'codyPlusPlus.activeLlmProfile'
+
+/**
+ * A named set of provider settings for Smart Add, e.g. a cheap model for everyday requests
+ * and a strong one for hard queries. Its API key is kept in its own secret.
+ */
+export interface ProviderProfile {
+  name: string
+  provider: SUPPORTED_PROVIDER_CODES
+  model: string
+  /** Base URL of an OpenAI-compatible endpoint or an Ollama server */
+  baseUrl?: string
+  /** Resource, deployment and API version of an Azure OpenAI profile */
+  azure?: Partial<AzureOpenAIConfig>
+}
+
+/**
+ * Get the owner of the secret holding the API key of a profile, stored next to the
+ * secrets of the providers
+ */
+const getProfileSecretOwner = (name: string) => `profile.${name}`
+
+export class ProviderProfileService {
+  private static instance: ProviderProfileService
+  private _onDidChangeActiveProfile: vscode.EventEmitter<void> = new vscode.EventEmitter<void>()
+  public readonly onDidChangeActiveProfile: vscode.Event<void> =
+    this._onDidChangeActiveProfile.event
+  private configListener: vscode.Disposable
+
+  private constructor(private readonly workspaceState: vscode.Memento) {
+    // The profiles, the workspace default and the provider settings shown when no profile
+    // is active are edited in the settings too
+    this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (
+        [
+          CONFIG_KEYS.PROFILES,
+          CONFIG_KEYS.DEFAULT_PROFILE,
+          CONFIG_KEYS.PROVIDER,
+          CONFIG_KEYS.MODEL
+        ].some(key => event.affectsConfiguration(`codyPlusPlus.${key}`))
+      ) {
+        this._onDidChangeActiveProfile.fire()
+      }
+    })
+  }
+
+  /**
+   * Create the service on activation, storing the profile picked for the workspace in
+   * the workspace state
+   * @param workspaceState The workspace state of the extension context
+   */
+  public static initialize(workspaceState: vscode.Memento): ProviderProfileService {
+    ProviderProfileService.instance?.dispose()
+    ProviderProfileService.instance = new ProviderProfileService(workspaceState)
+    return ProviderProfileService.instance
+  }
+
+  public static getInstance(): ProviderProfileService {
+    if (!ProviderProfileService.instance) {
+      throw new Error('The provider profiles are not initialized.')
+    }
+    return ProviderProfileService.instance
+  }
+
+  /**
+   * Get the profiles of the user settings, skipping entries without a name or with an
+   * unknown provider
+   */
+  public getProfiles(): ProviderProfile[] {
+    const profiles = vscode.workspace
+      .getConfiguration('codyPlusPlus')
+      .get<ProviderProfile[]>(CONFIG_KEYS.PROFILES, [])
+    return (Array.isArray(profiles) ? profiles : []).filter(
+      profile =>
+        typeof profile?.name === 'string' &&
+        profile.name.trim() !== '' &&
+        SUPPORTED_PROVIDERS.some(details => details.code === profile.provider)
+    )
+  }
+
+  public getProfile(name: string): ProviderProfile | undefined {
+    return this.getProfiles().find(profile => profile.name === name)
+  }
+
+  /**
+   * Get the name of the default profile of the workspace, from the workspace settings or
+   * the user settings
+   */
+  public getDefaultProfileName(): string | undefined {
+    return (
+      vscode.workspace.getConfiguration('codyPlusPlus').get<string>(CONFIG_KEYS.DEFAULT_PROFILE) ||
+      undefined
+    )
+  }
+
+  /**
+   * Get the profile used by Smart Add: the profile picked for the workspace, else the
+   * default profile. Without either, Smart Add uses the provider settings.
+   */
+  public getActiveProfile(): ProviderProfile | undefined {
+    const picked = this.workspaceState.get<string>(ACTIVE_PROFILE_STATE_KEY)
+    // An empty name records that the provider settings were picked over the default
+    const name = picked ?? this.getDefaultProfileName()
+    return name ? this.getProfile(name) : undefined
+  }
+
+  /**
+   * Switch the profile of the workspace
+   * @param name The profile, or undefined to use the provider settings
+   */
+  public async setActiveProfile(name: string | undefined): Promise<void> {
+    await this.workspaceState.update(ACTIVE_PROFILE_STATE_KEY, name ?? '')
+    this._onDidChangeActiveProfile.fire()
+  }
+
+  /**
+   * Set the default profile in the workspace settings, used until another profile is
+   * picked in the workspace
+   * @param name The profile, or undefined to clear the workspace default
+   */
+  public async setWorkspaceDefaultProfile(name: string | undefined): Promise<void> {
+    await vscode.workspace
+      .getConfiguration('codyPlusPlus')
+      .update(CONFIG_KEYS.DEFAULT_PROFILE, name, vscode.ConfigurationTarget.Workspace)
+    // Follow the new default rather than an earlier pick
+    await this.workspaceState.update(ACTIVE_PROFILE_STATE_KEY, undefined)
+    this._onDidChangeActiveProfile.fire()
+  }
+
+  /**
+   * Add a profile to the user settings, replacing the profile of the same name
+   * @param profile The profile
+   * @param apiKey The API key of the profile, stored in its own secret
+   */
+  public async saveProfile(profile: ProviderProfile, apiKey?: string): Promise<void> {
+    const profiles = this.getProfiles().filter(existing => existing.name !== profile.name)
+    await vscode.workspace
+      .getConfiguration('codyPlusPlus')
+      .update(CONFIG_KEYS.PROFILES, [...profiles, profile], vscode.ConfigurationTarget.Global)
+    await storeApiKey(getProfileSecretOwner(profile.name), apiKey ?? '')
+    this._onDidChangeActiveProfile.fire()
+  }
+
+  /**
+   * Remove a profile from the user settings with its secret
+   * @param name The profile
+   */
+  public async deleteProfile(name: string): Promise<void> {
+    const profiles = this.getProfiles().filter(profile => profile.name !== name)
+    await vscode.workspace
+      .getConfiguration('codyPlusPlus')
+      .update(CONFIG_KEYS.PROFILES, profiles, vscode.ConfigurationTarget.Global)
+    await storeApiKey(getProfileSecretOwner(name), '')
+    if (this.workspaceState.get<string>(ACTIVE_PROFILE_STATE_KEY) === name) {
+      await this.workspaceState.update(ACTIVE_PROFILE_STATE_KEY, undefined)
+    }
+    this._onDidChangeActiveProfile.fire()
+  }
+
+  /**
+   * Get the API key of a profile, falling back to the key stored for its provider
+   * @param profile The profile
+   */
+  public async getApiKey(profile: ProviderProfile): Promise<string | undefined> {
+    return (
+      (await getApiKey(getProfileSecretOwner(profile.name))) ?? (await getApiKey(profile.provider))
+    )
+  }
+
+  /**
+   * Get the options creating the provider of a profile, overriding the provider settings.
+   * A profile without model uses the default model of its provider, not the model setting,
+   * which belongs to the provider of the settings.
+   * @param profile The profile
+   */
+  public async getProviderOptions(profile: ProviderProfile): Promise<ProviderOptions> {
+    return {
+      apiKey: await this.getApiKey(profile),
+      baseUrl: profile.baseUrl || undefined,
+      model:
+        profile.model ||
+        SUPPORTED_PROVIDERS.find(details => details.code === profile.provider)?.defaultModel,
+      resource: profile.azure?.resource,
+      deployment: profile.azure?.deployment,
+      apiVersion: profile.azure?.apiVersion
+    }
+  }
+
+  public dispose(): void {
+    this.configListener.dispose()
+    this._onDidChangeActiveProfile.dispose()
+  }
+}
@@ -0,0 +1,101 @@
+import * as vscode from 'vscode'
+
+/** Key of the Smart Add history in the workspace state */
+const HISTORY_STATE_KEY = 'codyPlusPlus.smartAddHistory'
+
+/** Maximum number of runs kept in the history, older runs are dropped */
+const MAX_HISTORY_ENTRIES = 50
+
+/**
+ * A Smart Add run stored in the history of the workspace
+ */
+export interface SmartAddHistoryEntry {
+  id: string
+  prompt: string
+  /** URI of the folder the files were selected in, as a string */
+  rootUri: string
+  provider: string
+  model: string
+  /** Paths of the added files, relative to the root folder */
+  files: string[]
+  /** When the run finished, in milliseconds since the epoch */
+  timestamp: number
+}
+
+export class SmartAddHistoryService {
+  private static instance: SmartAddHistoryService
+  private _onDidChangeHistory: vscode.EventEmitter<void> = new vscode.EventEmitter<void>()
+  public readonly onDidChangeHistory: vscode.Event<void> = this._onDidChangeHistory.event
+
+  private constructor(private readonly workspaceState: vscode.Memento) {}
+
+  /**
+   * Create the service on activation, storing the history in the workspace state
+   * @param workspaceState The workspace state of the extension context
+   */
+  public static initialize(workspaceState: vscode.Memento): SmartAddHistoryService {
+    SmartAddHistoryService.instance = new SmartAddHistoryService(workspaceState)
+    return SmartAddHistoryService.instance
+  }
+
+  public static getInstance(): SmartAddHistoryService {
+    if (!SmartAddHistoryService.instance) {
+      throw new Error('The Smart Add history is not initialized.')
+    }
+    return SmartAddHistoryService.instance
+  }
+
+  /**
+   * Get the runs of the history, the most recent first
+   */
+  public getEntries(): SmartAddHistoryEntry[] {
+    return this.workspaceState.get<SmartAddHistoryEntry[]>(HISTORY_STATE_KEY, [])
+  }
+
+  public getEntry(id: string): SmartAddHistoryEntry | undefined {
+    return this.getEntries().find(entry => entry.id === id)
+  }
+
+  /**
+   * Record a finished Smart Add run
+   * @param run The run, without its id and timestamp
+   * @returns The stored entry
+   */
+  public async addEntry(
+    run: Omit<SmartAddHistoryEntry, 'id' | 'timestamp'>
+  ): Promise<SmartAddHistoryEntry> {
+    const timestamp = Date.now()
+    const entry = {
+      ...run,
+      id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp
+    }
+    await this.saveEntries([entry, ...this.getEntries()].slice(0, MAX_HISTORY_ENTRIES))
+    return entry
+  }
+
+  /**
+   * Replace the files of a run, after its selection was refined
+   * @param id The id of the run
+   * @param files Paths of the added files, relative to the root folder
+   */
+  public async updateFiles(id: string, files: string[]) {
+    const entries = this.getEntries()
+    if (entries.some(entry => entry.id === id)) {
+      await this.saveEntries(entries.map(entry => (entry.id === id ? { ...entry, files } : entry)))
+    }
+  }
+
+  public async removeEntry(id: string) {
+    await this.saveEntries(this.getEntries().filter(entry => entry.id !== id))
+  }
+
+  public async clear() {
+    await this.saveEntries([])
+  }
+
+  private async saveEntries(entries: SmartAddHistoryEntry[]) {
+    await this.workspaceState.update(HISTORY_STATE_KEY, entries)
+    this._onDidChangeHistory.fire()
+  }
+}
@@ -2,6 +2,7 @@ import assert from 'assert'
 import * as sinon from 'sinon'
 import * as vscode from 'vscode'
 import { CONFIG_KEYS, SUPPORTED_PROVIDER_CODES } from '../../core/llm/constants'
+import * as secrets from '../../core/llm/secrets'
 import * as workspaceConfig from '../workspace-config'
 import {
   updateApiKeyConfig,
@@ -15,6 +16,8 @@ suite('Workspace Config Utilities', () => {
   let sandbox: sinon.SinonSandbox
   let getConfigurationStub: sinon.SinonStub
   let configStub: { get: sinon.SinonStub; update: sinon.SinonStub }
+  let getApiKeyStub: sinon.SinonStub
+  let storeApiKeyStub: sinon.SinonStub
 
   setup(() => {
     sandbox = sinon.createSandbox()
@@ -26,6 +29,10 @@ suite('Workspace Config Utilities', () => {
 
     getConfigurationStub = sandbox.stub(vscode.workspace, 'getConfiguration')
     getConfigurationStub.withArgs('codyPlusPlus').returns(configStub)
+
+    // API keys are kept in the secret storage
+    getApiKeyStub = sandbox.stub(secrets, 'getApiKey').resolves(undefined)
+    storeApiKeyStub = sandbox.stub(secrets, 'storeApiKey').resolves()
   })
 
   teardown(() => {
@@ -44,15 +51,15 @@ suite('Workspace Config Utilities', () => {
       assert.ok(configStub.get.calledWith(CONFIG_KEYS.PROVIDER))
     })
 
-    test('should get API key configuration when called', async () => {
+    test('should get the API key of the configured provider from the secret storage', async () => {
       const expectedApiKey = 'test-api-key'
-      configStub.get.withArgs(CONFIG_KEYS.API_KEY).returns(expectedApiKey)
+      configStub.get.withArgs(CONFIG_KEYS.PROVIDER).returns('gemini')
+      getApiKeyStub.withArgs('gemini').resolves(expectedApiKey)
 
       const result = await workspaceConfig.getApiKeyConfig()
 
       assert.strictEqual(result, expectedApiKey)
-      assert.ok(getConfigurationStub.calledWith('codyPlusPlus'))
-      assert.ok(configStub.get.calledWith(CONFIG_KEYS.API_KEY))
+      assert.strictEqual(configStub.get.calledWith(CONFIG_KEYS.API_KEY), false)
     })
 
     test('should get base URL configuration when called', async () => {
@@ -88,13 +95,13 @@ suite('Workspace Config Utilities', () => {
       assert.ok(configStub.update.calledWith(CONFIG_KEYS.PROVIDER, providerToSet, true))
     })
 
-    test('should update API key configuration with provided value', async () => {
+    test('should store the API key of a provider in the secret storage', async () => {
       const apiKeyToSet = 'new-api-key'
 
-      await updateApiKeyConfig(apiKeyToSet)
+      await updateApiKeyConfig(apiKeyToSet, 'anthropic')
 
-      assert.ok(getConfigurationStub.calledWith('codyPlusPlus'))
-      assert.ok(configStub.update.calledWith(CONFIG_KEYS.API_KEY, apiKeyToSet, true))
+      assert.ok(storeApiKeyStub.calledOnceWith('anthropic', apiKeyToSet))
+      assert.strictEqual(configStub.update.called, false)
     })
 
     test('should update base URL for OpenAI-compatible provider', async () => {
@@ -106,8 +113,21 @@ suite('Workspace Config Utilities', () => {
       assert.ok(configStub.update.calledWith(CONFIG_KEYS.OPENAI_BASE_URL, baseUrlToSet, true))
     })
 
+    test('should update the Anthropic base URL in its own setting', async () => {
+      await updateBaseUrlConfig('anthropic', 'https://proxy.example.com/v1')
+
+      assert.ok(
+        configStub.update.calledWith(
+          CONFIG_KEYS.ANTHROPIC_BASE_URL,
+          'https://proxy.example.com/v1',
+          true
+        )
+      )
+      assert.ok(configStub.update.calledWith(CONFIG_KEYS.OPENAI_BASE_URL, undefined, true))
+    })
+
     test('should clear base URL for non-OpenAI-compatible provider', async () => {
-      await updateBaseUrlConfig('anthropic', 'https://should-be-ignored.com')
+      await updateBaseUrlConfig('openai', 'https://should-be-ignored.com')
 
       assert.ok(getConfigurationStub.calledWith('codyPlusPlus'))
       assert.ok(configStub.update.calledWith(CONFIG_KEYS.OPENAI_BASE_URL, undefined, true))
@@ -127,7 +147,7 @@ suite('Workspace Config Utilities', () => {
     test('should return true when all required configurations are set for standard provider', async () => {
       // Configure the underlying config getter stub
       configStub.get.withArgs(CONFIG_KEYS.PROVIDER).returns('anthropic' as SUPPORTED_PROVIDER_CODES)
-      configStub.get.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyStub.resolves('test-api-key')
       configStub.get.withArgs(CONFIG_KEYS.MODEL).returns('claude-2')
 
       const result = await verifyLLMProviderConfig() // Call the actual function
@@ -140,7 +160,7 @@ suite('Workspace Config Utilities', () => {
       configStub.get
         .withArgs(CONFIG_KEYS.PROVIDER)
         .returns('openai-compatible' as SUPPORTED_PROVIDER_CODES)
-      configStub.get.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyStub.resolves('test-api-key')
       configStub.get.withArgs(CONFIG_KEYS.MODEL).returns('gpt-4')
       configStub.get.withArgs(CONFIG_KEYS.OPENAI_BASE_URL).returns('https://api.example.com')
 
@@ -152,7 +172,7 @@ suite('Workspace Config Utilities', () => {
     test('should return false when provider configuration is missing', async () => {
       // Configure the underlying config getter stub
       configStub.get.withArgs(CONFIG_KEYS.PROVIDER).returns(undefined)
-      configStub.get.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key') // Still need to define others
+      getApiKeyStub.resolves('test-api-key') // Still need to define others
       configStub.get.withArgs(CONFIG_KEYS.MODEL).returns('gpt-4')
 
       const result = await verifyLLMProviderConfig()
@@ -163,7 +183,7 @@ suite('Workspace Config Utilities', () => {
     test('should return false when API key configuration is missing', async () => {
       // Configure the underlying config getter stub
       configStub.get.withArgs(CONFIG_KEYS.PROVIDER).returns('openai' as SUPPORTED_PROVIDER_CODES)
-      configStub.get.withArgs(CONFIG_KEYS.API_KEY).returns(undefined)
+      getApiKeyStub.resolves(undefined)
       configStub.get.withArgs(CONFIG_KEYS.MODEL).returns('gpt-4')
 
       const result = await verifyLLMProviderConfig()
@@ -174,7 +194,7 @@ suite('Workspace Config Utilities', () => {
     test('should return false when model configuration is missing', async () => {
       // Configure the underlying config getter stub
       configStub.get.withArgs(CONFIG_KEYS.PROVIDER).returns('openai' as SUPPORTED_PROVIDER_CODES)
-      configStub.get.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyStub.resolves('test-api-key')
       configStub.get.withArgs(CONFIG_KEYS.MODEL).returns(undefined)
 
       const result = await verifyLLMProviderConfig()
@@ -187,7 +207,7 @@ suite('Workspace Config Utilities', () => {
       configStub.get
         .withArgs(CONFIG_KEYS.PROVIDER)
         .returns('openai-compatible' as SUPPORTED_PROVIDER_CODES)
-      configStub.get.withArgs(CONFIG_KEYS.API_KEY).returns('test-api-key')
+      getApiKeyStub.resolves('test-api-key')
       configStub.get.withArgs(CONFIG_KEYS.MODEL).returns('gpt-4')
       configStub.get.withArgs(CONFIG_KEYS.OPENAI_BASE_URL).returns(undefined)
 
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode'
-import { CONFIG_KEYS, SUPPORTED_PROVIDER_CODES } from '../core/llm/constants'
+import { CONFIG_KEYS, SUPPORTED_PROVIDERS, SUPPORTED_PROVIDER_CODES } from '../core/llm/constants'
+import { getApiKey, storeApiKey } from '../core/llm/secrets'
 
 export async function getProviderConfig(): Promise<SUPPORTED_PROVIDER_CODES | undefined> {
   return vscode.workspace
@@ -7,8 +8,13 @@ export async function getProviderConfig(): Promise<SUPPORTED_PROVIDER_CODES | un
     .get<SUPPORTED_PROVIDER_CODES>(CONFIG_KEYS.PROVIDER)
 }
 
-export async function getApiKeyConfig(): Promise<string | undefined> {
-  return vscode.workspace.getConfiguration('codyPlusPlus').get<string>(CONFIG_KEYS.API_KEY)
+/**
+ * Get the API key of a provider from the secret storage
+ * @param provider The provider code, the configured provider when omitted
+ */
+export async function getApiKeyConfig(provider?: string): Promise<string | undefined> {
+  const providerCode = provider ?? (await getProviderConfig())
+  return providerCode ? getApiKey(providerCode) : undefined
 }
 
 export async function getBaseUrlConfig(): Promise<string | undefined> {
@@ -19,6 +25,14 @@ export async function getModelConfig(): Promise<string | undefined> {
   return vscode.workspace.getConfiguration('codyPlusPlus').get<string>(CONFIG_KEYS.MODEL)
 }
 
+/**
+ * Check whether a provider needs an API key, unknown providers are assumed to need one
+ * @param provider The provider code
+ */
+export function providerRequiresApiKey(provider: string | undefined): boolean {
+  return SUPPORTED_PROVIDERS.find(details => details.code === provider)?.requiresApiKey ?? true
+}
+
 /**
  * Updates the provider configuration in user settings
  */
@@ -29,28 +43,66 @@ export async function updateProviderConfig(provider: SUPPORTED_PROVIDER_CODES):
 }
 
 /**
- * Updates the API key configuration in user settings
+ * Stores the API key of a provider in the secret storage, never in the settings
+ * @param apiKey The key
+ * @param provider The provider code, the configured provider when omitted
  */
-export async function updateApiKeyConfig(apiKey: string): Promise<void> {
-  await vscode.workspace.getConfiguration('codyPlusPlus').update(CONFIG_KEYS.API_KEY, apiKey, true)
+export async function updateApiKeyConfig(apiKey: string, provider?: string): Promise<void> {
+  const providerCode = provider ?? (await getProviderConfig())
+  if (!providerCode) {
+    throw new Error('No LLM provider is configured.')
+  }
+  await storeApiKey(providerCode, apiKey)
 }
 
 /**
- * Updates the base URL configuration for OpenAI-compatible providers
+ * Updates the base URL configuration for OpenAI-compatible, Ollama and Anthropic providers
  */
 export async function updateBaseUrlConfig(
   providerCode: string,
   baseUrl: string | undefined
 ): Promise<void> {
-  if (providerCode === 'openai-compatible' && baseUrl !== undefined) {
-    await vscode.workspace
-      .getConfiguration('codyPlusPlus')
-      .update(CONFIG_KEYS.OPENAI_BASE_URL, baseUrl || undefined, true)
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  if (providerCode === 'ollama') {
+    // The Ollama server has its own setting, the OpenAI-compatible URL is cleared
+    await config.update(CONFIG_KEYS.OLLAMA_BASE_URL, baseUrl || undefined, true)
+    await config.update(CONFIG_KEYS.OPENAI_BASE_URL, undefined, true)
+  } else if (providerCode === 'anthropic') {
+    // Anthropic has its own setting too, for proxies and gateways
+    await config.update(CONFIG_KEYS.ANTHROPIC_BASE_URL, baseUrl || undefined, true)
+    await config.update(CONFIG_KEYS.OPENAI_BASE_URL, undefined, true)
+  } else if (providerCode === 'openai-compatible' && baseUrl !== undefined) {
+    await config.update(CONFIG_KEYS.OPENAI_BASE_URL, baseUrl || undefined, true)
   } else {
     // For non-compatible providers, clear the specific openaiBaseUrl setting
-    await vscode.workspace
-      .getConfiguration('codyPlusPlus')
-      .update(CONFIG_KEYS.OPENAI_BASE_URL, undefined, true)
+    await config.update(CONFIG_KEYS.OPENAI_BASE_URL, undefined, true)
+  }
+}
+
+/**
+ * Azure OpenAI settings locating the deployment serving Smart Add
+ */
+export interface AzureOpenAIConfig {
+  resource: string
+  deployment: string
+  apiVersion: string
+}
+
+/**
+ * Updates the Azure OpenAI configuration in user settings, leaving the omitted settings as is
+ */
+export async function updateAzureOpenAIConfig(
+  azureConfig: Partial<AzureOpenAIConfig>
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration('codyPlusPlus')
+  if (azureConfig.resource !== undefined) {
+    await config.update(CONFIG_KEYS.AZURE_OPENAI_RESOURCE, azureConfig.resource, true)
+  }
+  if (azureConfig.deployment !== undefined) {
+    await config.update(CONFIG_KEYS.AZURE_OPENAI_DEPLOYMENT, azureConfig.deployment, true)
+  }
+  if (azureConfig.apiVersion !== undefined) {
+    await config.update(CONFIG_KEYS.AZURE_OPENAI_API_VERSION, azureConfig.apiVersion, true)
   }
 }
 
@@ -68,9 +120,9 @@ export async function verifyLLMProviderConfig(): Promise<boolean> {
     return false
   }
 
-  // Check if API key is set
-  const apiKey = await getApiKeyConfig()
-  if (!apiKey) {
+  // Check if API key is stored, for providers needing one
+  const apiKey = await getApiKeyConfig(provider)
+  if (!apiKey && providerRequiresApiKey(provider)) {
     return false
   }
 
@@ -88,5 +140,16 @@ export async function verifyLLMProviderConfig(): Promise<boolean> {
     }
   }
 
+  // If provider is azure-openai, check if its resource and deployment are set
+  if (provider === 'azure-openai') {
+    const config = vscode.workspace.getConfiguration('codyPlusPlus')
+    if (
+      !config.get<string>(CONFIG_KEYS.AZURE_OPENAI_RESOURCE) ||
+      !config.get<string>(CONFIG_KEYS.AZURE_OPENAI_DEPLOYMENT)
+    ) {
+      return false
+    }
+  }
+
   return true
 }
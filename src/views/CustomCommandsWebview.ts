@@ -13,15 +13,19 @@ export class CustomCommandsWebview extends BaseWebview {
   public static currentPanel: CustomCommandsWebview | undefined
   private customCommandService: CustomCommandService
   private readonly _panel: vscode.WebviewPanel
+  /** Workspace folder whose cody.json the command is saved to */
+  private readonly _folderUri?: string
 
   private constructor(
     panel: vscode.WebviewPanel,
     extensionUri: vscode.Uri,
     extensionMode: vscode.ExtensionMode,
-    initialState?: any
+    initialState?: any,
+    folderUri?: string
   ) {
     super(extensionUri, extensionMode)
     this._panel = panel
+    this._folderUri = folderUri
 
     // Set the webview's initial HTML content
     this._panel.webview.html = this._getHtmlForWebview(
@@ -43,7 +47,8 @@ export class CustomCommandsWebview extends BaseWebview {
   public static createOrShow(
     extensionUri: vscode.Uri,
     extensionMode: vscode.ExtensionMode,
-    initialState?: CreateCustomCommand
+    initialState?: CreateCustomCommand,
+    folderUri?: string
   ) {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
@@ -67,7 +72,8 @@ export class CustomCommandsWebview extends BaseWebview {
       panel,
       extensionUri,
       extensionMode,
-      initialState
+      initialState,
+      folderUri
     )
   }
 
@@ -88,7 +94,7 @@ export class CustomCommandsWebview extends BaseWebview {
     try {
       const parsedCommandData = CreateCommandSchema.parse(message)
       const { id, data } = parsedCommandData
-      await this.customCommandService.addCommand(id, data)
+      await this.customCommandService.addCommand(id, data, this._folderUri)
       vscode.window.showInformationMessage(`Command ${id} created successfully.`)
     } catch (error: any) {
       vscode.window.showErrorMessage(`Failed to create command (${error.message})`)
@@ -99,7 +105,7 @@ export class CustomCommandsWebview extends BaseWebview {
     try {
       const parsedCommandData = UpdateCommandSchema.parse(message)
       const { id, oldId, data } = parsedCommandData
-      await this.customCommandService.updateCommand({ id, oldId, data })
+      await this.customCommandService.updateCommand({ id, oldId, data }, this._folderUri)
       vscode.window.showInformationMessage(`Command ${id} updated successfully.`)
     } catch (error: any) {
       vscode.window.showErrorMessage(`Failed to update command (${error.message})`)
@@ -1,12 +1,16 @@
 import * as vscode from 'vscode'
 import { CODY_COMMAND } from '../constants/cody'
+import { ContextSetService } from '../services/contextSet.service'
 import { CustomCommandService } from '../services/customCommand.service'
+import { SmartAddHistoryService } from '../services/smartAddHistory.service'
 import { BaseWebview } from './BaseWebview'
 
 export class MainWebviewView extends BaseWebview implements vscode.WebviewViewProvider {
   public static readonly viewType = 'mainView'
   private _view?: vscode.WebviewView
   private customCommandService: CustomCommandService
+  private contextSetService: ContextSetService
+  private smartAddHistoryService: SmartAddHistoryService
 
   constructor(extensionUri: vscode.Uri, extensionMode: vscode.ExtensionMode) {
     super(extensionUri, extensionMode)
@@ -15,7 +19,27 @@ export class MainWebviewView extends BaseWebview implements vscode.WebviewViewPr
       if (this._view) {
         this._view.webview.postMessage({
           type: 'refresh',
-          commands: this.customCommandService.getCommands()
+          folders: this.customCommandService.getCommandsByFolder()
+        })
+      }
+    })
+
+    this.contextSetService = ContextSetService.getInstance()
+    this.contextSetService.onDidChangeContextSets(() => {
+      if (this._view) {
+        this._view.webview.postMessage({
+          type: 'refreshContextSets',
+          folders: this.contextSetService.getContextSetsByFolder()
+        })
+      }
+    })
+
+    this.smartAddHistoryService = SmartAddHistoryService.getInstance()
+    this.smartAddHistoryService.onDidChangeHistory(() => {
+      if (this._view) {
+        this._view.webview.postMessage({
+          type: 'refreshSmartAddHistory',
+          entries: this.smartAddHistoryService.getEntries()
         })
       }
     })
@@ -49,20 +73,53 @@ export class MainWebviewView extends BaseWebview implements vscode.WebviewViewPr
         case 'getCommands':
           webviewView.webview.postMessage({
             type: 'refresh',
-            commands: this.customCommandService.getCommands()
+            folders: this.customCommandService.getCommandsByFolder()
           })
           break
         case 'deleteCommand':
-          await this.customCommandService.removeCommand(message.commandId)
+          await this.customCommandService.removeCommand(message.commandId, message.folderUri)
           vscode.window.showInformationMessage(
             `Command "${message.commandId}" deleted successfully.`
           )
           break
         case 'editCommand':
           vscode.commands.executeCommand('cody-plus-plus.editCommand', {
-            commandId: message.commandId
+            commandId: message.commandId,
+            folderUri: message.folderUri
           })
           break
+        case 'getContextSets':
+          webviewView.webview.postMessage({
+            type: 'refreshContextSets',
+            folders: this.contextSetService.getContextSetsByFolder()
+          })
+          break
+        case 'saveContextSet':
+          vscode.commands.executeCommand('cody-plus-plus.saveContextSet')
+          break
+        case 'addContextSet':
+        case 'editContextSet':
+        case 'renameContextSet':
+        case 'deleteContextSet':
+          vscode.commands.executeCommand(`cody-plus-plus.${message.type}`, {
+            name: message.name,
+            folderUri: message.folderUri
+          })
+          break
+        case 'getSmartAddHistory':
+          webviewView.webview.postMessage({
+            type: 'refreshSmartAddHistory',
+            entries: this.smartAddHistoryService.getEntries()
+          })
+          break
+        case 'readdSmartAddRun':
+        case 'rerunSmartAddRun':
+        case 'deleteSmartAddRun':
+          vscode.commands.executeCommand(`cody-plus-plus.${message.type}`, { id: message.id })
+          break
+        case 'clearSmartAddHistory':
+          vscode.commands.executeCommand('cody-plus-plus.clearSmartAddHistory')
+          break
         case 'executeCommand':
           vscode.commands.executeCommand(
             `${CODY_COMMAND.COMMAND.CUSTOM}.${message.commandId}`,
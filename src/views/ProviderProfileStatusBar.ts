@@ -0,0 +1,43 @@
+import * as vscode from 'vscode'
+import { CONFIG_KEYS, SUPPORTED_PROVIDERS } from '../core/llm/constants'
+import { ProviderProfileService } from '../services/providerProfile.service'
+
+/**
+ * Status bar item showing the provider profile used by Smart Add, switching it on click
+ */
+export class ProviderProfileStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem
+  private readonly profileListener: vscode.Disposable
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100)
+    this.item.command = 'cody-plus-plus.switchProviderProfile'
+
+    const profileService = ProviderProfileService.getInstance()
+    this.profileListener = profileService.onDidChangeActiveProfile(() => this.update())
+    this.update()
+    this.item.show()
+  }
+
+  private update(): void {
+    const profile = ProviderProfileService.getInstance().getActiveProfile()
+    if (profile) {
+      this.item.text = `$(sparkle) ${profile.name}`
+      this.item.tooltip = `Cody++ Smart Add: ${profile.name} profile (${profile.model}). Click to switch.`
+      return
+    }
+
+    // Without a profile, show the provider of the settings
+    const provider = vscode.workspace
+      .getConfiguration('codyPlusPlus')
+      .get<string>(CONFIG_KEYS.PROVIDER)
+    const providerName = SUPPORTED_PROVIDERS.find(details => details.code === provider)?.name
+    this.item.text = `$(sparkle) ${providerName ?? 'No provider'}`
+    this.item.tooltip = 'Cody++ Smart Add: provider settings. Click to switch to a profile.'
+  }
+
+  public dispose(): void {
+    this.profileListener.dispose()
+    this.item.dispose()
+  }
+}
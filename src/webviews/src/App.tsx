@@ -1,5 +1,7 @@
 import { CommandForm } from './components/CommandForm'
+import { ContextSets } from './pages/context-sets'
 import { CustomCommands } from './pages/custom-commands'
+import { SmartAddHistory } from './pages/smart-add-history'
 
 function App() {
   const isCommandList = window.isCommandList
@@ -13,6 +15,12 @@ function App() {
         <div className="collapsible-section">
           <CustomCommands />
         </div>
+        <div className="collapsible-section">
+          <ContextSets />
+        </div>
+        <div className="collapsible-section">
+          <SmartAddHistory />
+        </div>
       </div>
     )
   }
@@ -1,14 +1,11 @@
 import { VscodeButton } from '@vscode-elements/react-elements'
 import { Edit, MessageSquare, Play, Plus, Trash } from 'lucide-react'
 import { useEffect, useRef, useState } from 'react'
-import { z } from 'zod'
-import { CustomCommandsSchema } from '../../../services/customCommand.service'
+import type { WorkspaceFolderCommands } from '../../../services/customCommand.service'
 import { postMessage } from '../lib/vscodeApi'
 
-type Commands = z.infer<typeof CustomCommandsSchema>
-
 export function CommandList() {
-  const [commands, setCommands] = useState<Commands>({})
+  const [folders, setFolders] = useState<WorkspaceFolderCommands[]>([])
   const commandListRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -16,7 +13,7 @@ export function CommandList() {
       const message = event.data
       switch (message.type) {
         case 'refresh':
-          setCommands(message.commands)
+          setFolders(message.folders)
           break
       }
     }
@@ -66,12 +63,12 @@ export function CommandList() {
     }
   }, [])
 
-  const handleDelete = (commandId: string) => {
-    postMessage({ type: 'deleteCommand', commandId })
+  const handleDelete = (commandId: string, folderUri: string) => {
+    postMessage({ type: 'deleteCommand', commandId, folderUri })
   }
 
-  const handleEdit = (commandId: string) => {
-    postMessage({ type: 'editCommand', commandId })
+  const handleEdit = (commandId: string, folderUri: string) => {
+    postMessage({ type: 'editCommand', commandId, folderUri })
   }
 
   const handleExecute = (commandId: string) => {
@@ -86,32 +83,45 @@ export function CommandList() {
     postMessage({ type: 'openTutorialVideo' })
   }
 
+  const hasCommands = folders.some(folder => Object.keys(folder.commands).length > 0)
+  // Only show folder headers when the workspace has several folders
+  const showFolderNames = folders.length > 1
+
   return (
     <div className="command-list" ref={commandListRef}>
-      {Object.entries(commands).map(([id, command]) => (
-        <div key={id} className="command-item">
-          <div className="command-header">
-            <span className="command-name">{id}</span>
-            <div className="command-actions">
-              <VscodeButton onClick={() => handleExecute(id)}>
-                <Play size={14} className="icon" />
-              </VscodeButton>
-              <VscodeButton onClick={() => handleEdit(id)}>
-                <Edit size={14} className="icon" />
-              </VscodeButton>
-              <VscodeButton onClick={() => handleDelete(id)}>
-                <Trash size={14} className="icon" />
-              </VscodeButton>
-            </div>
-          </div>
-          {command.description && <div className="command-description">{command.description}</div>}
-          <div className="command-mode">
-            {getIconForMode(command.mode || 'ask')}
-            <span className="mode-text">{command.mode || 'ask'}</span>
+      {folders.map(({ folderUri, folderName, commands }) =>
+        Object.keys(commands).length === 0 ? null : (
+          <div key={folderUri} className="command-folder">
+            {showFolderNames && <div className="command-folder-name">{folderName}</div>}
+            {Object.entries(commands).map(([id, command]) => (
+              <div key={id} className="command-item">
+                <div className="command-header">
+                  <span className="command-name">{id}</span>
+                  <div className="command-actions">
+                    <VscodeButton onClick={() => handleExecute(id)}>
+                      <Play size={14} className="icon" />
+                    </VscodeButton>
+                    <VscodeButton onClick={() => handleEdit(id, folderUri)}>
+                      <Edit size={14} className="icon" />
+                    </VscodeButton>
+                    <VscodeButton onClick={() => handleDelete(id, folderUri)}>
+                      <Trash size={14} className="icon" />
+                    </VscodeButton>
+                  </div>
+                </div>
+                {command.description && (
+                  <div className="command-description">{command.description}</div>
+                )}
+                <div className="command-mode">
+                  {getIconForMode(command.mode || 'ask')}
+                  <span className="mode-text">{command.mode || 'ask'}</span>
+                </div>
+              </div>
+            ))}
           </div>
-        </div>
-      ))}
-      {Object.keys(commands).length === 0 && (
+        )
+      )}
+      {!hasCommands && (
         <div className="no-commands">
           <p>Welcome to Cody++ Custom Commands.</p>
           <p>No custom commands found. Get started by adding your first command.</p>
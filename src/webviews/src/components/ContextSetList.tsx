@@ -0,0 +1,113 @@
+import { VscodeButton } from '@vscode-elements/react-elements'
+import { FileJson, Pencil, Play, Trash } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import type { WorkspaceFolderContextSets } from '../../../services/contextSet.service'
+import { postMessage } from '../lib/vscodeApi'
+
+export function ContextSetList() {
+  const [folders, setFolders] = useState<WorkspaceFolderContextSets[]>([])
+
+  useEffect(() => {
+    const messageHandler = (event: MessageEvent) => {
+      const message = event.data
+      switch (message.type) {
+        case 'refreshContextSets':
+          setFolders(message.folders)
+          break
+      }
+    }
+
+    window.addEventListener('message', messageHandler)
+    postMessage({ type: 'getContextSets' })
+
+    return () => {
+      window.removeEventListener('message', messageHandler)
+    }
+  }, [])
+
+  const handleAction = (
+    type: 'addContextSet' | 'editContextSet' | 'renameContextSet' | 'deleteContextSet',
+    name: string,
+    folderUri: string
+  ) => {
+    postMessage({ type, name, folderUri })
+  }
+
+  const handleSave = () => {
+    postMessage({ type: 'saveContextSet' })
+  }
+
+  const hasContextSets = folders.some(folder => Object.keys(folder.contextSets).length > 0)
+  // Only show folder headers when the workspace has several folders
+  const showFolderNames = folders.length > 1
+
+  return (
+    <div className="command-list">
+      {folders.map(({ folderUri, folderName, contextSets }) =>
+        Object.keys(contextSets).length === 0 ? null : (
+          <div key={folderUri} className="command-folder">
+            {showFolderNames && <div className="command-folder-name">{folderName}</div>}
+            {Object.entries(contextSets).map(([name, contextSet]) => (
+              <div key={name} className="command-item">
+                <div className="command-header">
+                  <span className="command-name">{name}</span>
+                  <div className="command-actions">
+                    <VscodeButton
+                      title="Add to Cody"
+                      onClick={() => handleAction('addContextSet', name, folderUri)}
+                    >
+                      <Play size={14} className="icon" />
+                    </VscodeButton>
+                    <VscodeButton
+                      title="Edit"
+                      onClick={() => handleAction('editContextSet', name, folderUri)}
+                    >
+                      <FileJson size={14} className="icon" />
+                    </VscodeButton>
+                    <VscodeButton
+                      title="Rename"
+                      onClick={() => handleAction('renameContextSet', name, folderUri)}
+                    >
+                      <Pencil size={14} className="icon" />
+                    </VscodeButton>
+                    <VscodeButton
+                      title="Delete"
+                      onClick={() => handleAction('deleteContextSet', name, folderUri)}
+                    >
+                      <Trash size={14} className="icon" />
+                    </VscodeButton>
+                  </div>
+                </div>
+                {contextSet.description && (
+                  <div className="command-description">{contextSet.description}</div>
+                )}
+                <div className="command-mode">
+                  <span className="mode-text">{formatSummary(contextSet)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+      {!hasContextSets && (
+        <div className="no-commands">
+          <p>No context sets yet.</p>
+          <p>
+            Add files to Cody with any add command, then save them as a named set to re-add later.
+          </p>
+        </div>
+      )}
+      <div style={{ marginTop: '0.5rem', display: 'flex', flexDirection: 'column' }}>
+        <VscodeButton onClick={() => handleSave()}>Save Last Added Files as Set</VscodeButton>
+      </div>
+    </div>
+  )
+}
+
+function formatSummary({ files, globs }: { files: string[]; globs: string[] }): string {
+  const parts = [`${files.length} file${files.length !== 1 ? 's' : ''}`]
+  if (globs.length > 0) {
+    parts.push(`${globs.length} glob${globs.length !== 1 ? 's' : ''}`)
+  }
+  return parts.join(', ')
+}
@@ -0,0 +1,89 @@
+import { VscodeButton } from '@vscode-elements/react-elements'
+import { Play, RefreshCw, Trash } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import type { SmartAddHistoryEntry } from '../../../services/smartAddHistory.service'
+import { postMessage } from '../lib/vscodeApi'
+
+export function SmartAddHistoryList() {
+  const [entries, setEntries] = useState<SmartAddHistoryEntry[]>([])
+
+  useEffect(() => {
+    const messageHandler = (event: MessageEvent) => {
+      const message = event.data
+      switch (message.type) {
+        case 'refreshSmartAddHistory':
+          setEntries(message.entries)
+          break
+      }
+    }
+
+    window.addEventListener('message', messageHandler)
+    postMessage({ type: 'getSmartAddHistory' })
+
+    return () => {
+      window.removeEventListener('message', messageHandler)
+    }
+  }, [])
+
+  const handleAction = (
+    type: 'readdSmartAddRun' | 'rerunSmartAddRun' | 'deleteSmartAddRun',
+    id: string
+  ) => {
+    postMessage({ type, id })
+  }
+
+  return (
+    <div className="command-list">
+      {entries.map(entry => (
+        <div key={entry.id} className="command-item">
+          <div className="command-header">
+            <span className="command-name" title={entry.prompt}>
+              {entry.prompt}
+            </span>
+            <div className="command-actions">
+              <VscodeButton
+                title="Add the files again"
+                onClick={() => handleAction('readdSmartAddRun', entry.id)}
+              >
+                <Play size={14} className="icon" />
+              </VscodeButton>
+              <VscodeButton
+                title="Run the prompt again"
+                onClick={() => handleAction('rerunSmartAddRun', entry.id)}
+              >
+                <RefreshCw size={14} className="icon" />
+              </VscodeButton>
+              <VscodeButton
+                title="Delete"
+                onClick={() => handleAction('deleteSmartAddRun', entry.id)}
+              >
+                <Trash size={14} className="icon" />
+              </VscodeButton>
+            </div>
+          </div>
+          <div className="command-mode">
+            <span className="mode-text">{formatSummary(entry)}</span>
+          </div>
+        </div>
+      ))}
+      {entries.length === 0 && (
+        <div className="no-commands">
+          <p>No Smart Add runs yet.</p>
+          <p>Each Smart Add run is kept here to add its files again or run its prompt again.</p>
+        </div>
+      )}
+      {entries.length > 0 && (
+        <div style={{ marginTop: '0.5rem', display: 'flex', flexDirection: 'column' }}>
+          <VscodeButton secondary onClick={() => postMessage({ type: 'clearSmartAddHistory' })}>
+            Clear History
+          </VscodeButton>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function formatSummary({ files, model, timestamp }: SmartAddHistoryEntry): string {
+  const fileCount = `${files.length} file${files.length !== 1 ? 's' : ''}`
+  return `${fileCount} · ${model} · ${new Date(timestamp).toLocaleString()}`
+}
@@ -0,0 +1,12 @@
+import { VscodeCollapsible } from '@vscode-elements/react-elements'
+import { ContextSetList } from '../components/ContextSetList'
+
+export function ContextSets() {
+  return (
+    <VscodeCollapsible title="Context Sets" id="context-sets">
+      <div style={{ minHeight: 0, flex: 1, overflowY: 'auto' }}>
+        <ContextSetList />
+      </div>
+    </VscodeCollapsible>
+  )
+}
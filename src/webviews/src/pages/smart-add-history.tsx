@@ -0,0 +1,12 @@
+import { VscodeCollapsible } from '@vscode-elements/react-elements'
+import { SmartAddHistoryList } from '../components/SmartAddHistoryList'
+
+export function SmartAddHistory() {
+  return (
+    <VscodeCollapsible title="Smart Add History" id="smart-add-history">
+      <div style={{ minHeight: 0, flex: 1, overflowY: 'auto' }}>
+        <SmartAddHistoryList />
+      </div>
+    </VscodeCollapsible>
+  )
+}